@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { app } from 'electron';
+
+import { ensureFolder } from '../utils/fsHelpers.js';
+import { logger } from '../utils/logger.js';
+
+interface AnalysisCacheEntry<T> {
+  size: number;
+  mtime: number;
+  value: T;
+}
+
+interface AnalysisCacheFile<T> {
+  version: number;
+  entries: Record<string, AnalysisCacheEntry<T>>;
+}
+
+/**
+ * Per-file analysis results cached in userData/analysis/<fileName>
+ *
+ * Entries are keyed by path and invalidated when file size or mtime changes.
+ */
+export class AnalysisCache<T> {
+  private entries = new Map<string, AnalysisCacheEntry<T>>();
+  private loadPromise: Promise<void> | null = null;
+  private pending = new Map<string, Promise<T>>();
+
+  constructor(
+    private readonly fileName: string,
+    private readonly version: number,
+    private readonly label: string,
+  ) {}
+
+  /**
+   * Get results for a batch of files: cached if the file is unchanged, otherwise analyze
+   * (files that cannot be read get the fallback value)
+   */
+  async getBatch(
+    filePaths: string[],
+    analyze: (filePath: string) => Promise<T>,
+    fallback: T,
+  ): Promise<Record<string, T>> {
+    await this.ensureLoaded();
+
+    const result: Record<string, T> = {};
+    let hasChanges = false;
+
+    for (const filePath of filePaths) {
+      try {
+        const { value, isNew } = await this.getFileResult(filePath, analyze);
+        result[filePath] = value;
+        hasChanges = hasChanges || isNew;
+      } catch (error) {
+        logger.warn(`Failed to get ${this.label} for ${filePath}`, error);
+        result[filePath] = fallback;
+      }
+    }
+
+    if (hasChanges) {
+      await this.save();
+    }
+    return result;
+  }
+
+  private async getFileResult(
+    filePath: string,
+    analyze: (filePath: string) => Promise<T>,
+  ): Promise<{ value: T; isNew: boolean }> {
+    const stats = await fs.stat(filePath);
+    const mtime = Math.floor(stats.mtimeMs);
+    const cached = this.entries.get(filePath);
+    if (cached && cached.size === stats.size && cached.mtime === mtime) {
+      return { value: cached.value, isNew: false };
+    }
+
+    // Deduplicate concurrent requests for the same file
+    let analysis = this.pending.get(filePath);
+    if (!analysis) {
+      analysis = analyze(filePath).finally(() => this.pending.delete(filePath));
+      this.pending.set(filePath, analysis);
+    }
+    const value = await analysis;
+    this.entries.set(filePath, { size: stats.size, mtime, value });
+    return { value, isNew: true };
+  }
+
+  private getFilePath(): string {
+    return path.join(app.getPath('userData'), 'analysis', this.fileName);
+  }
+
+  /**
+   * Load cache from disk (once)
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const content = await fs.readFile(this.getFilePath(), 'utf8');
+          const data = JSON.parse(content) as AnalysisCacheFile<T>;
+          if (data.version === this.version && data.entries) {
+            this.entries = new Map(Object.entries(data.entries));
+          } else {
+            logger.warn(`${this.label} cache version mismatch, starting with empty cache`);
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            logger.error(`Failed to read ${this.label} cache`, error);
+          }
+        }
+      })();
+    }
+    await this.loadPromise;
+  }
+
+  /**
+   * Persist cache to disk (write to temp file and rename)
+   */
+  private async save(): Promise<void> {
+    const filePath = this.getFilePath();
+    const tempPath = `${filePath}.tmp`;
+    const data: AnalysisCacheFile<T> = {
+      version: this.version,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      await ensureFolder(path.dirname(filePath));
+      await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      logger.error(`Failed to save ${this.label} cache`, error);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Sequential queue for heavy analysis tasks (file decoding)
+ *
+ * Decoding several files at once competes for disk and CPU with playback,
+ * so tasks run strictly one after another.
+ */
+let tail: Promise<unknown> = Promise.resolve();
+
+export function enqueueAnalysis<T>(task: () => Promise<T>): Promise<T> {
+  const result = tail.then(task, task);
+  // Keep the chain alive regardless of task outcome
+  tail = result.catch(() => undefined);
+  return result;
+}
@@ -0,0 +1,164 @@
+import { spawn } from 'child_process';
+
+import * as mm from 'music-metadata';
+
+import { getEncoderPath } from '../export/encoderSettings.js';
+import { ensureCodec, getEncoderError } from '../export/transcoder.js';
+import { logger } from '../utils/logger.js';
+
+import { isWavFile, readWavFile } from './wavReader.js';
+
+// Decoded as 32-bit float PCM: samples are already in range -1..1
+const PCM_CODEC = 'pcm_f32le';
+const BYTES_PER_SAMPLE = 4;
+// Used when the container does not report the format (analysis works on any rate)
+const DEFAULT_SAMPLE_RATE = 44100;
+// Surround files are downmixed: analysis expects mono or stereo
+const MAX_CHANNELS = 2;
+
+export interface DecodedAudioInfo {
+  sampleRate: number;
+  channelCount: number;
+}
+
+/**
+ * Decoder for compressed formats (FFmpeg) is not installed or not chosen in settings
+ *
+ * Analysis results are not cached in this case: the file is analyzed once FFmpeg is available.
+ */
+export class DecoderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecoderUnavailableError';
+  }
+}
+
+/**
+ * Output format for FFmpeg: source sample rate and channel count (up to stereo)
+ */
+async function getDecodedFormat(filePath: string): Promise<DecodedAudioInfo> {
+  try {
+    const { format } = await mm.parseFile(filePath, { skipCovers: true, duration: false });
+    return {
+      sampleRate:
+        format.sampleRate && format.sampleRate > 0 ? format.sampleRate : DEFAULT_SAMPLE_RATE,
+      channelCount: Math.min(MAX_CHANNELS, Math.max(1, format.numberOfChannels ?? MAX_CHANNELS)),
+    };
+  } catch (error) {
+    logger.warn(`Failed to read audio format of ${filePath}`, error);
+    return { sampleRate: DEFAULT_SAMPLE_RATE, channelCount: MAX_CHANNELS };
+  }
+}
+
+/**
+ * Decode file with FFmpeg into planar float chunks
+ */
+async function decodeWithEncoder(
+  filePath: string,
+  onChunk: (channels: Float32Array[], info: DecodedAudioInfo) => void,
+): Promise<DecodedAudioInfo> {
+  const encoderPath = await getEncoderPath();
+  try {
+    await ensureCodec(encoderPath, PCM_CODEC);
+  } catch (error) {
+    throw new DecoderUnavailableError((error as Error).message);
+  }
+
+  const info = await getDecodedFormat(filePath);
+  const frameSize = BYTES_PER_SAMPLE * info.channelCount;
+  const child = spawn(
+    encoderPath,
+    [
+      '-hide_banner',
+      '-nostdin',
+      '-loglevel',
+      'error',
+      '-i',
+      filePath,
+      '-map',
+      '0:a:0',
+      '-f',
+      'f32le',
+      '-c:a',
+      PCM_CODEC,
+      '-ar',
+      String(info.sampleRate),
+      '-ac',
+      String(info.channelCount),
+      'pipe:1',
+    ],
+    { windowsHide: true },
+  );
+  let stderr = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+  exited.catch(() => {});
+
+  let remainder: Buffer = Buffer.alloc(0);
+  try {
+    for await (const chunk of child.stdout as AsyncIterable<Buffer>) {
+      const data: Buffer = remainder.length > 0 ? Buffer.concat([remainder, chunk]) : chunk;
+      const frameCount = Math.floor(data.length / frameSize);
+      remainder = data.subarray(frameCount * frameSize);
+      if (frameCount === 0) {
+        continue;
+      }
+
+      const channels = Array.from(
+        { length: info.channelCount },
+        () => new Float32Array(frameCount),
+      );
+      for (let frame = 0; frame < frameCount; frame++) {
+        for (let channel = 0; channel < info.channelCount; channel++) {
+          channels[channel][frame] = data.readFloatLE(
+            frame * frameSize + channel * BYTES_PER_SAMPLE,
+          );
+        }
+      }
+      onChunk(channels, info);
+    }
+  } catch (error) {
+    child.kill();
+    throw error;
+  }
+
+  const code = await exited;
+  if (code !== 0) {
+    throw getEncoderError(stderr, code);
+  }
+  return info;
+}
+
+/**
+ * Decode audio file chunk by chunk; onChunk receives planar samples in range -1..1
+ *
+ * Uncompressed WAV is read directly, other formats (and WAV codecs the reader
+ * does not support) are decoded with FFmpeg.
+ * @throws DecoderUnavailableError when the file needs FFmpeg and it is not available
+ */
+export async function decodeAudioFile(
+  filePath: string,
+  onChunk: (channels: Float32Array[], info: DecodedAudioInfo) => void,
+): Promise<DecodedAudioInfo> {
+  if (isWavFile(filePath)) {
+    let hasChunks = false;
+    try {
+      return await readWavFile(filePath, (channels, info) => {
+        hasChunks = true;
+        onChunk(channels, info);
+      });
+    } catch (error) {
+      // Partially consumed data cannot be decoded again into the same consumer
+      if (hasChunks) {
+        throw error;
+      }
+      logger.info(`WAV reader cannot decode ${filePath}, using FFmpeg`);
+    }
+  }
+  return await decodeWithEncoder(filePath, onChunk);
+}
@@ -0,0 +1,106 @@
+import * as mm from 'music-metadata';
+
+import { logger } from '../utils/logger.js';
+
+import { AnalysisCache } from './analysisCache.js';
+import { enqueueAnalysis } from './analysisQueue.js';
+import { DecoderUnavailableError, decodeAudioFile } from './audioDecoder.js';
+import { LoudnessMeter } from './loudnessMeter.js';
+
+// On-disk cache format version (2: entries stored as { size, mtime, value };
+// 3: compressed formats are decoded, old "unavailable" entries dropped)
+const LOUDNESS_CACHE_VERSION = 3;
+// ReplayGain 2.0 reference level: gain tags are relative to -18 LUFS
+const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+export type LoudnessSource = 'analysis' | 'replaygain' | 'unavailable';
+
+export interface TrackLoudness {
+  integratedLufs: number | null;
+  peak: number | null; // Linear sample peak (1.0 = 0 dBFS)
+  source: LoudnessSource;
+}
+
+const UNAVAILABLE_LOUDNESS: TrackLoudness = {
+  integratedLufs: null,
+  peak: null,
+  source: 'unavailable',
+};
+
+const loudnessCache = new AnalysisCache<TrackLoudness>(
+  'loudness-cache.json',
+  LOUDNESS_CACHE_VERSION,
+  'loudness',
+);
+
+/**
+ * Parse ReplayGain track tags (if present)
+ */
+async function readReplayGain(filePath: string): Promise<TrackLoudness | null> {
+  const metadata = await mm.parseFile(filePath, { skipCovers: true, duration: false });
+  const gain = metadata.common.replaygain_track_gain;
+  if (!gain || !Number.isFinite(gain.dB)) {
+    return null;
+  }
+
+  const peak = metadata.common.replaygain_track_peak;
+  return {
+    integratedLufs: REPLAYGAIN_REFERENCE_LUFS - gain.dB,
+    peak: peak && Number.isFinite(peak.ratio) ? peak.ratio : null,
+    source: 'replaygain',
+  };
+}
+
+/**
+ * Measure loudness by decoding the file
+ */
+async function measureLoudness(filePath: string): Promise<TrackLoudness | null> {
+  // Meter is created once the format is known
+  let meter = null as LoudnessMeter | null;
+  await decodeAudioFile(filePath, (channels, info) => {
+    meter ??= new LoudnessMeter(info.sampleRate, info.channelCount);
+    meter.push(channels);
+  });
+  if (!meter) {
+    return null;
+  }
+
+  const { integratedLufs, peak } = meter.getResult();
+  return { integratedLufs, peak, source: 'analysis' };
+}
+
+/**
+ * Analyze one file: ReplayGain tags first, then own measurement
+ * @throws DecoderUnavailableError - result is not cached, the file is reported as unavailable
+ */
+async function analyzeFile(filePath: string): Promise<TrackLoudness> {
+  try {
+    const tagged = await readReplayGain(filePath);
+    if (tagged) {
+      return tagged;
+    }
+  } catch (error) {
+    logger.warn(`Failed to read ReplayGain tags for ${filePath}`, error);
+  }
+
+  try {
+    const measured = await enqueueAnalysis(() => measureLoudness(filePath));
+    if (measured) {
+      return measured;
+    }
+  } catch (error) {
+    if (error instanceof DecoderUnavailableError) {
+      throw error;
+    }
+    logger.warn(`Failed to measure loudness for ${filePath}`, error);
+  }
+
+  return UNAVAILABLE_LOUDNESS;
+}
+
+/**
+ * Get loudness for a batch of files (missing files are reported as unavailable)
+ */
+export async function getLoudness(filePaths: string[]): Promise<Record<string, TrackLoudness>> {
+  return await loudnessCache.getBatch(filePaths, analyzeFile, UNAVAILABLE_LOUDNESS);
+}
@@ -0,0 +1,197 @@
+/**
+ * Integrated loudness meter (ITU-R BS.1770 / EBU R128)
+ *
+ * Samples are pushed in chunks; K-weighting filter state is kept between chunks,
+ * so files can be measured without decoding them into memory at once.
+ */
+
+export interface LoudnessMeasurement {
+  integratedLufs: number | null; // null for silence (all blocks below absolute gate)
+  peak: number; // Sample peak, linear (1.0 = 0 dBFS)
+}
+
+// Gating block 400 ms with 75% overlap = 100 ms steps
+const SUB_BLOCK_SECONDS = 0.1;
+const SUB_BLOCKS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const LOUDNESS_OFFSET = -0.691;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting filter coefficients for arbitrary sample rate
+ * (high shelf "pre-filter" followed by RLB high-pass)
+ */
+function createKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf
+  let f0 = 1681.974450955533;
+  const gainDb = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gainDb / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  // Stage 2: high-pass
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Channel weights: surround channels of 5.1 get +1.5 dB, LFE is excluded
+ */
+function getChannelWeights(channelCount: number): number[] {
+  return Array.from({ length: channelCount }, (_, index) => {
+    if (channelCount === 6) {
+      if (index === 3) {
+        return 0;
+      }
+      if (index >= 4) {
+        return 1.41;
+      }
+    }
+    return 1;
+  });
+}
+
+export class LoudnessMeter {
+  private readonly filters: [Biquad, Biquad];
+  private readonly weights: number[];
+  private readonly subBlockSize: number;
+  // Filter state per channel: [x1, x2, y1, y2] for each stage
+  private readonly state: Float64Array[];
+  private readonly subBlockEnergy: Float64Array;
+  private subBlockFill = 0;
+  private readonly recentSubBlocks: number[] = [];
+  private readonly blockEnergies: number[] = [];
+  private peak = 0;
+
+  constructor(sampleRate: number, channelCount: number) {
+    if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+      throw new Error(`Invalid sample rate: ${sampleRate}`);
+    }
+    if (channelCount <= 0) {
+      throw new Error(`Invalid channel count: ${channelCount}`);
+    }
+    this.filters = createKWeightingFilters(sampleRate);
+    this.weights = getChannelWeights(channelCount);
+    this.subBlockSize = Math.max(1, Math.round(sampleRate * SUB_BLOCK_SECONDS));
+    this.state = Array.from({ length: channelCount }, () => new Float64Array(8));
+    this.subBlockEnergy = new Float64Array(channelCount);
+  }
+
+  /**
+   * Push a chunk of planar samples (one array per channel, equal lengths)
+   */
+  push(channels: Float32Array[]): void {
+    const frameCount = channels[0]?.length ?? 0;
+    const [shelf, highPass] = this.filters;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      for (let channel = 0; channel < this.weights.length; channel++) {
+        const sample = channels[channel][frame];
+        const absSample = Math.abs(sample);
+        if (absSample > this.peak) {
+          this.peak = absSample;
+        }
+
+        const s = this.state[channel];
+        // Stage 1
+        const y1 =
+          shelf.b0 * sample + shelf.b1 * s[0] + shelf.b2 * s[1] - shelf.a1 * s[2] - shelf.a2 * s[3];
+        s[1] = s[0];
+        s[0] = sample;
+        s[3] = s[2];
+        s[2] = y1;
+        // Stage 2
+        const y2 =
+          highPass.b0 * y1 +
+          highPass.b1 * s[4] +
+          highPass.b2 * s[5] -
+          highPass.a1 * s[6] -
+          highPass.a2 * s[7];
+        s[5] = s[4];
+        s[4] = y1;
+        s[7] = s[6];
+        s[6] = y2;
+
+        this.subBlockEnergy[channel] += y2 * y2;
+      }
+
+      this.subBlockFill++;
+      if (this.subBlockFill === this.subBlockSize) {
+        this.finishSubBlock();
+      }
+    }
+  }
+
+  private finishSubBlock(): void {
+    let energy = 0;
+    for (let channel = 0; channel < this.weights.length; channel++) {
+      energy += (this.weights[channel] * this.subBlockEnergy[channel]) / this.subBlockSize;
+      this.subBlockEnergy[channel] = 0;
+    }
+    this.subBlockFill = 0;
+
+    this.recentSubBlocks.push(energy);
+    if (this.recentSubBlocks.length > SUB_BLOCKS_PER_BLOCK) {
+      this.recentSubBlocks.shift();
+    }
+    if (this.recentSubBlocks.length === SUB_BLOCKS_PER_BLOCK) {
+      const blockEnergy =
+        this.recentSubBlocks.reduce((sum, value) => sum + value, 0) / SUB_BLOCKS_PER_BLOCK;
+      this.blockEnergies.push(blockEnergy);
+    }
+  }
+
+  /**
+   * Integrated loudness with absolute and relative gating
+   */
+  getResult(): LoudnessMeasurement {
+    const toLoudness = (energy: number) => LOUDNESS_OFFSET + 10 * Math.log10(energy);
+
+    const aboveAbsolute = this.blockEnergies.filter(
+      (energy) => energy > 0 && toLoudness(energy) > ABSOLUTE_GATE_LUFS,
+    );
+    if (aboveAbsolute.length === 0) {
+      return { integratedLufs: null, peak: this.peak };
+    }
+
+    const meanAbsolute =
+      aboveAbsolute.reduce((sum, value) => sum + value, 0) / aboveAbsolute.length;
+    const relativeGate = toLoudness(meanAbsolute) + RELATIVE_GATE_LU;
+    const aboveRelative = aboveAbsolute.filter((energy) => toLoudness(energy) > relativeGate);
+    const meanRelative =
+      aboveRelative.reduce((sum, value) => sum + value, 0) / aboveRelative.length;
+
+    return {
+      integratedLufs: toLoudness(meanRelative),
+      peak: this.peak,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { logger } from '../utils/logger.js';
+
+import { AnalysisCache } from './analysisCache.js';
+import { enqueueAnalysis } from './analysisQueue.js';
+import { DecoderUnavailableError, decodeAudioFile } from './audioDecoder.js';
+import { SilenceDetector } from './silenceDetector.js';
+
+// On-disk cache format version (2: compressed formats are decoded, old "unavailable" entries dropped)
+const SILENCE_CACHE_VERSION = 2;
+// Blocks quieter than this (RMS, dBFS) are treated as silence
+const SILENCE_THRESHOLD_DB = -50;
+// Cue points are placed this much before/after audible part so attacks and tails are kept
+const SILENCE_MARGIN_SECONDS = 0.05;
+// Shorter silence is not worth a cue point
+const MIN_SILENCE_SECONDS = 0.1;
+
+export type SilenceSource = 'analysis' | 'unavailable';
+
+export interface TrackSilence {
+  leadingSilence: number | null; // Suggested cue in, seconds from start
+  trailingSilence: number | null; // Suggested cue out, seconds before end
+  source: SilenceSource;
+}
+
+const UNAVAILABLE_SILENCE: TrackSilence = {
+  leadingSilence: null,
+  trailingSilence: null,
+  source: 'unavailable',
+};
+
+const silenceCache = new AnalysisCache<TrackSilence>(
+  'silence-cache.json',
+  SILENCE_CACHE_VERSION,
+  'silence',
+);
+
+/**
+ * Convert measured silence to suggested cue offset (margin kept, short silence ignored)
+ */
+function toCueOffset(silence: number): number {
+  const offset = silence - SILENCE_MARGIN_SECONDS;
+  return offset >= MIN_SILENCE_SECONDS ? Math.round(offset * 100) / 100 : 0;
+}
+
+/**
+ * Detect leading/trailing silence by decoding the file
+ */
+async function detectSilence(filePath: string): Promise<TrackSilence | null> {
+  // Detector is created once the format is known
+  let detector = null as SilenceDetector | null;
+  await decodeAudioFile(filePath, (channels, info) => {
+    detector ??= new SilenceDetector(info.sampleRate, info.channelCount, SILENCE_THRESHOLD_DB);
+    detector.push(channels);
+  });
+  if (!detector) {
+    return null;
+  }
+
+  const { leadingSilence, trailingSilence, isSilent } = detector.getResult();
+  if (isSilent) {
+    // Nothing to trim to: cue points would cut the whole file
+    return UNAVAILABLE_SILENCE;
+  }
+  return {
+    leadingSilence: toCueOffset(leadingSilence),
+    trailingSilence: toCueOffset(trailingSilence),
+    source: 'analysis',
+  };
+}
+
+/**
+ * @throws DecoderUnavailableError - result is not cached, the file is reported as unavailable
+ */
+async function analyzeFile(filePath: string): Promise<TrackSilence> {
+  try {
+    const detected = await enqueueAnalysis(() => detectSilence(filePath));
+    if (detected) {
+      return detected;
+    }
+  } catch (error) {
+    if (error instanceof DecoderUnavailableError) {
+      throw error;
+    }
+    logger.warn(`Failed to detect silence for ${filePath}`, error);
+  }
+  return UNAVAILABLE_SILENCE;
+}
+
+/**
+ * Get suggested silence trimming for a batch of files (missing files are reported as unavailable)
+ */
+export async function getSilence(filePaths: string[]): Promise<Record<string, TrackSilence>> {
+  return await silenceCache.getBatch(filePaths, analyzeFile, UNAVAILABLE_SILENCE);
+}
@@ -0,0 +1,94 @@
+/**
+ * Leading/trailing silence detector
+ *
+ * Signal is split into short blocks; a block is silent when its RMS (loudest channel)
+ * is below the threshold. Silence is measured up to the first and after the last
+ * non-silent block.
+ */
+
+export interface SilenceMeasurement {
+  leadingSilence: number; // Seconds before first audible block
+  trailingSilence: number; // Seconds after last audible block
+  duration: number; // Total duration in seconds
+  isSilent: boolean; // No audible blocks at all
+}
+
+const BLOCK_SECONDS = 0.01;
+
+export class SilenceDetector {
+  private readonly blockLength: number;
+  private readonly thresholdPower: number;
+  private readonly blockPower: Float64Array;
+  private blockPosition = 0;
+  private blockIndex = 0;
+  private firstAudibleBlock: number | null = null;
+  private lastAudibleBlock: number | null = null;
+  private frameCount = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    channelCount: number,
+    thresholdDb: number,
+  ) {
+    this.blockLength = Math.max(1, Math.round(sampleRate * BLOCK_SECONDS));
+    this.thresholdPower = Math.pow(10, thresholdDb / 10);
+    this.blockPower = new Float64Array(channelCount);
+  }
+
+  /**
+   * Push planar samples (one Float32Array per channel)
+   */
+  push(channels: Float32Array[]): void {
+    const frameCount = channels[0]?.length ?? 0;
+    const channelCount = Math.min(this.blockPower.length, channels.length);
+    for (let i = 0; i < frameCount; i++) {
+      for (let channel = 0; channel < channelCount; channel++) {
+        const sample = channels[channel][i];
+        this.blockPower[channel] += sample * sample;
+      }
+      this.blockPosition++;
+      if (this.blockPosition === this.blockLength) {
+        this.finishBlock();
+      }
+    }
+    this.frameCount += frameCount;
+  }
+
+  getResult(): SilenceMeasurement {
+    // Partial last block is checked too
+    if (this.blockPosition > 0) {
+      this.finishBlock();
+    }
+
+    const duration = this.frameCount / this.sampleRate;
+    if (this.firstAudibleBlock === null || this.lastAudibleBlock === null) {
+      return { leadingSilence: duration, trailingSilence: 0, duration, isSilent: true };
+    }
+
+    const audibleStart = (this.firstAudibleBlock * this.blockLength) / this.sampleRate;
+    const audibleEnd = Math.min(
+      duration,
+      ((this.lastAudibleBlock + 1) * this.blockLength) / this.sampleRate,
+    );
+    return {
+      leadingSilence: audibleStart,
+      trailingSilence: Math.max(0, duration - audibleEnd),
+      duration,
+      isSilent: false,
+    };
+  }
+
+  private finishBlock(): void {
+    let maxPower = 0;
+    for (let channel = 0; channel < this.blockPower.length; channel++) {
+      maxPower = Math.max(maxPower, this.blockPower[channel] / this.blockPosition);
+      this.blockPower[channel] = 0;
+    }
+    if (maxPower >= this.thresholdPower) {
+      this.firstAudibleBlock ??= this.blockIndex;
+      this.lastAudibleBlock = this.blockIndex;
+    }
+    this.blockIndex++;
+    this.blockPosition = 0;
+  }
+}
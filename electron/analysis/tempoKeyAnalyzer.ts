@@ -0,0 +1,92 @@
+import * as mm from 'music-metadata';
+
+import { logger } from '../utils/logger.js';
+
+import { AnalysisCache } from './analysisCache.js';
+import { enqueueAnalysis } from './analysisQueue.js';
+import { DecoderUnavailableError, decodeAudioFile } from './audioDecoder.js';
+import { TempoKeyDetector, TempoKeyEstimate } from './tempoKeyDetector.js';
+
+// On-disk cache format version (2: compressed formats are decoded, old "unavailable" entries dropped)
+const TEMPO_KEY_CACHE_VERSION = 2;
+
+export type TempoKeySource = 'analysis' | 'tags' | 'unavailable';
+
+export interface TrackTempoKey {
+  bpm: number | null;
+  key: string | null;
+  source: TempoKeySource; // 'analysis' if any value was estimated from audio
+}
+
+const UNAVAILABLE_TEMPO_KEY: TrackTempoKey = { bpm: null, key: null, source: 'unavailable' };
+
+const tempoKeyCache = new AnalysisCache<TrackTempoKey>(
+  'tempo-key-cache.json',
+  TEMPO_KEY_CACHE_VERSION,
+  'tempo/key',
+);
+
+/**
+ * Read TBPM/TKEY (and equivalent) tags
+ */
+async function readTempoKeyTags(filePath: string): Promise<TempoKeyEstimate> {
+  const metadata = await mm.parseFile(filePath, { skipCovers: true, duration: false });
+  const { bpm, key } = metadata.common;
+  return {
+    bpm: bpm !== undefined && Number.isFinite(bpm) && bpm > 0 ? Math.round(bpm * 10) / 10 : null,
+    key: key?.trim() || null,
+  };
+}
+
+/**
+ * Estimate tempo and key by decoding the file
+ */
+async function detectTempoKey(filePath: string): Promise<TempoKeyEstimate | null> {
+  // Detector is created once the format is known
+  let detector = null as TempoKeyDetector | null;
+  await decodeAudioFile(filePath, (channels, info) => {
+    detector ??= new TempoKeyDetector(info.sampleRate, info.channelCount);
+    detector.push(channels);
+  });
+  return detector ? detector.getResult() : null;
+}
+
+/**
+ * Analyze one file: tags first, missing values are estimated from audio
+ * @throws DecoderUnavailableError when there are no tags to fall back to (result is not cached)
+ */
+async function analyzeFile(filePath: string): Promise<TrackTempoKey> {
+  let tagged: TempoKeyEstimate = { bpm: null, key: null };
+  try {
+    tagged = await readTempoKeyTags(filePath);
+    if (tagged.bpm !== null && tagged.key !== null) {
+      return { ...tagged, source: 'tags' };
+    }
+  } catch (error) {
+    logger.warn(`Failed to read tempo/key tags for ${filePath}`, error);
+  }
+
+  let detected: TempoKeyEstimate | null = null;
+  try {
+    detected = await enqueueAnalysis(() => detectTempoKey(filePath));
+  } catch (error) {
+    if (error instanceof DecoderUnavailableError && tagged.bpm === null && tagged.key === null) {
+      throw error;
+    }
+    logger.warn(`Failed to detect tempo/key for ${filePath}`, error);
+  }
+
+  const bpm = tagged.bpm ?? detected?.bpm ?? null;
+  const key = tagged.key ?? detected?.key ?? null;
+  if (bpm === null && key === null) {
+    return UNAVAILABLE_TEMPO_KEY;
+  }
+  return { bpm, key, source: detected ? 'analysis' : 'tags' };
+}
+
+/**
+ * Get tempo and key for a batch of files (missing files are reported as unavailable)
+ */
+export async function getTempoKey(filePaths: string[]): Promise<Record<string, TrackTempoKey>> {
+  return await tempoKeyCache.getBatch(filePaths, analyzeFile, UNAVAILABLE_TEMPO_KEY);
+}
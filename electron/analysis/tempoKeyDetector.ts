@@ -0,0 +1,260 @@
+/**
+ * Tempo (BPM) and musical key estimator
+ *
+ * Samples are pushed in chunks and reduced on the fly to a mono signal at ~11 kHz:
+ * - tempo: autocorrelation of the energy onset envelope (5 ms hops, 40 ms window)
+ * - key: chroma profile (Goertzel filters at semitone pitches) matched against
+ *   Krumhansl-Kessler major/minor key profiles
+ */
+
+export interface TempoKeyEstimate {
+  bpm: number | null; // null if the signal is too short or has no pulse
+  key: string | null; // "C", "F#", "Am", ... (null for silence)
+}
+
+// Analysis sample rate after decimation
+const TARGET_SAMPLE_RATE = 11025;
+
+// Onset envelope: hop length and energy window (in hops)
+const HOP_SECONDS = 0.005;
+const ENERGY_WINDOW_HOPS = 8;
+const ENERGY_FLOOR = 1e-10;
+
+// Tempo search range and preferred tempo: octave ambiguity (e.g. 70 vs 140) is
+// resolved towards typical dance music tempo
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 125;
+const TEMPO_PRIOR_OCTAVES = 1;
+const MIN_TEMPO_SECONDS = 10;
+
+// Chroma: frame length, analyze every n-th frame, MIDI pitch range (C3..B6)
+const KEY_FRAME_LENGTH = 4096;
+const KEY_FRAME_STRIDE = 2;
+const KEY_MIN_PITCH = 48;
+const KEY_MAX_PITCH = 95;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles (tonic first)
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * Pearson correlation of chroma with key profile rotated to tonic
+ */
+function correlateWithProfile(chroma: number[], profile: number[], tonic: number): number {
+  const chromaMean = chroma.reduce((sum, value) => sum + value, 0) / 12;
+  const profileMean = profile.reduce((sum, value) => sum + value, 0) / 12;
+  let covariance = 0;
+  let chromaVariance = 0;
+  let profileVariance = 0;
+  for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+    const x = chroma[pitchClass] - chromaMean;
+    const y = profile[(pitchClass - tonic + 12) % 12] - profileMean;
+    covariance += x * y;
+    chromaVariance += x * x;
+    profileVariance += y * y;
+  }
+  const denominator = Math.sqrt(chromaVariance * profileVariance);
+  return denominator > 0 ? covariance / denominator : 0;
+}
+
+export class TempoKeyDetector {
+  private readonly decimation: number;
+  private readonly analysisRate: number;
+
+  // Decimation state
+  private decimationSum = 0;
+  private decimationCount = 0;
+
+  // Onset envelope state
+  private readonly hopLength: number;
+  private hopEnergy = 0;
+  private hopPosition = 0;
+  private recentHopEnergies: number[] = [];
+  private previousLogEnergy: number | null = null;
+  private onsetEnvelope: number[] = [];
+
+  // Chroma state
+  private readonly window: Float32Array;
+  private readonly pitchCoefficients: { pitchClass: number; coefficient: number }[];
+  private readonly frame = new Float32Array(KEY_FRAME_LENGTH);
+  private framePosition = 0;
+  private frameIndex = 0;
+  private readonly chroma = new Array<number>(12).fill(0);
+
+  constructor(
+    sampleRate: number,
+    private readonly channelCount: number,
+  ) {
+    this.decimation = Math.max(1, Math.floor(sampleRate / TARGET_SAMPLE_RATE));
+    this.analysisRate = sampleRate / this.decimation;
+    this.hopLength = Math.max(1, Math.round(this.analysisRate * HOP_SECONDS));
+
+    this.window = new Float32Array(KEY_FRAME_LENGTH);
+    for (let i = 0; i < KEY_FRAME_LENGTH; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (KEY_FRAME_LENGTH - 1));
+    }
+
+    this.pitchCoefficients = [];
+    for (let pitch = KEY_MIN_PITCH; pitch <= KEY_MAX_PITCH; pitch++) {
+      const frequency = 440 * Math.pow(2, (pitch - 69) / 12);
+      this.pitchCoefficients.push({
+        pitchClass: pitch % 12,
+        coefficient: 2 * Math.cos((2 * Math.PI * frequency) / this.analysisRate),
+      });
+    }
+  }
+
+  /**
+   * Push planar samples (one Float32Array per channel)
+   */
+  push(channels: Float32Array[]): void {
+    const frameCount = channels[0]?.length ?? 0;
+    const channelCount = Math.min(this.channelCount, channels.length);
+    for (let i = 0; i < frameCount; i++) {
+      let mono = 0;
+      for (let channel = 0; channel < channelCount; channel++) {
+        mono += channels[channel][i];
+      }
+      this.decimationSum += mono / channelCount;
+      this.decimationCount++;
+
+      if (this.decimationCount === this.decimation) {
+        this.processSample(this.decimationSum / this.decimation);
+        this.decimationSum = 0;
+        this.decimationCount = 0;
+      }
+    }
+  }
+
+  getResult(): TempoKeyEstimate {
+    return { bpm: this.estimateTempo(), key: this.estimateKey() };
+  }
+
+  private processSample(sample: number): void {
+    // Onset envelope: positive change of log energy over the last few hops
+    this.hopEnergy += sample * sample;
+    this.hopPosition++;
+    if (this.hopPosition === this.hopLength) {
+      this.recentHopEnergies.push(this.hopEnergy);
+      if (this.recentHopEnergies.length > ENERGY_WINDOW_HOPS) {
+        this.recentHopEnergies.shift();
+      }
+      const energy = this.recentHopEnergies.reduce((sum, value) => sum + value, 0);
+      const logEnergy = Math.log(energy + ENERGY_FLOOR);
+      if (this.previousLogEnergy !== null) {
+        this.onsetEnvelope.push(Math.max(0, logEnergy - this.previousLogEnergy));
+      }
+      this.previousLogEnergy = logEnergy;
+      this.hopEnergy = 0;
+      this.hopPosition = 0;
+    }
+
+    // Chroma: analyze every KEY_FRAME_STRIDE-th full frame
+    this.frame[this.framePosition++] = sample;
+    if (this.framePosition === KEY_FRAME_LENGTH) {
+      if (this.frameIndex % KEY_FRAME_STRIDE === 0) {
+        this.accumulateChroma();
+      }
+      this.frameIndex++;
+      this.framePosition = 0;
+    }
+  }
+
+  private accumulateChroma(): void {
+    for (const { pitchClass, coefficient } of this.pitchCoefficients) {
+      // Goertzel filter at pitch frequency
+      let s1 = 0;
+      let s2 = 0;
+      for (let i = 0; i < KEY_FRAME_LENGTH; i++) {
+        const s0 = this.frame[i] * this.window[i] + coefficient * s1 - s2;
+        s2 = s1;
+        s1 = s0;
+      }
+      const power = s1 * s1 + s2 * s2 - coefficient * s1 * s2;
+      this.chroma[pitchClass] += Math.sqrt(Math.max(0, power));
+    }
+  }
+
+  private estimateTempo(): number | null {
+    const envelope = this.onsetEnvelope;
+    const framesPerSecond = this.analysisRate / this.hopLength;
+    if (envelope.length < MIN_TEMPO_SECONDS * framesPerSecond) {
+      return null;
+    }
+
+    const mean = envelope.reduce((sum, value) => sum + value, 0) / envelope.length;
+    const centered = envelope.map((value) => value - mean);
+    const autocorrelation = (lag: number): number => {
+      let sum = 0;
+      for (let i = lag; i < centered.length; i++) {
+        sum += centered[i] * centered[i - lag];
+      }
+      return sum / (centered.length - lag);
+    };
+
+    const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+    const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+    const scores = new Map<number, number>();
+    const score = (lag: number): number => {
+      let value = scores.get(lag);
+      if (value === undefined) {
+        // Beat period is reinforced by the bar-level period (double lag)
+        const bpm = (60 * framesPerSecond) / lag;
+        const octaves = Math.log2(bpm / PREFERRED_BPM) / TEMPO_PRIOR_OCTAVES;
+        const prior = Math.exp(-0.5 * octaves * octaves);
+        value = (autocorrelation(lag) + 0.5 * autocorrelation(lag * 2)) * prior;
+        scores.set(lag, value);
+      }
+      return value;
+    };
+
+    let bestLag = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (score(lag) > score(bestLag)) {
+        bestLag = lag;
+      }
+    }
+    if (score(bestLag) <= 0) {
+      return null;
+    }
+
+    // Parabolic interpolation for sub-frame lag precision
+    let lag = bestLag;
+    if (bestLag > minLag && bestLag < maxLag) {
+      const left = score(bestLag - 1);
+      const center = score(bestLag);
+      const right = score(bestLag + 1);
+      const curvature = left - 2 * center + right;
+      if (curvature < 0) {
+        lag += (0.5 * (left - right)) / curvature;
+      }
+    }
+
+    return Math.round((600 * framesPerSecond) / lag) / 10;
+  }
+
+  private estimateKey(): string | null {
+    if (this.chroma.every((value) => value === 0)) {
+      return null;
+    }
+
+    let bestKey: string | null = null;
+    let bestCorrelation = -Infinity;
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const major = correlateWithProfile(this.chroma, MAJOR_PROFILE, tonic);
+      if (major > bestCorrelation) {
+        bestCorrelation = major;
+        bestKey = NOTE_NAMES[tonic];
+      }
+      const minor = correlateWithProfile(this.chroma, MINOR_PROFILE, tonic);
+      if (minor > bestCorrelation) {
+        bestCorrelation = minor;
+        bestKey = `${NOTE_NAMES[tonic]}m`;
+      }
+    }
+    return bestKey;
+  }
+}
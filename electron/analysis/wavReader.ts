@@ -0,0 +1,173 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Streaming reader for uncompressed WAV files (PCM integer and IEEE float)
+ *
+ * Compressed formats cannot be decoded in the main process without a decoder,
+ * so analysis of them relies on tags instead.
+ */
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Frames decoded per chunk passed to consumer
+const FRAMES_PER_CHUNK = 65536;
+
+export interface WavInfo {
+  sampleRate: number;
+  channelCount: number;
+  bitsPerSample: number;
+  isFloat: boolean;
+  dataOffset: number;
+  dataSize: number;
+}
+
+/**
+ * Read a slice of the file (may return fewer bytes at end of file)
+ */
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Parse RIFF/WAVE header: find 'fmt ' and 'data' chunks
+ */
+async function readWavInfo(handle: fs.FileHandle): Promise<WavInfo> {
+  const header = await readAt(handle, 0, 12);
+  if (
+    header.length < 12 ||
+    header.toString('ascii', 0, 4) !== 'RIFF' ||
+    header.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  const { size: fileSize } = await handle.stat();
+  let position = 12;
+  let format: Omit<WavInfo, 'dataOffset' | 'dataSize'> | null = null;
+
+  while (position + 8 <= fileSize) {
+    const chunkHeader = await readAt(handle, position, 8);
+    const chunkId = chunkHeader.toString('ascii', 0, 4);
+    const chunkSize = chunkHeader.readUInt32LE(4);
+    const chunkStart = position + 8;
+
+    if (chunkId === 'fmt ') {
+      const fmt = await readAt(handle, chunkStart, Math.min(chunkSize, 40));
+      let formatTag = fmt.readUInt16LE(0);
+      const channelCount = fmt.readUInt16LE(2);
+      const sampleRate = fmt.readUInt32LE(4);
+      const bitsPerSample = fmt.readUInt16LE(14);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && fmt.length >= 26) {
+        // First two bytes of SubFormat GUID hold the actual format tag
+        formatTag = fmt.readUInt16LE(24);
+      }
+      if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+        throw new Error(`Unsupported WAV format: 0x${formatTag.toString(16)}`);
+      }
+      format = {
+        sampleRate,
+        channelCount,
+        bitsPerSample,
+        isFloat: formatTag === WAVE_FORMAT_IEEE_FLOAT,
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk before format chunk');
+      }
+      return {
+        ...format,
+        dataOffset: chunkStart,
+        // Some writers leave size unset for streamed files
+        dataSize: Math.min(chunkSize, fileSize - chunkStart),
+      };
+    }
+
+    // Chunks are padded to even size
+    position = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV data chunk not found');
+}
+
+function createSampleReader(info: WavInfo): (buffer: Buffer, offset: number) => number {
+  const { bitsPerSample, isFloat } = info;
+  if (isFloat) {
+    if (bitsPerSample === 32) {
+      return (buffer, offset) => buffer.readFloatLE(offset);
+    }
+    if (bitsPerSample === 64) {
+      return (buffer, offset) => buffer.readDoubleLE(offset);
+    }
+  } else {
+    switch (bitsPerSample) {
+      case 8:
+        return (buffer, offset) => (buffer.readUInt8(offset) - 128) / 128;
+      case 16:
+        return (buffer, offset) => buffer.readInt16LE(offset) / 32768;
+      case 24:
+        return (buffer, offset) => buffer.readIntLE(offset, 3) / 8388608;
+      case 32:
+        return (buffer, offset) => buffer.readInt32LE(offset) / 2147483648;
+    }
+  }
+  throw new Error(
+    `Unsupported WAV sample format: ${bitsPerSample}-bit ${isFloat ? 'float' : 'PCM'}`,
+  );
+}
+
+/**
+ * Check file extension for WAV
+ */
+export function isWavFile(filePath: string): boolean {
+  return /\.wav$/i.test(filePath);
+}
+
+/**
+ * Decode WAV file chunk by chunk; onChunk receives planar samples in range -1..1
+ */
+export async function readWavFile(
+  filePath: string,
+  onChunk: (channels: Float32Array[], info: WavInfo) => void,
+): Promise<WavInfo> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const info = await readWavInfo(handle);
+    if (info.channelCount <= 0 || info.sampleRate <= 0) {
+      throw new Error('Invalid WAV format header');
+    }
+
+    const readSample = createSampleReader(info);
+    const bytesPerSample = info.bitsPerSample / 8;
+    const frameSize = bytesPerSample * info.channelCount;
+    const chunkBytes = FRAMES_PER_CHUNK * frameSize;
+    const dataEnd = info.dataOffset + info.dataSize;
+
+    for (let position = info.dataOffset; position < dataEnd; position += chunkBytes) {
+      const buffer = await readAt(handle, position, Math.min(chunkBytes, dataEnd - position));
+      const frameCount = Math.floor(buffer.length / frameSize);
+      if (frameCount === 0) {
+        break;
+      }
+
+      const channels = Array.from(
+        { length: info.channelCount },
+        () => new Float32Array(frameCount),
+      );
+      for (let frame = 0; frame < frameCount; frame++) {
+        const frameOffset = frame * frameSize;
+        for (let channel = 0; channel < info.channelCount; channel++) {
+          channels[channel][frame] = readSample(buffer, frameOffset + channel * bytesPerSample);
+        }
+      }
+      onChunk(channels, info);
+    }
+
+    return info;
+  } finally {
+    await handle.close();
+  }
+}
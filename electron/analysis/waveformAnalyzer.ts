@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { app } from 'electron';
+
+import { ensureFolder } from '../utils/fsHelpers.js';
+import { logger } from '../utils/logger.js';
+
+import { enqueueAnalysis } from './analysisQueue.js';
+import { DecoderUnavailableError, decodeAudioFile } from './audioDecoder.js';
+
+// On-disk cache format version
+const WAVEFORM_CACHE_VERSION = 1;
+// Number of peak buckets per file (independent of track length)
+const WAVEFORM_BUCKETS = 800;
+// Peaks are first collected per short window: total length of compressed files is not known upfront
+const PEAK_WINDOWS_PER_SECOND = 100;
+
+export interface TrackWaveform {
+  peaks: number[]; // Max absolute sample per bucket, 0..1
+  duration: number; // Seconds
+}
+
+interface WaveformCacheFile extends TrackWaveform {
+  version: number;
+  path: string;
+  size: number;
+  mtime: number;
+}
+
+const pending = new Map<string, Promise<TrackWaveform | null>>();
+
+/**
+ * Get cache file path for audio file (one small file per track under userData)
+ */
+function getCacheFilePath(filePath: string): string {
+  const hash = createHash('sha1').update(filePath).digest('hex');
+  return path.join(app.getPath('userData'), 'analysis', 'waveforms', `${hash}.json`);
+}
+
+/**
+ * Read cached peaks if the file is unchanged since analysis
+ */
+async function readCache(
+  filePath: string,
+  stats: { size: number; mtime: number },
+): Promise<TrackWaveform | null> {
+  try {
+    const content = await fs.readFile(getCacheFilePath(filePath), 'utf8');
+    const data = JSON.parse(content) as WaveformCacheFile;
+    if (
+      data.version === WAVEFORM_CACHE_VERSION &&
+      data.path === filePath &&
+      data.size === stats.size &&
+      data.mtime === stats.mtime &&
+      Array.isArray(data.peaks)
+    ) {
+      return { peaks: data.peaks, duration: data.duration };
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn(`Failed to read waveform cache for ${filePath}`, error);
+    }
+  }
+  return null;
+}
+
+/**
+ * Persist peaks to cache (write to temp file and rename)
+ */
+async function writeCache(
+  filePath: string,
+  stats: { size: number; mtime: number },
+  waveform: TrackWaveform,
+): Promise<void> {
+  const cachePath = getCacheFilePath(filePath);
+  const tempPath = `${cachePath}.tmp`;
+  const data: WaveformCacheFile = {
+    version: WAVEFORM_CACHE_VERSION,
+    path: filePath,
+    size: stats.size,
+    mtime: stats.mtime,
+    ...waveform,
+  };
+
+  try {
+    await ensureFolder(path.dirname(cachePath));
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await fs.rename(tempPath, cachePath);
+  } catch (error) {
+    logger.error('Failed to save waveform cache', error);
+  }
+}
+
+/**
+ * Merge window peaks into WAVEFORM_BUCKETS buckets (short files repeat windows)
+ */
+function toBuckets(windowPeaks: number[]): number[] {
+  const count = windowPeaks.length;
+  return Array.from({ length: WAVEFORM_BUCKETS }, (_, bucket) => {
+    const start = Math.floor((bucket * count) / WAVEFORM_BUCKETS);
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * count) / WAVEFORM_BUCKETS));
+    let peak = 0;
+    for (let window = start; window < end; window++) {
+      peak = Math.max(peak, windowPeaks[window]);
+    }
+    return peak;
+  });
+}
+
+/**
+ * Decode file and collect peaks per bucket
+ */
+async function computeWaveform(filePath: string): Promise<TrackWaveform | null> {
+  const windowPeaks: number[] = [];
+  let windowFrames = 0;
+  let frameIndex = 0;
+  let sampleRate = 0;
+
+  await decodeAudioFile(filePath, (channels, info) => {
+    if (!sampleRate) {
+      sampleRate = info.sampleRate;
+      windowFrames = Math.max(1, Math.round(sampleRate / PEAK_WINDOWS_PER_SECOND));
+    }
+
+    const frameCount = channels[0]?.length ?? 0;
+    for (let frame = 0; frame < frameCount; frame++, frameIndex++) {
+      const window = Math.floor(frameIndex / windowFrames);
+      if (window >= windowPeaks.length) {
+        windowPeaks.push(0);
+      }
+      for (const channel of channels) {
+        const value = Math.abs(channel[frame]);
+        if (value > windowPeaks[window]) {
+          windowPeaks[window] = value;
+        }
+      }
+    }
+  });
+
+  if (!sampleRate || frameIndex === 0) {
+    return null;
+  }
+
+  return {
+    // Three decimals are enough for drawing and keep cache files small
+    peaks: toBuckets(windowPeaks).map((peak) => Math.round(Math.min(1, peak) * 1000) / 1000),
+    duration: frameIndex / sampleRate,
+  };
+}
+
+/**
+ * Get waveform peaks for file: from cache or computed once
+ * @returns null if the file is not analyzed (no FFmpeg for compressed formats or no audio)
+ */
+export async function getWaveform(filePath: string): Promise<TrackWaveform | null> {
+  const fileStats = await fs.stat(filePath);
+  const stats = { size: fileStats.size, mtime: Math.floor(fileStats.mtimeMs) };
+  const cached = await readCache(filePath, stats);
+  if (cached) {
+    return cached;
+  }
+
+  // Deduplicate concurrent requests for the same file
+  let analysis = pending.get(filePath);
+  if (!analysis) {
+    analysis = enqueueAnalysis(async () => {
+      try {
+        const waveform = await computeWaveform(filePath);
+        if (waveform) {
+          await writeCache(filePath, stats, waveform);
+        }
+        return waveform;
+      } catch (error) {
+        if (error instanceof DecoderUnavailableError) {
+          logger.warn(`Waveform of ${filePath} is not analyzed: ${error.message}`);
+          return null;
+        }
+        throw error;
+      }
+    }).finally(() => pending.delete(filePath));
+    pending.set(filePath, analysis);
+  }
+  return await analysis;
+}
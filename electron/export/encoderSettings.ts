@@ -0,0 +1,122 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+
+import { app } from 'electron';
+
+import { ensureFolder } from '../utils/fsHelpers.js';
+import { logger } from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const ENCODER_SETTINGS_FILE = 'encoder-settings.json';
+const ENCODER_SETTINGS_VERSION = 1;
+const ENCODER_PROBE_TIMEOUT_MS = 10000;
+
+// Binary looked up in PATH when no path is chosen in settings
+export const DEFAULT_ENCODER = 'ffmpeg';
+
+interface EncoderSettingsFile {
+  version: number;
+  encoderPath: string | null;
+}
+
+// Path chosen by user (null - FFmpeg from PATH), loaded lazily on first use
+let encoderPath: string | null = null;
+let loadPromise: Promise<void> | null = null;
+
+function getSettingsFilePath(): string {
+  return path.join(app.getPath('userData'), ENCODER_SETTINGS_FILE);
+}
+
+async function loadSettings(): Promise<void> {
+  try {
+    const content = await fs.readFile(getSettingsFilePath(), 'utf8');
+    const data = JSON.parse(content) as EncoderSettingsFile;
+    if (data.version === ENCODER_SETTINGS_VERSION && typeof data.encoderPath === 'string') {
+      encoderPath = data.encoderPath;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Failed to read encoder settings', error);
+    }
+  }
+}
+
+async function saveSettings(): Promise<void> {
+  const filePath = getSettingsFilePath();
+  const tempPath = `${filePath}.tmp`;
+  const data: EncoderSettingsFile = { version: ENCODER_SETTINGS_VERSION, encoderPath };
+
+  try {
+    await ensureFolder(path.dirname(filePath));
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    throw new Error(`Failed to save encoder settings: ${(error as Error).message}`);
+  }
+}
+
+async function ensureLoaded(): Promise<void> {
+  loadPromise ??= loadSettings();
+  await loadPromise;
+}
+
+/**
+ * Check that the file exists and is an FFmpeg binary (`-version` probe)
+ * @throws error with a message for the user
+ */
+export async function probeEncoder(filePath: string): Promise<void> {
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch {
+    throw new Error(`Encoder not found: ${filePath}`);
+  }
+  if (!stats.isFile()) {
+    throw new Error(`Encoder is not a file: ${filePath}`);
+  }
+
+  let output: string;
+  try {
+    ({ stdout: output } = await execFileAsync(filePath, ['-version'], {
+      timeout: ENCODER_PROBE_TIMEOUT_MS,
+      windowsHide: true,
+    }));
+  } catch {
+    throw new Error(`Encoder cannot be started: ${filePath}`);
+  }
+  if (!output.startsWith('ffmpeg version')) {
+    throw new Error(`Not an FFmpeg binary: ${filePath}`);
+  }
+}
+
+/**
+ * Encoder path chosen in settings
+ * @returns null when FFmpeg is looked up in PATH
+ */
+export async function getSavedEncoderPath(): Promise<string | null> {
+  await ensureLoaded();
+  return encoderPath;
+}
+
+/**
+ * Encoder binary to run (FFmpeg from PATH when no path is chosen)
+ */
+export async function getEncoderPath(): Promise<string> {
+  return (await getSavedEncoderPath()) ?? DEFAULT_ENCODER;
+}
+
+/**
+ * Save encoder path after checking the binary; null resets to FFmpeg from PATH
+ */
+export async function setEncoderPath(filePath: string | null): Promise<string | null> {
+  await ensureLoaded();
+  if (filePath !== null) {
+    await probeEncoder(filePath);
+  }
+  encoderPath = filePath;
+  await saveSettings();
+  return encoderPath;
+}
@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { ensureFolder } from '../utils/fsHelpers.js';
+
+import { ExportConflictPolicy, ExportProgress, ExportTrack } from './exportTypes.js';
+
+// Progress events are throttled, file completion is always reported
+const PROGRESS_INTERVAL_MS = 100;
+const COPY_RETRIES = 3;
+const COMPARE_CHUNK_SIZE = 1024 * 1024;
+
+class ExportCancelledError extends Error {
+  constructor() {
+    super('Export cancelled');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Temporary file next to destination: written first and renamed over destination on success,
+ * so a failed write never damages an existing file (extension is kept for the encoder)
+ */
+export function getTempPath(dest: string): string {
+  const ext = path.extname(dest);
+  return `${dest.slice(0, dest.length - ext.length)}.${randomUUID().slice(0, 8)}.part${ext}`;
+}
+
+/**
+ * Destination written by a previous export: newer than the source
+ * (used for "skipIfIdentical" when the file is transcoded, contents differ by design)
+ */
+async function isNewerThanSource(src: string, dest: string): Promise<boolean> {
+  const [srcStat, destStat] = await Promise.all([fs.stat(src), fs.stat(dest)]);
+  return destStat.size > 0 && destStat.mtimeMs >= srcStat.mtimeMs;
+}
+
+/**
+ * Export job: copies files with byte progress, cancellation and destination conflict policy
+ *
+ * Strategies receive the job through ExportContext and use it for every copied file,
+ * so progress and cancellation work the same way for all built-in formats.
+ */
+export class ExportJob {
+  private readonly abortController = new AbortController();
+  private readonly retryPaths: Set<string> | null;
+  private progress: Omit<ExportProgress, 'jobId'> = {
+    filesDone: 0,
+    filesTotal: 0,
+    bytesDone: 0,
+    bytesTotal: 0,
+  };
+  private lastProgressAt = 0;
+  // Destinations taken by this job (files are written concurrently when transcoding)
+  private readonly claimedPaths = new Set<string>();
+
+  constructor(
+    readonly id: string,
+    readonly conflictPolicy: ExportConflictPolicy,
+    retryPaths: string[] | undefined,
+    private readonly onProgress: (progress: ExportProgress) => void,
+  ) {
+    this.retryPaths = retryPaths ? new Set(retryPaths) : null;
+  }
+
+  get cancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  // Passed to external processes so that cancellation stops them
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+  }
+
+  throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new ExportCancelledError();
+    }
+  }
+
+  /**
+   * Whether track is processed in this run (retry runs only process previously failed tracks)
+   */
+  includes(track: ExportTrack): boolean {
+    return !this.retryPaths || this.retryPaths.has(track.path);
+  }
+
+  /**
+   * Set totals for progress (source sizes are summed when files are copied)
+   */
+  async begin(tracks: ExportTrack[], copiesFiles: boolean): Promise<void> {
+    let bytesTotal = 0;
+    if (copiesFiles) {
+      for (const track of tracks) {
+        try {
+          bytesTotal += (await fs.stat(track.path)).size;
+        } catch {
+          // Missing files are reported as failed when copied
+        }
+      }
+    }
+    this.start(tracks.length, bytesTotal);
+  }
+
+  /**
+   * Set totals for progress directly (bytes are counted by the caller with addBytes)
+   */
+  start(filesTotal: number, bytesTotal: number): void {
+    this.progress = { filesDone: 0, filesTotal, bytesDone: 0, bytesTotal };
+    this.emitProgress(true);
+  }
+
+  /**
+   * Mark all files as done (for strategies that do not report per-file progress)
+   */
+  complete(): void {
+    this.progress.filesDone = this.progress.filesTotal;
+    this.progress.bytesDone = this.progress.bytesTotal;
+    this.emitProgress(true);
+  }
+
+  fileDone(currentFile?: string): void {
+    this.progress.filesDone++;
+    this.progress.currentFile = currentFile;
+    this.emitProgress(true);
+  }
+
+  /**
+   * Copy file according to conflict policy
+   * @returns actual destination (differs for "rename") and whether copying was skipped
+   */
+  async copyFile(src: string, dest: string): Promise<{ destPath: string; skipped: boolean }> {
+    this.throwIfCancelled();
+    await fs.access(src);
+    this.progress.currentFile = src;
+
+    const destPath = await this.resolveDestination(src, dest, (a, b) => this.isIdentical(a, b));
+    if (!destPath) {
+      this.addBytes((await fs.stat(src)).size);
+      return { destPath: dest, skipped: true };
+    }
+
+    await this.copyWithRetry(src, destPath);
+    return { destPath, skipped: false };
+  }
+
+  /**
+   * Write file with an external encoder according to conflict policy
+   *
+   * Progress counts the source size when the file is done; on failure or
+   * cancellation the partial output is removed and an existing destination is kept.
+   */
+  async encodeFile(
+    src: string,
+    dest: string,
+    encode: (destPath: string, signal: AbortSignal) => Promise<void>,
+  ): Promise<{ destPath: string; skipped: boolean }> {
+    this.throwIfCancelled();
+    const { size } = await fs.stat(src);
+    this.progress.currentFile = src;
+
+    const destPath = await this.resolveDestination(src, dest, isNewerThanSource);
+    if (!destPath) {
+      this.addBytes(size);
+      return { destPath: dest, skipped: true };
+    }
+
+    await ensureFolder(path.dirname(destPath));
+    const tempPath = getTempPath(destPath);
+    try {
+      await encode(tempPath, this.abortController.signal);
+      await fs.rename(tempPath, destPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      this.throwIfCancelled();
+      throw error;
+    }
+    this.addBytes(size);
+    return { destPath, skipped: false };
+  }
+
+  /**
+   * Apply conflict policy to destination
+   * @param isIdentical - check for "skipIfIdentical"
+   * @returns path to write to, null when the existing file is kept
+   */
+  private async resolveDestination(
+    src: string,
+    dest: string,
+    isIdentical: (src: string, dest: string) => Promise<boolean>,
+  ): Promise<string | null> {
+    // Path written earlier by this job (e.g. a.flac and a.wav both converted to a.mp3)
+    // is renamed under every policy: the job never overwrites or skips its own output
+    if (!this.claimedPaths.has(dest)) {
+      if (this.conflictPolicy === 'overwrite' || !(await pathExists(dest))) {
+        this.claimedPaths.add(dest);
+        return dest;
+      }
+      if (
+        this.conflictPolicy === 'skip' ||
+        (this.conflictPolicy === 'skipIfIdentical' && (await isIdentical(src, dest)))
+      ) {
+        return null;
+      }
+      if (this.conflictPolicy !== 'rename') {
+        return dest;
+      }
+    }
+
+    // First free "name (n).ext" that is not taken by another file of this job
+    const ext = path.extname(dest);
+    const base = dest.slice(0, dest.length - ext.length);
+    for (let n = 1; ; n++) {
+      const candidate = `${base} (${n})${ext}`;
+      if (!this.claimedPaths.has(candidate) && !(await pathExists(candidate))) {
+        this.claimedPaths.add(candidate);
+        return candidate;
+      }
+    }
+  }
+
+  private async copyWithRetry(src: string, dest: string): Promise<void> {
+    await ensureFolder(path.dirname(dest));
+    const tempPath = getTempPath(dest);
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= COPY_RETRIES; attempt++) {
+      let copiedBytes = 0;
+      try {
+        const counter = new Transform({
+          transform: (chunk: Buffer, encoding, callback) => {
+            copiedBytes += chunk.length;
+            this.addBytes(chunk.length);
+            callback(null, chunk);
+          },
+        });
+        await pipeline(createReadStream(src), counter, createWriteStream(tempPath), {
+          signal: this.abortController.signal,
+        });
+        await fs.rename(tempPath, dest);
+        return;
+      } catch (error) {
+        // Partially written file is removed, bytes of the failed attempt are not counted
+        this.addBytes(-copiedBytes);
+        await fs.rm(tempPath, { force: true });
+        this.throwIfCancelled();
+        lastError = error as Error;
+        if (attempt < COPY_RETRIES) {
+          // Wait before retry (exponential backoff)
+          await new Promise((resolve) => setTimeout(resolve, 100 * attempt));
+        }
+      }
+    }
+
+    throw lastError || new Error('Copy failed after retries');
+  }
+
+  /**
+   * Same size and content (compared chunk by chunk, stops at the first difference)
+   */
+  private async isIdentical(a: string, b: string): Promise<boolean> {
+    const [statA, statB] = await Promise.all([fs.stat(a), fs.stat(b)]);
+    if (statA.size !== statB.size) {
+      return false;
+    }
+
+    const [fileA, fileB] = await Promise.all([fs.open(a, 'r'), fs.open(b, 'r')]);
+    try {
+      const bufferA = Buffer.alloc(COMPARE_CHUNK_SIZE);
+      const bufferB = Buffer.alloc(COMPARE_CHUNK_SIZE);
+      for (let position = 0; position < statA.size; position += COMPARE_CHUNK_SIZE) {
+        this.throwIfCancelled();
+        const [readA, readB] = await Promise.all([
+          fileA.read(bufferA, 0, COMPARE_CHUNK_SIZE, position),
+          fileB.read(bufferB, 0, COMPARE_CHUNK_SIZE, position),
+        ]);
+        if (
+          readA.bytesRead !== readB.bytesRead ||
+          !bufferA.subarray(0, readA.bytesRead).equals(bufferB.subarray(0, readB.bytesRead))
+        ) {
+          return false;
+        }
+      }
+      return true;
+    } finally {
+      await Promise.all([fileA.close(), fileB.close()]);
+    }
+  }
+
+  addBytes(count: number): void {
+    this.progress.bytesDone += count;
+    this.emitProgress(false);
+  }
+
+  private emitProgress(force: boolean): void {
+    const now = Date.now();
+    if (!force && now - this.lastProgressAt < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    this.lastProgressAt = now;
+    this.onProgress({ jobId: this.id, ...this.progress });
+  }
+}
@@ -0,0 +1,74 @@
+import { ExportOptionDefinition, ExportOptionValues } from './exportTypes.js';
+
+const OPTION_KEY_PATTERN = /^[a-z][a-z0-9_]*$/i;
+
+/**
+ * Keep only well-formed option definitions (schemas declared by plugins are untrusted)
+ */
+export function sanitizeExportOptionDefinitions(raw: unknown): ExportOptionDefinition[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const definitions: ExportOptionDefinition[] = [];
+  for (const item of raw as Array<Record<string, unknown>>) {
+    const key = item?.key;
+    if (typeof key !== 'string' || !OPTION_KEY_PATTERN.test(key)) {
+      continue;
+    }
+    if (definitions.some((definition) => definition.key === key)) {
+      continue;
+    }
+    const label = String(item.label ?? key);
+
+    if (item.type === 'boolean') {
+      definitions.push({ key, label, type: 'boolean', default: item.default === true });
+    } else if (item.type === 'string') {
+      definitions.push({ key, label, type: 'string', default: String(item.default ?? '') });
+    } else if (item.type === 'select' && Array.isArray(item.choices)) {
+      const choices = (item.choices as Array<Record<string, unknown>>)
+        .filter((choice) => typeof choice?.value === 'string')
+        .map((choice) => ({
+          value: choice.value as string,
+          label: String(choice.label ?? choice.value),
+        }));
+      if (choices.length === 0) {
+        continue;
+      }
+      const defaultValue = choices.some((choice) => choice.value === item.default)
+        ? (item.default as string)
+        : choices[0].value;
+      definitions.push({ key, label, type: 'select', default: defaultValue, choices });
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Option values for a strategy: invalid or missing values fall back to defaults, unknown keys are dropped
+ */
+export function normalizeExportOptionValues(
+  definitions: ExportOptionDefinition[],
+  raw: unknown,
+): ExportOptionValues {
+  const values = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const result: ExportOptionValues = {};
+
+  for (const definition of definitions) {
+    const value = values[definition.key];
+    switch (definition.type) {
+      case 'boolean':
+        result[definition.key] = typeof value === 'boolean' ? value : definition.default;
+        break;
+      case 'string':
+        result[definition.key] = typeof value === 'string' ? value : definition.default;
+        break;
+      case 'select':
+        result[definition.key] = definition.choices.some((choice) => choice.value === value)
+          ? (value as string)
+          : definition.default;
+        break;
+    }
+  }
+  return result;
+}
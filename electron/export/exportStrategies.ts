@@ -0,0 +1,433 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import {
+  executePluginExport,
+  getPluginExportStrategy,
+  listPluginExportStrategies,
+} from '../plugins/pluginManager.js';
+import { ensureFolder, getRelativePath, safeFileName } from '../utils/fsHelpers.js';
+
+import { ExportJob } from './exportJob.js';
+import { normalizeExportOptionValues } from './exportOptions.js';
+import {
+  ExportContext,
+  ExportOptionDefinition,
+  ExportOptionValues,
+  ExportResult,
+  ExportStrategy,
+  ExportStrategyInfo,
+  ExportTrack,
+} from './exportTypes.js';
+import {
+  PlaylistFileEntry,
+  formatCSV,
+  formatCUE,
+  formatM3U,
+  formatXSPF,
+  getEntryTitle,
+} from './playlistFormats.js';
+import {
+  TRANSCODE_CONCURRENCY,
+  TRANSCODE_OPTIONS,
+  TranscodeSettings,
+  ensureEncoder,
+  getTranscodeSettings,
+  getTranscodedFileName,
+  needsTranscoding,
+  runWithConcurrency,
+  transcodeFile,
+} from './transcoder.js';
+
+/**
+ * Copy tracks into folder through the export job, file names are produced by getFileName
+ *
+ * With transcoding settings files are converted by a pool of encoder processes,
+ * plain copies run one at a time (disk bound).
+ * @returns result and actual destination of every track that is in the folder
+ */
+async function copyTracks(
+  tracks: ExportTrack[],
+  folder: string,
+  job: ExportJob,
+  getFileName: (track: ExportTrack, index: number) => string,
+  transcode: TranscodeSettings | null = null,
+): Promise<{ result: ExportResult; copied: Map<ExportTrack, string> }> {
+  const skipped: string[] = [];
+  const result: ExportResult = { successful: [], failed: [], skipped };
+  const copied = new Map<ExportTrack, string>();
+  await ensureFolder(folder);
+  if (transcode) {
+    await ensureEncoder(transcode);
+  }
+
+  const getDestPath = (track: ExportTrack, index: number) => {
+    const fileName = getFileName(track, index);
+    return path.join(folder, transcode ? getTranscodedFileName(fileName, transcode) : fileName);
+  };
+
+  const pending = tracks
+    .map((track, index) => ({ track, index }))
+    .filter(({ track, index }) => {
+      if (job.includes(track)) {
+        return true;
+      }
+      // Copied by the previous run (only failed tracks are retried)
+      copied.set(track, getDestPath(track, index));
+      return false;
+    });
+  await job.begin(
+    pending.map(({ track }) => track),
+    true,
+  );
+
+  await runWithConcurrency(pending, transcode ? TRANSCODE_CONCURRENCY : 1, async (item) => {
+    const { track } = item;
+    if (job.cancelled) {
+      return;
+    }
+
+    try {
+      const destPath = getDestPath(track, item.index);
+      const file =
+        transcode && needsTranscoding(track.path, transcode)
+          ? await job.encodeFile(track.path, destPath, (output, signal) =>
+              transcodeFile(track.path, output, transcode, signal),
+            )
+          : await job.copyFile(track.path, destPath);
+      (file.skipped ? skipped : result.successful).push(track.path);
+      copied.set(track, file.destPath);
+    } catch (error) {
+      if (job.cancelled) {
+        return;
+      }
+      result.failed.push({
+        path: track.path,
+        error: (error as Error).message,
+      });
+    }
+    job.fileDone(track.path);
+  });
+
+  if (job.cancelled) {
+    result.cancelled = true;
+  }
+  return { result, copied };
+}
+
+/**
+ * Export playlist with number prefix strategy ("01 - originalName.ext")
+ */
+const copyWithNumberPrefix: ExportStrategy = {
+  id: 'copyWithNumberPrefix',
+  label: 'Копирование с нумерацией (01 - имя.mp3)',
+  options: TRANSCODE_OPTIONS,
+  execute: async (tracks, targetPath, options, context) => {
+    const { result } = await copyTracks(
+      tracks,
+      targetPath,
+      context.job,
+      (track, index) => {
+        const number = (index + 1).toString().padStart(2, '0');
+        const ext = path.extname(track.path);
+        return `${number} - ${safeFileName(path.basename(track.path, ext))}${ext}`;
+      },
+      await getTranscodeSettings(options),
+    );
+    return { ...result, outputPath: targetPath };
+  },
+};
+
+/**
+ * Copy tracks into a new folder named after the playlist (with original filenames)
+ */
+const copyToFolder: ExportStrategy = {
+  id: 'copyToFolder',
+  label: 'Копирование в папку (исходные имена)',
+  options: TRANSCODE_OPTIONS,
+  execute: async (tracks, targetPath, options, context) => {
+    const folder = path.join(targetPath, safeFileName(context.name || 'Collection'));
+    const { result } = await copyTracks(
+      tracks,
+      folder,
+      context.job,
+      (track) => path.basename(track.path),
+      await getTranscodeSettings(options),
+    );
+    return { ...result, outputPath: folder };
+  },
+};
+
+/**
+ * Export playlist to AIMP format: subfolder with tracks and M3U8 with relative paths
+ */
+const aimpPlaylist: ExportStrategy = {
+  id: 'aimpPlaylist',
+  label: 'AIMP плейлист (M3U8 с относительными путями)',
+  options: TRANSCODE_OPTIONS,
+  execute: async (tracks, targetPath, options, context) => {
+    const safePlaylistName = safeFileName(context.name || 'Playlist');
+    const playlistFolder = path.join(targetPath, safePlaylistName);
+    const { result, copied } = await copyTracks(
+      tracks,
+      playlistFolder,
+      context.job,
+      (track) => path.basename(track.path),
+      await getTranscodeSettings(options),
+    );
+    if (result.cancelled) {
+      return result;
+    }
+
+    const playlistFilePath = path.join(playlistFolder, `${safePlaylistName}.m3u8`);
+    const playlistContent: string[] = ['#EXTM3U'];
+    for (const track of tracks) {
+      // Use relative path from playlist file to track file (renamed on conflict)
+      const destPath = copied.get(track) ?? path.join(playlistFolder, path.basename(track.path));
+      playlistContent.push(getRelativePath(playlistFilePath, destPath));
+    }
+
+    // Write playlist file with UTF-8 BOM for compatibility
+    await fs.writeFile(playlistFilePath, '\uFEFF' + playlistContent.join('\n'), 'utf8');
+    return { ...result, outputPath: playlistFilePath };
+  },
+};
+
+const RELATIVE_PATHS_OPTION: ExportOptionDefinition = {
+  key: 'relativePaths',
+  label: 'Относительные пути',
+  type: 'boolean',
+  default: true,
+};
+
+const COPY_TRACKS_OPTION: ExportOptionDefinition = {
+  key: 'copyTracks',
+  label: 'Скопировать треки в папку плейлиста',
+  type: 'boolean',
+  default: false,
+};
+
+/**
+ * Strategy that writes a single playlist file
+ *
+ * With "copyTracks" the file is created in a subfolder together with copies of the
+ * tracks, otherwise it is written to targetPath and points to the original files.
+ * Missing tracks are reported as failed and are not written.
+ */
+function createPlaylistFileStrategy(config: {
+  id: string;
+  label: string;
+  extension: string;
+  options: ExportOptionDefinition[];
+  bom?: boolean;
+  format: (
+    entries: PlaylistFileEntry[],
+    options: ExportOptionValues,
+    context: ExportContext & { relative: boolean },
+  ) => string;
+}): ExportStrategy {
+  return {
+    id: config.id,
+    label: config.label,
+    options: config.options,
+    execute: async (tracks, targetPath, options, context) => {
+      const { job } = context;
+      const safeName = safeFileName(context.name || 'Playlist');
+      const copy = options.copyTracks === true;
+      const relative = options.relativePaths === true;
+
+      let folder = targetPath;
+      let result: ExportResult;
+      let locations: Map<ExportTrack, string>;
+      if (copy) {
+        folder = path.join(targetPath, safeName);
+        ({ result, copied: locations } = await copyTracks(tracks, folder, job, (track) =>
+          path.basename(track.path),
+        ));
+      } else {
+        await ensureFolder(folder);
+        await job.begin(
+          tracks.filter((track) => job.includes(track)),
+          false,
+        );
+        result = { successful: [], failed: [] };
+        locations = new Map();
+        for (const track of tracks) {
+          if (!job.includes(track)) {
+            locations.set(track, track.path);
+            continue;
+          }
+          if (job.cancelled) {
+            result.cancelled = true;
+            break;
+          }
+          try {
+            await fs.access(track.path);
+            result.successful.push(track.path);
+            locations.set(track, track.path);
+          } catch (error) {
+            result.failed.push({ path: track.path, error: (error as Error).message });
+          }
+          job.fileDone(track.path);
+        }
+      }
+      if (result.cancelled) {
+        return result;
+      }
+
+      const playlistFilePath = path.join(folder, `${safeName}.${config.extension}`);
+      const entries: PlaylistFileEntry[] = tracks
+        .filter((track) => locations.has(track))
+        .map((track) => {
+          const location = locations.get(track) as string;
+          return {
+            location: relative ? getRelativePath(playlistFilePath, location) : location,
+            title: getEntryTitle(track.name),
+            duration: track.duration,
+          };
+        });
+
+      const content = config.format(entries, options, { ...context, relative });
+      await fs.writeFile(playlistFilePath, (config.bom ? '\uFEFF' : '') + content, 'utf8');
+      return { ...result, outputPath: playlistFilePath };
+    },
+  };
+}
+
+const m3uPlaylist = createPlaylistFileStrategy({
+  id: 'm3u',
+  label: 'Плейлист M3U8',
+  extension: 'm3u8',
+  options: [
+    {
+      key: 'extended',
+      label: 'Расширенный M3U (названия и длительность)',
+      type: 'boolean',
+      default: true,
+    },
+    RELATIVE_PATHS_OPTION,
+    COPY_TRACKS_OPTION,
+  ],
+  format: (entries, options, context) =>
+    formatM3U(entries, { ...context, extended: options.extended === true }),
+});
+
+const xspfPlaylist = createPlaylistFileStrategy({
+  id: 'xspf',
+  label: 'Плейлист XSPF',
+  extension: 'xspf',
+  options: [RELATIVE_PATHS_OPTION, COPY_TRACKS_OPTION],
+  format: (entries, options, context) => formatXSPF(entries, context),
+});
+
+const cueSheet = createPlaylistFileStrategy({
+  id: 'cue',
+  label: 'CUE sheet',
+  extension: 'cue',
+  options: [RELATIVE_PATHS_OPTION, COPY_TRACKS_OPTION],
+  format: (entries, options, context) => formatCUE(entries, context),
+});
+
+const csvTrackList = createPlaylistFileStrategy({
+  id: 'csv',
+  label: 'Список треков CSV',
+  extension: 'csv',
+  // BOM lets Excel detect UTF-8
+  bom: true,
+  options: [
+    {
+      key: 'separator',
+      label: 'Разделитель',
+      type: 'select',
+      default: ';',
+      choices: [
+        { value: ';', label: 'Точка с запятой (Excel)' },
+        { value: ',', label: 'Запятая' },
+        { value: '\t', label: 'Табуляция' },
+      ],
+    },
+    { key: 'header', label: 'Строка заголовков', type: 'boolean', default: true },
+    { ...RELATIVE_PATHS_OPTION, default: false },
+  ],
+  format: (entries, options) =>
+    formatCSV(entries, { separator: String(options.separator), header: options.header === true }),
+});
+
+// Built-in strategies in the order they are shown in the export dialog
+const BUILT_IN_STRATEGIES: ExportStrategy[] = [
+  copyWithNumberPrefix,
+  aimpPlaylist,
+  copyToFolder,
+  m3uPlaylist,
+  xspfPlaylist,
+  cueSheet,
+  csvTrackList,
+];
+
+const builtInStrategies = new Map(BUILT_IN_STRATEGIES.map((strategy) => [strategy.id, strategy]));
+
+/**
+ * Built-in and plugin export strategies with their option schemas
+ */
+export function listExportStrategies(): ExportStrategyInfo[] {
+  return [
+    ...BUILT_IN_STRATEGIES.map(({ id, label, options }) => ({ id, label, options })),
+    ...listPluginExportStrategies(),
+  ];
+}
+
+/**
+ * Find strategy by id: built-in or plugin ("plugin:<plugin>/<strategy>")
+ */
+function getExportStrategy(strategyId: string): ExportStrategy | null {
+  const builtIn = builtInStrategies.get(strategyId);
+  if (builtIn) {
+    return builtIn;
+  }
+
+  const pluginStrategy = getPluginExportStrategy(strategyId);
+  const info = listPluginExportStrategies().find((item) => item.id === strategyId);
+  if (!pluginStrategy || !info) {
+    return null;
+  }
+  return {
+    id: strategyId,
+    label: info.label,
+    options: info.options,
+    execute: async (tracks, targetPath, options, { job }) => {
+      // Plugins receive only tracks of this run and report the final result only
+      const included = tracks.filter((track) => job.includes(track));
+      await job.begin(included, false);
+      const result = await executePluginExport(pluginStrategy, included, targetPath, options);
+      job.complete();
+      return result;
+    },
+  };
+}
+
+/**
+ * Run export strategy, options missing from the payload fall back to schema defaults
+ */
+export async function executeExportStrategy(
+  strategyId: string,
+  tracks: ExportTrack[],
+  targetPath: string,
+  options: unknown,
+  context: ExportContext,
+): Promise<ExportResult> {
+  const strategy = getExportStrategy(strategyId);
+  if (!strategy) {
+    throw new Error(`Unknown export strategy: ${strategyId}`);
+  }
+
+  try {
+    return await strategy.execute(
+      tracks,
+      targetPath,
+      normalizeExportOptionValues(strategy.options, options),
+      context,
+    );
+  } catch (error) {
+    throw new Error(`Export failed: ${(error as Error).message}`);
+  }
+}
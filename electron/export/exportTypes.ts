@@ -0,0 +1,100 @@
+import { ExportJob } from './exportJob.js';
+
+/**
+ * Types shared between the export strategy registry, IPC handlers and plugins
+ */
+
+export interface ExportTrack {
+  id?: string;
+  path: string;
+  name: string;
+  duration?: number; // Seconds
+}
+
+export interface ExportResult {
+  successful: string[];
+  failed: Array<{ path: string; error: string }>;
+  skipped?: string[]; // Destination already existed (conflict policy "skip"/"skipIfIdentical")
+  outputPath?: string; // Created playlist file or folder
+  cancelled?: boolean; // Tracks after cancellation are not reported
+}
+
+/**
+ * Track of a mix rendered into one file (cue points, tempo and transitions
+ * are resolved by the renderer from player settings)
+ */
+export interface MixSegment {
+  path: string;
+  title: string;
+  start: number; // Entry point in the file, seconds
+  end: number | null; // Exit point in the file, null - until the end (duration unknown)
+  fadeIn: number; // Seconds of source audio
+  fadeOut: number;
+  rate: number; // Playback rate, 1 - original tempo
+  preservePitch: boolean;
+  gapAfter: number; // Silence after the track, seconds
+  crossfadeAfter: number; // Overlap with the next track, seconds of the mix
+}
+
+/**
+ * What to do when a destination file already exists
+ */
+export type ExportConflictPolicy = 'overwrite' | 'skip' | 'rename' | 'skipIfIdentical';
+
+/**
+ * Progress event sent to renderer on "export:progress"
+ */
+export interface ExportProgress {
+  jobId: string;
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number; // 0 when strategy does not copy files
+  currentFile?: string;
+}
+
+interface ExportOptionBase {
+  key: string;
+  label: string;
+}
+
+/**
+ * Option schema declared by a strategy (rendered by the export dialog)
+ */
+export type ExportOptionDefinition =
+  | (ExportOptionBase & { type: 'boolean'; default: boolean })
+  | (ExportOptionBase & { type: 'string'; default: string })
+  | (ExportOptionBase & {
+      type: 'select';
+      default: string;
+      choices: Array<{ value: string; label: string }>;
+    });
+
+export type ExportOptionValues = Record<string, boolean | string>;
+
+export interface ExportContext {
+  name: string; // Playlist or collection name (used for created files and folders)
+  job: ExportJob;
+}
+
+export interface ExportStrategy {
+  id: string;
+  label: string;
+  options: ExportOptionDefinition[];
+  execute: (
+    tracks: ExportTrack[],
+    targetPath: string,
+    options: ExportOptionValues,
+    context: ExportContext,
+  ) => Promise<ExportResult>;
+}
+
+/**
+ * Strategy description sent to renderer
+ */
+export interface ExportStrategyInfo {
+  id: string;
+  label: string;
+  options: ExportOptionDefinition[];
+  pluginName?: string; // Set for strategies contributed by plugins
+}
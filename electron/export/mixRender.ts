@@ -0,0 +1,505 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { ensureFolder } from '../utils/fsHelpers.js';
+
+import { getEncoderPath } from './encoderSettings.js';
+import { getTempPath } from './exportJob.js';
+import { ExportContext, ExportOptionValues, ExportResult, MixSegment } from './exportTypes.js';
+import { CueChapter, MAX_CUE_TRACKS, formatChaptersCUE } from './playlistFormats.js';
+import {
+  TranscodeSettings,
+  ensureCodec,
+  ensureEncoder,
+  getEncoderArgs,
+  getEncoderError,
+  getTranscodeSettingsForFile,
+} from './transcoder.js';
+
+// Mix is assembled as 16-bit stereo PCM, tracks are resampled when decoded
+const SAMPLE_RATE = 44100;
+const CHANNELS = 2;
+const BYTES_PER_FRAME = CHANNELS * 2;
+const PCM_CODEC = 'pcm_s16le';
+const WAV_HEADER_SIZE = 44;
+// RIFF sizes are 32-bit
+const MAX_WAV_DATA_SIZE = 0xffffffff - (WAV_HEADER_SIZE - 8);
+
+/**
+ * Destination of the mixed PCM stream (WAV file or encoder process)
+ */
+export interface PcmSink {
+  write(chunk: Buffer): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>; // Stop writing and remove the output
+}
+
+function createWavHeader(dataSize: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(dataSize + WAV_HEADER_SIZE - 8, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(CHANNELS, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * BYTES_PER_FRAME, 28);
+  header.writeUInt16LE(BYTES_PER_FRAME, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+}
+
+async function createWavSink(filePath: string): Promise<PcmSink> {
+  const file = await fs.open(filePath, 'w');
+  let dataSize = 0;
+  // Header is written on close when the data size is known
+  await file.write(Buffer.alloc(WAV_HEADER_SIZE), 0, WAV_HEADER_SIZE, 0);
+
+  return {
+    write: async (chunk) => {
+      if (dataSize + chunk.length > MAX_WAV_DATA_SIZE) {
+        throw new Error('Mix is too long for WAV (4 GB limit), choose a compressed format');
+      }
+      await file.write(chunk, 0, chunk.length, WAV_HEADER_SIZE + dataSize);
+      dataSize += chunk.length;
+    },
+    close: async () => {
+      await file.write(createWavHeader(dataSize), 0, WAV_HEADER_SIZE, 0);
+      await file.close();
+    },
+    abort: async () => {
+      await file.close();
+      await fs.rm(filePath, { force: true });
+    },
+  };
+}
+
+function createEncoderSink(
+  filePath: string,
+  settings: TranscodeSettings,
+  title: string,
+  signal: AbortSignal,
+): PcmSink {
+  const child = spawn(
+    settings.encoderPath,
+    [
+      '-hide_banner',
+      '-nostdin',
+      '-loglevel',
+      'error',
+      '-y',
+      '-f',
+      's16le',
+      '-ar',
+      String(SAMPLE_RATE),
+      '-ac',
+      String(CHANNELS),
+      '-i',
+      'pipe:0',
+      ...getEncoderArgs(settings),
+      '-metadata',
+      `title=${title}`,
+      filePath,
+    ],
+    { signal, windowsHide: true },
+  );
+  let stderr = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  // Write errors (EPIPE when the encoder exits) are reported with the encoder message
+  child.stdin.on('error', () => {});
+  const exited = new Promise<void>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', (code) => (code === 0 ? resolve() : reject(getEncoderError(stderr, code))));
+  });
+  exited.catch(() => {});
+
+  return {
+    write: async (chunk) => {
+      try {
+        await new Promise<void>((resolve, reject) =>
+          child.stdin.write(chunk, (error) => (error ? reject(error) : resolve())),
+        );
+      } catch (error) {
+        await exited;
+        throw error;
+      }
+    },
+    close: async () => {
+      child.stdin.end();
+      await exited;
+    },
+    abort: async () => {
+      child.kill();
+      await exited.catch(() => {});
+      await fs.rm(filePath, { force: true });
+    },
+  };
+}
+
+/**
+ * Joins decoded tracks into one PCM stream: silence for gaps and
+ * equal-power crossfade where the next track overlaps the end of the previous one
+ */
+export class MixWriter {
+  // Tail of the mix that the next track may still overlap
+  private pending: Buffer = Buffer.alloc(0);
+  private framesWritten = 0;
+  // Overlap of the current track with the pending tail (byte offsets in pending)
+  private mixStart = 0;
+  private mixLength = 0;
+  private mixed = 0;
+  private keepBytes = 0;
+  private trackBytes = 0;
+  // Output failure stops the whole render (unlike a track that cannot be decoded)
+  private sinkError: Error | null = null;
+
+  constructor(
+    private readonly sink: PcmSink,
+    private readonly onBytes: (count: number) => void,
+  ) {}
+
+  get outputError(): Error | null {
+    return this.sinkError;
+  }
+
+  /**
+   * Current track has written audio to the mix (it stays there even if decoding fails later)
+   */
+  get hasTrackAudio(): boolean {
+    return this.trackBytes > 0;
+  }
+
+  /**
+   * Start next track
+   * @param crossfadeFrames - overlap with the previous track
+   * @param keepFrames - end of this track kept for the crossfade into the next one
+   * @returns position of the track start in the mix, seconds
+   */
+  beginTrack(crossfadeFrames: number, keepFrames: number): number {
+    const overlap = Math.min(crossfadeFrames * BYTES_PER_FRAME, this.pending.length);
+    this.mixStart = this.pending.length - overlap;
+    this.mixLength = overlap;
+    this.mixed = 0;
+    this.keepBytes = keepFrames * BYTES_PER_FRAME;
+    this.trackBytes = 0;
+    return (this.framesWritten + this.mixStart / BYTES_PER_FRAME) / SAMPLE_RATE;
+  }
+
+  async write(chunk: Buffer): Promise<void> {
+    this.onBytes(chunk.length);
+    this.trackBytes += chunk.length;
+    let offset = 0;
+
+    // Over the overlap the tail fades out and the incoming track fades in
+    // (applied as samples arrive, so a track that fails to decode leaves the tail intact)
+    if (this.mixed < this.mixLength) {
+      offset = Math.min(this.mixLength - this.mixed, chunk.length);
+      for (let i = 0; i < offset; i += 2) {
+        const angle = this.getCrossfadeProgress(this.mixed + i) * (Math.PI / 2);
+        const index = this.mixStart + this.mixed + i;
+        const value =
+          this.pending.readInt16LE(index) * Math.cos(angle) +
+          chunk.readInt16LE(i) * Math.sin(angle);
+        this.pending.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), index);
+      }
+      this.mixed += offset;
+    }
+
+    if (offset < chunk.length) {
+      this.pending = Buffer.concat([this.pending, chunk.subarray(offset)]);
+    }
+    await this.flush(this.keepBytes);
+  }
+
+  /**
+   * Finish current track (also after a decode error)
+   *
+   * When the track is shorter than the overlap, the rest of the tail keeps fading out;
+   * a track without any decoded audio leaves the tail for the next track.
+   */
+  endTrack(): void {
+    if (this.mixed > 0) {
+      for (let offset = this.mixed; offset < this.mixLength; offset += 2) {
+        const gain = Math.cos(this.getCrossfadeProgress(offset) * (Math.PI / 2));
+        const index = this.mixStart + offset;
+        this.pending.writeInt16LE(Math.round(this.pending.readInt16LE(index) * gain), index);
+      }
+    }
+    // Whole pending buffer is finished and can be flushed
+    this.mixLength = this.mixed;
+  }
+
+  async writeSilence(seconds: number): Promise<void> {
+    await this.flush(0);
+    let frames = Math.round(seconds * SAMPLE_RATE);
+    while (frames > 0) {
+      const count = Math.min(frames, SAMPLE_RATE);
+      this.onBytes(count * BYTES_PER_FRAME);
+      await this.writeToSink(Buffer.alloc(count * BYTES_PER_FRAME));
+      this.framesWritten += count;
+      frames -= count;
+    }
+  }
+
+  async finish(): Promise<void> {
+    await this.flush(0);
+    await this.sink.close();
+  }
+
+  private async writeToSink(chunk: Buffer): Promise<void> {
+    try {
+      await this.sink.write(chunk);
+    } catch (error) {
+      this.sinkError = error as Error;
+      throw error;
+    }
+  }
+
+  private getCrossfadeProgress(offset: number): number {
+    return Math.floor(offset / BYTES_PER_FRAME) / (this.mixLength / BYTES_PER_FRAME);
+  }
+
+  /**
+   * Pass finished part of the mix to the sink
+   * (frames still being overlapped and the kept tail stay in memory)
+   */
+  private async flush(keepBytes: number): Promise<void> {
+    const cursor = this.mixed < this.mixLength ? this.mixStart + this.mixed : this.pending.length;
+    const count = Math.min(cursor, this.pending.length - keepBytes);
+    if (count <= 0) {
+      return;
+    }
+    await this.writeToSink(this.pending.subarray(0, count));
+    this.pending = this.pending.subarray(count);
+    this.framesWritten += count / BYTES_PER_FRAME;
+    this.mixStart -= count;
+  }
+}
+
+function getSegmentDuration(segment: MixSegment): number | null {
+  return segment.end === null ? null : Math.max(0, segment.end - segment.start);
+}
+
+/**
+ * FFmpeg arguments that decode the track part between cue points to PCM
+ * (fades are applied to source time, then tempo is changed)
+ */
+function getDecodeArgs(segment: MixSegment): string[] {
+  const duration = getSegmentDuration(segment);
+  const filters = [`aresample=${SAMPLE_RATE}`];
+  const fadeIn = duration === null ? segment.fadeIn : Math.min(segment.fadeIn, duration);
+  if (fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${fadeIn.toFixed(3)}`);
+  }
+  if (duration !== null && segment.fadeOut > 0) {
+    const fadeOut = Math.min(segment.fadeOut, duration);
+    filters.push(`afade=t=out:st=${(duration - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`);
+  }
+  if (segment.rate !== 1) {
+    filters.push(
+      segment.preservePitch
+        ? `atempo=${segment.rate.toFixed(4)}`
+        : `asetrate=${Math.round(SAMPLE_RATE * segment.rate)},aresample=${SAMPLE_RATE}`,
+    );
+  }
+
+  return [
+    '-hide_banner',
+    '-nostdin',
+    '-loglevel',
+    'error',
+    ...(segment.start > 0 ? ['-ss', segment.start.toFixed(3)] : []),
+    ...(duration !== null ? ['-t', duration.toFixed(3)] : []),
+    '-i',
+    segment.path,
+    '-map',
+    '0:a:0',
+    '-af',
+    filters.join(','),
+    '-f',
+    's16le',
+    '-c:a',
+    PCM_CODEC,
+    '-ar',
+    String(SAMPLE_RATE),
+    '-ac',
+    String(CHANNELS),
+    'pipe:1',
+  ];
+}
+
+/**
+ * Decode track and pass whole PCM frames to the writer (decoder waits while they are written)
+ */
+async function decodeSegment(
+  segment: MixSegment,
+  encoderPath: string,
+  signal: AbortSignal,
+  onFrames: (frames: Buffer) => Promise<void>,
+): Promise<void> {
+  const child = spawn(encoderPath, getDecodeArgs(segment), { signal, windowsHide: true });
+  let stderr = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+  exited.catch(() => {});
+
+  let remainder: Buffer = Buffer.alloc(0);
+  try {
+    for await (const chunk of child.stdout as AsyncIterable<Buffer>) {
+      const data = remainder.length > 0 ? Buffer.concat([remainder, chunk]) : chunk;
+      const size = data.length - (data.length % BYTES_PER_FRAME);
+      remainder = data.subarray(size);
+      if (size > 0) {
+        await onFrames(data.subarray(0, size));
+      }
+    }
+  } catch (error) {
+    child.kill();
+    throw error;
+  }
+
+  const code = await exited;
+  if (code !== 0) {
+    throw getEncoderError(stderr, code);
+  }
+}
+
+/**
+ * Expected size of the mixed PCM (for progress, tracks without duration are not counted)
+ */
+function getPlannedBytes(segments: MixSegment[]): number {
+  let seconds = 0;
+  for (const segment of segments) {
+    const duration = getSegmentDuration(segment);
+    seconds += (duration ?? 0) / (segment.rate > 0 ? segment.rate : 1) + segment.gapAfter;
+  }
+  return Math.round(seconds * SAMPLE_RATE) * BYTES_PER_FRAME;
+}
+
+/**
+ * Render player session into one audio file with a CUE sheet of track chapters next to it
+ *
+ * Tracks are decoded one by one with FFmpeg and joined in memory-bounded PCM stream:
+ * only the crossfade tail of the previous track is kept. Output format is taken from
+ * the file extension: WAV is written directly, other formats are encoded on the fly.
+ * A track that cannot be decoded is reported as failed and left out of the mix; when it fails
+ * midway, the decoded part stays in the mix and gets its CUE chapter.
+ * Mix and CUE are written to temporary files and replace existing ones only on success.
+ */
+export async function exportMix(
+  segments: MixSegment[],
+  outputPath: string,
+  options: ExportOptionValues,
+  context: ExportContext,
+): Promise<ExportResult> {
+  const { job } = context;
+  if (segments.length === 0) {
+    throw new Error('Nothing to render: all tracks are disabled');
+  }
+  if (segments.length > MAX_CUE_TRACKS) {
+    throw new Error(`CUE sheet supports at most ${MAX_CUE_TRACKS} tracks`);
+  }
+
+  const isWav = path.extname(outputPath).toLowerCase() === '.wav';
+  const encode = isWav ? null : await getTranscodeSettingsForFile(outputPath, options);
+  if (!isWav && !encode) {
+    throw new Error(`Unsupported mix format: ${path.extname(outputPath) || outputPath}`);
+  }
+  const encoderPath = await getEncoderPath();
+  await ensureCodec(encoderPath, PCM_CODEC);
+  if (encode) {
+    await ensureEncoder(encode);
+  }
+
+  await ensureFolder(path.dirname(outputPath));
+  const tempPath = getTempPath(outputPath);
+  const sink = encode
+    ? createEncoderSink(tempPath, encode, context.name, job.signal)
+    : await createWavSink(tempPath);
+  const writer = new MixWriter(sink, (count) => job.addBytes(count));
+  const result: ExportResult = { successful: [], failed: [] };
+  const chapters: CueChapter[] = [];
+  job.start(segments.length, getPlannedBytes(segments));
+
+  try {
+    let crossfade = 0;
+    for (const segment of segments) {
+      job.throwIfCancelled();
+      let start: number | null = null;
+      try {
+        // Missing file is reported before the previous track starts fading out
+        await fs.access(segment.path);
+        const keep = Math.round(segment.crossfadeAfter * SAMPLE_RATE);
+        start = writer.beginTrack(crossfade, keep);
+        try {
+          await decodeSegment(segment, encoderPath, job.signal, (frames) => writer.write(frames));
+        } finally {
+          writer.endTrack();
+        }
+        chapters.push({ title: segment.title, start });
+        result.successful.push(segment.path);
+        crossfade = keep;
+        if (segment.gapAfter > 0) {
+          await writer.writeSilence(segment.gapAfter);
+          crossfade = 0;
+        }
+      } catch (error) {
+        job.throwIfCancelled();
+        if (writer.outputError) {
+          throw writer.outputError;
+        }
+        result.failed.push({ path: segment.path, error: (error as Error).message });
+        // Decoded part can't be taken back from the stream: chapter keeps CUE in sync with audio,
+        // next track starts after it without a crossfade over the cut
+        if (start !== null && writer.hasTrackAudio) {
+          chapters.push({ title: segment.title, start });
+          crossfade = 0;
+        }
+      }
+      job.fileDone(segment.path);
+    }
+
+    if (result.successful.length === 0) {
+      await sink.abort();
+      return result;
+    }
+    await writer.finish();
+  } catch (error) {
+    await sink.abort();
+    if (job.cancelled) {
+      return { ...result, cancelled: true };
+    }
+    throw error;
+  }
+
+  const cuePath = path.join(
+    path.dirname(outputPath),
+    `${path.basename(outputPath, path.extname(outputPath))}.cue`,
+  );
+  const cueTempPath = getTempPath(cuePath);
+  try {
+    await fs.writeFile(
+      cueTempPath,
+      formatChaptersCUE(chapters, { name: context.name, fileName: path.basename(outputPath) }),
+      'utf8',
+    );
+    await fs.rename(tempPath, outputPath);
+    await fs.rename(cueTempPath, cuePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    await fs.rm(cueTempPath, { force: true });
+    throw error;
+  }
+  return { ...result, outputPath };
+}
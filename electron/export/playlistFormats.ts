@@ -0,0 +1,189 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Playlist entry ready to be written (location is already absolute or relative)
+ */
+export interface PlaylistFileEntry {
+  location: string;
+  title: string;
+  duration?: number; // Seconds
+}
+
+export interface PlaylistFileOptions {
+  name: string;
+  relative: boolean; // Locations are relative to the playlist file
+}
+
+/**
+ * Track title written to playlist files (file name without extension)
+ */
+export function getEntryTitle(trackName: string): string {
+  return path.basename(trackName, path.extname(trackName));
+}
+
+/**
+ * Extended M3U (#EXTINF:<seconds>,<title>), -1 for unknown duration
+ */
+export function formatM3U(
+  entries: PlaylistFileEntry[],
+  options: PlaylistFileOptions & { extended: boolean },
+): string {
+  if (!options.extended) {
+    return entries.map((entry) => entry.location).join('\n');
+  }
+  const lines = ['#EXTM3U', `#PLAYLIST:${options.name}`];
+  for (const entry of entries) {
+    const duration = entry.duration ? Math.round(entry.duration) : -1;
+    lines.push(`#EXTINF:${duration},${entry.title}`, entry.location);
+  }
+  return lines.join('\n');
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * XSPF locations are URIs: file:// URLs for absolute paths, encoded relative references otherwise
+ */
+function toXspfLocation(location: string, relative: boolean): string {
+  return relative
+    ? location.split('/').map(encodeURIComponent).join('/')
+    : pathToFileURL(location).href;
+}
+
+/**
+ * XSPF (duration in milliseconds)
+ */
+export function formatXSPF(entries: PlaylistFileEntry[], options: PlaylistFileOptions): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(options.name)}</title>`,
+    '  <trackList>',
+  ];
+  for (const entry of entries) {
+    lines.push(
+      '    <track>',
+      `      <location>${escapeXml(toXspfLocation(entry.location, options.relative))}</location>`,
+      `      <title>${escapeXml(entry.title)}</title>`,
+    );
+    if (entry.duration) {
+      lines.push(`      <duration>${Math.round(entry.duration * 1000)}</duration>`);
+    }
+    lines.push('    </track>');
+  }
+  lines.push('  </trackList>', '</playlist>');
+  return lines.join('\n');
+}
+
+// CUE sheet track numbers are two digits
+export const MAX_CUE_TRACKS = 99;
+
+const CUE_FILE_TYPES: Record<string, string> = {
+  '.mp3': 'MP3',
+  '.aif': 'AIFF',
+  '.aiff': 'AIFF',
+};
+
+// Quotes cannot be escaped inside CUE strings
+const toCueString = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+/**
+ * CUE sheet with one FILE per track (each track starts at 00:00:00 of its file)
+ */
+export function formatCUE(entries: PlaylistFileEntry[], options: PlaylistFileOptions): string {
+  if (entries.length > MAX_CUE_TRACKS) {
+    throw new Error(`CUE sheet supports at most ${MAX_CUE_TRACKS} tracks`);
+  }
+  const lines = [`TITLE ${toCueString(options.name)}`];
+  entries.forEach((entry, index) => {
+    const fileType = CUE_FILE_TYPES[path.extname(entry.location).toLowerCase()] ?? 'WAVE';
+    lines.push(
+      `FILE ${toCueString(entry.location)} ${fileType}`,
+      `  TRACK ${(index + 1).toString().padStart(2, '0')} AUDIO`,
+      `    TITLE ${toCueString(entry.title)}`,
+      '    INDEX 01 00:00:00',
+    );
+  });
+  return lines.join('\r\n');
+}
+
+// CUE time is mm:ss:ff with 75 frames per second (minutes are not limited to 99)
+const CUE_FRAMES_PER_SECOND = 75;
+
+const formatCueTime = (seconds: number): string => {
+  const frames = Math.round(Math.max(0, seconds) * CUE_FRAMES_PER_SECOND);
+  const totalSeconds = Math.floor(frames / CUE_FRAMES_PER_SECOND);
+  return [Math.floor(totalSeconds / 60), totalSeconds % 60, frames % CUE_FRAMES_PER_SECOND]
+    .map((value) => value.toString().padStart(2, '0'))
+    .join(':');
+};
+
+export interface CueChapter {
+  title: string;
+  start: number; // Seconds from the beginning of the file
+}
+
+/**
+ * CUE sheet for a single file with one TRACK per chapter
+ */
+export function formatChaptersCUE(
+  entries: CueChapter[],
+  options: { name: string; fileName: string },
+): string {
+  if (entries.length > MAX_CUE_TRACKS) {
+    throw new Error(`CUE sheet supports at most ${MAX_CUE_TRACKS} tracks`);
+  }
+  const fileType = CUE_FILE_TYPES[path.extname(options.fileName).toLowerCase()] ?? 'WAVE';
+  const lines = [
+    `TITLE ${toCueString(options.name)}`,
+    `FILE ${toCueString(options.fileName)} ${fileType}`,
+  ];
+  entries.forEach((entry, index) => {
+    lines.push(
+      `  TRACK ${(index + 1).toString().padStart(2, '0')} AUDIO`,
+      `    TITLE ${toCueString(entry.title)}`,
+      `    INDEX 01 ${formatCueTime(entry.start)}`,
+    );
+  });
+  return lines.join('\r\n');
+}
+
+const formatCsvDuration = (seconds?: number): string => {
+  if (!seconds) {
+    return '';
+  }
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * CSV track list (number, title, duration, path)
+ */
+export function formatCSV(
+  entries: PlaylistFileEntry[],
+  options: { separator: string; header: boolean },
+): string {
+  const escapeValue = (value: string): string =>
+    value.includes(options.separator) || /["\n\r]/.test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+
+  const rows = entries.map((entry, index) => [
+    String(index + 1),
+    entry.title,
+    formatCsvDuration(entry.duration),
+    entry.location,
+  ]);
+  if (options.header) {
+    rows.unshift(['№', 'Название', 'Длительность', 'Путь']);
+  }
+  return rows.map((row) => row.map(escapeValue).join(options.separator)).join('\r\n');
+}
@@ -0,0 +1,235 @@
+import { execFile, spawn } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+import { getEncoderPath } from './encoderSettings.js';
+import { ExportOptionDefinition, ExportOptionValues } from './exportTypes.js';
+
+const execFileAsync = promisify(execFile);
+
+const ENCODER_CHECK_TIMEOUT_MS = 10000;
+
+// Encoder processes running at once (each one loads a CPU core)
+export const TRANSCODE_CONCURRENCY = Math.max(1, Math.min(os.cpus().length - 1, 4));
+
+/**
+ * Run worker for every item with at most `limit` workers at once
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+export type TranscodeFormat = 'mp3' | 'm4a' | 'ogg' | 'flac';
+
+interface TranscodeFormatInfo {
+  label: string;
+  extension: string;
+  codec: string; // FFmpeg encoder name
+  lossless: boolean; // Bitrate is not applicable
+  args: string[]; // Format-specific output arguments
+}
+
+const TRANSCODE_FORMATS: Record<TranscodeFormat, TranscodeFormatInfo> = {
+  mp3: {
+    label: 'MP3',
+    extension: '.mp3',
+    codec: 'libmp3lame',
+    lossless: false,
+    // ID3v2.3 is read by most hardware players; cover art is kept as attached picture
+    args: ['-map', '0:v?', '-c:v', 'copy', '-id3v2_version', '3'],
+  },
+  m4a: { label: 'AAC (M4A)', extension: '.m4a', codec: 'aac', lossless: false, args: [] },
+  ogg: { label: 'Ogg Vorbis', extension: '.ogg', codec: 'libvorbis', lossless: false, args: [] },
+  flac: { label: 'FLAC', extension: '.flac', codec: 'flac', lossless: true, args: [] },
+};
+
+const BITRATES = ['128', '192', '256', '320'];
+
+/**
+ * Transcoding options shared by strategies that copy files
+ */
+export const TRANSCODE_OPTIONS: ExportOptionDefinition[] = [
+  {
+    key: 'transcodeFormat',
+    label: 'Конвертировать в формат',
+    type: 'select',
+    default: '',
+    choices: [
+      { value: '', label: 'Без конвертации' },
+      ...Object.entries(TRANSCODE_FORMATS).map(([value, info]) => ({ value, label: info.label })),
+    ],
+  },
+  {
+    key: 'transcodeBitrate',
+    label: 'Битрейт (кбит/с)',
+    type: 'select',
+    default: '320',
+    choices: BITRATES.map((value) => ({ value, label: value })),
+  },
+];
+
+export interface TranscodeSettings {
+  format: TranscodeFormat;
+  bitrate: string; // kbit/s
+  encoderPath: string; // From main process settings, never from renderer options
+}
+
+/**
+ * Transcoding settings from strategy options
+ * @returns null when files are copied as is
+ */
+export async function getTranscodeSettings(
+  options: ExportOptionValues,
+): Promise<TranscodeSettings | null> {
+  const format = options.transcodeFormat as TranscodeFormat;
+  if (!(format in TRANSCODE_FORMATS)) {
+    return null;
+  }
+  return {
+    format,
+    bitrate: BITRATES.includes(String(options.transcodeBitrate))
+      ? String(options.transcodeBitrate)
+      : BITRATES[BITRATES.length - 1],
+    encoderPath: await getEncoderPath(),
+  };
+}
+
+/**
+ * Destination file name with the target format extension
+ */
+export function getTranscodedFileName(fileName: string, settings: TranscodeSettings): string {
+  const ext = path.extname(fileName);
+  return `${fileName.slice(0, fileName.length - ext.length)}${TRANSCODE_FORMATS[settings.format].extension}`;
+}
+
+/**
+ * Encoding settings for an output file, format is taken from its extension
+ * @returns null when the extension is not a supported encoder format
+ */
+export async function getTranscodeSettingsForFile(
+  filePath: string,
+  options: ExportOptionValues,
+): Promise<TranscodeSettings | null> {
+  const ext = path.extname(filePath).toLowerCase();
+  const format = (Object.keys(TRANSCODE_FORMATS) as TranscodeFormat[]).find(
+    (key) => TRANSCODE_FORMATS[key].extension === ext,
+  );
+  return format ? await getTranscodeSettings({ ...options, transcodeFormat: format }) : null;
+}
+
+/**
+ * Output codec arguments (bitrate is skipped for lossless formats)
+ */
+export function getEncoderArgs(settings: TranscodeSettings): string[] {
+  const format = TRANSCODE_FORMATS[settings.format];
+  return ['-c:a', format.codec, ...(format.lossless ? [] : ['-b:a', `${settings.bitrate}k`])];
+}
+
+/**
+ * Files already in the target format are copied as is (no lossy re-encoding)
+ */
+export function needsTranscoding(filePath: string, settings: TranscodeSettings): boolean {
+  return path.extname(filePath).toLowerCase() !== TRANSCODE_FORMATS[settings.format].extension;
+}
+
+// Encoders list by binary path (checked once per app run)
+const encoderLists = new Map<string, Promise<string>>();
+
+/**
+ * Check that encoder binary exists and supports the target codec
+ * @throws error with a message for the user, export does not start
+ */
+export async function ensureEncoder(settings: TranscodeSettings): Promise<void> {
+  await ensureCodec(settings.encoderPath, TRANSCODE_FORMATS[settings.format].codec);
+}
+
+/**
+ * Check that encoder binary exists and supports the codec (FFmpeg encoder name)
+ */
+export async function ensureCodec(encoderPath: string, codec: string): Promise<void> {
+  let encoders = encoderLists.get(encoderPath);
+  if (!encoders) {
+    encoders = execFileAsync(encoderPath, ['-hide_banner', '-encoders'], {
+      timeout: ENCODER_CHECK_TIMEOUT_MS,
+      windowsHide: true,
+    }).then(({ stdout }) => stdout);
+    encoderLists.set(encoderPath, encoders);
+  }
+
+  let output: string;
+  try {
+    output = await encoders;
+  } catch {
+    encoderLists.delete(encoderPath);
+    throw new Error(
+      `Encoder not found: ${encoderPath}. Install FFmpeg or choose its path in Settings`,
+    );
+  }
+
+  if (!output.split('\n').some((line) => line.trim().split(/\s+/)[1] === codec)) {
+    throw new Error(`${encoderPath} does not support encoder ${codec}`);
+  }
+}
+
+/**
+ * Last line of encoder stderr (FFmpeg prints the cause of a failure last)
+ */
+export function getEncoderError(stderr: string, code: number | null): Error {
+  const message = stderr.trim().split('\n').pop();
+  return new Error(message || `Encoder exited with code ${code}`);
+}
+
+/**
+ * Transcode file with FFmpeg, tags (and MP3 cover art) are copied from the source
+ */
+export function transcodeFile(
+  src: string,
+  dest: string,
+  settings: TranscodeSettings,
+  signal: AbortSignal,
+): Promise<void> {
+  const format = TRANSCODE_FORMATS[settings.format];
+  const args = [
+    '-hide_banner',
+    '-nostdin',
+    '-loglevel',
+    'error',
+    '-y',
+    '-i',
+    src,
+    '-map',
+    '0:a:0',
+    ...format.args,
+    '-map_metadata',
+    '0',
+    ...getEncoderArgs(settings),
+    dest,
+  ];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(settings.encoderPath, args, { signal, windowsHide: true });
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(getEncoderError(stderr, code));
+      }
+    });
+  });
+}
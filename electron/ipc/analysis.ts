@@ -0,0 +1,106 @@
+import { ipcMain } from 'electron';
+
+import { getLoudness } from '../analysis/loudnessAnalyzer.js';
+import { getSilence } from '../analysis/silenceAnalyzer.js';
+import { getTempoKey } from '../analysis/tempoKeyAnalyzer.js';
+import { getWaveform } from '../analysis/waveformAnalyzer.js';
+import { validatePath } from '../utils/fsHelpers.js';
+
+/**
+ * Register audio analysis IPC handlers
+ */
+export function registerAnalysisHandlers(): void {
+  ipcMain.handle('analysis:getLoudness', async (event, payload: { paths: string[] }) => {
+    try {
+      for (const filePath of payload.paths) {
+        if (!validatePath(filePath)) {
+          return {
+            success: false,
+            error: `Invalid track path: ${filePath} - path traversal detected`,
+          };
+        }
+      }
+
+      const loudness = await getLoudness(payload.paths);
+      return {
+        success: true,
+        data: loudness,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('analysis:getWaveform', async (event, payload: { path: string }) => {
+    try {
+      if (!validatePath(payload.path)) {
+        return {
+          success: false,
+          error: `Invalid track path: ${payload.path} - path traversal detected`,
+        };
+      }
+
+      const waveform = await getWaveform(payload.path);
+      return {
+        success: true,
+        data: waveform,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('analysis:getTempoKey', async (event, payload: { paths: string[] }) => {
+    try {
+      for (const filePath of payload.paths) {
+        if (!validatePath(filePath)) {
+          return {
+            success: false,
+            error: `Invalid track path: ${filePath} - path traversal detected`,
+          };
+        }
+      }
+
+      const tempoKey = await getTempoKey(payload.paths);
+      return {
+        success: true,
+        data: tempoKey,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('analysis:getSilence', async (event, payload: { paths: string[] }) => {
+    try {
+      for (const filePath of payload.paths) {
+        if (!validatePath(filePath)) {
+          return {
+            success: false,
+            error: `Invalid track path: ${filePath} - path traversal detected`,
+          };
+        }
+      }
+
+      const silence = await getSilence(payload.paths);
+      return {
+        success: true,
+        data: silence,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
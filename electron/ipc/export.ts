@@ -1,244 +1,91 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
-
-import { ipcMain } from 'electron';
+import { BrowserWindow, IpcMainInvokeEvent, dialog, ipcMain } from 'electron';
 
+import { getSavedEncoderPath, setEncoderPath } from '../export/encoderSettings.js';
+import { ExportJob } from '../export/exportJob.js';
+import { executeExportStrategy, listExportStrategies } from '../export/exportStrategies.js';
 import {
-  copyFileWithRetry,
-  ensureFolder,
-  safeFileName,
-  getRelativePath,
-  validatePath,
-} from '../utils/fsHelpers.js';
-
-export interface Track {
-  id: string;
-  path: string;
-  name: string;
-  duration?: number;
-}
-
-export interface ExportResult {
-  successful: string[];
-  failed: Array<{ path: string; error: string }>;
-}
-
-/**
- * Export playlist with number prefix strategy
- */
-async function exportWithNumberPrefix(tracks: Track[], targetPath: string): Promise<ExportResult> {
-  const result: ExportResult = {
-    successful: [],
-    failed: [],
-  };
-
-  try {
-    await ensureFolder(targetPath);
-
-    for (let i = 0; i < tracks.length; i++) {
-      const track = tracks[i];
-      const number = (i + 1).toString().padStart(2, '0');
-      const ext = path.extname(track.path);
-      const originalName = path.basename(track.path, ext);
-      const newName = `${number} - ${safeFileName(originalName)}${ext}`;
-      const destPath = path.join(targetPath, newName);
-
-      try {
-        // Check if source file exists before copying
-        await fs.access(track.path);
-        await copyFileWithRetry(track.path, destPath);
-        result.successful.push(track.path);
-      } catch (error) {
-        result.failed.push({
-          path: track.path,
-          error: (error as Error).message,
-        });
-      }
-    }
-  } catch (error) {
-    throw new Error(`Export failed: ${(error as Error).message}`);
-  }
-
-  return result;
-}
-
-/**
- * Export playlist to AIMP format (M3U8)
- */
-async function exportAIMPPlaylist(
-  tracks: Track[],
-  targetPath: string,
-  playlistName: string,
-): Promise<{
-  playlistPath: string;
-  successful: string[];
-  failed: Array<{ path: string; error: string }>;
-}> {
-  const result: { successful: string[]; failed: Array<{ path: string; error: string }> } = {
-    successful: [],
-    failed: [],
-  };
-
-  try {
-    // Create subfolder with playlist name
-    const safePlaylistName = safeFileName(playlistName || 'Playlist');
-    const playlistFolder = path.join(targetPath, safePlaylistName);
-    await ensureFolder(playlistFolder);
-
-    // Copy all tracks with original names
-    for (const track of tracks) {
-      const fileName = path.basename(track.path);
-      const destPath = path.join(playlistFolder, fileName);
-
-      try {
-        // Check if source file exists before copying
-        await fs.access(track.path);
-        await copyFileWithRetry(track.path, destPath);
-        result.successful.push(track.path);
-      } catch (error) {
-        result.failed.push({
-          path: track.path,
-          error: (error as Error).message,
-        });
-      }
-    }
-
-    // Create M3U8 playlist file
-    const playlistFilePath = path.join(playlistFolder, `${safePlaylistName}.m3u8`);
-    const playlistContent: string[] = ['#EXTM3U'];
-
-    for (const track of tracks) {
-      const fileName = path.basename(track.path);
-      // Use relative path from playlist file to track file
-      const relativePath = getRelativePath(playlistFilePath, path.join(playlistFolder, fileName));
-      playlistContent.push(relativePath);
-    }
-
-    // Write playlist file with UTF-8 BOM for compatibility
-    const bom = '\uFEFF';
-    await fs.writeFile(playlistFilePath, bom + playlistContent.join('\n'), 'utf8');
-
-    return {
-      playlistPath: playlistFilePath,
-      ...result,
-    };
-  } catch (error) {
-    throw new Error(`AIMP export failed: ${(error as Error).message}`);
-  }
-}
+  ExportConflictPolicy,
+  ExportOptionValues,
+  ExportTrack,
+  MixSegment,
+} from '../export/exportTypes.js';
+import { exportMix } from '../export/mixRender.js';
+import { validatePath } from '../utils/fsHelpers.js';
+
+const CONFLICT_POLICIES: ExportConflictPolicy[] = [
+  'overwrite',
+  'skip',
+  'rename',
+  'skipIfIdentical',
+];
+
+// Running export jobs by id (id is generated by renderer to match progress events)
+const jobs = new Map<string, ExportJob>();
 
 /**
- * Copy tracks into a new folder (with original filenames)
+ * Job that sends its progress to the window that started it
  */
-async function copyTracksToFolder(
-  tracks: Track[],
-  targetPath: string,
-  folderName: string,
-): Promise<{
-  folderPath: string;
-  successful: string[];
-  failed: Array<{ path: string; error: string }>;
-}> {
-  const result: { successful: string[]; failed: Array<{ path: string; error: string }> } = {
-    successful: [],
-    failed: [],
-  };
-
-  try {
-    const safeFolderName = safeFileName(folderName || 'Collection');
-    const destinationFolder = path.join(targetPath, safeFolderName);
-    await ensureFolder(destinationFolder);
-
-    for (const track of tracks) {
-      const fileName = path.basename(track.path);
-      const destPath = path.join(destinationFolder, fileName);
-
-      try {
-        await fs.access(track.path);
-        await copyFileWithRetry(track.path, destPath);
-        result.successful.push(track.path);
-      } catch (error) {
-        result.failed.push({
-          path: track.path,
-          error: (error as Error).message,
-        });
-      }
+function createJob(
+  event: IpcMainInvokeEvent,
+  jobId: string,
+  conflictPolicy: ExportConflictPolicy,
+  retryPaths?: string[],
+): ExportJob {
+  const sender = event.sender;
+  return new ExportJob(jobId, conflictPolicy, retryPaths, (progress) => {
+    if (!sender.isDestroyed()) {
+      sender.send('export:progress', progress);
     }
-
-    return {
-      folderPath: destinationFolder,
-      ...result,
-    };
-  } catch (error) {
-    throw new Error(`Copy failed: ${(error as Error).message}`);
-  }
+  });
 }
 
 /**
  * Register export IPC handlers
+ *
+ * All formats go through the strategy registry (electron/export/exportStrategies.ts):
+ * a new strategy only needs to be added there, not a new channel.
+ * Rendering a player session into one file (export:mix) runs as the same kind of job.
+ * Progress of a running job is pushed to the requesting window on "export:progress".
+ * The FFmpeg path is chosen in a main process dialog: renderer never passes a binary to run.
  */
 export function registerExportHandlers(): void {
+  ipcMain.handle('export:getStrategies', async () => {
+    try {
+      return {
+        success: true,
+        data: listExportStrategies(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
   ipcMain.handle(
     'export:execute',
     async (
       event,
       payload: {
-        tracks: Track[];
+        tracks: ExportTrack[];
         targetPath: string;
         strategy: string;
+        options?: Record<string, unknown>;
+        name?: string; // Playlist or collection name for created files and folders
+        jobId: string;
+        conflictPolicy?: ExportConflictPolicy; // Existing destination files, default "overwrite"
+        retryPaths?: string[]; // Process only these tracks (retry of failed ones)
       },
     ) => {
       try {
-        // Validate target path
-        if (!validatePath(payload.targetPath)) {
+        if (!payload.jobId || jobs.has(payload.jobId)) {
           return {
             success: false,
-            error: 'Invalid target path: path traversal detected',
+            error: `Invalid export job id: ${payload.jobId}`,
           };
         }
 
-        // Validate all track paths
-        for (const track of payload.tracks) {
-          if (!validatePath(track.path)) {
-            return {
-              success: false,
-              error: `Invalid track path: ${track.path} - path traversal detected`,
-            };
-          }
-        }
-
-        let result: ExportResult;
-
-        if (payload.strategy === 'copyWithNumberPrefix') {
-          result = await exportWithNumberPrefix(payload.tracks, payload.targetPath);
-        } else {
-          throw new Error(`Unknown export strategy: ${payload.strategy}`);
-        }
-
-        return {
-          success: true,
-          data: result,
-        };
-      } catch (error) {
-        return {
-          success: false,
-          error: (error as Error).message,
-        };
-      }
-    },
-  );
-
-  ipcMain.handle(
-    'export:aimp',
-    async (
-      event,
-      payload: {
-        tracks: Track[];
-        targetPath: string;
-        playlistName: string;
-      },
-    ) => {
-      try {
         // Validate target path
         if (!validatePath(payload.targetPath)) {
           return {
@@ -257,16 +104,32 @@ export function registerExportHandlers(): void {
           }
         }
 
-        const result = await exportAIMPPlaylist(
-          payload.tracks,
-          payload.targetPath,
-          payload.playlistName,
+        const job = createJob(
+          event,
+          payload.jobId,
+          CONFLICT_POLICIES.includes(payload.conflictPolicy as ExportConflictPolicy)
+            ? (payload.conflictPolicy as ExportConflictPolicy)
+            : 'overwrite',
+          Array.isArray(payload.retryPaths) ? payload.retryPaths : undefined,
         );
+        jobs.set(job.id, job);
 
-        return {
-          success: true,
-          data: result,
-        };
+        try {
+          const result = await executeExportStrategy(
+            payload.strategy,
+            payload.tracks,
+            payload.targetPath,
+            payload.options,
+            { name: payload.name ?? '', job },
+          );
+
+          return {
+            success: true,
+            data: result,
+          };
+        } finally {
+          jobs.delete(job.id);
+        }
       } catch (error) {
         return {
           success: false,
@@ -277,42 +140,60 @@ export function registerExportHandlers(): void {
   );
 
   ipcMain.handle(
-    'export:copyTracksToFolder',
+    'export:mix',
     async (
       event,
       payload: {
-        tracks: Track[];
-        targetPath: string;
-        folderName: string;
+        segments: MixSegment[];
+        outputPath: string; // Format is taken from the extension (.wav, .mp3, .m4a, .ogg, .flac)
+        name?: string; // Title of the mix in tags and CUE sheet
+        options?: Record<string, unknown>; // transcodeBitrate
+        jobId: string;
       },
     ) => {
       try {
-        if (!validatePath(payload.targetPath)) {
+        if (!payload.jobId || jobs.has(payload.jobId)) {
           return {
             success: false,
-            error: 'Invalid target path: path traversal detected',
+            error: `Invalid export job id: ${payload.jobId}`,
           };
         }
 
-        for (const track of payload.tracks) {
-          if (!validatePath(track.path)) {
+        if (!validatePath(payload.outputPath)) {
+          return {
+            success: false,
+            error: 'Invalid output path: path traversal detected',
+          };
+        }
+
+        for (const segment of payload.segments) {
+          if (!validatePath(segment.path)) {
             return {
               success: false,
-              error: `Invalid track path: ${track.path} - path traversal detected`,
+              error: `Invalid track path: ${segment.path} - path traversal detected`,
             };
           }
         }
 
-        const result = await copyTracksToFolder(
-          payload.tracks,
-          payload.targetPath,
-          payload.folderName,
-        );
+        // Output file is chosen in the save dialog, which already asks about overwriting
+        const job = createJob(event, payload.jobId, 'overwrite');
+        jobs.set(job.id, job);
 
-        return {
-          success: true,
-          data: result,
-        };
+        try {
+          const result = await exportMix(
+            payload.segments,
+            payload.outputPath,
+            (payload.options ?? {}) as ExportOptionValues,
+            { name: payload.name ?? '', job },
+          );
+
+          return {
+            success: true,
+            data: result,
+          };
+        } finally {
+          jobs.delete(job.id);
+        }
       } catch (error) {
         return {
           success: false,
@@ -321,4 +202,71 @@ export function registerExportHandlers(): void {
       }
     },
   );
+
+  ipcMain.handle('export:getEncoder', async () => {
+    try {
+      return {
+        success: true,
+        data: await getSavedEncoderPath(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('export:chooseEncoder', async (event) => {
+    try {
+      const window =
+        BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getAllWindows()[0];
+      const result = await dialog.showOpenDialog(window, {
+        title: 'Select FFmpeg',
+        properties: ['openFile'],
+        filters:
+          process.platform === 'win32' ? [{ name: 'FFmpeg', extensions: ['exe'] }] : undefined,
+      });
+      if (result.canceled || result.filePaths.length === 0) {
+        return {
+          success: true,
+          data: await getSavedEncoderPath(),
+        };
+      }
+
+      return {
+        success: true,
+        data: await setEncoderPath(result.filePaths[0]),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('export:resetEncoder', async () => {
+    try {
+      return {
+        success: true,
+        data: await setEncoderPath(null),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('export:cancel', async (event, payload: { jobId: string }) => {
+    // Copying stops at the current chunk, the export call returns a result with "cancelled"
+    const job = jobs.get(payload.jobId);
+    job?.cancel();
+    return {
+      success: true,
+      data: Boolean(job),
+    };
+  });
 }
@@ -3,7 +3,7 @@ import * as path from 'path';
 
 import { ipcMain } from 'electron';
 
-import { isAudioFile, validatePath } from '../utils/fsHelpers.js';
+import { findAudioFilesRecursive, validatePath } from '../utils/fsHelpers.js';
 import { logger } from '../utils/logger.js';
 
 export interface DirectoryItem {
@@ -79,36 +79,6 @@ async function statFile(filePath: string): Promise<{
   }
 }
 
-/**
- * Find all audio files recursively in a directory
- */
-async function findAudioFilesRecursive(dirPath: string): Promise<string[]> {
-  const audioFiles: string[] = [];
-
-  async function traverse(currentPath: string): Promise<void> {
-    try {
-      const stats = await fs.stat(currentPath);
-
-      if (stats.isDirectory()) {
-        const entries = await fs.readdir(currentPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-          const fullPath = path.join(currentPath, entry.name);
-          await traverse(fullPath);
-        }
-      } else if (stats.isFile() && isAudioFile(currentPath)) {
-        audioFiles.push(currentPath);
-      }
-    } catch (error) {
-      // Skip entries that can't be accessed
-      logger.warn(`Cannot access ${currentPath}`, error);
-    }
-  }
-
-  await traverse(dirPath);
-  return audioFiles;
-}
-
 /**
  * Register file browser IPC handlers
  */
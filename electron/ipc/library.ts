@@ -0,0 +1,113 @@
+import { ipcMain } from 'electron';
+
+import {
+  addLibraryRoot,
+  getLibraryRoots,
+  LibraryQuery,
+  queryLibrary,
+  removeLibraryRoot,
+  scanLibrary,
+} from '../library/libraryIndex.js';
+import { validatePath } from '../utils/fsHelpers.js';
+
+/**
+ * Register music library IPC handlers
+ */
+export function registerLibraryHandlers(): void {
+  ipcMain.handle('library:getRoots', async () => {
+    try {
+      const roots = await getLibraryRoots();
+      return {
+        success: true,
+        data: roots,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('library:addRoot', async (event, payload: { path: string }) => {
+    try {
+      // Validate path to prevent path traversal attacks
+      if (!validatePath(payload.path)) {
+        return {
+          success: false,
+          error: 'Invalid path: path traversal detected',
+        };
+      }
+
+      const roots = await addLibraryRoot(payload.path);
+      return {
+        success: true,
+        data: roots,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('library:removeRoot', async (event, payload: { path: string }) => {
+    try {
+      if (!validatePath(payload.path)) {
+        return {
+          success: false,
+          error: 'Invalid path: path traversal detected',
+        };
+      }
+
+      const roots = await removeLibraryRoot(payload.path);
+      return {
+        success: true,
+        data: roots,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('library:scan', async (event, payload?: { root?: string }) => {
+    try {
+      if (payload?.root && !validatePath(payload.root)) {
+        return {
+          success: false,
+          error: 'Invalid path: path traversal detected',
+        };
+      }
+
+      const result = await scanLibrary(payload?.root);
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle('library:query', async (event, payload?: LibraryQuery) => {
+    try {
+      const result = await queryLibrary(payload || {});
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
@@ -0,0 +1,213 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { ipcMain } from 'electron';
+
+import { validatePath } from '../utils/fsHelpers.js';
+
+// Supported .player.json format version
+const PLAYER_FILE_VERSION = '1.0';
+
+export interface PlayerFileGroup {
+  id: string;
+  name: string | null;
+  items: Array<string | PlayerFileGroup>;
+  settings?: Record<string, unknown>;
+}
+
+export interface PlayerFileData {
+  version: string;
+  name?: string;
+  tracks: Array<{
+    id: string;
+    path: string;
+    name: string;
+    duration?: number;
+    settings?: Record<string, unknown>;
+  }>;
+  groups: PlayerFileGroup[];
+  settings: {
+    defaultPauseBetweenTracks: number;
+    defaultActionAfterTrack: string;
+    defaultCrossfadeDuration?: number;
+    defaultCuePoints?: {
+      startOffset: number;
+      endOffset: number;
+      fadeIn: number;
+      fadeOut: number;
+    };
+    plannedEndTime: number | null;
+  };
+  rules?: unknown[];
+}
+
+/**
+ * Validate group structure recursively
+ */
+function isValidGroup(group: PlayerFileGroup): boolean {
+  if (!group || typeof group.id !== 'string' || !Array.isArray(group.items)) {
+    return false;
+  }
+  return group.items.every((item) => typeof item === 'string' || isValidGroup(item));
+}
+
+/**
+ * Save player to .player.json file
+ */
+async function savePlayerFile(filePath: string, data: PlayerFileData): Promise<void> {
+  try {
+    // Ensure directory exists
+    const dir = path.dirname(filePath);
+    await fs.mkdir(dir, { recursive: true });
+
+    const serializableData: PlayerFileData = {
+      version: PLAYER_FILE_VERSION,
+      name: data.name,
+      tracks: data.tracks.map((track) => ({
+        id: track.id,
+        path: track.path,
+        name: track.name,
+        duration: track.duration,
+        settings: track.settings,
+      })),
+      groups: data.groups,
+      settings: data.settings,
+      ...(Array.isArray(data.rules) && data.rules.length > 0 ? { rules: data.rules } : {}),
+    };
+
+    await fs.writeFile(filePath, JSON.stringify(serializableData, null, 2), 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to save player: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Load player from .player.json file
+ */
+async function loadPlayerFile(filePath: string): Promise<PlayerFileData> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    const data = JSON.parse(content) as PlayerFileData;
+
+    // Validate structure
+    if (!data || typeof data.version !== 'string') {
+      throw new Error('Invalid player file format: missing version');
+    }
+    if (data.version.split('.')[0] !== PLAYER_FILE_VERSION.split('.')[0]) {
+      throw new Error(`Unsupported player file version: ${data.version}`);
+    }
+    if (!Array.isArray(data.tracks) || !Array.isArray(data.groups) || !data.settings) {
+      throw new Error('Invalid player file format');
+    }
+    if (data.tracks.some((track) => typeof track.id !== 'string' || !track.path)) {
+      throw new Error('Invalid player file format: invalid track');
+    }
+    if (!data.groups.every(isValidGroup)) {
+      throw new Error('Invalid player file format: invalid group');
+    }
+
+    return data;
+  } catch (error) {
+    throw new Error(`Failed to load player: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write session log report (CSV or JSON) prepared by the renderer
+ */
+async function writeSessionLogFile(filePath: string, content: string): Promise<void> {
+  try {
+    const dir = path.dirname(filePath);
+    await fs.mkdir(dir, { recursive: true });
+
+    // UTF-8 BOM so that Excel detects encoding of CSV reports
+    const bom = filePath.toLowerCase().endsWith('.csv') ? '\uFEFF' : '';
+    await fs.writeFile(filePath, bom + content, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to export session log: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Register player file IPC handlers
+ */
+export function registerPlayerHandlers(): void {
+  ipcMain.handle(
+    'player:save',
+    async (
+      event,
+      payload: {
+        path: string;
+        data: PlayerFileData;
+      },
+    ) => {
+      try {
+        // Validate path to prevent path traversal attacks
+        if (!validatePath(payload.path)) {
+          return {
+            success: false,
+            error: 'Invalid path: path traversal detected',
+          };
+        }
+
+        await savePlayerFile(payload.path, payload.data);
+        return {
+          success: true,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    },
+  );
+
+  ipcMain.handle('player:load', async (event, payload: { path: string }) => {
+    try {
+      // Validate path to prevent path traversal attacks
+      if (!validatePath(payload.path)) {
+        return {
+          success: false,
+          error: 'Invalid path: path traversal detected',
+        };
+      }
+
+      const data = await loadPlayerFile(payload.path);
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle(
+    'player:exportSessionLog',
+    async (event, payload: { path: string; content: string }) => {
+      try {
+        // Validate path to prevent path traversal attacks
+        if (!validatePath(payload.path)) {
+          return {
+            success: false,
+            error: 'Invalid path: path traversal detected',
+          };
+        }
+
+        await writeSessionLogFile(payload.path, payload.content);
+        return {
+          success: true,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    },
+  );
+}
@@ -3,6 +3,7 @@ import * as path from 'path';
 
 import { ipcMain } from 'electron';
 
+import { getPlaylistImportFormat, importPlaylistFile } from '../playlist/playlistImport.js';
 import { validatePath } from '../utils/fsHelpers.js';
 
 export interface PlaylistData {
@@ -12,6 +13,8 @@ export interface PlaylistData {
     name: string;
     duration?: number;
   }>;
+  rules?: unknown[]; // Serialized rules from the Rules workspace (validated in renderer)
+  unresolved?: string[]; // Imported playlists: entries that were not found on disk
 }
 
 /**
@@ -31,6 +34,9 @@ async function savePlaylist(filePath: string, playlist: PlaylistData): Promise<v
         name: track.name,
         duration: track.duration,
       })),
+      ...(Array.isArray(playlist.rules) && playlist.rules.length > 0
+        ? { rules: playlist.rules }
+        : {}),
     };
 
     // Write JSON file
@@ -41,10 +47,15 @@ async function savePlaylist(filePath: string, playlist: PlaylistData): Promise<v
 }
 
 /**
- * Load playlist from JSON file
+ * Load playlist from JSON file or import M3U/M3U8, PLS, XSPF, WPL
  */
 async function loadPlaylist(filePath: string): Promise<PlaylistData> {
   try {
+    const importFormat = getPlaylistImportFormat(filePath);
+    if (importFormat) {
+      return await importPlaylistFile(filePath, importFormat);
+    }
+
     const content = await fs.readFile(filePath, 'utf8');
     const playlist = JSON.parse(content) as PlaylistData;
 
@@ -0,0 +1,103 @@
+import { ipcMain } from 'electron';
+
+import {
+  getPluginWorkspaceContent,
+  listPlugins,
+  rescanPlugins,
+  runPluginTrackAction,
+  setPluginEnabled,
+} from '../plugins/pluginManager.js';
+import { PluginTrack } from '../plugins/pluginTypes.js';
+import { validatePath } from '../utils/fsHelpers.js';
+
+/**
+ * Register plugin IPC handlers
+ */
+export function registerPluginHandlers(): void {
+  ipcMain.handle('plugins:list', async (event, payload?: { rescan?: boolean }) => {
+    try {
+      if (payload?.rescan) {
+        await rescanPlugins();
+      }
+      const plugins = await listPlugins();
+      return {
+        success: true,
+        data: plugins,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  ipcMain.handle(
+    'plugins:setEnabled',
+    async (event, payload: { pluginId: string; enabled: boolean }) => {
+      try {
+        const plugin = await setPluginEnabled(payload.pluginId, payload.enabled);
+        return {
+          success: true,
+          data: plugin,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'plugins:runTrackAction',
+    async (event, payload: { pluginId: string; actionId: string; tracks: PluginTrack[] }) => {
+      try {
+        // Validate all track paths before handing them to plugin code
+        for (const track of payload.tracks) {
+          if (!validatePath(track.path)) {
+            return {
+              success: false,
+              error: `Invalid track path: ${track.path} - path traversal detected`,
+            };
+          }
+        }
+
+        const tracks = payload.tracks.map((track) => ({
+          path: track.path,
+          name: track.name,
+          duration: track.duration,
+        }));
+        const result = await runPluginTrackAction(payload.pluginId, payload.actionId, tracks);
+        return {
+          success: true,
+          data: result,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    },
+  );
+
+  ipcMain.handle(
+    'plugins:getWorkspaceContent',
+    async (event, payload: { pluginId: string; moduleId: string }) => {
+      try {
+        const content = await getPluginWorkspaceContent(payload.pluginId, payload.moduleId);
+        return {
+          success: true,
+          data: content,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    },
+  );
+}
@@ -0,0 +1,404 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { app } from 'electron';
+import * as mm from 'music-metadata';
+
+import { ensureFolder, findAudioFilesRecursive } from '../utils/fsHelpers.js';
+import { logger } from '../utils/logger.js';
+
+// On-disk index format version
+const LIBRARY_INDEX_VERSION = 1;
+const LIBRARY_INDEX_FILE = 'library-index.json';
+
+export interface LibraryTrack {
+  path: string;
+  name: string;
+  root: string;
+  size: number;
+  mtime: number;
+  duration?: number;
+  artist?: string;
+  title?: string;
+  album?: string;
+  genre?: string;
+  bpm?: number;
+  year?: number;
+  bitrate?: number; // kbps
+}
+
+export interface LibraryQuery {
+  search?: string;
+  genre?: string;
+  artist?: string;
+  bpmMin?: number;
+  bpmMax?: number;
+  root?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface LibraryQueryResult {
+  tracks: LibraryTrack[];
+  total: number;
+}
+
+export interface LibraryScanResult {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: Array<{ path: string; error: string }>;
+  total: number;
+}
+
+interface LibraryIndexFile {
+  version: number;
+  roots: string[];
+  tracks: LibraryTrack[];
+}
+
+// In-memory index state (loaded lazily from userData)
+let roots: string[] = [];
+let tracksByPath = new Map<string, LibraryTrack>();
+let isLoaded = false;
+let loadPromise: Promise<void> | null = null;
+// Scans and root changes run one after another (they share the index); scan
+// requests for the same target while it is queued or running share its result
+const scansInFlight = new Map<string, Promise<LibraryScanResult>>();
+let scanQueue: Promise<unknown> = Promise.resolve();
+const ALL_ROOTS_SCAN_KEY = '*';
+
+/**
+ * Get index file path under userData
+ */
+function getIndexFilePath(): string {
+  return path.join(app.getPath('userData'), 'library', LIBRARY_INDEX_FILE);
+}
+
+/**
+ * Normalize path for use as index key
+ */
+function normalizeRoot(rootPath: string): string {
+  return path.resolve(rootPath);
+}
+
+/**
+ * Check if file path is inside root folder
+ */
+function isInsideRoot(filePath: string, rootPath: string): boolean {
+  const relative = path.relative(rootPath, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Run task after all queued scans and root changes
+ */
+function enqueueIndexTask<T>(task: () => Promise<T>): Promise<T> {
+  const run = scanQueue.then(task);
+  scanQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Load index from disk (once)
+ */
+async function ensureLoaded(): Promise<void> {
+  if (isLoaded) {
+    return;
+  }
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const content = await fs.readFile(getIndexFilePath(), 'utf8');
+        const data = JSON.parse(content) as LibraryIndexFile;
+        if (data.version === LIBRARY_INDEX_VERSION && Array.isArray(data.tracks)) {
+          roots = Array.isArray(data.roots) ? data.roots : [];
+          tracksByPath = new Map(data.tracks.map((track) => [track.path, track]));
+        } else {
+          logger.warn('Library index version mismatch, starting with empty index');
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.error('Failed to read library index', error);
+        }
+      }
+      isLoaded = true;
+    })();
+  }
+  await loadPromise;
+}
+
+/**
+ * Persist index to disk (write to temp file and rename)
+ */
+async function saveIndex(): Promise<void> {
+  const filePath = getIndexFilePath();
+  const tempPath = `${filePath}.tmp`;
+  const data: LibraryIndexFile = {
+    version: LIBRARY_INDEX_VERSION,
+    roots,
+    tracks: Array.from(tracksByPath.values()),
+  };
+
+  try {
+    await ensureFolder(path.dirname(filePath));
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    throw new Error(`Failed to save library index: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Read tags and format info for a single file
+ */
+async function readTrackMetadata(
+  filePath: string,
+  rootPath: string,
+  stats: { size: number; mtimeMs: number },
+): Promise<LibraryTrack> {
+  const metadata = await mm.parseFile(filePath, { skipCovers: true });
+  const { common, format } = metadata;
+
+  return {
+    path: filePath,
+    name: path.basename(filePath, path.extname(filePath)),
+    root: rootPath,
+    size: stats.size,
+    mtime: Math.floor(stats.mtimeMs),
+    duration: format.duration ? Math.floor(format.duration) : undefined,
+    artist: common.artist || undefined,
+    title: common.title || undefined,
+    album: common.album || undefined,
+    genre: common.genre?.[0] || undefined,
+    bpm: common.bpm ? Math.round(common.bpm) : undefined,
+    year: common.year || undefined,
+    bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : undefined,
+  };
+}
+
+/**
+ * Scan one root folder and update index incrementally by mtime/size
+ */
+async function scanRoot(rootPath: string, result: LibraryScanResult): Promise<void> {
+  // Folders that could not be read (unplugged drive, no access): their tracks are kept
+  const unreadablePaths: string[] = [];
+  const files = await findAudioFilesRecursive(rootPath, (entryPath, error) => {
+    unreadablePaths.push(entryPath);
+    result.failed.push({ path: entryPath, error: error.message });
+  });
+  const foundPaths = new Set(files);
+
+  for (const filePath of files) {
+    try {
+      const stats = await fs.stat(filePath);
+      const existing = tracksByPath.get(filePath);
+
+      if (
+        existing &&
+        existing.mtime === Math.floor(stats.mtimeMs) &&
+        existing.size === stats.size
+      ) {
+        result.unchanged++;
+        continue;
+      }
+
+      const track = await readTrackMetadata(filePath, rootPath, stats);
+      tracksByPath.set(filePath, track);
+      if (existing) {
+        result.updated++;
+      } else {
+        result.added++;
+      }
+    } catch (error) {
+      logger.warn(`Failed to index ${filePath}`, error);
+      result.failed.push({ path: filePath, error: (error as Error).message });
+    }
+  }
+
+  // Remove files that no longer exist in this root
+  for (const [filePath, track] of tracksByPath) {
+    if (
+      track.root === rootPath &&
+      !foundPaths.has(filePath) &&
+      !unreadablePaths.some(
+        (unreadablePath) => filePath === unreadablePath || isInsideRoot(filePath, unreadablePath),
+      )
+    ) {
+      tracksByPath.delete(filePath);
+      result.removed++;
+    }
+  }
+}
+
+/**
+ * Get configured library root folders
+ */
+export async function getLibraryRoots(): Promise<string[]> {
+  await ensureLoaded();
+  return [...roots];
+}
+
+/**
+ * Add library root folder
+ * Queued after running scans, so a scan never sees a half-applied root list
+ */
+export async function addLibraryRoot(rootPath: string): Promise<string[]> {
+  return enqueueIndexTask(async () => {
+    await ensureLoaded();
+    const normalized = normalizeRoot(rootPath);
+
+    const stats = await fs.stat(normalized);
+    if (!stats.isDirectory()) {
+      throw new Error('Library root must be a directory');
+    }
+
+    if (!roots.includes(normalized)) {
+      roots = [...roots, normalized];
+      await saveIndex();
+    }
+    return [...roots];
+  });
+}
+
+/**
+ * Remove library root folder and its indexed tracks
+ * Queued after running scans: a scan of this root can't re-add its tracks afterwards
+ */
+export async function removeLibraryRoot(rootPath: string): Promise<string[]> {
+  return enqueueIndexTask(async () => {
+    await ensureLoaded();
+    const normalized = normalizeRoot(rootPath);
+
+    roots = roots.filter((root) => root !== normalized);
+    for (const [filePath, track] of tracksByPath) {
+      if (track.root === normalized) {
+        tracksByPath.delete(filePath);
+      }
+    }
+    await saveIndex();
+    return [...roots];
+  });
+}
+
+/**
+ * Scan library roots (all or one) and update the index
+ */
+async function runScan(rootPath?: string): Promise<LibraryScanResult> {
+  await ensureLoaded();
+  const result: LibraryScanResult = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    failed: [],
+    total: 0,
+  };
+
+  const targetRoots = rootPath ? roots.filter((root) => root === normalizeRoot(rootPath)) : roots;
+
+  for (const root of targetRoots) {
+    try {
+      await fs.access(root);
+    } catch {
+      logger.warn(`Library root is not accessible, skipping: ${root}`);
+      continue;
+    }
+    await scanRoot(root, result);
+  }
+
+  result.total = tracksByPath.size;
+  await saveIndex();
+  logger.info(
+    `Library scan finished: +${result.added} ~${result.updated} -${result.removed} (${result.total} total)`,
+  );
+  return result;
+}
+
+/**
+ * Scan library roots (all or one) and update the index
+ * Scans are queued; concurrent calls for the same target share one scan
+ */
+export async function scanLibrary(rootPath?: string): Promise<LibraryScanResult> {
+  const key = rootPath ? normalizeRoot(rootPath) : ALL_ROOTS_SCAN_KEY;
+  const inFlight = scansInFlight.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const scan = enqueueIndexTask(() => runScan(rootPath));
+  scansInFlight.set(key, scan);
+  try {
+    return await scan;
+  } finally {
+    scansInFlight.delete(key);
+  }
+}
+
+/**
+ * Query indexed tracks with simple filters
+ */
+export async function queryLibrary(query: LibraryQuery = {}): Promise<LibraryQueryResult> {
+  await ensureLoaded();
+
+  const search = query.search?.trim().toLowerCase();
+  const genre = query.genre?.trim().toLowerCase();
+  const artist = query.artist?.trim().toLowerCase();
+  const root = query.root ? normalizeRoot(query.root) : undefined;
+
+  const matches = Array.from(tracksByPath.values()).filter((track) => {
+    if (root && !isInsideRoot(track.path, root)) {
+      return false;
+    }
+    if (genre && track.genre?.toLowerCase() !== genre) {
+      return false;
+    }
+    if (artist && track.artist?.toLowerCase() !== artist) {
+      return false;
+    }
+    if (query.bpmMin !== undefined && (track.bpm === undefined || track.bpm < query.bpmMin)) {
+      return false;
+    }
+    if (query.bpmMax !== undefined && (track.bpm === undefined || track.bpm > query.bpmMax)) {
+      return false;
+    }
+    if (search) {
+      const haystack = [track.name, track.artist, track.title, track.album, track.genre]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(search)) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const offset = Math.max(0, query.offset ?? 0);
+  const tracks =
+    query.limit !== undefined ? matches.slice(offset, offset + query.limit) : matches.slice(offset);
+
+  return { tracks, total: matches.length };
+}
+
+/**
+ * Get indexed track if it is up to date with the file on disk
+ */
+export async function getIndexedTrack(filePath: string): Promise<LibraryTrack | null> {
+  await ensureLoaded();
+  const track = tracksByPath.get(filePath);
+  if (!track) {
+    return null;
+  }
+
+  try {
+    const stats = await fs.stat(filePath);
+    if (track.mtime === Math.floor(stats.mtimeMs) && track.size === stats.size) {
+      return track;
+    }
+  } catch {
+    // File is not accessible - treat as not indexed
+  }
+  return null;
+}
@@ -3,12 +3,19 @@ import { fileURLToPath } from 'url';
 
 import { app, BrowserWindow } from 'electron';
 
+import { registerAnalysisHandlers } from './ipc/analysis.js';
 import { registerAudioHandlers } from './ipc/audio.js';
 import { registerDialogHandlers } from './ipc/dialogs.js';
 import { registerExportHandlers } from './ipc/export.js';
 import { registerFileBrowserHandlers } from './ipc/fileBrowser.js';
+import { registerLibraryHandlers } from './ipc/library.js';
+import { registerPlayerHandlers } from './ipc/player.js';
 import { registerPlaylistHandlers } from './ipc/playlist.js';
+import { registerPluginHandlers } from './ipc/plugins.js';
 import { registerSystemHandlers } from './ipc/system.js';
+import { initializePlugins, unloadAllPlugins } from './plugins/pluginManager.js';
+import { registerAudioProtocol, registerAudioProtocolScheme } from './protocol/audioProtocol.js';
+import { logger } from './utils/logger.js';
 
 // ESM equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -19,6 +26,9 @@ let mainWindow: BrowserWindow | null = null;
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
+// Custom protocols must be registered as privileged before app is ready
+registerAudioProtocolScheme();
+
 function createWindow(): void {
   // Create the browser window
   mainWindow = new BrowserWindow({
@@ -54,6 +64,9 @@ function createWindow(): void {
 
 // This method will be called when Electron has finished initialization
 app.whenReady().then(() => {
+  // Register audio streaming protocol
+  registerAudioProtocol();
+
   // Register IPC handlers
   registerFileBrowserHandlers();
   registerAudioHandlers();
@@ -61,6 +74,15 @@ app.whenReady().then(() => {
   registerSystemHandlers();
   registerExportHandlers();
   registerPlaylistHandlers();
+  registerPlayerHandlers();
+  registerLibraryHandlers();
+  registerPluginHandlers();
+  registerAnalysisHandlers();
+
+  // Load enabled plugins in background (plugins:list waits for it)
+  initializePlugins().catch((error) => {
+    logger.error('Failed to initialize plugins', error);
+  });
 
   createWindow();
 
@@ -73,6 +95,11 @@ app.whenReady().then(() => {
   });
 });
 
+// Give plugins a chance to clean up before exit
+app.on('will-quit', () => {
+  void unloadAllPlugins();
+});
+
 // Quit when all windows are closed
 app.on('window-all-closed', () => {
   // On macOS, applications and their menu bar typically stay active
@@ -0,0 +1,297 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+export type PlaylistImportFormat = 'm3u' | 'pls' | 'xspf' | 'wpl';
+
+/**
+ * Entry as written in a playlist file (location is not resolved yet)
+ */
+interface PlaylistEntry {
+  location: string;
+  duration?: number; // Seconds
+}
+
+interface ParsedPlaylist {
+  name: string | null;
+  entries: PlaylistEntry[];
+}
+
+export interface PlaylistImportResult {
+  name: string;
+  tracks: Array<{
+    path: string;
+    name: string;
+    duration?: number;
+  }>;
+  unresolved: string[]; // Entries that do not point to an existing local file
+}
+
+const FORMAT_BY_EXTENSION: Record<string, PlaylistImportFormat> = {
+  '.m3u': 'm3u',
+  '.m3u8': 'm3u',
+  '.pls': 'pls',
+  '.xspf': 'xspf',
+  '.wpl': 'wpl',
+};
+
+/**
+ * Detect third-party playlist format by file extension
+ * @returns null for our own JSON playlists and unknown files
+ */
+export function getPlaylistImportFormat(filePath: string): PlaylistImportFormat | null {
+  return FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+const toDuration = (value: number): number | undefined =>
+  Number.isFinite(value) && value > 0 ? value : undefined;
+
+/**
+ * Parse M3U/M3U8 (extended M3U: #EXTINF:<seconds>,<title>, #PLAYLIST:<name>)
+ */
+function parseM3U(content: string): ParsedPlaylist {
+  const entries: PlaylistEntry[] = [];
+  let name: string | null = null;
+  let pendingDuration: number | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+    if (line.startsWith('#EXTINF:')) {
+      // #EXTINF:<seconds>[ attributes],<title> - duration of the next entry
+      pendingDuration = toDuration(parseFloat(line.slice('#EXTINF:'.length)));
+      continue;
+    }
+    if (line.startsWith('#PLAYLIST:')) {
+      name = line.slice('#PLAYLIST:'.length).trim() || null;
+      continue;
+    }
+    if (line.startsWith('#')) {
+      continue;
+    }
+    entries.push({ location: line, duration: pendingDuration });
+    pendingDuration = undefined;
+  }
+
+  return { name, entries };
+}
+
+/**
+ * Parse PLS ([playlist] section with FileN / LengthN keys)
+ */
+function parsePLS(content: string): ParsedPlaylist {
+  const byIndex = new Map<number, PlaylistEntry>();
+  const getEntry = (index: number) => {
+    let entry = byIndex.get(index);
+    if (!entry) {
+      entry = { location: '' };
+      byIndex.set(index, entry);
+    }
+    return entry;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const match = rawLine.trim().match(/^(File|Length)(\d+)\s*=\s*(.*)$/i);
+    if (!match) {
+      continue;
+    }
+    const entry = getEntry(Number(match[2]));
+    const value = match[3].trim();
+    if (match[1].toLowerCase() === 'file') {
+      entry.location = value;
+    } else {
+      // -1 means unknown length (streams)
+      entry.duration = toDuration(parseFloat(value));
+    }
+  }
+
+  const entries = Array.from(byIndex.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .filter((entry) => entry.location);
+  return { name: null, entries };
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const charCode =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isFinite(charCode) ? String.fromCodePoint(charCode) : entity;
+      }
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .trim();
+}
+
+const XML_TAG_PATTERNS = {
+  title: /<title\b[^>]*>([\s\S]*?)<\/title>/i,
+  location: /<location\b[^>]*>([\s\S]*?)<\/location>/i,
+  duration: /<duration\b[^>]*>([\s\S]*?)<\/duration>/i,
+};
+
+/**
+ * Text content of the first <tag> inside an XML fragment
+ */
+function getXmlTagText(xml: string, tag: keyof typeof XML_TAG_PATTERNS): string | undefined {
+  const match = xml.match(XML_TAG_PATTERNS[tag]);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * XSPF locations are URIs: relative references are percent-encoded (file:// URLs are decoded later)
+ */
+function decodeRelativeUri(location: string): string {
+  if (/^[a-z][a-z0-9+.-]+:/i.test(location)) {
+    return location;
+  }
+  try {
+    return decodeURIComponent(location);
+  } catch {
+    return location;
+  }
+}
+
+/**
+ * Parse XSPF (<trackList><track><location> with <duration> in milliseconds)
+ */
+function parseXSPF(content: string): ParsedPlaylist {
+  const entries: PlaylistEntry[] = [];
+  for (const match of content.matchAll(/<track\b[^>]*>([\s\S]*?)<\/track>/gi)) {
+    const location = getXmlTagText(match[1], 'location');
+    if (location) {
+      const duration = parseFloat(getXmlTagText(match[1], 'duration') ?? '');
+      entries.push({
+        location: decodeRelativeUri(location),
+        duration: toDuration(duration / 1000),
+      });
+    }
+  }
+
+  // Playlist title precedes the track list (tracks have their own <title>)
+  const header = content.split(/<trackList/i)[0];
+  return { name: getXmlTagText(header, 'title') || null, entries };
+}
+
+/**
+ * Parse WPL (Windows Media Player: <seq><media src="..."/></seq>)
+ */
+function parseWPL(content: string): ParsedPlaylist {
+  const entries: PlaylistEntry[] = [];
+  for (const match of content.matchAll(/<media\s[^>]*\bsrc\s*=\s*("([^"]*)"|'([^']*)')/gi)) {
+    const location = decodeXml(match[2] ?? match[3] ?? '');
+    if (location) {
+      entries.push({ location });
+    }
+  }
+  return { name: getXmlTagText(content, 'title') || null, entries };
+}
+
+const PARSERS: Record<PlaylistImportFormat, (content: string) => ParsedPlaylist> = {
+  m3u: parseM3U,
+  pls: parsePLS,
+  xspf: parseXSPF,
+  wpl: parseWPL,
+};
+
+/**
+ * Resolve entry location to an absolute local path
+ * @returns null for remote URLs (streams are not supported)
+ */
+function resolveEntryLocation(location: string, playlistDir: string): string | null {
+  if (/^file:/i.test(location)) {
+    try {
+      return fileURLToPath(location);
+    } catch {
+      return null;
+    }
+  }
+  // http://, https://, rtsp:// etc. (a single letter is a Windows drive, not a scheme)
+  if (/^[a-z][a-z0-9+.-]+:\/\//i.test(location)) {
+    return null;
+  }
+  // Windows playlists use backslashes, also when read on other platforms
+  const normalized = path.sep === '/' ? location.replace(/\\/g, '/') : location;
+  return path.isAbsolute(normalized) || /^[a-z]:[\\/]/i.test(normalized)
+    ? normalized
+    : path.resolve(playlistDir, normalized);
+}
+
+// Legacy M3U/PLS written by Windows players are in the ANSI code page (M3U8 is always UTF-8)
+const LEGACY_ENCODING = 'windows-1251';
+
+/**
+ * Read playlist text: UTF-8 (BOM is stripped), legacy .m3u/.pls that are not valid UTF-8 as cp1251
+ */
+async function readPlaylistText(filePath: string, format: PlaylistImportFormat): Promise<string> {
+  const buffer = await fs.readFile(filePath);
+  const mayBeLegacy =
+    (format === 'm3u' || format === 'pls') && path.extname(filePath).toLowerCase() !== '.m3u8';
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: mayBeLegacy }).decode(buffer);
+  } catch {
+    content = new TextDecoder(LEGACY_ENCODING).decode(buffer);
+  }
+  // Strip UTF-8 BOM (written by AIMP and our own M3U8 export)
+  return content.replace(/^\uFEFF/, '');
+}
+
+async function isExistingFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Import M3U/M3U8, PLS, XSPF or WPL playlist
+ *
+ * Relative locations are resolved against the playlist file folder; entries that
+ * are remote or point to missing files are reported as unresolved.
+ */
+export async function importPlaylistFile(
+  filePath: string,
+  format: PlaylistImportFormat,
+): Promise<PlaylistImportResult> {
+  const content = await readPlaylistText(filePath, format);
+  const parsed = PARSERS[format](content);
+  const playlistDir = path.dirname(filePath);
+
+  const tracks: PlaylistImportResult['tracks'] = [];
+  const unresolved: string[] = [];
+  for (const entry of parsed.entries) {
+    const resolvedPath = resolveEntryLocation(entry.location, playlistDir);
+    if (!resolvedPath || !(await isExistingFile(resolvedPath))) {
+      unresolved.push(entry.location);
+      continue;
+    }
+    tracks.push({
+      path: resolvedPath,
+      // Track names in the app are file names (titles from the playlist are not used)
+      name: path.basename(resolvedPath),
+      duration: entry.duration,
+    });
+  }
+
+  return {
+    name: parsed.name || path.basename(filePath, path.extname(filePath)),
+    tracks,
+    unresolved,
+  };
+}
@@ -0,0 +1,564 @@
+import * as fs from 'fs/promises';
+import { createRequire } from 'module';
+import * as path from 'path';
+
+import { app } from 'electron';
+
+import { sanitizeExportOptionDefinitions } from '../export/exportOptions.js';
+import { ExportOptionValues, ExportStrategyInfo } from '../export/exportTypes.js';
+import { ensureFolder } from '../utils/fsHelpers.js';
+import { logger } from '../utils/logger.js';
+
+import {
+  PLUGIN_API_VERSION,
+  PluginExportResult,
+  PluginExportStrategy,
+  PluginHostApi,
+  PluginInfo,
+  PluginManifest,
+  PluginModule,
+  PluginSource,
+  PluginTrack,
+  PluginTrackAction,
+  PluginTrackActionResult,
+  PluginWorkspaceContent,
+  PluginWorkspaceModule,
+} from './pluginTypes.js';
+
+const PLUGINS_FOLDER = 'plugins';
+const MANIFEST_FILE = 'manifest.json';
+const PLUGIN_STATE_VERSION = 1;
+const PLUGIN_STATE_FILE = 'plugin-state.json';
+
+// Prefix of export strategy ids contributed by plugins
+export const PLUGIN_EXPORT_STRATEGY_PREFIX = 'plugin:';
+
+// Plugin ids are used in contribution ids and file names
+const PLUGIN_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+const CONTRIBUTION_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+interface PluginStateFile {
+  version: number;
+  enabled: Record<string, boolean>;
+}
+
+interface PluginRecord {
+  manifest: PluginManifest;
+  source: PluginSource;
+  directory: string;
+  entryPath: string;
+  enabled: boolean;
+  instance: PluginModule | null;
+  error?: string;
+  exportStrategies: Map<string, PluginExportStrategy>;
+  workspaceModules: Map<string, PluginWorkspaceModule>;
+  trackActions: Map<string, PluginTrackAction>;
+}
+
+const pluginRequire = createRequire(import.meta.url);
+
+// In-memory plugin state (discovered lazily on first use)
+let plugins = new Map<string, PluginRecord>();
+let enabledState: Record<string, boolean> = {};
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Get folder with bundled plugins
+ * Packaged builds ship them via electron-builder "extraFiles", next to the executable
+ */
+function getBundledPluginsFolder(): string {
+  const baseFolder = app.isPackaged ? path.dirname(app.getPath('exe')) : app.getAppPath();
+  return path.join(baseFolder, PLUGINS_FOLDER);
+}
+
+/**
+ * Get plugin folders: bundled with the app and installed by user
+ */
+function getPluginFolders(): Array<{ folder: string; source: PluginSource }> {
+  return [
+    { folder: getBundledPluginsFolder(), source: 'app' },
+    { folder: path.join(app.getPath('userData'), PLUGINS_FOLDER), source: 'user' },
+  ];
+}
+
+function getStateFilePath(): string {
+  return path.join(app.getPath('userData'), PLUGIN_STATE_FILE);
+}
+
+/**
+ * Validate manifest.json content
+ * Returns manifest with defaults applied or throws with a readable reason
+ */
+export function validatePluginManifest(raw: unknown): PluginManifest {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Manifest must be a JSON object');
+  }
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.name !== 'string' || !PLUGIN_NAME_PATTERN.test(data.name)) {
+    throw new Error('Manifest "name" must be a non-empty string of letters, digits, ".", "_", "-"');
+  }
+  if (typeof data.version !== 'string' || data.version.trim() === '') {
+    throw new Error('Manifest "version" must be a non-empty string');
+  }
+  if (typeof data.main !== 'string' || data.main.trim() === '') {
+    throw new Error('Manifest "main" must point to the plugin entry file');
+  }
+
+  const apiVersion = data.apiVersion === undefined ? PLUGIN_API_VERSION : data.apiVersion;
+  if (typeof apiVersion !== 'number' || !Number.isInteger(apiVersion) || apiVersion < 1) {
+    throw new Error('Manifest "apiVersion" must be a positive integer');
+  }
+  if (apiVersion > PLUGIN_API_VERSION) {
+    throw new Error(
+      `Plugin requires host API v${apiVersion}, this version supports v${PLUGIN_API_VERSION}`,
+    );
+  }
+
+  return {
+    name: data.name,
+    version: data.version,
+    main: data.main,
+    apiVersion,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    author: typeof data.author === 'string' && data.author !== '' ? data.author : undefined,
+    license: typeof data.license === 'string' ? data.license : undefined,
+  };
+}
+
+/**
+ * Check that entry file stays inside plugin folder
+ */
+function resolveEntryPath(directory: string, main: string): string {
+  const entryPath = path.resolve(directory, main);
+  const relative = path.relative(directory, entryPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error('Manifest "main" must point inside the plugin folder');
+  }
+  return entryPath;
+}
+
+async function loadState(): Promise<void> {
+  try {
+    const content = await fs.readFile(getStateFilePath(), 'utf8');
+    const data = JSON.parse(content) as PluginStateFile;
+    if (data.version === PLUGIN_STATE_VERSION && data.enabled && typeof data.enabled === 'object') {
+      enabledState = data.enabled;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Failed to read plugin state', error);
+    }
+  }
+}
+
+async function saveState(): Promise<void> {
+  const filePath = getStateFilePath();
+  const tempPath = `${filePath}.tmp`;
+  const data: PluginStateFile = { version: PLUGIN_STATE_VERSION, enabled: enabledState };
+
+  try {
+    await ensureFolder(path.dirname(filePath));
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    throw new Error(`Failed to save plugin state: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Bundled plugins are enabled by default, user-installed ones must be enabled explicitly
+ */
+function isEnabledByDefault(source: PluginSource): boolean {
+  return source === 'app';
+}
+
+/**
+ * Read plugin folders and build records (without loading code)
+ */
+async function discoverPlugins(): Promise<Map<string, PluginRecord>> {
+  const discovered = new Map<string, PluginRecord>();
+
+  for (const { folder, source } of getPluginFolders()) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(folder);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to read plugin folder ${folder}`, error);
+      }
+      continue;
+    }
+
+    for (const entry of entries) {
+      const directory = path.join(folder, entry);
+      try {
+        const stats = await fs.stat(directory);
+        if (!stats.isDirectory()) {
+          continue;
+        }
+
+        const content = await fs.readFile(path.join(directory, MANIFEST_FILE), 'utf8');
+        const manifest = validatePluginManifest(JSON.parse(content));
+        const entryPath = resolveEntryPath(directory, manifest.main);
+
+        if (discovered.has(manifest.name)) {
+          logger.warn(`Duplicate plugin "${manifest.name}" in ${directory}, skipping`);
+          continue;
+        }
+
+        discovered.set(manifest.name, {
+          manifest,
+          source,
+          directory,
+          entryPath,
+          enabled: enabledState[manifest.name] ?? isEnabledByDefault(source),
+          instance: null,
+          exportStrategies: new Map(),
+          workspaceModules: new Map(),
+          trackActions: new Map(),
+        });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue; // Folder without manifest is not a plugin
+        }
+        logger.warn(`Invalid plugin in ${directory}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return discovered;
+}
+
+function validateContributionId(kind: string, id: unknown): string {
+  if (typeof id !== 'string' || !CONTRIBUTION_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid ${kind} id: ${String(id)}`);
+  }
+  return id;
+}
+
+function requireFunction(kind: string, id: string, name: string, value: unknown): void {
+  if (typeof value !== 'function') {
+    throw new Error(`${kind} "${id}" must provide ${name}()`);
+  }
+}
+
+/**
+ * Build host API bound to one plugin record
+ */
+function createHostApi(record: PluginRecord): PluginHostApi {
+  const prefix = `[plugin:${record.manifest.name}]`;
+
+  return {
+    apiVersion: PLUGIN_API_VERSION,
+    plugin: {
+      name: record.manifest.name,
+      version: record.manifest.version,
+      directory: record.directory,
+    },
+
+    registerExportStrategy: (strategy) => {
+      const id = validateContributionId('export strategy', strategy?.id);
+      requireFunction('Export strategy', id, 'execute', strategy.execute);
+      record.exportStrategies.set(id, strategy);
+    },
+
+    registerWorkspaceModule: (module) => {
+      const id = validateContributionId('workspace module', module?.id);
+      requireFunction('Workspace module', id, 'getContent', module.getContent);
+      record.workspaceModules.set(id, module);
+    },
+
+    registerTrackAction: (action) => {
+      const id = validateContributionId('track action', action?.id);
+      requireFunction('Track action', id, 'run', action.run);
+      record.trackActions.set(id, action);
+    },
+
+    logger: {
+      info: (message, ...args) => logger.info(`${prefix} ${message}`, ...args),
+      warn: (message, ...args) => logger.warn(`${prefix} ${message}`, ...args),
+      error: (message, ...args) => logger.error(`${prefix} ${message}`, undefined, ...args),
+    },
+  };
+}
+
+function clearContributions(record: PluginRecord): void {
+  record.exportStrategies.clear();
+  record.workspaceModules.clear();
+  record.trackActions.clear();
+}
+
+/**
+ * Drop plugin entry (and files it required from its folder) from require cache
+ * so that the next load picks up changes on disk
+ */
+function clearRequireCache(record: PluginRecord): void {
+  for (const cachedPath of Object.keys(pluginRequire.cache)) {
+    const relative = path.relative(record.directory, cachedPath);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      delete pluginRequire.cache[cachedPath];
+    }
+  }
+}
+
+/**
+ * Load plugin code and call onLoad with host API
+ */
+async function loadPlugin(record: PluginRecord): Promise<void> {
+  if (record.instance) {
+    return;
+  }
+
+  record.error = undefined;
+  try {
+    const loaded = pluginRequire(record.entryPath) as PluginModule | { default?: PluginModule };
+    const instance =
+      'default' in loaded && loaded.default ? loaded.default : (loaded as PluginModule);
+    if (!instance || typeof instance !== 'object') {
+      throw new Error('Plugin entry must export an object');
+    }
+
+    record.instance = instance;
+    await instance.onLoad?.(createHostApi(record));
+    logger.info(`Plugin loaded: ${record.manifest.name}@${record.manifest.version}`);
+  } catch (error) {
+    record.instance = null;
+    record.error = (error as Error).message;
+    clearContributions(record);
+    clearRequireCache(record);
+    logger.error(`Failed to load plugin ${record.manifest.name}`, error);
+  }
+}
+
+/**
+ * Call onUnload and remove everything the plugin registered
+ */
+async function unloadPlugin(record: PluginRecord): Promise<void> {
+  if (!record.instance) {
+    return;
+  }
+
+  try {
+    await record.instance.onUnload?.();
+  } catch (error) {
+    logger.error(`Plugin ${record.manifest.name} failed in onUnload`, error);
+  } finally {
+    record.instance = null;
+    clearContributions(record);
+    clearRequireCache(record);
+    logger.info(`Plugin unloaded: ${record.manifest.name}`);
+  }
+}
+
+/**
+ * Discover plugins and load enabled ones (once)
+ */
+export async function initializePlugins(): Promise<void> {
+  if (!initPromise) {
+    initPromise = (async () => {
+      await loadState();
+      plugins = await discoverPlugins();
+      for (const record of plugins.values()) {
+        if (record.enabled) {
+          await loadPlugin(record);
+        }
+      }
+    })();
+  }
+  await initPromise;
+}
+
+/**
+ * Re-read plugin folders: new plugins are picked up, removed ones are unloaded
+ * Already loaded plugins keep running
+ */
+export async function rescanPlugins(): Promise<void> {
+  await initializePlugins();
+  const discovered = await discoverPlugins();
+
+  for (const [name, record] of plugins) {
+    if (!discovered.has(name)) {
+      await unloadPlugin(record);
+      plugins.delete(name);
+    }
+  }
+  for (const [name, record] of discovered) {
+    if (plugins.has(name)) {
+      continue;
+    }
+    plugins.set(name, record);
+    if (record.enabled) {
+      await loadPlugin(record);
+    }
+  }
+}
+
+function toPluginInfo(record: PluginRecord): PluginInfo {
+  const { manifest } = record;
+  return {
+    id: manifest.name,
+    name: manifest.name,
+    version: manifest.version,
+    description: manifest.description,
+    author: manifest.author,
+    source: record.source,
+    directory: record.directory,
+    apiVersion: manifest.apiVersion,
+    enabled: record.enabled,
+    loaded: record.instance !== null,
+    error: record.error,
+    contributions: {
+      exportStrategies: Array.from(record.exportStrategies.values()).map((strategy) => ({
+        id: `${PLUGIN_EXPORT_STRATEGY_PREFIX}${manifest.name}/${strategy.id}`,
+        label: String(strategy.label ?? strategy.id),
+      })),
+      workspaceModules: Array.from(record.workspaceModules.values()).map((module) => ({
+        id: module.id,
+        name: String(module.name ?? module.id),
+      })),
+      trackActions: Array.from(record.trackActions.values()).map((action) => ({
+        id: action.id,
+        label: String(action.label ?? action.id),
+      })),
+    },
+  };
+}
+
+/**
+ * List discovered plugins with their state and contributions
+ */
+export async function listPlugins(): Promise<PluginInfo[]> {
+  await initializePlugins();
+  return Array.from(plugins.values()).map(toPluginInfo);
+}
+
+/**
+ * Enable (load) or disable (unload) plugin and remember the choice
+ */
+export async function setPluginEnabled(pluginId: string, enabled: boolean): Promise<PluginInfo> {
+  await initializePlugins();
+  const record = plugins.get(pluginId);
+  if (!record) {
+    throw new Error(`Plugin not found: ${pluginId}`);
+  }
+
+  record.enabled = enabled;
+  enabledState = { ...enabledState, [pluginId]: enabled };
+  await saveState();
+
+  if (enabled) {
+    await loadPlugin(record);
+  } else {
+    await unloadPlugin(record);
+  }
+  return toPluginInfo(record);
+}
+
+/**
+ * Unload all plugins (on app quit)
+ */
+export async function unloadAllPlugins(): Promise<void> {
+  for (const record of plugins.values()) {
+    await unloadPlugin(record);
+  }
+}
+
+function getLoadedPlugin(pluginId: string): PluginRecord {
+  const record = plugins.get(pluginId);
+  if (!record || !record.instance) {
+    throw new Error(`Plugin is not loaded: ${pluginId}`);
+  }
+  return record;
+}
+
+/**
+ * Find plugin export strategy by full id ("plugin:<plugin>/<strategy>")
+ */
+export function getPluginExportStrategy(strategyId: string): PluginExportStrategy | null {
+  if (!strategyId.startsWith(PLUGIN_EXPORT_STRATEGY_PREFIX)) {
+    return null;
+  }
+  const [pluginId, localId] = strategyId.slice(PLUGIN_EXPORT_STRATEGY_PREFIX.length).split('/');
+  const record = plugins.get(pluginId);
+  if (!record || !record.instance || !localId) {
+    return null;
+  }
+  return record.exportStrategies.get(localId) ?? null;
+}
+
+/**
+ * Export strategies of loaded plugins with their option schemas
+ */
+export function listPluginExportStrategies(): ExportStrategyInfo[] {
+  return Array.from(plugins.values())
+    .filter((record) => record.instance)
+    .flatMap((record) =>
+      Array.from(record.exportStrategies.values()).map((strategy) => ({
+        id: `${PLUGIN_EXPORT_STRATEGY_PREFIX}${record.manifest.name}/${strategy.id}`,
+        label: String(strategy.label ?? strategy.id),
+        options: sanitizeExportOptionDefinitions(strategy.options),
+        pluginName: record.manifest.name,
+      })),
+    );
+}
+
+/**
+ * Run plugin export strategy and normalize its result
+ */
+export async function executePluginExport(
+  strategy: PluginExportStrategy,
+  tracks: PluginTrack[],
+  targetPath: string,
+  options: ExportOptionValues,
+): Promise<PluginExportResult> {
+  const result = await strategy.execute(tracks, targetPath, options);
+  return {
+    successful: Array.isArray(result?.successful) ? result.successful.map(String) : [],
+    failed: Array.isArray(result?.failed)
+      ? result.failed.map((item) => ({ path: String(item.path), error: String(item.error) }))
+      : [],
+  };
+}
+
+/**
+ * Run plugin track action for given tracks
+ */
+export async function runPluginTrackAction(
+  pluginId: string,
+  actionId: string,
+  tracks: PluginTrack[],
+): Promise<PluginTrackActionResult> {
+  const action = getLoadedPlugin(pluginId).trackActions.get(actionId);
+  if (!action) {
+    throw new Error(`Track action not found: ${pluginId}/${actionId}`);
+  }
+
+  const result = await action.run(tracks);
+  return typeof result?.message === 'string' ? { message: result.message } : {};
+}
+
+/**
+ * Get plugin workspace module content
+ */
+export async function getPluginWorkspaceContent(
+  pluginId: string,
+  moduleId: string,
+): Promise<PluginWorkspaceContent> {
+  const module = getLoadedPlugin(pluginId).workspaceModules.get(moduleId);
+  if (!module) {
+    throw new Error(`Workspace module not found: ${pluginId}/${moduleId}`);
+  }
+
+  // Content crosses IPC boundary - keep only plain strings
+  const content = await module.getContent();
+  return {
+    title: typeof content?.title === 'string' ? content.title : undefined,
+    items: Array.isArray(content?.items)
+      ? content.items.map((item) => ({
+          label: String(item.label),
+          value: item.value === undefined ? undefined : String(item.value),
+        }))
+      : [],
+  };
+}
@@ -0,0 +1,116 @@
+import { ExportOptionDefinition, ExportOptionValues } from '../export/exportTypes.js';
+
+/**
+ * Types shared between the plugin manager, IPC handlers and plugins
+ */
+
+// Current host API version (plugins declare the version they were written for)
+export const PLUGIN_API_VERSION = 1;
+
+export type PluginSource = 'app' | 'user';
+
+export interface PluginManifest {
+  name: string;
+  version: string;
+  main: string;
+  apiVersion: number;
+  description?: string;
+  author?: string;
+  license?: string;
+}
+
+export interface PluginTrack {
+  path: string;
+  name: string;
+  duration?: number;
+}
+
+export interface PluginExportResult {
+  successful: string[];
+  failed: Array<{ path: string; error: string }>;
+}
+
+export interface PluginExportStrategy {
+  id: string;
+  label: string;
+  options?: ExportOptionDefinition[]; // Rendered by the export dialog, values are passed to execute
+  execute: (
+    tracks: PluginTrack[],
+    targetPath: string,
+    options: ExportOptionValues,
+  ) => PluginExportResult | Promise<PluginExportResult>;
+}
+
+export interface PluginWorkspaceContent {
+  title?: string;
+  items: Array<{ label: string; value?: string }>;
+}
+
+export interface PluginWorkspaceModule {
+  id: string;
+  name: string;
+  getContent: () => PluginWorkspaceContent | Promise<PluginWorkspaceContent>;
+}
+
+export interface PluginTrackActionResult {
+  message?: string;
+}
+
+export interface PluginTrackAction {
+  id: string;
+  label: string;
+  run: (
+    tracks: PluginTrack[],
+  ) => PluginTrackActionResult | void | Promise<PluginTrackActionResult | void>;
+}
+
+export interface PluginLogger {
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+}
+
+/**
+ * Host API passed to plugin onLoad (version 1)
+ */
+export interface PluginHostApi {
+  apiVersion: number;
+  plugin: { name: string; version: string; directory: string };
+  registerExportStrategy: (strategy: PluginExportStrategy) => void;
+  registerWorkspaceModule: (module: PluginWorkspaceModule) => void;
+  registerTrackAction: (action: PluginTrackAction) => void;
+  logger: PluginLogger;
+}
+
+/**
+ * Shape of the object exported by plugin entry file
+ */
+export interface PluginModule {
+  onLoad?: (host: PluginHostApi) => void | Promise<void>;
+  onUnload?: () => void | Promise<void>;
+  api?: Record<string, unknown>;
+}
+
+export interface PluginContributions {
+  exportStrategies: Array<{ id: string; label: string }>;
+  workspaceModules: Array<{ id: string; name: string }>;
+  trackActions: Array<{ id: string; label: string }>;
+}
+
+/**
+ * Plugin state sent to renderer
+ */
+export interface PluginInfo {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
+  source: PluginSource;
+  directory: string;
+  apiVersion: number;
+  enabled: boolean;
+  loaded: boolean;
+  error?: string;
+  contributions: PluginContributions;
+}
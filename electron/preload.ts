@@ -1,10 +1,9 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('api', {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  invoke: (channel: string, payload?: any) => {
+  invoke: (channel: string, payload?: unknown) => {
     // Whitelist channels for security
     const validChannels = [
       // File browser channels
@@ -13,17 +12,38 @@ contextBridge.exposeInMainWorld('api', {
       'fileBrowser:findAudioFilesRecursive',
       // Audio channels
       'audio:getDuration',
-      'audio:getFileSource',
       // Export channels
+      'export:getStrategies',
       'export:execute',
+      'export:cancel',
+      'export:mix',
+      'export:getEncoder',
+      'export:chooseEncoder',
+      'export:resetEncoder',
       'export:copyFile',
-      'export:aimp',
-      'export:copyTracksToFolder',
       // Playlist channels
       'playlist:save',
       'playlist:load',
+      // Player file channels
+      'player:save',
+      'player:load',
+      'player:exportSessionLog',
+      // Library channels
+      'library:getRoots',
+      'library:addRoot',
+      'library:removeRoot',
+      'library:scan',
+      'library:query',
       // Plugin channels
       'plugins:list',
+      'plugins:setEnabled',
+      'plugins:runTrackAction',
+      'plugins:getWorkspaceContent',
+      // Analysis channels
+      'analysis:getLoudness',
+      'analysis:getWaveform',
+      'analysis:getTempoKey',
+      'analysis:getSilence',
       // Dialog channels
       'dialog:showOpenDialog',
       'dialog:showSaveDialog',
@@ -38,16 +58,21 @@ contextBridge.exposeInMainWorld('api', {
 
     return Promise.reject(new Error(`Invalid IPC channel: ${channel}`));
   },
-});
 
-// Type declaration for TypeScript
-export {};
+  // Events pushed from main process, returns unsubscribe function
+  on: (channel: string, listener: (payload: unknown) => void) => {
+    const validEventChannels = ['export:progress'];
+
+    if (!validEventChannels.includes(channel)) {
+      throw new Error(`Invalid IPC event channel: ${channel}`);
+    }
 
-declare global {
-  interface Window {
-    api: {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      invoke: (channel: string, payload?: any) => Promise<any>;
+    const handler = (_event: IpcRendererEvent, payload: unknown) => listener(payload);
+    ipcRenderer.on(channel, handler);
+    return () => {
+      ipcRenderer.removeListener(channel, handler);
     };
-  }
-}
+  },
+});
+
+// Renderer-side type of window.api: src/core/types/window.d.ts
@@ -0,0 +1,169 @@
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+import { protocol } from 'electron';
+
+import { isAudioFile, validatePath } from '../utils/fsHelpers.js';
+import { logger } from '../utils/logger.js';
+
+// Custom scheme used by the renderer to stream local audio files
+export const AUDIO_PROTOCOL_SCHEME = 'cherry-audio';
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+};
+
+// Audio elements load with crossOrigin="anonymous" so that Web Audio can process them:
+// without CORS headers the response is blocked or the MediaElementSource outputs silence
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Expose-Headers': 'Content-Range, Accept-Ranges, Content-Length',
+};
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Extract file path from cherry-audio://track/<encoded path> URL
+ */
+function getFilePathFromUrl(requestUrl: string): string {
+  const { pathname } = new URL(requestUrl);
+  return decodeURIComponent(pathname.replace(/^\/+/, ''));
+}
+
+/**
+ * Parse HTTP Range header (single range only)
+ * Returns null if header is missing, 'invalid' if range cannot be satisfied
+ */
+function parseRangeHeader(header: string | null, fileSize: number): ByteRange | null | 'invalid' {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return 'invalid';
+  }
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Suffix range: last N bytes
+    const suffixLength = Number(match[2]);
+    start = Math.max(0, fileSize - suffixLength);
+    end = fileSize - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? fileSize - 1 : Math.min(Number(match[2]), fileSize - 1);
+  }
+
+  if (start > end || start >= fileSize) {
+    return 'invalid';
+  }
+
+  return { start, end };
+}
+
+/**
+ * Create response body stream for the given file range
+ */
+function createBodyStream(filePath: string, range?: ByteRange): ReadableStream {
+  const nodeStream = createReadStream(filePath, range);
+  return Readable.toWeb(nodeStream) as unknown as ReadableStream;
+}
+
+/**
+ * Handle cherry-audio:// request
+ */
+export async function handleAudioRequest(request: Request): Promise<Response> {
+  let filePath: string;
+  try {
+    filePath = getFilePathFromUrl(request.url);
+  } catch {
+    return new Response('Bad request', { status: 400 });
+  }
+
+  // Validate path to prevent path traversal attacks
+  if (!validatePath(filePath) || !path.isAbsolute(filePath) || !isAudioFile(filePath)) {
+    return new Response('Invalid path', { status: 403 });
+  }
+
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile()) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const fileSize = stats.size;
+    const mimeType = AUDIO_MIME_TYPES[path.extname(filePath).toLowerCase()] || 'audio/mpeg';
+    const range = parseRangeHeader(request.headers.get('Range'), fileSize);
+
+    if (range === 'invalid') {
+      return new Response(null, {
+        status: 416,
+        headers: { ...CORS_HEADERS, 'Content-Range': `bytes */${fileSize}` },
+      });
+    }
+
+    if (!range) {
+      return new Response(createBodyStream(filePath), {
+        status: 200,
+        headers: {
+          ...CORS_HEADERS,
+          'Content-Type': mimeType,
+          'Content-Length': String(fileSize),
+          'Accept-Ranges': 'bytes',
+        },
+      });
+    }
+
+    return new Response(createBodyStream(filePath, range), {
+      status: 206,
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': mimeType,
+        'Content-Length': String(range.end - range.start + 1),
+        'Content-Range': `bytes ${range.start}-${range.end}/${fileSize}`,
+        'Accept-Ranges': 'bytes',
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to serve audio file', error);
+    return new Response('Not found', { status: 404 });
+  }
+}
+
+/**
+ * Register cherry-audio scheme as privileged
+ * Must be called before app is ready
+ */
+export function registerAudioProtocolScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: AUDIO_PROTOCOL_SCHEME,
+      privileges: {
+        standard: true,
+        secure: true,
+        stream: true,
+        supportFetchAPI: true,
+        corsEnabled: true,
+      },
+    },
+  ]);
+}
+
+/**
+ * Register cherry-audio protocol handler with HTTP Range support
+ */
+export function registerAudioProtocol(): void {
+  protocol.handle(AUDIO_PROTOCOL_SCHEME, handleAudioRequest);
+}
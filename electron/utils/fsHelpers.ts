@@ -14,6 +14,41 @@ export function isAudioFile(filePath: string): boolean {
   return (AUDIO_EXTENSIONS as readonly string[]).includes(ext);
 }
 
+/**
+ * Find all audio files recursively in a directory
+ * @param onError - called for entries that cannot be accessed (they are skipped)
+ */
+export async function findAudioFilesRecursive(
+  dirPath: string,
+  onError?: (entryPath: string, error: Error) => void,
+): Promise<string[]> {
+  const audioFiles: string[] = [];
+
+  async function traverse(currentPath: string): Promise<void> {
+    try {
+      const stats = await fs.stat(currentPath);
+
+      if (stats.isDirectory()) {
+        const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+        for (const entry of entries) {
+          const fullPath = path.join(currentPath, entry.name);
+          await traverse(fullPath);
+        }
+      } else if (stats.isFile() && isAudioFile(currentPath)) {
+        audioFiles.push(currentPath);
+      }
+    } catch (error) {
+      // Skip entries that can't be accessed
+      logger.warn(`Cannot access ${currentPath}`, error);
+      onError?.(currentPath, error as Error);
+    }
+  }
+
+  await traverse(dirPath);
+  return audioFiles;
+}
+
 /**
  * Copy file with retry mechanism
  */
@@ -119,6 +119,10 @@ const baseConfig = {
         jest: true,
       },
       extends: ['plugin:testing-library/react', 'plugin:jest-dom/recommended'],
+      rules: {
+        // Main process tests work with files in temporary directories
+        'security/detect-non-literal-fs-filename': 'off',
+      },
     },
     {
       files: ['electron/**/*.ts', 'electron/**/*.tsx', 'electron/**/*.mjs'],
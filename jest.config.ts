@@ -6,6 +6,15 @@ const config: Config = {
   setupFilesAfterEnv: ['<rootDir>/jest.setup.ts'],
   roots: ['<rootDir>/tests'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx'],
+  moduleNameMapper: {
+    // Main process modules import siblings with ESM ".js" suffix
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^@core/(.*)$': '<rootDir>/src/core/$1',
+    '^@shared/(.*)$': '<rootDir>/src/shared/$1',
+    '^@workspaces/(.*)$': '<rootDir>/src/workspaces/$1',
+    '^@app/(.*)$': '<rootDir>/src/app/$1',
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
   globals: {
     'ts-jest': {
       tsconfig: '<rootDir>/tsconfig.jest.json',
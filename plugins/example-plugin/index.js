@@ -1,23 +1,83 @@
 /**
  * Example plugin for CherryPlayList
- * This is a minimal plugin structure
+ * Shows how to use host API v1: export strategy, track action and workspace module
  */
 
+const fs = require('fs/promises');
+const path = require('path');
+
+let loadedAt = null;
+let actionRuns = 0;
+
+function formatDuration(seconds) {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  const rest = (total % 60).toString().padStart(2, '0');
+  return `${minutes}:${rest}`;
+}
+
 module.exports = {
   name: 'example-plugin',
-  version: '1.0.0',
+  version: '1.1.0',
 
   /**
    * Called when plugin is loaded
+   * @param {object} host - Host API (see electron/plugins/pluginTypes.ts)
    */
-  onLoad: function () {
-    console.log('Example plugin loaded');
+  onLoad: function (host) {
+    loadedAt = new Date();
+
+    // Export: text file with numbered track list
+    host.registerExportStrategy({
+      id: 'tracklist-txt',
+      label: 'Список треков (TXT)',
+      execute: async function (tracks, targetPath) {
+        const lines = tracks.map(function (track, index) {
+          const duration = track.duration ? ` [${formatDuration(track.duration)}]` : '';
+          return `${index + 1}. ${track.name}${duration}`;
+        });
+        await fs.mkdir(targetPath, { recursive: true });
+        await fs.writeFile(path.join(targetPath, 'tracklist.txt'), lines.join('\n'), 'utf8');
+        return { successful: tracks.map((track) => track.path), failed: [] };
+      },
+    });
+
+    // Track action: total duration of selected tracks
+    host.registerTrackAction({
+      id: 'total-duration',
+      label: 'Суммарная длительность',
+      run: function (tracks) {
+        actionRuns++;
+        const total = tracks.reduce((sum, track) => sum + (track.duration || 0), 0);
+        return { message: `${tracks.length} треков, ${formatDuration(total)}` };
+      },
+    });
+
+    // Workspace module: plugin status panel
+    host.registerWorkspaceModule({
+      id: 'status',
+      name: 'Example plugin',
+      getContent: function () {
+        return {
+          title: 'Example plugin',
+          items: [
+            { label: 'Host API', value: `v${host.apiVersion}` },
+            { label: 'Загружен', value: loadedAt.toLocaleString() },
+            { label: 'Запусков действия', value: String(actionRuns) },
+          ],
+        };
+      },
+    });
+
+    host.logger.info('Example plugin loaded');
   },
 
   /**
    * Called when plugin is unloaded
+   * Contributions are removed by host automatically
    */
   onUnload: function () {
+    loadedAt = null;
     console.log('Example plugin unloaded');
   },
 
@@ -1,15 +1,15 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 
 import { NotificationContainer } from '@shared/components';
 import { useTrackItemSize } from '@shared/hooks';
-import { useLayoutStore } from '@shared/stores';
+import { useLayoutStore, usePluginsStore } from '@shared/stores';
+import { TrackSettingsModal } from '@workspaces/player/TrackSettingsModal';
 
 import { AppFooter } from './components/AppFooter';
 import { AppHeader } from './components/AppHeader';
 import { ExportModal } from './components/ExportModal';
 import { SettingsModal } from './components/SettingsModal';
 import { SplitContainer } from './components/SplitContainer';
-import { TrackSettingsModal } from '@workspaces/player/TrackSettingsModal';
 
 const App: React.FC = () => {
   const { layout } = useLayoutStore();
@@ -17,6 +17,11 @@ const App: React.FC = () => {
   // Инициализация CSS переменных для размеров строк треков
   useTrackItemSize();
 
+  // Плагины загружаются в main процессе, здесь получаем их состояние и вклад
+  useEffect(() => {
+    void usePluginsStore.getState().loadPlugins();
+  }, []);
+
   // Проверка что rootZone - контейнер
   if (layout.rootZone.type !== 'container') {
     return (
@@ -7,16 +7,19 @@ import SettingsIcon from '@mui/icons-material/Settings';
 import UndoIcon from '@mui/icons-material/Undo';
 import React, { useEffect, useState } from 'react';
 
+import { DEFAULT_PLAYLIST_WORKSPACE_ID } from '@core/constants/workspace';
 import { DemoPlayer } from '@shared/components';
-import { ipcService, playlistService } from '@shared/services';
+import { PLAYLIST_OPEN_FILTERS, ipcService, playlistService } from '@shared/services';
 import {
   useHistoryStore,
   LayoutPreset,
   useLayoutStore,
   usePlaylistStore,
+  useRulesStore,
   useSettingsStore,
   useUIStore,
 } from '@shared/stores';
+import { getPlaylistImportWarning, normalizeRules } from '@shared/utils';
 
 export const AppHeader: React.FC = () => {
   const { tracks, undo, redo, clear, loadFromJSON, setName, name } = usePlaylistStore();
@@ -56,7 +59,8 @@ export const AppHeader: React.FC = () => {
       });
 
       if (path) {
-        await playlistService.savePlaylist(path, { name, tracks });
+        const rules = useRulesStore.getState().getRules(DEFAULT_PLAYLIST_WORKSPACE_ID);
+        await playlistService.savePlaylist(path, { name, tracks, rules });
         setLastOpenedPlaylist(path);
         addNotification({ type: 'success', message: 'Плейлист сохранён' });
       }
@@ -69,14 +73,23 @@ export const AppHeader: React.FC = () => {
     try {
       const path = await ipcService.showOpenFileDialog({
         title: 'Загрузить плейлист',
-        filters: [{ name: 'JSON файлы', extensions: ['json'] }],
+        filters: PLAYLIST_OPEN_FILTERS,
       });
 
       if (path) {
         const playlist = await playlistService.loadPlaylist(path);
         loadFromJSON(playlist);
+        // Правила сохраняются вместе с плейлистом и заменяются при загрузке
+        useRulesStore
+          .getState()
+          .setRules(DEFAULT_PLAYLIST_WORKSPACE_ID, normalizeRules(playlist.rules));
         setLastOpenedPlaylist(path);
-        addNotification({ type: 'success', message: 'Плейлист загружен' });
+        const warning = getPlaylistImportWarning(playlist);
+        addNotification(
+          warning
+            ? { type: 'warning', message: `Плейлист загружен. ${warning}` }
+            : { type: 'success', message: 'Плейлист загружен' },
+        );
       }
     } catch (error) {
       addNotification({ type: 'error', message: `Ошибка загрузки: ${(error as Error).message}` });
@@ -118,7 +131,11 @@ export const AppHeader: React.FC = () => {
       preset === 'complex' ||
       preset === 'collections' ||
       preset === 'collections-vertical' ||
-      preset === 'player'
+      preset === 'player' ||
+      preset === 'database' ||
+      preset === 'rules' ||
+      preset === 'autogenerator' ||
+      preset === 'drafts'
     ) {
       setSelectedLayout(preset);
       setLayoutPreset(preset);
@@ -128,6 +145,10 @@ export const AppHeader: React.FC = () => {
         collections: 'С коллекциями',
         'collections-vertical': 'Коллекции вертикально',
         player: 'Плеер',
+        database: 'База данных',
+        rules: 'Правила',
+        autogenerator: 'Автогенератор',
+        drafts: 'Черновики',
       };
       addNotification({
         type: 'info',
@@ -206,6 +227,12 @@ export const AppHeader: React.FC = () => {
                 Коллекции вертикально (Playlist + Collections + Browser)
               </option>
               <option value="player">Плеер (Player + Browser)</option>
+              <option value="database">База данных (Database + Playlist + Player)</option>
+              <option value="rules">Правила (Rules + Playlist + Player)</option>
+              <option value="autogenerator">
+                Автогенератор (Autogenerator + Playlist + Player)
+              </option>
+              <option value="drafts">Черновики (Drafts + Playlist + Browser)</option>
             </select>
           </div>
         </div>
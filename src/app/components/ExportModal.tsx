@@ -1,16 +1,59 @@
 import CloseIcon from '@mui/icons-material/Close';
 import FolderOpenIcon from '@mui/icons-material/FolderOpen';
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 
-import { exportService, ipcService } from '@shared/services';
+import {
+  ExportConflictPolicy,
+  ExportOptionDefinition,
+  ExportOptionValues,
+  ExportProgress,
+  ExportStrategyInfo,
+} from '@core/types/export';
+import { ExportRequest, exportService, ipcService } from '@shared/services';
 import { usePlaylistStore, useSettingsStore, useUIStore } from '@shared/stores';
+import {
+  EXPORT_CONFLICT_POLICY_LABELS,
+  formatExportProgress,
+  getExportProgressFraction,
+  getExportResultNotification,
+  resolveExportOptionValues,
+} from '@shared/utils';
 
 export const ExportModal: React.FC = () => {
   const { modal, closeModal, addNotification } = useUIStore();
   const { tracks, name } = usePlaylistStore();
-  const { exportPath, setExportPath, exportStrategy, setExportStrategy } = useSettingsStore();
+  const {
+    exportPath,
+    setExportPath,
+    exportStrategy,
+    setExportStrategy,
+    exportOptions,
+    setExportOptions,
+    exportConflictPolicy,
+    setExportConflictPolicy,
+  } = useSettingsStore();
   const [localExportPath, setLocalExportPath] = useState(exportPath);
   const [localExportStrategy, setLocalExportStrategy] = useState(exportStrategy);
+  const [localExportOptions, setLocalExportOptions] = useState(exportOptions);
+  const [localConflictPolicy, setLocalConflictPolicy] = useState(exportConflictPolicy);
+  const [strategies, setStrategies] = useState<ExportStrategyInfo[]>([]);
+  // Текущая задача экспорта и её прогресс
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  // Последний запуск с ошибками - для повтора только по трекам с ошибкой
+  const [failedRequest, setFailedRequest] = useState<ExportRequest | null>(null);
+  const runningJobIdRef = useRef<string | null>(null);
+  const selectedStrategy = strategies.find((strategy) => strategy.id === localExportStrategy);
+  const optionValues = useMemo(
+    () =>
+      selectedStrategy
+        ? resolveExportOptionValues(
+            selectedStrategy.options,
+            localExportOptions[selectedStrategy.id],
+          )
+        : {},
+    [selectedStrategy, localExportOptions],
+  );
 
   // Синхронизируем локальные значения при открытии модального окна
   const prevModalRef = useRef<string | null>(null);
@@ -24,7 +67,15 @@ export const ExportModal: React.FC = () => {
       const timeoutId = setTimeout(() => {
         setLocalExportPath(exportPath);
         setLocalExportStrategy(exportStrategy);
+        setLocalExportOptions(exportOptions);
+        setLocalConflictPolicy(exportConflictPolicy);
+        setFailedRequest(null);
       }, 0);
+      // Список стратегий (вместе со стратегиями плагинов) берём из реестра main процесса
+      exportService
+        .getAvailableStrategies()
+        .then(setStrategies)
+        .catch(() => setStrategies([]));
       return () => clearTimeout(timeoutId);
     }
 
@@ -32,6 +83,17 @@ export const ExportModal: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [modal]);
 
+  // Прогресс приходит событиями из main процесса, берём только события текущей задачи
+  useEffect(
+    () =>
+      exportService.onProgress((event) => {
+        if (event.jobId === runningJobIdRef.current) {
+          setProgress(event);
+        }
+      }),
+    [],
+  );
+
   if (modal !== 'export') {
     return null;
   }
@@ -65,31 +127,130 @@ export const ExportModal: React.FC = () => {
       return;
     }
 
+    if (!selectedStrategy) {
+      addNotification({ type: 'error', message: 'Способ экспорта недоступен' });
+      return;
+    }
+
+    // Сохраняем настройки
+    setExportPath(localExportPath);
+    setExportStrategy(localExportStrategy);
+    setExportOptions(localExportStrategy, optionValues);
+    setExportConflictPolicy(localConflictPolicy);
+
+    await runExport({
+      strategyId: localExportStrategy,
+      tracks,
+      targetPath: localExportPath,
+      name,
+      options: optionValues,
+      conflictPolicy: localConflictPolicy,
+    });
+  };
+
+  const handleRetryFailed = async () => {
+    if (failedRequest) {
+      await runExport(failedRequest);
+    }
+  };
+
+  const runExport = async (request: ExportRequest) => {
+    const jobId = exportService.createJobId();
+    runningJobIdRef.current = jobId;
+    setRunningJobId(jobId);
+    setProgress(null);
+    setFailedRequest(null);
+
     try {
-      // Сохраняем настройки
-      setExportPath(localExportPath);
-      setExportStrategy(localExportStrategy);
-
-      // Выполняем экспорт
-      if (localExportStrategy === 'aimpPlaylist') {
-        await exportService.exportAIMPPlaylist(tracks, localExportPath, name);
-      } else {
-        await exportService.exportWithNumberPrefix(tracks, localExportPath);
-      }
+      const result = await exportService.exportTracks({ ...request, jobId });
+      addNotification(getExportResultNotification(result));
 
-      addNotification({ type: 'success', message: 'Экспорт завершён' });
-      closeModal();
+      if (result.failed.length > 0) {
+        // Повтор использует те же параметры, что и исходный запуск
+        setFailedRequest({ ...request, retryPaths: result.failed.map((item) => item.path) });
+      } else if (!result.cancelled) {
+        closeModal();
+      }
     } catch (error) {
       addNotification({ type: 'error', message: `Ошибка экспорта: ${(error as Error).message}` });
+    } finally {
+      runningJobIdRef.current = null;
+      setRunningJobId(null);
+      setProgress(null);
     }
   };
 
   const handleCancel = () => {
+    if (runningJobId) {
+      // Во время экспорта кнопка отменяет задачу, окно остаётся открытым
+      void exportService.cancelExport(runningJobId);
+      return;
+    }
     setLocalExportPath(exportPath);
     setLocalExportStrategy(exportStrategy);
+    setLocalExportOptions(exportOptions);
+    setLocalConflictPolicy(exportConflictPolicy);
     closeModal();
   };
 
+  const handleOptionChange = (key: string, value: boolean | string) => {
+    setLocalExportOptions((prev) => ({
+      ...prev,
+      [localExportStrategy]: { ...optionValues, [key]: value },
+    }));
+  };
+
+  const renderOption = (option: ExportOptionDefinition, values: ExportOptionValues) => {
+    const id = `export-option-${option.key}`;
+
+    if (option.type === 'boolean') {
+      return (
+        <div className="settings-checkbox-group" key={option.key}>
+          <input
+            type="checkbox"
+            className="settings-checkbox"
+            checked={values[option.key] === true}
+            onChange={(e) => handleOptionChange(option.key, e.target.checked)}
+            id={id}
+          />
+          <label className="settings-checkbox-label" htmlFor={id}>
+            {option.label}
+          </label>
+        </div>
+      );
+    }
+
+    return (
+      <div className="settings-group" key={option.key}>
+        <label className="settings-label" htmlFor={id}>
+          {option.label}
+        </label>
+        {option.type === 'select' ? (
+          <select
+            className="settings-select"
+            value={String(values[option.key])}
+            onChange={(e) => handleOptionChange(option.key, e.target.value)}
+            id={id}
+          >
+            {option.choices.map((choice) => (
+              <option key={choice.value} value={choice.value}>
+                {choice.label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            className="settings-input"
+            value={String(values[option.key])}
+            onChange={(e) => handleOptionChange(option.key, e.target.value)}
+            id={id}
+          />
+        )}
+      </div>
+    );
+  };
+
   const handleOverlayClick = (event: React.MouseEvent<HTMLDivElement>) => {
     if (event.target === event.currentTarget) {
       handleCancel();
@@ -147,22 +308,82 @@ export const ExportModal: React.FC = () => {
             <select
               className="settings-select"
               value={localExportStrategy}
-              onChange={(e) =>
-                setLocalExportStrategy(e.target.value as 'copyWithNumberPrefix' | 'aimpPlaylist')
-              }
+              onChange={(e) => setLocalExportStrategy(e.target.value)}
               id="export-strategy"
             >
-              <option value="copyWithNumberPrefix">Копирование с нумерацией (01 - имя.mp3)</option>
-              <option value="aimpPlaylist">AIMP плейлист (M3U8 с относительными путями)</option>
+              {strategies.map((strategy) => (
+                <option key={strategy.id} value={strategy.id}>
+                  {strategy.pluginName
+                    ? `${strategy.label} (${strategy.pluginName})`
+                    : strategy.label}
+                </option>
+              ))}
+              {strategies.length > 0 && !selectedStrategy && (
+                <option value={localExportStrategy} disabled>
+                  {localExportStrategy.startsWith('plugin:')
+                    ? 'Стратегия отключённого плагина'
+                    : 'Недоступная стратегия'}
+                </option>
+              )}
             </select>
           </div>
+
+          {selectedStrategy?.options.map((option) => renderOption(option, optionValues))}
+
+          <div className="settings-group">
+            <label className="settings-label" htmlFor="export-conflict-policy">
+              Если файл уже существует
+            </label>
+            <select
+              className="settings-select"
+              value={localConflictPolicy}
+              onChange={(e) => setLocalConflictPolicy(e.target.value as ExportConflictPolicy)}
+              id="export-conflict-policy"
+            >
+              {(Object.keys(EXPORT_CONFLICT_POLICY_LABELS) as ExportConflictPolicy[]).map(
+                (policy) => (
+                  <option key={policy} value={policy}>
+                    {EXPORT_CONFLICT_POLICY_LABELS[policy]}
+                  </option>
+                ),
+              )}
+            </select>
+          </div>
+
+          {runningJobId && (
+            <div className="settings-group">
+              <progress
+                className="export-progress-bar"
+                value={progress ? getExportProgressFraction(progress) : undefined}
+                max={1}
+              />
+              <span className="settings-hint">
+                {progress ? formatExportProgress(progress) : 'Подготовка...'}
+              </span>
+            </div>
+          )}
+
+          {!runningJobId && failedRequest && (
+            <span className="settings-hint">
+              Не удалось экспортировать треков: {failedRequest.retryPaths?.length ?? 0}
+            </span>
+          )}
         </div>
 
         <div className="modal-footer">
           <button className="modal-button secondary" onClick={handleCancel}>
-            Отмена
+            {runningJobId ? 'Отменить экспорт' : 'Отмена'}
           </button>
-          <button className="modal-button primary" onClick={handleExport}>
+          {!runningJobId && failedRequest && (
+            <button className="modal-button secondary" onClick={handleRetryFailed}>
+              Повторить для ошибок
+            </button>
+          )}
+          <button
+            className="modal-button primary"
+            onClick={handleExport}
+            disabled={runningJobId !== null}
+          >
             Экспортировать
           </button>
         </div>
@@ -1,11 +1,15 @@
+import ClearIcon from '@mui/icons-material/Clear';
 import CloseIcon from '@mui/icons-material/Close';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import React, { useState, useEffect, useRef } from 'react';
 
-import { useSettingsStore, useUIStore } from '@shared/stores';
-import { usePlayerSettingsStore } from '@shared/stores/playerSettingsStore';
-import { usePlayerAudioStore } from '@shared/stores/playerAudioStore';
+import { exportService } from '@shared/services';
+import { useLayoutStore, usePluginsStore, useSettingsStore, useUIStore } from '@shared/stores';
 import { useDemoPlayerStore } from '@shared/stores/demoPlayerStore';
+import { usePlayerAudioStore } from '@shared/stores/playerAudioStore';
+import { usePlayerSettingsStore } from '@shared/stores/playerSettingsStore';
 import { AudioDevice, getAudioOutputDevices, getDefaultDeviceId } from '@shared/utils/audioDevices';
+import { getPluginWorkspaceId, PLUGIN_WORKSPACE_TYPE } from '@shared/utils/pluginUtils';
 
 // Предустановленные интервалы отсечек
 const DIVIDER_INTERVALS = [
@@ -16,6 +20,13 @@ const DIVIDER_INTERVALS = [
   { value: 10800, label: '3 часа' }, // 180 * 60
 ];
 
+// Битрейты сведения сессии (кбит/с), как у конвертации при экспорте
+const MIX_BITRATES = ['128', '192', '256', '320'];
+
+// Допустимый диапазон целевой громкости (LUFS)
+const MIN_TARGET_LOUDNESS = -30;
+const MAX_TARGET_LOUDNESS = -5;
+
 export const SettingsModal: React.FC = () => {
   const { modal, closeModal, addNotification } = useUIStore();
   const {
@@ -25,23 +36,47 @@ export const SettingsModal: React.FC = () => {
     setHourDividerInterval,
     showHourDividers,
     setShowHourDividers,
+    showTempoKeyColumns,
+    setShowTempoKeyColumns,
+    mixBitrate,
+    setMixBitrate,
   } = useSettingsStore();
   const {
     playerAudioDeviceId,
     demoPlayerAudioDeviceId,
     setPlayerAudioDeviceId,
     setDemoPlayerAudioDeviceId,
+    loudnessNormalization,
+    targetLoudness,
+    setLoudnessNormalization,
+    setTargetLoudness,
+    autoTrimSilence,
+    setAutoTrimSilence,
   } = usePlayerSettingsStore();
+  const { plugins, isLoading: loadingPlugins, loadPlugins, setPluginEnabled } = usePluginsStore();
+  const { layout, addZone } = useLayoutStore();
 
   const [localTrackItemSizePreset, setLocalTrackItemSizePreset] = useState(trackItemSizePreset);
   const [localHourDividerInterval, setLocalHourDividerInterval] = useState(hourDividerInterval);
   const [localShowHourDividers, setLocalShowHourDividers] = useState(showHourDividers);
+  const [localShowTempoKeyColumns, setLocalShowTempoKeyColumns] = useState(showTempoKeyColumns);
+  const [localMixBitrate, setLocalMixBitrate] = useState(mixBitrate);
   const [localPlayerDeviceId, setLocalPlayerDeviceId] = useState<string | null>(
     playerAudioDeviceId,
   );
   const [localDemoPlayerDeviceId, setLocalDemoPlayerDeviceId] = useState<string | null>(
     demoPlayerAudioDeviceId,
   );
+  const [localLoudnessNormalization, setLocalLoudnessNormalization] =
+    useState(loudnessNormalization);
+  const [localTargetLoudness, setLocalTargetLoudness] = useState(targetLoudness);
+  const [localAutoTrimSilence, setLocalAutoTrimSilence] = useState(autoTrimSilence);
+
+  // Включение плагинов применяется при сохранении (ключ - ID плагина)
+  const [localPluginEnabled, setLocalPluginEnabled] = useState<Record<string, boolean>>({});
+
+  // Путь к FFmpeg хранится в main процессе и выбирается там же (применяется сразу)
+  const [encoderPath, setEncoderPath] = useState<string | null>(null);
 
   // Состояние для аудиоустройств
   const [audioDevices, setAudioDevices] = useState<AudioDevice[]>([]);
@@ -62,8 +97,14 @@ export const SettingsModal: React.FC = () => {
           console.error('Failed to load audio devices', error);
           setLoadingDevices(false);
         });
+      // Перечитываем папки плагинов, чтобы увидеть новые установленные плагины
+      void loadPlugins(true);
+      exportService
+        .getEncoderPath()
+        .then(setEncoderPath)
+        .catch((error) => console.error('Failed to load encoder path', error));
     }
-  }, [modal]);
+  }, [modal, loadPlugins]);
 
   // Синхронизируем локальные значения при открытии модального окна
   // Это стандартный паттерн для модальных окон - синхронизация состояния при открытии
@@ -75,8 +116,14 @@ export const SettingsModal: React.FC = () => {
         setLocalTrackItemSizePreset(trackItemSizePreset);
         setLocalHourDividerInterval(hourDividerInterval);
         setLocalShowHourDividers(showHourDividers);
+        setLocalShowTempoKeyColumns(showTempoKeyColumns);
+        setLocalMixBitrate(mixBitrate);
         setLocalPlayerDeviceId(playerAudioDeviceId);
         setLocalDemoPlayerDeviceId(demoPlayerAudioDeviceId);
+        setLocalLoudnessNormalization(loudnessNormalization);
+        setLocalTargetLoudness(targetLoudness);
+        setLocalAutoTrimSilence(autoTrimSilence);
+        setLocalPluginEnabled({});
       }, 0);
       return () => clearTimeout(timeoutId);
     }
@@ -86,8 +133,13 @@ export const SettingsModal: React.FC = () => {
     trackItemSizePreset,
     hourDividerInterval,
     showHourDividers,
+    showTempoKeyColumns,
+    mixBitrate,
     playerAudioDeviceId,
     demoPlayerAudioDeviceId,
+    loudnessNormalization,
+    targetLoudness,
+    autoTrimSilence,
   ]);
 
   if (modal !== 'settings') {
@@ -98,11 +150,30 @@ export const SettingsModal: React.FC = () => {
     setTrackItemSizePreset(localTrackItemSizePreset);
     setHourDividerInterval(localHourDividerInterval);
     setShowHourDividers(localShowHourDividers);
+    setShowTempoKeyColumns(localShowTempoKeyColumns);
+    setMixBitrate(localMixBitrate);
 
     // Сохраняем выбранные устройства
     setPlayerAudioDeviceId(localPlayerDeviceId);
     setDemoPlayerAudioDeviceId(localDemoPlayerDeviceId);
 
+    // Нормализация громкости применяется к плеерам сразу через подписку на настройки
+    setLoudnessNormalization(localLoudnessNormalization);
+    if (Number.isFinite(localTargetLoudness)) {
+      setTargetLoudness(
+        Math.min(MAX_TARGET_LOUDNESS, Math.max(MIN_TARGET_LOUDNESS, localTargetLoudness)),
+      );
+    }
+    setAutoTrimSilence(localAutoTrimSilence);
+
+    // Загружаем/выгружаем плагины, у которых изменилось состояние
+    for (const plugin of plugins) {
+      const enabled = localPluginEnabled[plugin.id];
+      if (enabled !== undefined && enabled !== plugin.enabled) {
+        await setPluginEnabled(plugin.id, enabled);
+      }
+    }
+
     // Применяем выбранные устройства к плеерам
     try {
       if (localPlayerDeviceId !== null) {
@@ -127,11 +198,43 @@ export const SettingsModal: React.FC = () => {
     setLocalTrackItemSizePreset(trackItemSizePreset);
     setLocalHourDividerInterval(hourDividerInterval);
     setLocalShowHourDividers(showHourDividers);
+    setLocalShowTempoKeyColumns(showTempoKeyColumns);
+    setLocalMixBitrate(mixBitrate);
     setLocalPlayerDeviceId(playerAudioDeviceId);
     setLocalDemoPlayerDeviceId(demoPlayerAudioDeviceId);
+    setLocalLoudnessNormalization(loudnessNormalization);
+    setLocalTargetLoudness(targetLoudness);
+    setLocalAutoTrimSilence(autoTrimSilence);
+    setLocalPluginEnabled({});
     closeModal();
   };
 
+  // Ошибки (не найден, не FFmpeg) показывает ipcService
+  const handleChooseEncoder = async () => {
+    try {
+      setEncoderPath(await exportService.chooseEncoderPath());
+    } catch (error) {
+      console.error('Failed to choose encoder', error);
+    }
+  };
+
+  const handleResetEncoder = async () => {
+    try {
+      await exportService.resetEncoderPath();
+      setEncoderPath(null);
+    } catch (error) {
+      console.error('Failed to reset encoder', error);
+    }
+  };
+
+  const handleOpenPluginWorkspace = (pluginId: string, moduleId: string) => {
+    if (layout.rootZone.type !== 'container') {
+      return;
+    }
+    addZone(layout.rootZone.id, getPluginWorkspaceId(pluginId, moduleId), PLUGIN_WORKSPACE_TYPE);
+    addNotification({ type: 'info', message: 'Модуль плагина добавлен в раскладку' });
+  };
+
   const handleOverlayClick = (event: React.MouseEvent<HTMLDivElement>) => {
     if (event.target === event.currentTarget) {
       handleCancel();
@@ -215,6 +318,21 @@ export const SettingsModal: React.FC = () => {
             </select>
           </div>
 
+          <div className="settings-group">
+            <div className="settings-checkbox-group">
+              <input
+                type="checkbox"
+                className="settings-checkbox"
+                checked={localShowTempoKeyColumns}
+                onChange={(e) => setLocalShowTempoKeyColumns(e.target.checked)}
+                id="settings-show-tempo-key"
+              />
+              <label className="settings-checkbox-label" htmlFor="settings-show-tempo-key">
+                Показывать BPM и тональность треков
+              </label>
+            </div>
+          </div>
+
           <div className="settings-group">
             <label className="settings-label" htmlFor="player-audio-device">
               Аудиоустройство для плеера
@@ -243,7 +361,7 @@ export const SettingsModal: React.FC = () => {
 
           <div className="settings-group">
             <label className="settings-label" htmlFor="demo-player-audio-device">
-              Аудиоустройство для демо-плеера
+              Аудиоустройство для прослушивания (наушники, демо-плеер)
             </label>
             {loadingDevices ? (
               <div className="settings-loading">Загрузка устройств...</div>
@@ -266,6 +384,165 @@ export const SettingsModal: React.FC = () => {
               </select>
             )}
           </div>
+
+          <div className="settings-group">
+            <div className="settings-checkbox-group">
+              <input
+                type="checkbox"
+                className="settings-checkbox"
+                checked={localLoudnessNormalization}
+                onChange={(e) => setLocalLoudnessNormalization(e.target.checked)}
+                id="settings-loudness-normalization"
+              />
+              <label className="settings-checkbox-label" htmlFor="settings-loudness-normalization">
+                Нормализация громкости треков
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-group">
+            <label className="settings-label" htmlFor="settings-target-loudness">
+              Целевая громкость (LUFS)
+            </label>
+            <input
+              type="number"
+              className="settings-input"
+              min={MIN_TARGET_LOUDNESS}
+              max={MAX_TARGET_LOUDNESS}
+              step={1}
+              value={localTargetLoudness}
+              onChange={(e) => setLocalTargetLoudness(Number(e.target.value))}
+              id="settings-target-loudness"
+              disabled={!localLoudnessNormalization}
+              title="Громкость трека берётся из тегов ReplayGain или из анализа файла"
+            />
+          </div>
+
+          <div className="settings-group">
+            <div className="settings-checkbox-group">
+              <input
+                type="checkbox"
+                className="settings-checkbox"
+                checked={localAutoTrimSilence}
+                onChange={(e) => setLocalAutoTrimSilence(e.target.checked)}
+                id="settings-auto-trim-silence"
+              />
+              <label className="settings-checkbox-label" htmlFor="settings-auto-trim-silence">
+                Пропускать тишину в начале и конце треков
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-group">
+            <label className="settings-label" htmlFor="settings-encoder-path">
+              FFmpeg (конвертация при экспорте, сведение, анализ треков)
+            </label>
+            <div className="settings-input-group">
+              <input
+                type="text"
+                className="settings-input"
+                value={encoderPath ?? ''}
+                placeholder="Искать в PATH"
+                readOnly
+                id="settings-encoder-path"
+              />
+              <button
+                className="settings-browse-button"
+                onClick={handleChooseEncoder}
+                title="Выбрать файл FFmpeg"
+              >
+                <FolderOpenIcon />
+              </button>
+              {encoderPath && (
+                <button
+                  className="settings-browse-button"
+                  onClick={handleResetEncoder}
+                  title="Искать FFmpeg в PATH"
+                >
+                  <ClearIcon />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="settings-group">
+            <label className="settings-label" htmlFor="settings-mix-bitrate">
+              Битрейт сведения сессии (кбит/с)
+            </label>
+            <select
+              className="settings-select"
+              value={localMixBitrate}
+              onChange={(e) => setLocalMixBitrate(e.target.value)}
+              id="settings-mix-bitrate"
+            >
+              {MIX_BITRATES.map((bitrate) => (
+                <option key={bitrate} value={bitrate}>
+                  {bitrate}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="settings-group">
+            <span className="settings-label">Плагины</span>
+            {loadingPlugins && plugins.length === 0 ? (
+              <div className="settings-loading">Загрузка плагинов...</div>
+            ) : plugins.length === 0 ? (
+              <div className="settings-loading">Плагины не найдены</div>
+            ) : (
+              <div className="settings-plugin-list">
+                {plugins.map((plugin) => {
+                  const checkboxId = `settings-plugin-${plugin.id}`;
+                  const { exportStrategies, workspaceModules, trackActions } = plugin.contributions;
+                  return (
+                    <div key={plugin.id} className="settings-plugin">
+                      <div className="settings-checkbox-group">
+                        <input
+                          type="checkbox"
+                          className="settings-checkbox"
+                          checked={localPluginEnabled[plugin.id] ?? plugin.enabled}
+                          onChange={(e) =>
+                            setLocalPluginEnabled((prev) => ({
+                              ...prev,
+                              [plugin.id]: e.target.checked,
+                            }))
+                          }
+                          id={checkboxId}
+                        />
+                        <label className="settings-checkbox-label" htmlFor={checkboxId}>
+                          {plugin.name} {plugin.version}
+                        </label>
+                      </div>
+                      <div className="settings-plugin-meta">
+                        {plugin.source === 'app' ? 'Встроенный' : 'Пользовательский'} · API v
+                        {plugin.apiVersion}
+                        {plugin.description && ` · ${plugin.description}`}
+                      </div>
+                      {plugin.error && (
+                        <div className="settings-plugin-error">Ошибка: {plugin.error}</div>
+                      )}
+                      {plugin.loaded && (
+                        <div className="settings-plugin-contributions">
+                          Экспорт: {exportStrategies.length}, действия: {trackActions.length},
+                          модули: {workspaceModules.length}
+                          {workspaceModules.map((module) => (
+                            <button
+                              key={module.id}
+                              className="settings-plugin-open"
+                              onClick={() => handleOpenPluginWorkspace(plugin.id, module.id)}
+                              title="Добавить модуль в раскладку"
+                            >
+                              Открыть «{module.name}»
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="modal-footer">
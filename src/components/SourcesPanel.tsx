@@ -1,6 +1,8 @@
 import React from 'react';
 
+import { DEFAULT_DATABASE_WORKSPACE_ID } from '@core/constants/workspace';
 import { useUIStore } from '@shared/stores';
+import { DatabaseView } from '@workspaces/database';
 
 import { FileBrowser } from './FileBrowser';
 
@@ -16,9 +18,7 @@ export const SourcesPanel: React.FC = () => {
         </div>
       )}
       {activeSource === 'db' && (
-        <div className="empty-state">
-          <p>База данных (в разработке)</p>
-        </div>
+        <DatabaseView workspaceId={DEFAULT_DATABASE_WORKSPACE_ID} zoneId="sources-db" />
       )}
     </div>
   );
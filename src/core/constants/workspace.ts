@@ -14,9 +14,25 @@ export const DEFAULT_PLAYLIST_WORKSPACE_ID: WorkspaceId = 'default-playlist-work
 // ID для player workspace
 export const DEFAULT_PLAYER_WORKSPACE_ID: WorkspaceId = 'default-player-workspace';
 
+// ID для database workspace (библиотека)
+export const DEFAULT_DATABASE_WORKSPACE_ID: WorkspaceId = 'default-database-workspace';
+
+// ID для rules workspace (правила плейлистов)
+export const DEFAULT_RULES_WORKSPACE_ID: WorkspaceId = 'default-rules-workspace';
+
+// ID для autogenerator workspace (генерация плейлиста по длительности)
+export const DEFAULT_AUTOGENERATOR_WORKSPACE_ID: WorkspaceId = 'default-autogenerator-workspace';
+
+// ID для drafts workspace (черновики: прослушанные и удалённые треки)
+export const DEFAULT_DRAFTS_WORKSPACE_ID: WorkspaceId = 'default-drafts-workspace';
+
 const workspaceTypeRegistry = new Map<WorkspaceId, WorkspaceType>();
 workspaceTypeRegistry.set(DEFAULT_PLAYLIST_WORKSPACE_ID, 'playlist');
 workspaceTypeRegistry.set(DEFAULT_PLAYER_WORKSPACE_ID, 'player');
+workspaceTypeRegistry.set(DEFAULT_DATABASE_WORKSPACE_ID, 'database');
+workspaceTypeRegistry.set(DEFAULT_RULES_WORKSPACE_ID, 'rules');
+workspaceTypeRegistry.set(DEFAULT_AUTOGENERATOR_WORKSPACE_ID, 'autogenerator');
+workspaceTypeRegistry.set(DEFAULT_DRAFTS_WORKSPACE_ID, 'drafts');
 
 /**
  * Генерирует новый UUID для workspace
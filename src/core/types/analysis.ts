@@ -0,0 +1,52 @@
+/**
+ * Источник данных о громкости трека
+ * analysis - измерено в main процессе (EBU R128), replaygain - из тегов файла
+ */
+export type LoudnessSource = 'analysis' | 'replaygain' | 'unavailable';
+
+/**
+ * Громкость трека (результаты кэшируются в main процессе)
+ */
+export interface TrackLoudness {
+  integratedLufs: number | null; // Интегральная громкость, LUFS
+  peak: number | null; // Пиковое значение сэмпла, линейное (1.0 = 0 dBFS)
+  source: LoudnessSource;
+}
+
+/**
+ * Пики формы волны трека (вычисляются один раз в main процессе и кэшируются на диске)
+ */
+export interface TrackWaveform {
+  peaks: number[]; // Максимум модуля сэмпла на отрезок, 0..1
+  duration: number; // Длительность в секундах
+}
+
+/**
+ * Источник темпа и тональности трека
+ * tags - из тегов файла (TBPM/TKEY), analysis - хотя бы одно значение оценено по аудио
+ */
+export type TempoKeySource = 'analysis' | 'tags' | 'unavailable';
+
+/**
+ * Темп и тональность трека (результаты кэшируются в main процессе)
+ */
+export interface TrackTempoKey {
+  bpm: number | null; // Темп, удары в минуту
+  key: string | null; // Тональность: "C", "F#", "Am", ...
+  source: TempoKeySource;
+}
+
+/**
+ * Источник данных о тишине в начале и конце трека
+ */
+export type SilenceSource = 'analysis' | 'unavailable';
+
+/**
+ * Тишина в начале и конце трека - предлагаемые точки входа/выхода
+ * (результаты кэшируются в main процессе)
+ */
+export interface TrackSilence {
+  leadingSilence: number | null; // Предлагаемая точка входа, секунды от начала
+  trailingSilence: number | null; // Предлагаемая точка выхода, секунды до конца
+  source: SilenceSource;
+}
@@ -0,0 +1,48 @@
+import { WorkspaceId } from './workspace';
+
+/**
+ * Форма кривой энергии по ходу плейлиста
+ * Энергия оценивается по BPM трека
+ */
+export type EnergyCurve = 'none' | 'flat' | 'rising' | 'falling' | 'peak';
+
+/**
+ * Трек-кандидат для автогенерации (из коллекции или папки)
+ */
+export interface AutogeneratorCandidate {
+  path: string;
+  name: string;
+  duration: number; // в секундах
+  artist?: string;
+  genre?: string;
+  bpm?: number;
+}
+
+/**
+ * Параметры генерации плейлиста
+ */
+export interface AutogeneratorOptions {
+  seed: number;
+  targetDuration: number; // в секундах
+  // Доли жанров (вес по названию жанра). Пустой объект - без ограничений
+  genreMix: Record<string, number>;
+  energyCurve: EnergyCurve;
+  noRepeats: boolean;
+}
+
+/**
+ * Источники треков для автогенерации
+ */
+export interface AutogeneratorSources {
+  workspaceIds: WorkspaceId[]; // Коллекции и плейлисты
+  folders: string[];
+}
+
+/**
+ * Результат генерации
+ */
+export interface AutogeneratorResult {
+  tracks: AutogeneratorCandidate[];
+  totalDuration: number;
+  seed: number;
+}
@@ -0,0 +1,17 @@
+import { WorkspaceId } from './workspace';
+
+/**
+ * Откуда трек попал в черновики
+ * - preview: прослушан в DemoPlayer
+ * - removed: удалён из плейлиста или коллекции
+ */
+export type DraftOrigin = 'preview' | 'removed';
+
+/**
+ * Метаданные записи черновиков (по ID трека в drafts workspace)
+ */
+export interface DraftEntry {
+  origin: DraftOrigin;
+  sourceWorkspaceId: WorkspaceId | null;
+  capturedAt: number; // timestamp
+}
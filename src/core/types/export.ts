@@ -0,0 +1,71 @@
+/**
+ * Стратегии экспорта (реестр в main процессе, electron/export/exportStrategies.ts)
+ */
+
+interface ExportOptionBase {
+  key: string;
+  label: string;
+}
+
+/**
+ * Описание опции стратегии - по нему диалог экспорта строит форму
+ */
+export type ExportOptionDefinition =
+  | (ExportOptionBase & { type: 'boolean'; default: boolean })
+  | (ExportOptionBase & { type: 'string'; default: string })
+  | (ExportOptionBase & {
+      type: 'select';
+      default: string;
+      choices: Array<{ value: string; label: string }>;
+    });
+
+export type ExportOptionValues = Record<string, boolean | string>;
+
+export interface ExportStrategyInfo {
+  id: string; // Встроенная стратегия или "plugin:<plugin>/<strategy>"
+  label: string;
+  options: ExportOptionDefinition[];
+  pluginName?: string; // Для стратегий плагинов
+}
+
+export interface ExportResult {
+  successful: string[];
+  failed: Array<{ path: string; error: string }>;
+  skipped?: string[]; // Файл уже был в папке экспорта (политика "skip"/"skipIfIdentical")
+  outputPath?: string; // Созданный файл плейлиста или папка
+  cancelled?: boolean; // Треки после отмены не попадают в результат
+}
+
+/**
+ * Что делать, если файл уже есть в папке экспорта
+ */
+export type ExportConflictPolicy = 'overwrite' | 'skip' | 'rename' | 'skipIfIdentical';
+
+/**
+ * Прогресс задачи экспорта (событие "export:progress" из main процесса)
+ */
+export interface ExportProgress {
+  jobId: string;
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number; // 0, если стратегия не копирует файлы
+  currentFile?: string;
+}
+
+/**
+ * Трек микса, сведённого в один файл (точки входа/выхода, темп и переходы
+ * уже разрешены по настройкам плеера)
+ */
+export interface MixSegment {
+  path: string;
+  title: string;
+  start: number; // Точка входа в файле, секунды
+  end: number | null; // Точка выхода в файле, null - до конца (длительность неизвестна)
+  fadeIn: number; // Секунды исходного файла
+  fadeOut: number;
+  rate: number; // Скорость воспроизведения, 1 - исходный темп
+  preservePitch: boolean;
+  gapAfter: number; // Тишина после трека, секунды
+  crossfadeAfter: number; // Наложение на следующий трек, секунды микса
+}
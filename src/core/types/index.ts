@@ -7,5 +7,48 @@ export type {
   Zone,
   Layout,
 } from './layout';
-export type { Track } from './track';
+export type {
+  AutogeneratorCandidate,
+  AutogeneratorOptions,
+  AutogeneratorResult,
+  AutogeneratorSources,
+  EnergyCurve,
+} from './autogenerator';
+export type {
+  LoudnessSource,
+  SilenceSource,
+  TempoKeySource,
+  TrackLoudness,
+  TrackSilence,
+  TrackTempoKey,
+  TrackWaveform,
+} from './analysis';
+export type { DraftEntry, DraftOrigin } from './drafts';
+export type {
+  ExportConflictPolicy,
+  ExportOptionDefinition,
+  ExportOptionValues,
+  ExportProgress,
+  ExportResult,
+  ExportStrategyInfo,
+  MixSegment,
+} from './export';
+export type { LibraryTrack, LibraryQuery, LibraryQueryResult, LibraryScanResult } from './library';
+export type {
+  PluginContributions,
+  PluginInfo,
+  PluginSource,
+  PluginTrackActionResult,
+  PluginWorkspaceContent,
+} from './plugins';
+export type {
+  PlaylistRule,
+  PlaylistRuleType,
+  SameArtistDistanceRule,
+  LongTracksInRowRule,
+  TotalDurationRule,
+  DuplicatePathsRule,
+  RuleViolation,
+} from './rules';
+export type { Track, TrackSuggestedCue } from './track';
 export type { WorkspaceId, WorkspaceType } from './workspace';
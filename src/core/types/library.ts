@@ -0,0 +1,49 @@
+/**
+ * Трек из локальной библиотеки (индекс хранится в main процессе)
+ */
+export interface LibraryTrack {
+  path: string;
+  name: string;
+  root: string; // Корневая папка библиотеки
+  size: number;
+  mtime: number;
+  duration?: number; // Duration in seconds
+  artist?: string;
+  title?: string;
+  album?: string;
+  genre?: string;
+  bpm?: number;
+  year?: number;
+  bitrate?: number; // kbps
+}
+
+/**
+ * Параметры запроса к библиотеке
+ */
+export interface LibraryQuery {
+  search?: string;
+  genre?: string;
+  artist?: string;
+  bpmMin?: number;
+  bpmMax?: number;
+  root?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface LibraryQueryResult {
+  tracks: LibraryTrack[];
+  total: number;
+}
+
+/**
+ * Результат сканирования библиотеки
+ */
+export interface LibraryScanResult {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: Array<{ path: string; error: string }>;
+  total: number;
+}
@@ -1,5 +1,12 @@
+import {
+  ActionAfterTrack,
+  PlayerCuePoints,
+  PlayerGroupSettings,
+  PlayerTrackSettings,
+} from '@shared/stores/playerSettingsStore';
+
+import { PlaylistRule } from './rules';
 import { Track } from './track';
-import { PlayerGroupSettings } from '@shared/stores/playerSettingsStore';
 
 /**
  * Группа в плеере
@@ -31,3 +38,49 @@ export function isPlayerTrack(item: PlayerItem): item is Track {
   return !isPlayerGroup(item);
 }
 
+/**
+ * Версия формата файла .player.json
+ */
+export const PLAYER_FILE_VERSION = '1.0';
+
+/**
+ * Трек в файле .player.json
+ */
+export interface PlayerFileTrack {
+  id: string;
+  path: string;
+  name: string;
+  duration?: number;
+  settings?: PlayerTrackSettings;
+}
+
+/**
+ * Группа в файле .player.json
+ * items содержит ID треков и вложенные группы
+ */
+export interface PlayerFileGroup {
+  id: string;
+  name: string | null;
+  items: Array<string | PlayerFileGroup>;
+  settings?: PlayerGroupSettings;
+}
+
+/**
+ * Формат файла .player.json (только данные плейлиста, без состояния сессии)
+ * tracks - все треки в порядке воспроизведения
+ * groups - группы корневого уровня
+ */
+export interface PlayerFileData {
+  version: string;
+  name?: string;
+  tracks: PlayerFileTrack[];
+  groups: PlayerFileGroup[];
+  settings: {
+    defaultPauseBetweenTracks: number;
+    defaultActionAfterTrack: ActionAfterTrack;
+    defaultCrossfadeDuration?: number; // Нет в файлах, сохранённых до появления кроссфейда
+    defaultCuePoints?: PlayerCuePoints; // Нет в файлах, сохранённых до появления точек входа/выхода
+    plannedEndTime: number | null;
+  };
+  rules?: PlaylistRule[];
+}
@@ -0,0 +1,40 @@
+/**
+ * Плагины (загружаются и выполняются в main процессе)
+ */
+export type PluginSource = 'app' | 'user';
+
+/**
+ * Что плагин зарегистрировал через host API
+ */
+export interface PluginContributions {
+  exportStrategies: Array<{ id: string; label: string }>; // id вида "plugin:<plugin>/<strategy>"
+  workspaceModules: Array<{ id: string; name: string }>;
+  trackActions: Array<{ id: string; label: string }>;
+}
+
+export interface PluginInfo {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
+  source: PluginSource; // Встроенный в приложение или установленный пользователем
+  directory: string;
+  apiVersion: number;
+  enabled: boolean;
+  loaded: boolean;
+  error?: string; // Ошибка загрузки
+  contributions: PluginContributions;
+}
+
+/**
+ * Содержимое панели workspace-модуля плагина
+ */
+export interface PluginWorkspaceContent {
+  title?: string;
+  items: Array<{ label: string; value?: string }>;
+}
+
+export interface PluginTrackActionResult {
+  message?: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * Типы правил (ограничений) для плейлистов и плеера
+ * Правила сериализуются в JSON и сохраняются вместе с плейлистом
+ */
+export type PlaylistRuleType =
+  | 'sameArtistDistance'
+  | 'longTracksInRow'
+  | 'totalDuration'
+  | 'duplicatePaths';
+
+interface PlaylistRuleBase {
+  id: string;
+  type: PlaylistRuleType;
+  enabled: boolean;
+}
+
+/**
+ * Один и тот же исполнитель не чаще, чем раз в minDistance треков
+ */
+export interface SameArtistDistanceRule extends PlaylistRuleBase {
+  type: 'sameArtistDistance';
+  minDistance: number;
+}
+
+/**
+ * Не больше maxInRow треков длиннее minDuration подряд
+ */
+export interface LongTracksInRowRule extends PlaylistRuleBase {
+  type: 'longTracksInRow';
+  minDuration: number; // в секундах
+  maxInRow: number;
+}
+
+/**
+ * Общая длительность не превышает лимит
+ * maxDuration = null - лимит берётся из планового времени окончания плеера
+ */
+export interface TotalDurationRule extends PlaylistRuleBase {
+  type: 'totalDuration';
+  maxDuration: number | null; // в секундах
+}
+
+/**
+ * Один и тот же файл не встречается дважды
+ */
+export interface DuplicatePathsRule extends PlaylistRuleBase {
+  type: 'duplicatePaths';
+}
+
+export type PlaylistRule =
+  | SameArtistDistanceRule
+  | LongTracksInRowRule
+  | TotalDurationRule
+  | DuplicatePathsRule;
+
+/**
+ * Нарушение правила для конкретного трека
+ */
+export interface RuleViolation {
+  ruleId: string;
+  ruleType: PlaylistRuleType;
+  trackId: string;
+  message: string;
+}
@@ -3,4 +3,12 @@ export interface Track {
   path: string;
   name: string;
   duration?: number; // Duration in seconds
+  bpm?: number; // Tempo (from TBPM tag or estimated from audio)
+  key?: string; // Musical key, e.g. "Am", "F#" (from TKEY tag or estimated from audio)
+  suggestedCue?: TrackSuggestedCue; // Cue points suggested by silence detection
+}
+
+export interface TrackSuggestedCue {
+  startOffset: number; // Leading silence to skip, seconds (0 = none)
+  endOffset: number; // Trailing silence to skip, seconds before end (0 = none)
 }
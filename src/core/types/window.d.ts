@@ -0,0 +1,14 @@
+/**
+ * API, которое electron/preload.ts открывает рендереру через contextBridge
+ */
+export interface PreloadApi {
+  invoke: (channel: string, payload?: unknown) => Promise<unknown>;
+  // Событие из main process, возвращает функцию отписки
+  on: (channel: string, listener: (payload: unknown) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    api: PreloadApi;
+  }
+}
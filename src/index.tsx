@@ -4,6 +4,11 @@ import '@workspaces/collection';
 import '@workspaces/fileBrowser';
 import '@workspaces/testZone';
 import '@workspaces/player';
+import '@workspaces/database';
+import '@workspaces/rules';
+import '@workspaces/autogenerator';
+import '@workspaces/drafts';
+import '@workspaces/plugin';
 import { App } from '@app';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
@@ -1,17 +1,23 @@
 import OpenInNewIcon from '@mui/icons-material/OpenInNew';
 import PauseIcon from '@mui/icons-material/Pause';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import QueuePlayNextIcon from '@mui/icons-material/QueuePlayNext';
 import VolumeDownIcon from '@mui/icons-material/VolumeDown';
 import VolumeUpIcon from '@mui/icons-material/VolumeUp';
 import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import { shallow } from 'zustand/shallow';
 
 import { Track } from '../../core/types/track';
+import { useTrackWaveform } from '../hooks/useTrackWaveform';
 import { useDemoPlayerStore } from '../stores/demoPlayerStore';
 import type { PlayerStatus } from '../stores/demoPlayerStore';
+import { usePlayerAudioStore } from '../stores/playerAudioStore';
+import { usePlayerSessionStore } from '../stores/playerSessionStore';
 import { useUIStore } from '../stores/uiStore';
 import { formatPlayerTime } from '../utils/durationUtils';
 
+import { Waveform } from './Waveform';
+
 type NotificationType = 'success' | 'error' | 'info';
 
 interface NotificationPayload {
@@ -32,10 +38,12 @@ export interface DemoPlayerController {
   seek: (positionSeconds: number) => void;
   setVolume: (value: number) => void;
   clear: () => void;
+  canQueueNext?: boolean; // Трек можно поставить следующим в сессии плеера
+  queueNext?: () => void;
 }
 
-export const useDemoPlayerController = (): DemoPlayerController =>
-  useDemoPlayerStore(
+export const useDemoPlayerController = (): DemoPlayerController => {
+  const demoPlayer = useDemoPlayerStore(
     (state) => ({
       currentTrack: state.currentTrack,
       status: state.status,
@@ -52,6 +60,24 @@ export const useDemoPlayerController = (): DemoPlayerController =>
     }),
     shallow,
   );
+  const isSessionMode = usePlayerSessionStore((state) => state.mode === 'session');
+  const queueTrackNext = usePlayerSessionStore((state) => state.queueTrackNext);
+  const sessionTrackId = usePlayerAudioStore((state) => state.currentTrack?.id ?? null);
+  const { currentTrack } = demoPlayer;
+
+  // Прослушиваемый трек ставится следующим после текущего трека сессии
+  const queueNext = useCallback(() => {
+    if (currentTrack) {
+      queueTrackNext(currentTrack, sessionTrackId);
+    }
+  }, [currentTrack, queueTrackNext, sessionTrackId]);
+
+  return {
+    ...demoPlayer,
+    canQueueNext: isSessionMode && currentTrack !== null && currentTrack.id !== sessionTrackId,
+    queueNext,
+  };
+};
 
 interface DemoPlayerProps {
   className?: string;
@@ -104,8 +130,11 @@ export const DemoPlayer: React.FC<DemoPlayerProps> = ({
     seek,
     setVolume,
     clear,
+    canQueueNext = false,
+    queueNext,
   } = player;
   const lastErrorRef = useRef<string | null>(null);
+  const waveform = useTrackWaveform(currentTrack?.path);
 
   const isPlaying = status === 'playing';
   const isDisabled = storeIsDisabled || !currentTrack || Boolean(error);
@@ -139,8 +168,7 @@ export const DemoPlayer: React.FC<DemoPlayerProps> = ({
     }
   }, [addNotification, currentTrack, isPlaying, pause, play]);
 
-  const handleSeek = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseFloat(event.target.value);
+  const seekTo = (value: number) => {
     if (Number.isFinite(value)) {
       seek(value);
       if (status === 'ended' && currentTrack) {
@@ -149,6 +177,14 @@ export const DemoPlayer: React.FC<DemoPlayerProps> = ({
     }
   };
 
+  const handleSeek = (event: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(parseFloat(event.target.value));
+  };
+
+  const handleWaveformSeek = (fraction: number) => {
+    seekTo(fraction * resolvedDuration);
+  };
+
   const handleVolumeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(event.target.value);
     if (Number.isFinite(value)) {
@@ -156,6 +192,14 @@ export const DemoPlayer: React.FC<DemoPlayerProps> = ({
     }
   };
 
+  const handleQueueNext = () => {
+    if (!currentTrack || !queueNext) {
+      return;
+    }
+    queueNext();
+    addNotification({ type: 'success', message: 'Трек будет следующим в сессии' });
+  };
+
   const handleShowInBrowser = () => {
     if (!currentTrack || !onShowInBrowser) {
       return;
@@ -217,10 +261,21 @@ export const DemoPlayer: React.FC<DemoPlayerProps> = ({
           {error ? <div className="demo-player__error">{error}</div> : null}
           {storeIsDisabled && !error ? (
             <div className="demo-player__warning">
-              Заблокирован: используется то же устройство, что и плеер
+              Заблокирован: выберите для прослушивания другое устройство (наушники)
             </div>
           ) : null}
         </div>
+        {canQueueNext && queueNext ? (
+          <button
+            type="button"
+            className="demo-player__show-button"
+            onClick={handleQueueNext}
+            title="Поставить прослушиваемый трек следующим в сессии плеера"
+          >
+            <QueuePlayNextIcon fontSize="small" />
+            <span>Следующим</span>
+          </button>
+        ) : null}
         <button
           type="button"
           className="demo-player__show-button"
@@ -234,20 +289,29 @@ export const DemoPlayer: React.FC<DemoPlayerProps> = ({
 
       <div className="demo-player__controls-row">
         <span className="demo-player__time">{formatPlayerTime(safePosition)}</span>
-        <input
-          type="range"
-          min={0}
-          max={resolvedDuration || 1}
-          step={0.1}
-          value={isDisabled ? 0 : safePosition}
-          onChange={handleSeek}
-          disabled={isDisabled}
-          className="demo-player__timeline"
-        />
+        {waveform && !isDisabled ? (
+          <Waveform
+            peaks={waveform.peaks}
+            progress={resolvedDuration > 0 ? safePosition / resolvedDuration : 0}
+            onSeek={handleWaveformSeek}
+            className="demo-player__waveform"
+          />
+        ) : (
+          <input
+            type="range"
+            min={0}
+            max={resolvedDuration || 1}
+            step={0.1}
+            value={isDisabled ? 0 : safePosition}
+            onChange={handleSeek}
+            disabled={isDisabled}
+            className="demo-player__timeline"
+          />
+        )}
         <span className="demo-player__time demo-player__time--total">
           {formatPlayerTime(resolvedDuration)}
         </span>
-        <div className="demo-player__volume">
+        <div className="demo-player__volume" title="Громкость прослушивания (не влияет на плеер)">
           <VolumeDownIcon fontSize="small" />
           <input
             type="range"
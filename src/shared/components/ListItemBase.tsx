@@ -5,6 +5,7 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
 import PauseIcon from '@mui/icons-material/Pause';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import React from 'react';
 
 export interface ListItemBaseProps {
@@ -12,6 +13,7 @@ export interface ListItemBaseProps {
   id: string;
   displayName: string;
   displaySecondary?: string; // длительность, размер и т.д.
+  extraColumns?: React.ReactNode; // Дополнительные колонки перед displaySecondary (BPM, тональность)
   index?: number;
 
   // Иконка/префикс (для групп, папок и т.д.)
@@ -31,6 +33,7 @@ export interface ListItemBaseProps {
   isCurrent?: boolean;
   isLocked?: boolean;
   level?: number;
+  warnings?: string[]; // Нарушения правил (Rules workspace)
 
   // Callbacks
   onToggleSelect: (id: string, e?: React.MouseEvent) => void;
@@ -66,6 +69,7 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
   id,
   displayName,
   displaySecondary,
+  extraColumns,
   index,
   prefixIcon,
   isSelected,
@@ -79,6 +83,7 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
   isCurrent = false,
   isLocked = false,
   level = 0,
+  warnings,
   onToggleSelect,
   onRemove,
   onDragStart,
@@ -117,6 +122,8 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
     }
   };
 
+  const hasWarnings = warnings !== undefined && warnings.length > 0;
+
   const computedClassName = [
     baseClassName,
     isSelected ? 'selected' : '',
@@ -126,6 +133,7 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
     isPlayed ? `${baseClassName}--played` : '',
     isDisabled ? `${baseClassName}--disabled` : '',
     isCurrent ? `${baseClassName}--current` : '',
+    hasWarnings ? `${baseClassName}--warning` : '',
     level > 0 ? `${baseClassName}--level-${level}` : '',
     className,
   ]
@@ -239,7 +247,12 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
       )}
 
       {(showIndex && index !== undefined && index >= 0) || reserveIndexSpace ? (
-        <div className={`${baseClassName}-index`} style={showIndex && index !== undefined && index >= 0 ? undefined : { visibility: 'hidden' }}>
+        <div
+          className={`${baseClassName}-index`}
+          style={
+            showIndex && index !== undefined && index >= 0 ? undefined : { visibility: 'hidden' }
+          }
+        >
           {showIndex && index !== undefined && index >= 0 ? index + 1 : '\u200B'}
         </div>
       ) : null}
@@ -247,12 +260,23 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
       {customContent || (
         <>
           <div className={`${baseClassName}-name`}>{displayName}</div>
+          {extraColumns}
           {displaySecondary && (
             <div className={`${baseClassName}-duration`}>{displaySecondary}</div>
           )}
         </>
       )}
 
+      {hasWarnings && (
+        <span
+          className={`${baseClassName}-warning`}
+          title={warnings.join('\n')}
+          aria-label={`Нарушения правил: ${warnings.length}`}
+        >
+          <WarningAmberIcon style={{ fontSize: '18px' }} />
+        </span>
+      )}
+
       {customActions}
 
       {showDisableButton && onToggleDisabled && (
@@ -280,4 +304,3 @@ export const ListItemBase: React.FC<ListItemBaseProps> = ({
     </div>
   );
 };
-
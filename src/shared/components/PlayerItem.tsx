@@ -3,10 +3,13 @@ import React, { useState, useRef, useEffect } from 'react';
 
 import { PlayerItem as PlayerItemType, isPlayerGroup } from '../../core/types/player';
 import { Track } from '../../core/types/track';
+import { useTrackWaveform } from '../hooks/useTrackWaveform';
 import { formatTrackDuration } from '../utils/durationUtils';
 import { getGroupItemCount, getGroupTotalDuration } from '../utils/playerItemsUtils';
 
 import { ListItemBase } from './ListItemBase';
+import { TrackTempoKeyColumns } from './TrackTempoKeyColumns';
+import { Waveform } from './Waveform';
 
 interface PlayerItemProps {
   item: PlayerItemType; // Трек или группа
@@ -26,6 +29,7 @@ interface PlayerItemProps {
   isPlaying: boolean;
   onPlay: (track: Track) => Promise<void> | void;
   onPause: () => void;
+  warnings?: string[]; // Нарушения правил для трека
   hidePlayButton?: boolean;
   settingsButton?: React.ReactNode;
   isPlayed?: boolean;
@@ -36,6 +40,10 @@ interface PlayerItemProps {
   showDisableButton?: boolean; // Показывать ли кнопку отключения
   groupDuration?: number; // Длительность группы с учетом пауз (если это группа)
   onRenameGroup?: (groupId: string, newName: string) => void; // Callback для переименования группы
+  showWaveform?: boolean; // Показывать форму волны трека (таймлайн)
+  playbackProgress?: number; // Доля проигранного (0..1) для активного трека
+  onSeek?: (fraction: number) => void; // Перемотка по клику на форму волны
+  showTempoKey?: boolean; // Показывать колонки BPM и тональности (для треков)
 }
 
 export const PlayerItem: React.FC<PlayerItemProps> = ({
@@ -56,6 +64,7 @@ export const PlayerItem: React.FC<PlayerItemProps> = ({
   isPlaying,
   onPlay,
   onPause,
+  warnings,
   hidePlayButton = false,
   settingsButton,
   isPlayed = false,
@@ -66,12 +75,17 @@ export const PlayerItem: React.FC<PlayerItemProps> = ({
   showDisableButton = true,
   groupDuration,
   onRenameGroup,
+  showWaveform = false,
+  playbackProgress,
+  onSeek,
+  showTempoKey = false,
 }) => {
   const isGroup = isPlayerGroup(item);
   const track = isGroup ? null : item;
   const [isEditingName, setIsEditingName] = useState(false);
   const [editingName, setEditingName] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const waveform = useTrackWaveform(showWaveform && track ? track.path : null);
 
   const handlePlay = () => {
     if (!track) return;
@@ -150,6 +164,9 @@ export const PlayerItem: React.FC<PlayerItemProps> = ({
       ? formatTrackDuration(track.duration)
       : undefined;
 
+  const tempoKeyColumns =
+    showTempoKey && track ? <TrackTempoKeyColumns track={track} /> : undefined;
+
   const prefixIcon = isGroup ? (
     <div className="playlist-item-group-icon">
       <FolderIcon style={{ fontSize: '20px', color: 'var(--text-secondary)' }} />
@@ -203,6 +220,19 @@ export const PlayerItem: React.FC<PlayerItemProps> = ({
         </div>
         {displayDuration && <div className="playlist-item-duration">{displayDuration}</div>}
       </>
+    ) : track && waveform ? (
+      <>
+        <div className="playlist-item-name">{trackDisplayName}</div>
+        <Waveform
+          peaks={waveform.peaks}
+          progress={playbackProgress}
+          onSeek={onSeek}
+          className="playlist-item-waveform"
+          title={onSeek ? 'Клик для перемотки' : undefined}
+        />
+        {tempoKeyColumns}
+        {displayDuration && <div className="playlist-item-duration">{displayDuration}</div>}
+      </>
     ) : undefined;
 
   return (
@@ -210,6 +240,7 @@ export const PlayerItem: React.FC<PlayerItemProps> = ({
       id={item.id}
       displayName={isGroup ? groupDisplayName : trackDisplayName}
       displaySecondary={displayDuration}
+      extraColumns={tempoKeyColumns}
       index={index}
       prefixIcon={prefixIcon}
       isSelected={isSelected}
@@ -231,6 +262,7 @@ export const PlayerItem: React.FC<PlayerItemProps> = ({
       onDragEnd={onDragEnd}
       onPlay={handlePlay}
       onPause={handlePause}
+      warnings={warnings}
       onToggleDisabled={onToggleDisabled}
       showPlayButton={!hidePlayButton && !!track}
       showCheckbox={true}
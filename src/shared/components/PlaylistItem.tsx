@@ -2,7 +2,9 @@ import React from 'react';
 
 import { Track } from '../../core/types/track';
 import { formatTrackDuration } from '../utils/durationUtils';
+
 import { ListItemBase } from './ListItemBase';
+import { TrackTempoKeyColumns } from './TrackTempoKeyColumns';
 
 interface PlaylistItemProps {
   track: Track; // Только трек (плейлист не поддерживает группы)
@@ -21,6 +23,8 @@ interface PlaylistItemProps {
   isPlaying: boolean;
   onPlay: (track: Track) => Promise<void> | void;
   onPause: () => void;
+  warnings?: string[]; // Нарушения правил для трека
+  showTempoKey?: boolean; // Показывать колонки BPM и тональности
 }
 
 export const PlaylistItem: React.FC<PlaylistItemProps> = ({
@@ -40,6 +44,8 @@ export const PlaylistItem: React.FC<PlaylistItemProps> = ({
   isPlaying,
   onPlay,
   onPause,
+  warnings,
+  showTempoKey = false,
 }) => {
   const handlePlay = () => {
     const maybePromise = onPlay(track);
@@ -64,6 +70,7 @@ export const PlaylistItem: React.FC<PlaylistItemProps> = ({
       id={track.id}
       displayName={displayName}
       displaySecondary={displayDuration}
+      extraColumns={showTempoKey ? <TrackTempoKeyColumns track={track} /> : undefined}
       index={index}
       isSelected={isSelected}
       isDragging={isDragging}
@@ -79,6 +86,7 @@ export const PlaylistItem: React.FC<PlaylistItemProps> = ({
       onDragEnd={onDragEnd}
       onPlay={handlePlay}
       onPause={handlePause}
+      warnings={warnings}
       showPlayButton={true}
       showCheckbox={true}
       showDragHandle={true}
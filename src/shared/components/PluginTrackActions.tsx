@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+
+import { Track } from '../../core/types/track';
+import { usePluginsStore } from '../stores/pluginsStore';
+import { getPluginTrackActions } from '../utils/pluginUtils';
+
+interface PluginTrackActionsProps {
+  tracks: Track[]; // Треки, к которым применяется действие (обычно выделенные)
+}
+
+/**
+ * Список действий над треками, зарегистрированных плагинами
+ * Не отображается, если ни один загруженный плагин не добавил действий
+ */
+export const PluginTrackActions: React.FC<PluginTrackActionsProps> = ({ tracks }) => {
+  const plugins = usePluginsStore((state) => state.plugins);
+  const runTrackAction = usePluginsStore((state) => state.runTrackAction);
+  const actions = useMemo(() => getPluginTrackActions(plugins), [plugins]);
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      className="plugin-track-actions"
+      value=""
+      onChange={(e) => {
+        const action = actions[Number(e.target.value)];
+        if (action) {
+          void runTrackAction(action.pluginId, action.actionId, tracks);
+        }
+      }}
+      title="Действия плагинов"
+      aria-label="Действия плагинов"
+    >
+      <option value="" disabled>
+        Плагины...
+      </option>
+      {actions.map((action, index) => (
+        <option key={`${action.pluginId}/${action.actionId}`} value={index}>
+          {action.label}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+
+import {
+  TRACK_SORT_FIELD_LABELS,
+  TrackSortDirection,
+  TrackSortField,
+} from '../utils/trackSortUtils';
+
+interface TrackSortSelectProps {
+  onSort: (field: TrackSortField, direction: TrackSortDirection) => void;
+  disabled?: boolean;
+}
+
+const SORT_FIELDS = Object.keys(TRACK_SORT_FIELD_LABELS) as TrackSortField[];
+
+/**
+ * Выбор сортировки треков: применяется один раз (порядок затем можно менять вручную)
+ */
+export const TrackSortSelect: React.FC<TrackSortSelectProps> = ({ onSort, disabled = false }) => {
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const [field, direction] = event.target.value.split(':') as [
+      TrackSortField,
+      TrackSortDirection,
+    ];
+    if (field && direction) {
+      onSort(field, direction);
+    }
+  };
+
+  return (
+    <select
+      className="playlist-sort-select"
+      value=""
+      onChange={handleChange}
+      disabled={disabled}
+      title="Сортировать треки"
+      aria-label="Сортировать треки"
+    >
+      <option value="" disabled>
+        Сортировка
+      </option>
+      {SORT_FIELDS.map((field) => (
+        <React.Fragment key={field}>
+          <option value={`${field}:asc`}>{TRACK_SORT_FIELD_LABELS[field]} ↑</option>
+          <option value={`${field}:desc`}>{TRACK_SORT_FIELD_LABELS[field]} ↓</option>
+        </React.Fragment>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+
+import { Track } from '../../core/types/track';
+import { formatMusicalKey, formatTempo, getCamelotKey } from '../utils/tempoKeyUtils';
+
+interface TrackTempoKeyColumnsProps {
+  track: Pick<Track, 'bpm' | 'key'>;
+  baseClassName?: string;
+}
+
+/**
+ * Колонки BPM и тональности строки трека (пустые, пока значения не определены)
+ */
+export const TrackTempoKeyColumns: React.FC<TrackTempoKeyColumnsProps> = ({
+  track,
+  baseClassName = 'playlist-item',
+}) => {
+  const camelotKey = getCamelotKey(track.key);
+
+  return (
+    <>
+      <div className={`${baseClassName}-bpm`} title="BPM">
+        {formatTempo(track.bpm)}
+      </div>
+      <div
+        className={`${baseClassName}-key`}
+        title={camelotKey ? `Тональность (Camelot ${camelotKey})` : 'Тональность'}
+      >
+        {formatMusicalKey(track.key)}
+      </div>
+    </>
+  );
+};
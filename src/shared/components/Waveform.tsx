@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { getWaveformFraction, resampleWaveformPeaks } from '../utils/waveformUtils';
+
+// Ширина столбца и промежутка в CSS пикселях
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+// Шаг перемотки с клавиатуры (доля длительности)
+const KEYBOARD_SEEK_STEP = 0.01;
+
+interface WaveformProps {
+  peaks: number[];
+  progress?: number; // Доля проигранного (0..1)
+  regionStart?: number; // Начало звучащей части (0..1), до неё форма волны приглушена
+  regionEnd?: number; // Конец звучащей части (0..1), после него форма волны приглушена
+  onSeek?: (fraction: number) => void;
+  disabled?: boolean;
+  className?: string;
+  title?: string;
+}
+
+const clampFraction = (value: number | undefined, fallback: number): number =>
+  value !== undefined && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+/**
+ * Форма волны трека (canvas): проигранная часть подсвечивается,
+ * клик переносит точку воспроизведения
+ */
+export const Waveform: React.FC<WaveformProps> = ({
+  peaks,
+  progress,
+  regionStart,
+  regionEnd,
+  onSeek,
+  disabled = false,
+  className,
+  title,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Следим за размером, чтобы перерисовывать при изменении ширины панели
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width: Math.round(width), height: Math.round(height) });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || size.width === 0 || size.height === 0) {
+      return;
+    }
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.width * ratio;
+    canvas.height = size.height * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+
+    const styles = getComputedStyle(canvas);
+    const baseColor = styles.getPropertyValue('--waveform-color').trim() || '#666';
+    const progressColor = styles.getPropertyValue('--waveform-progress-color').trim() || '#4a9eff';
+
+    const bars = resampleWaveformPeaks(peaks, size.width / (BAR_WIDTH + BAR_GAP));
+    const played = clampFraction(progress, 0);
+    const start = clampFraction(regionStart, 0);
+    const end = clampFraction(regionEnd, 1);
+    const middle = size.height / 2;
+
+    bars.forEach((peak, index) => {
+      const position = (index + 0.5) / bars.length;
+      const barHeight = Math.max(1, peak * size.height);
+      context.globalAlpha = position < start || position > end ? 0.3 : 1;
+      context.fillStyle = position <= played ? progressColor : baseColor;
+      context.fillRect(index * (BAR_WIDTH + BAR_GAP), middle - barHeight / 2, BAR_WIDTH, barHeight);
+    });
+    context.globalAlpha = 1;
+  }, [peaks, progress, regionStart, regionEnd, size]);
+
+  const isInteractive = Boolean(onSeek) && !disabled;
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!isInteractive) {
+      return;
+    }
+    event.stopPropagation();
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek?.(getWaveformFraction(event.clientX - rect.left, rect.width));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!isInteractive) {
+      return;
+    }
+    const current = clampFraction(progress, 0);
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      event.stopPropagation();
+      const step = event.key === 'ArrowLeft' ? -KEYBOARD_SEEK_STEP : KEYBOARD_SEEK_STEP;
+      onSeek?.(clampFraction(current + step, current));
+    }
+  };
+
+  const containerClassName = [
+    'waveform',
+    isInteractive ? 'waveform--interactive' : null,
+    disabled ? 'waveform--disabled' : null,
+    className,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div
+      className={containerClassName}
+      title={title}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      role="slider"
+      tabIndex={isInteractive ? 0 : -1}
+      aria-label="Позиция воспроизведения"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(clampFraction(progress, 0) * 100)}
+      aria-disabled={!isInteractive}
+    >
+      <canvas ref={canvasRef} className="waveform__canvas" />
+    </div>
+  );
+};
@@ -7,4 +7,8 @@ export { FileBrowserItem } from './FileBrowserItem';
 export { GroupHeader } from './GroupHeader';
 export { ListItemBase } from './ListItemBase';
 export type { ListItemBaseProps } from './ListItemBase';
+export { PluginTrackActions } from './PluginTrackActions';
 export { Spinner } from './Spinner';
+export { TrackSortSelect } from './TrackSortSelect';
+export { TrackTempoKeyColumns } from './TrackTempoKeyColumns';
+export { Waveform } from './Waveform';
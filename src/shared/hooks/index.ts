@@ -1,4 +1,9 @@
 export { useTrackDuration } from './useTrackDuration';
 export { useTrackItemSize } from './useTrackItemSize';
+export { useTrackTempoKey } from './useTrackTempoKey';
+export type { TrackTempoKeyUpdate } from './useTrackTempoKey';
+export { useTrackSilence } from './useTrackSilence';
+export { useTrackWaveform } from './useTrackWaveform';
 export { useTrackWorkspaceDragAndDrop, usePlaylistDragAndDrop } from './useWorkspaceDragAndDrop';
 export type { TrackWorkspaceDragOptions, PlaylistDragOptions } from './useWorkspaceDragAndDrop';
+export { useRuleViolations } from './useRuleViolations';
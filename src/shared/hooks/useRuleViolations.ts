@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+
+import { RuleViolation } from '../../core/types/rules';
+import { Track } from '../../core/types/track';
+import { WorkspaceId } from '../../core/types/workspace';
+import { useLibraryStore } from '../stores/libraryStore';
+import { useRulesStore } from '../stores/rulesStore';
+import { evaluateRules, getArtistFromTrackName } from '../utils/rulesUtils';
+
+interface RuleViolationsOptions {
+  getTrackEnd?: (track: Track) => number | null;
+  plannedEndTime?: number | null;
+  now?: number;
+}
+
+const EMPTY_VIOLATIONS = new Map<string, RuleViolation[]>();
+
+/**
+ * Проверяет треки workspace по его правилам
+ * Исполнитель берётся из тегов библиотеки, если трек проиндексирован, иначе из имени файла
+ */
+export function useRuleViolations(
+  workspaceId: WorkspaceId,
+  tracks: Track[],
+  options: RuleViolationsOptions = {},
+): Map<string, RuleViolation[]> {
+  const rules = useRulesStore((state) => state.rulesByWorkspace[workspaceId]);
+  const libraryTracks = useLibraryStore((state) => state.tracks);
+  const { getTrackEnd, plannedEndTime, now } = options;
+
+  const artistByPath = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const track of libraryTracks) {
+      if (track.artist) {
+        map.set(track.path, track.artist);
+      }
+    }
+    return map;
+  }, [libraryTracks]);
+
+  return useMemo(() => {
+    if (!rules || rules.length === 0 || tracks.length === 0) {
+      return EMPTY_VIOLATIONS;
+    }
+    return evaluateRules(tracks, rules, {
+      getArtist: (track) => artistByPath.get(track.path) ?? getArtistFromTrackName(track.name),
+      getTrackEnd,
+      plannedEndTime,
+      now,
+    });
+  }, [rules, tracks, artistByPath, getTrackEnd, plannedEndTime, now]);
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+
+import { Track, TrackSuggestedCue } from '../../core/types/track';
+import { analysisService } from '../services/analysisService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_BATCH_SIZE = 10;
+
+interface TrackSilenceOptions {
+  tracks: Track[];
+  isAudioFile: (path: string) => boolean;
+  onSuggestedCueResolved: (trackId: string, suggestedCue: TrackSuggestedCue) => void;
+  batchSize?: number;
+}
+
+/**
+ * Фоновое определение тишины в начале и конце треков (анализ в main процессе);
+ * предлагаемые точки входа/выхода сохраняются в трек через колбэк
+ */
+export function useTrackSilence({
+  tracks,
+  isAudioFile,
+  onSuggestedCueResolved,
+  batchSize = DEFAULT_BATCH_SIZE,
+}: TrackSilenceOptions) {
+  // Треки запрашиваются один раз: для форматов без анализа повтор бессмысленен
+  const requestedIdsRef = useRef(new Set<string>());
+  const isUnmountedRef = useRef(false);
+  const onResolvedRef = useRef(onSuggestedCueResolved);
+
+  useEffect(() => {
+    onResolvedRef.current = onSuggestedCueResolved;
+  }, [onSuggestedCueResolved]);
+
+  useEffect(() => {
+    isUnmountedRef.current = false;
+    return () => {
+      isUnmountedRef.current = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const requestedIds = requestedIdsRef.current;
+    const targets = tracks.filter(
+      (track) =>
+        track.suggestedCue === undefined && !requestedIds.has(track.id) && isAudioFile(track.path),
+    );
+    if (targets.length === 0) {
+      return;
+    }
+    targets.forEach((track) => requestedIds.add(track.id));
+
+    const paths = Array.from(new Set(targets.map((track) => track.path)));
+    const loadSilence = async () => {
+      for (let i = 0; i < paths.length && !isUnmountedRef.current; i += batchSize) {
+        const batch = paths.slice(i, i + batchSize);
+        try {
+          const result = await analysisService.getSilenceBatch(batch);
+          if (isUnmountedRef.current) {
+            return;
+          }
+          targets.forEach((track) => {
+            const silence = result[track.path];
+            if (silence && silence.source === 'analysis') {
+              onResolvedRef.current(track.id, {
+                startOffset: silence.leadingSilence ?? 0,
+                endOffset: silence.trailingSilence ?? 0,
+              });
+            }
+          });
+        } catch (error) {
+          logger.warn('Failed to load silence for tracks', error);
+        }
+      }
+    };
+    void loadSilence();
+  }, [batchSize, isAudioFile, tracks]);
+}
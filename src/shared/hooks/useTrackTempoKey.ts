@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+
+import { Track } from '../../core/types/track';
+import { analysisService } from '../services/analysisService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_BATCH_SIZE = 10;
+
+export type TrackTempoKeyUpdate = Pick<Track, 'bpm' | 'key'>;
+
+interface TrackTempoKeyOptions {
+  tracks: Track[];
+  isAudioFile: (path: string) => boolean;
+  onTempoKeyResolved: (trackId: string, tempoKey: TrackTempoKeyUpdate) => void;
+  batchSize?: number;
+}
+
+/**
+ * Фоновое определение темпа и тональности треков без этих данных
+ * (теги TBPM/TKEY или анализ в main процессе); результат сохраняется в трек через колбэк
+ */
+export function useTrackTempoKey({
+  tracks,
+  isAudioFile,
+  onTempoKeyResolved,
+  batchSize = DEFAULT_BATCH_SIZE,
+}: TrackTempoKeyOptions) {
+  // Треки запрашиваются один раз: для форматов без тегов и анализа повтор бессмысленен
+  const requestedIdsRef = useRef(new Set<string>());
+  const isUnmountedRef = useRef(false);
+  const onResolvedRef = useRef(onTempoKeyResolved);
+
+  useEffect(() => {
+    onResolvedRef.current = onTempoKeyResolved;
+  }, [onTempoKeyResolved]);
+
+  useEffect(() => {
+    isUnmountedRef.current = false;
+    return () => {
+      isUnmountedRef.current = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const requestedIds = requestedIdsRef.current;
+    const targets = tracks.filter(
+      (track) =>
+        track.bpm === undefined &&
+        track.key === undefined &&
+        !requestedIds.has(track.id) &&
+        isAudioFile(track.path),
+    );
+    if (targets.length === 0) {
+      return;
+    }
+    targets.forEach((track) => requestedIds.add(track.id));
+
+    const paths = Array.from(new Set(targets.map((track) => track.path)));
+    const loadTempoKey = async () => {
+      for (let i = 0; i < paths.length && !isUnmountedRef.current; i += batchSize) {
+        const batch = paths.slice(i, i + batchSize);
+        try {
+          const result = await analysisService.getTempoKeyBatch(batch);
+          if (isUnmountedRef.current) {
+            return;
+          }
+          targets.forEach((track) => {
+            const tempoKey = result[track.path];
+            if (tempoKey && (tempoKey.bpm !== null || tempoKey.key !== null)) {
+              onResolvedRef.current(track.id, {
+                bpm: tempoKey.bpm ?? undefined,
+                key: tempoKey.key ?? undefined,
+              });
+            }
+          });
+        } catch (error) {
+          logger.warn('Failed to load tempo/key for tracks', error);
+        }
+      }
+    };
+    void loadTempoKey();
+  }, [batchSize, isAudioFile, tracks]);
+}
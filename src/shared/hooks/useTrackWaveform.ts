@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+
+import { TrackWaveform } from '../../core/types/analysis';
+import { analysisService } from '../services/analysisService';
+import { logger } from '../utils/logger';
+
+/**
+ * Загружает пики формы волны трека
+ * @returns undefined, пока пики загружаются; null, если файл не проанализирован
+ * (для сжатых форматов нужен FFmpeg)
+ */
+export function useTrackWaveform(
+  path: string | null | undefined,
+): TrackWaveform | null | undefined {
+  const [waveform, setWaveform] = useState<{ path: string; data: TrackWaveform | null } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!path) {
+      return;
+    }
+
+    let isCancelled = false;
+    analysisService
+      .getWaveform(path)
+      .then((data) => {
+        if (!isCancelled) {
+          setWaveform({ path, data });
+        }
+      })
+      .catch((error) => {
+        logger.warn(`Failed to load waveform for ${path}`, error);
+        if (!isCancelled) {
+          setWaveform({ path, data: null });
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [path]);
+
+  // Пики другого трека не показываем, пока загружаются новые
+  return waveform && waveform.path === path ? waveform.data : undefined;
+}
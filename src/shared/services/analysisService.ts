@@ -0,0 +1,75 @@
+import {
+  TrackLoudness,
+  TrackSilence,
+  TrackTempoKey,
+  TrackWaveform,
+} from '../../core/types/analysis';
+
+import { ipcService } from './ipcService';
+
+class AnalysisService {
+  // Requests are cached per path for the session (main process keeps the disk cache)
+  private loudnessRequests = new Map<string, Promise<TrackLoudness>>();
+  private waveformRequests = new Map<string, Promise<TrackWaveform | null>>();
+
+  /**
+   * Get loudness for a batch of files (analyzed or read from ReplayGain tags in main)
+   */
+  async getLoudnessBatch(paths: string[]): Promise<Record<string, TrackLoudness>> {
+    return await ipcService.invoke<Record<string, TrackLoudness>>(
+      'analysis:getLoudness',
+      { paths },
+      false,
+    );
+  }
+
+  /**
+   * Get loudness for a single file (failed requests are not cached)
+   */
+  async getLoudness(path: string): Promise<TrackLoudness> {
+    let request = this.loudnessRequests.get(path);
+    if (!request) {
+      request = this.getLoudnessBatch([path]).then((result) => result[path]);
+      request.catch(() => this.loudnessRequests.delete(path));
+      this.loudnessRequests.set(path, request);
+    }
+    return await request;
+  }
+
+  /**
+   * Get waveform peaks for file (null if the format cannot be analyzed)
+   */
+  async getWaveform(path: string): Promise<TrackWaveform | null> {
+    let request = this.waveformRequests.get(path);
+    if (!request) {
+      request = ipcService.invoke<TrackWaveform | null>('analysis:getWaveform', { path }, false);
+      request.catch(() => this.waveformRequests.delete(path));
+      this.waveformRequests.set(path, request);
+    }
+    return await request;
+  }
+
+  /**
+   * Get tempo and key for a batch of files (read from tags or estimated in main)
+   */
+  async getTempoKeyBatch(paths: string[]): Promise<Record<string, TrackTempoKey>> {
+    return await ipcService.invoke<Record<string, TrackTempoKey>>(
+      'analysis:getTempoKey',
+      { paths },
+      false,
+    );
+  }
+
+  /**
+   * Get leading/trailing silence for a batch of files (detected in main)
+   */
+  async getSilenceBatch(paths: string[]): Promise<Record<string, TrackSilence>> {
+    return await ipcService.invoke<Record<string, TrackSilence>>(
+      'analysis:getSilence',
+      { paths },
+      false,
+    );
+  }
+}
+
+export const analysisService = new AnalysisService();
@@ -1,55 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  ExportConflictPolicy,
+  ExportOptionValues,
+  ExportProgress,
+  ExportResult,
+  ExportStrategyInfo,
+  MixSegment,
+} from '../../core/types/export';
 import { Track } from '../../core/types/track';
 
 import { ipcService } from './ipcService';
 
-export interface ExportResult {
-  successful: string[];
-  failed: Array<{ path: string; error: string }>;
+export type { ExportResult };
+
+export interface ExportRequest {
+  strategyId: string; // Встроенная стратегия или "plugin:<plugin>/<strategy>"
+  tracks: Track[];
+  targetPath: string;
+  name: string; // Название плейлиста или коллекции для создаваемых файлов и папок
+  options?: ExportOptionValues; // Недостающие опции заменяются значениями по умолчанию
+  jobId?: string; // Создаётся автоматически, нужен заранее для отмены и прогресса
+  conflictPolicy?: ExportConflictPolicy;
+  retryPaths?: string[]; // Повтор только для треков с ошибкой
+}
+
+export interface MixExportRequest {
+  segments: MixSegment[];
+  outputPath: string; // Формат определяется расширением (.wav, .mp3, .m4a, .ogg, .flac)
+  name: string; // Название микса в тегах и CUE
+  options?: ExportOptionValues; // transcodeBitrate
+  jobId?: string;
 }
 
 class ExportService {
   /**
-   * Export playlist with number prefix strategy
-   * Files are copied with names like "01 - originalName.ext"
+   * Create id for export job (progress events and cancellation refer to it)
    */
-  async exportWithNumberPrefix(tracks: Track[], targetPath: string): Promise<ExportResult> {
+  createJobId(): string {
+    return uuidv4();
+  }
+
+  /**
+   * Export tracks with strategy from the main process registry
+   * Resolves when the job finishes or is cancelled (result.cancelled)
+   */
+  async exportTracks(request: ExportRequest): Promise<ExportResult> {
     // ipcService.invoke уже обрабатывает ошибки и показывает уведомления
     return await ipcService.invoke<ExportResult>('export:execute', {
-      tracks,
-      targetPath,
-      strategy: 'copyWithNumberPrefix',
+      tracks: request.tracks,
+      targetPath: request.targetPath,
+      strategy: request.strategyId,
+      name: request.name,
+      options: request.options ?? {},
+      jobId: request.jobId ?? this.createJobId(),
+      conflictPolicy: request.conflictPolicy ?? 'overwrite',
+      retryPaths: request.retryPaths,
     });
   }
 
   /**
-   * Export playlist to AIMP format (M3U8 with relative paths)
+   * Render player session into one audio file with a CUE sheet of chapters next to it
+   * Runs as an export job: same progress events and cancellation
    */
-  async exportAIMPPlaylist(
-    tracks: Track[],
-    targetPath: string,
-    playlistName: string,
-  ): Promise<{
-    playlistPath: string;
-    successful: string[];
-    failed: Array<{ path: string; error: string }>;
-  }> {
-    // ipcService.invoke уже обрабатывает ошибки и показывает уведомления
-    return await ipcService.invoke<{
-      playlistPath: string;
-      successful: string[];
-      failed: Array<{ path: string; error: string }>;
-    }>('export:aimp', {
-      tracks,
-      targetPath,
-      playlistName,
+  async exportMix(request: MixExportRequest): Promise<ExportResult> {
+    return await ipcService.invoke<ExportResult>('export:mix', {
+      segments: request.segments,
+      outputPath: request.outputPath,
+      name: request.name,
+      options: request.options ?? {},
+      jobId: request.jobId ?? this.createJobId(),
     });
   }
 
   /**
-   * Get available export strategies
+   * Cancel running export job
+   */
+  async cancelExport(jobId: string): Promise<void> {
+    await ipcService.invoke<boolean>('export:cancel', { jobId });
+  }
+
+  /**
+   * Subscribe to progress of export jobs
+   * @returns unsubscribe function
+   */
+  onProgress(listener: (progress: ExportProgress) => void): () => void {
+    return ipcService.on<ExportProgress>('export:progress', listener);
+  }
+
+  /**
+   * Path to FFmpeg chosen in settings
+   * @returns null when FFmpeg is looked up in PATH
+   */
+  async getEncoderPath(): Promise<string | null> {
+    return await ipcService.invoke<string | null>('export:getEncoder');
+  }
+
+  /**
+   * Choose FFmpeg binary in a main process dialog (binary is checked before saving)
+   * @returns saved path (unchanged if the dialog was cancelled)
+   */
+  async chooseEncoderPath(): Promise<string | null> {
+    return await ipcService.invoke<string | null>('export:chooseEncoder');
+  }
+
+  /**
+   * Reset FFmpeg path: use FFmpeg from PATH
+   */
+  async resetEncoderPath(): Promise<void> {
+    await ipcService.invoke<string | null>('export:resetEncoder');
+  }
+
+  /**
+   * Get available export strategies with their option schemas
    */
-  getAvailableStrategies(): string[] {
-    return ['copyWithNumberPrefix', 'aimpPlaylist'];
+  async getAvailableStrategies(): Promise<ExportStrategyInfo[]> {
+    return await ipcService.invoke<ExportStrategyInfo[]>('export:getStrategies');
   }
 
   /**
@@ -59,19 +125,12 @@ class ExportService {
     tracks: Track[],
     targetPath: string,
     folderName: string,
-  ): Promise<{
-    folderPath: string;
-    successful: string[];
-    failed: Array<{ path: string; error: string }>;
-  }> {
-    return await ipcService.invoke<{
-      folderPath: string;
-      successful: string[];
-      failed: Array<{ path: string; error: string }>;
-    }>('export:copyTracksToFolder', {
+  ): Promise<ExportResult> {
+    return await this.exportTracks({
+      strategyId: 'copyToFolder',
       tracks,
       targetPath,
-      folderName,
+      name: folderName,
     });
   }
 }
@@ -1,6 +1,10 @@
+export { analysisService } from './analysisService';
 export { exportService } from './exportService';
-export type { ExportResult } from './exportService';
+export type { ExportRequest, ExportResult, MixExportRequest } from './exportService';
 export { fileService } from './fileService';
 export { ipcService } from './ipcService';
 export type { IPCResponse, DirectoryItem, Track as IPCTrack } from './ipcService';
-export { playlistService } from './playlistService';
+export { libraryService } from './libraryService';
+export { playerService } from './playerService';
+export { PLAYLIST_OPEN_FILTERS, playlistService } from './playlistService';
+export { pluginService } from './pluginService';
@@ -25,11 +25,6 @@ export interface Track {
   duration?: number;
 }
 
-interface AudioFileSource {
-  buffer: string;
-  mimeType: string;
-}
-
 class IPCService {
   /**
    * Generic IPC invoke method
@@ -52,7 +47,7 @@ class IPCService {
     }
 
     try {
-      const response: IPCResponse<T> = await window.api.invoke(channel, payload);
+      const response = (await window.api.invoke(channel, payload)) as IPCResponse<T>;
 
       if (!response.success) {
         const error = new Error(response.error || 'IPC call failed');
@@ -87,6 +82,17 @@ class IPCService {
     }
   }
 
+  /**
+   * Subscribe to events pushed from main process
+   * @returns unsubscribe function
+   */
+  on<T>(channel: string, listener: (payload: T) => void): () => void {
+    if (!window.api) {
+      return () => undefined;
+    }
+    return window.api.on(channel, (payload) => listener(payload as T));
+  }
+
   /**
    * List directory contents
    */
@@ -119,16 +125,6 @@ class IPCService {
     return this.invoke<number>('audio:getDuration', { path });
   }
 
-  /**
-   * Get audio file contents as base64 buffer for secure playback
-   */
-  async getAudioFileSource(
-    path: string,
-    showNotification: boolean = true,
-  ): Promise<AudioFileSource> {
-    return this.invoke<AudioFileSource>('audio:getFileSource', { path }, showNotification);
-  }
-
   /**
    * Show folder selection dialog
    */
@@ -0,0 +1,43 @@
+import { LibraryQuery, LibraryQueryResult, LibraryScanResult } from '../../core/types/library';
+
+import { ipcService } from './ipcService';
+
+class LibraryService {
+  /**
+   * Get configured library root folders
+   */
+  async getRoots(): Promise<string[]> {
+    return await ipcService.invoke<string[]>('library:getRoots');
+  }
+
+  /**
+   * Add library root folder
+   */
+  async addRoot(path: string): Promise<string[]> {
+    return await ipcService.invoke<string[]>('library:addRoot', { path });
+  }
+
+  /**
+   * Remove library root folder (indexed tracks from it are removed too)
+   */
+  async removeRoot(path: string): Promise<string[]> {
+    return await ipcService.invoke<string[]>('library:removeRoot', { path });
+  }
+
+  /**
+   * Scan library roots and update index incrementally (only changed files are re-read)
+   * @param root - Optional root to scan (all roots by default)
+   */
+  async scan(root?: string): Promise<LibraryScanResult> {
+    return await ipcService.invoke<LibraryScanResult>('library:scan', { root });
+  }
+
+  /**
+   * Query indexed tracks
+   */
+  async query(query: LibraryQuery = {}): Promise<LibraryQueryResult> {
+    return await ipcService.invoke<LibraryQueryResult>('library:query', query);
+  }
+}
+
+export const libraryService = new LibraryService();
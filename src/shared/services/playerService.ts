@@ -0,0 +1,30 @@
+import { PlayerFileData } from '@core/types/player';
+
+import { ipcService } from './ipcService';
+
+class PlayerService {
+  /**
+   * Save player to .player.json file
+   */
+  async savePlayer(path: string, data: PlayerFileData): Promise<void> {
+    // ipcService.invoke уже обрабатывает ошибки и показывает уведомления
+    await ipcService.invoke<void>('player:save', { path, data });
+  }
+
+  /**
+   * Load player from .player.json file
+   */
+  async loadPlayer(path: string): Promise<PlayerFileData> {
+    // ipcService.invoke уже обрабатывает ошибки и показывает уведомления
+    return await ipcService.invoke<PlayerFileData>('player:load', { path });
+  }
+
+  /**
+   * Write session log report (CSV or JSON)
+   */
+  async exportSessionLog(path: string, content: string): Promise<void> {
+    await ipcService.invoke<void>('player:exportSessionLog', { path, content });
+  }
+}
+
+export const playerService = new PlayerService();
@@ -2,6 +2,12 @@ import { PlaylistData } from '../../types/playlist';
 
 import { ipcService } from './ipcService';
 
+// Фильтр диалога открытия: собственный JSON и импортируемые форматы
+export const PLAYLIST_OPEN_FILTERS = [
+  { name: 'Плейлисты', extensions: ['json', 'm3u', 'm3u8', 'pls', 'xspf', 'wpl'] },
+  { name: 'JSON файлы', extensions: ['json'] },
+];
+
 class PlaylistService {
   /**
    * Save playlist to JSON file
@@ -12,7 +18,8 @@ class PlaylistService {
   }
 
   /**
-   * Load playlist from JSON file
+   * Load playlist from JSON file or import M3U/M3U8, PLS, XSPF, WPL
+   * (unresolved entries of imported playlists are returned in `unresolved`)
    */
   async loadPlaylist(path: string): Promise<PlaylistData> {
     // ipcService.invoke уже обрабатывает ошибки и показывает уведомления
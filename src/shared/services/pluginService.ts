@@ -0,0 +1,58 @@
+import {
+  PluginInfo,
+  PluginTrackActionResult,
+  PluginWorkspaceContent,
+} from '../../core/types/plugins';
+import { Track } from '../../core/types/track';
+
+import { ipcService } from './ipcService';
+
+class PluginService {
+  /**
+   * Get discovered plugins with their state and contributions
+   * @param rescan - Re-read plugin folders to pick up newly installed plugins
+   */
+  async list(rescan = false): Promise<PluginInfo[]> {
+    return await ipcService.invoke<PluginInfo[]>('plugins:list', { rescan });
+  }
+
+  /**
+   * Enable (load) or disable (unload) plugin
+   */
+  async setEnabled(pluginId: string, enabled: boolean): Promise<PluginInfo> {
+    return await ipcService.invoke<PluginInfo>('plugins:setEnabled', { pluginId, enabled });
+  }
+
+  /**
+   * Run plugin track action for given tracks
+   */
+  async runTrackAction(
+    pluginId: string,
+    actionId: string,
+    tracks: Track[],
+  ): Promise<PluginTrackActionResult> {
+    return await ipcService.invoke<PluginTrackActionResult>('plugins:runTrackAction', {
+      pluginId,
+      actionId,
+      tracks: tracks.map((track) => ({
+        path: track.path,
+        name: track.name,
+        duration: track.duration,
+      })),
+    });
+  }
+
+  /**
+   * Get content of plugin workspace module
+   * Errors are shown inside the workspace, not as notifications
+   */
+  async getWorkspaceContent(pluginId: string, moduleId: string): Promise<PluginWorkspaceContent> {
+    return await ipcService.invoke<PluginWorkspaceContent>(
+      'plugins:getWorkspaceContent',
+      { pluginId, moduleId },
+      false,
+    );
+  }
+}
+
+export const pluginService = new PluginService();
@@ -0,0 +1,273 @@
+import { v4 as uuidv4 } from 'uuid';
+import { persist } from 'zustand/middleware';
+import { createWithEqualityFn } from 'zustand/traditional';
+
+import {
+  DEFAULT_PLAYER_WORKSPACE_ID,
+  DEFAULT_PLAYLIST_WORKSPACE_ID,
+} from '../../core/constants/workspace';
+import {
+  AutogeneratorCandidate,
+  AutogeneratorOptions,
+  AutogeneratorResult,
+  AutogeneratorSources,
+} from '../../core/types/autogenerator';
+import { LibraryTrack } from '../../core/types/library';
+import { PlayerGroup } from '../../core/types/player';
+import { Track } from '../../core/types/track';
+import { WorkspaceId } from '../../core/types/workspace';
+import { ipcService } from '../services/ipcService';
+import { dedupeCandidates, generatePlaylist } from '../utils/autogeneratorUtils';
+import { logger } from '../utils/logger';
+
+import { useLibraryStore } from './libraryStore';
+import { usePlayerItemsStore } from './playerItemsStore';
+import { getTrackWorkspaceStore } from './trackWorkspaceStoreFactory';
+import { useUIStore } from './uiStore';
+
+const MAX_RECENT_SEEDS = 10;
+
+interface AutogeneratorState {
+  sources: AutogeneratorSources;
+  // Workspace для результата (плейлист, коллекция или плеер)
+  targetWorkspaceId: WorkspaceId;
+  options: AutogeneratorOptions;
+  // Последние использованные seed - для воспроизведения предыдущих результатов
+  recentSeeds: number[];
+  isGenerating: boolean;
+  lastResult: AutogeneratorResult | null;
+  // Группа плеера, созданная последней генерацией (заменяется при перегенерации)
+  playerGroupId: string | null;
+
+  // Actions
+  toggleSourceWorkspace: (workspaceId: WorkspaceId) => void;
+  addSourceFolder: (folder: string) => void;
+  removeSourceFolder: (folder: string) => void;
+  setTargetWorkspace: (workspaceId: WorkspaceId) => void;
+  setOptions: (patch: Partial<AutogeneratorOptions>) => void;
+  setGenreWeight: (genre: string, weight: number) => void;
+  collectCandidates: () => Promise<AutogeneratorCandidate[]>;
+  generate: (seed?: number) => Promise<void>;
+}
+
+const INITIAL_STATE: Pick<
+  AutogeneratorState,
+  | 'sources'
+  | 'targetWorkspaceId'
+  | 'options'
+  | 'recentSeeds'
+  | 'isGenerating'
+  | 'lastResult'
+  | 'playerGroupId'
+> = {
+  sources: { workspaceIds: [], folders: [] },
+  targetWorkspaceId: DEFAULT_PLAYLIST_WORKSPACE_ID,
+  options: {
+    seed: 1,
+    targetDuration: 3600,
+    genreMix: {},
+    energyCurve: 'none',
+    noRepeats: true,
+  },
+  recentSeeds: [],
+  isGenerating: false,
+  lastResult: null,
+  playerGroupId: null,
+};
+
+/**
+ * Нормализует путь для поиска в индексе библиотеки
+ */
+function normalizePathForCompare(filePath: string): string {
+  return filePath.replace(/\\/g, '/').toLowerCase();
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+/**
+ * Создает кандидата из файла, дополняя теги из индекса библиотеки
+ */
+function createCandidate(
+  path: string,
+  name: string,
+  duration: number | undefined,
+  libraryTrack: LibraryTrack | undefined,
+): AutogeneratorCandidate {
+  return {
+    path,
+    name,
+    duration: duration || libraryTrack?.duration || 0,
+    artist: libraryTrack?.artist,
+    genre: libraryTrack?.genre,
+    bpm: libraryTrack?.bpm,
+  };
+}
+
+/**
+ * Store автогенератора плейлистов
+ * Настройки персистятся, генерация детерминирована seed
+ */
+export const useAutogeneratorStore = createWithEqualityFn<AutogeneratorState>()(
+  persist(
+    (set, get) => ({
+      ...INITIAL_STATE,
+
+      toggleSourceWorkspace: (workspaceId) => {
+        set((state) => {
+          const workspaceIds = state.sources.workspaceIds.includes(workspaceId)
+            ? state.sources.workspaceIds.filter((id) => id !== workspaceId)
+            : [...state.sources.workspaceIds, workspaceId];
+          return { sources: { ...state.sources, workspaceIds } };
+        });
+      },
+
+      addSourceFolder: (folder) => {
+        set((state) =>
+          state.sources.folders.includes(folder)
+            ? state
+            : { sources: { ...state.sources, folders: [...state.sources.folders, folder] } },
+        );
+      },
+
+      removeSourceFolder: (folder) => {
+        set((state) => ({
+          sources: {
+            ...state.sources,
+            folders: state.sources.folders.filter((item) => item !== folder),
+          },
+        }));
+      },
+
+      setTargetWorkspace: (workspaceId) => {
+        set({ targetWorkspaceId: workspaceId });
+      },
+
+      setOptions: (patch) => {
+        set((state) => ({ options: { ...state.options, ...patch } }));
+      },
+
+      setGenreWeight: (genre, weight) => {
+        const genreMix = { ...get().options.genreMix };
+        if (weight > 0) {
+          genreMix[genre] = weight;
+        } else {
+          delete genreMix[genre];
+        }
+        get().setOptions({ genreMix });
+      },
+
+      collectCandidates: async () => {
+        const { sources } = get();
+        const libraryByPath = new Map<string, LibraryTrack>();
+        for (const track of useLibraryStore.getState().tracks) {
+          libraryByPath.set(normalizePathForCompare(track.path), track);
+        }
+
+        const candidates: AutogeneratorCandidate[] = [];
+
+        for (const workspaceId of sources.workspaceIds) {
+          const store = getTrackWorkspaceStore(workspaceId);
+          if (!store) {
+            continue;
+          }
+          for (const track of store.getState().tracks) {
+            const libraryTrack = libraryByPath.get(normalizePathForCompare(track.path));
+            candidates.push(createCandidate(track.path, track.name, track.duration, libraryTrack));
+          }
+        }
+
+        for (const folder of sources.folders) {
+          try {
+            const paths = await ipcService.findAudioFilesRecursive(folder);
+            for (const path of paths) {
+              const libraryTrack = libraryByPath.get(normalizePathForCompare(path));
+              let duration = libraryTrack?.duration;
+              if (!duration) {
+                try {
+                  duration = await ipcService.getAudioDuration(path);
+                } catch (error) {
+                  logger.warn('Failed to get duration for autogenerator candidate', {
+                    path,
+                    error,
+                  });
+                }
+              }
+              candidates.push(createCandidate(path, getFileName(path), duration, libraryTrack));
+            }
+          } catch (error) {
+            logger.error('Failed to read autogenerator source folder', { folder, error });
+          }
+        }
+
+        return dedupeCandidates(candidates);
+      },
+
+      generate: async (seed) => {
+        if (get().isGenerating) {
+          return;
+        }
+        const options = { ...get().options, seed: seed ?? get().options.seed };
+        set({ isGenerating: true, options });
+
+        try {
+          const candidates = await get().collectCandidates();
+          const result = generatePlaylist(candidates, options);
+          const tracks: Omit<Track, 'id'>[] = result.tracks.map((candidate) => ({
+            path: candidate.path,
+            name: candidate.name,
+            duration: candidate.duration,
+          }));
+          const { targetWorkspaceId } = get();
+
+          if (targetWorkspaceId === DEFAULT_PLAYER_WORKSPACE_ID) {
+            // В плеере результат - отдельная группа, перегенерация заменяет её
+            // одним шагом истории плеера (отменяется через Ctrl+Z)
+            const group: PlayerGroup = {
+              id: get().playerGroupId ?? uuidv4(),
+              name: `Автогенерация (seed ${options.seed})`,
+              items: tracks.map((track) => ({ ...track, id: uuidv4() })),
+            };
+            usePlayerItemsStore.getState().replaceGroup(group);
+            set({ playerGroupId: group.id });
+          } else {
+            // Замена треков - один шаг истории, отменяется через Ctrl+Z
+            const store = getTrackWorkspaceStore(targetWorkspaceId);
+            if (!store) {
+              throw new Error(`Workspace ${targetWorkspaceId} is not available`);
+            }
+            store.getState().replaceTracks(tracks);
+          }
+
+          set((state) => ({
+            lastResult: result,
+            recentSeeds: [
+              options.seed,
+              ...state.recentSeeds.filter((item) => item !== options.seed),
+            ].slice(0, MAX_RECENT_SEEDS),
+          }));
+        } catch (error) {
+          logger.error('Failed to generate playlist', error);
+          useUIStore.getState().addNotification({
+            type: 'error',
+            message: `Не удалось сгенерировать плейлист: ${(error as Error).message}`,
+          });
+        } finally {
+          set({ isGenerating: false });
+        }
+      },
+    }),
+    {
+      name: 'cherryplaylist-autogenerator',
+      version: 1,
+      partialize: (state) => ({
+        sources: state.sources,
+        targetWorkspaceId: state.targetWorkspaceId,
+        options: state.options,
+        recentSeeds: state.recentSeeds,
+        playerGroupId: state.playerGroupId,
+      }),
+    },
+  ),
+);
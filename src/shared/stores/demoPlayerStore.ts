@@ -1,13 +1,25 @@
 import { createWithEqualityFn } from 'zustand/traditional';
 
+import { TrackLoudness } from '@core/types/analysis';
 import { Track } from '@core/types/track';
 import { WorkspaceId } from '@core/types/workspace';
 
-import { ipcService } from '../services/ipcService';
+import { analysisService } from '../services/analysisService';
 import { setAudioSinkId, getDefaultDeviceId } from '../utils/audioDevices';
+import {
+  attachAudioGraph,
+  detachAudioGraph,
+  resumeAudioGraph,
+  setElementGainDb,
+} from '../utils/audioGraph';
+import { getAudioSourceUrl } from '../utils/audioSource';
 import { logger } from '../utils/logger';
-import { usePlayerSettingsStore } from './playerSettingsStore';
+import { getNormalizationGainDb } from '../utils/loudnessUtils';
+import { DEFAULT_PLAYBACK, applyPlaybackToElement } from '../utils/playbackRateUtils';
+
+import { useDraftsStore } from './draftsStore';
 import { usePlayerAudioStore } from './playerAudioStore';
+import { PlayerTrackPlayback, usePlayerSettingsStore } from './playerSettingsStore';
 import { useUIStore } from './uiStore';
 
 export type PlayerStatus = 'idle' | 'playing' | 'paused' | 'ended';
@@ -21,12 +33,14 @@ interface DemoPlayerState {
   volume: number;
   error: string | null;
   isDisabled: boolean;
+  playback: PlayerTrackPlayback; // Скорость воспроизведения (темп трека плеера)
 
   loadTrack: (track: Track, sourceWorkspaceId: WorkspaceId) => Promise<void>;
   play: () => Promise<void>;
   pause: () => void;
   seek: (positionSeconds: number) => void;
   setVolume: (value: number) => void;
+  setPlayback: (playback: PlayerTrackPlayback) => void;
   clear: () => void;
   setDisabled: (disabled: boolean) => void;
   setAudioDevice: (deviceId: string | null) => Promise<void>;
@@ -41,18 +55,6 @@ interface DemoPlayerState {
 const clamp = (value: number, min: number, max: number): number =>
   Math.min(max, Math.max(min, value));
 
-const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
-  const binaryString = atob(base64);
-  const length = binaryString.length;
-  const bytes = new Uint8Array(length);
-
-  for (let i = 0; i < length; i += 1) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-
-  return bytes.buffer;
-};
-
 const INITIAL_STATE: Omit<
   DemoPlayerState,
   | 'loadTrack'
@@ -60,6 +62,7 @@ const INITIAL_STATE: Omit<
   | 'pause'
   | 'seek'
   | 'setVolume'
+  | 'setPlayback'
   | 'clear'
   | 'setDuration'
   | 'setPosition'
@@ -76,11 +79,11 @@ const INITIAL_STATE: Omit<
   volume: 0.8,
   error: null,
   isDisabled: false,
+  playback: DEFAULT_PLAYBACK,
 };
 
 export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, get) => {
   let audioElement: HTMLAudioElement | null = null;
-  let currentObjectUrl: string | null = null;
   // Store event handlers for cleanup
   let eventHandlers: {
     ended?: () => void;
@@ -90,14 +93,47 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
     pause?: () => void;
     play?: () => void;
   } = {};
+  // Громкость текущего трека для нормализации
+  let trackLoudness: TrackLoudness | null = null;
+  let loudnessPath: string | null = null;
 
-  const revokeCurrentObjectUrl = () => {
-    if (currentObjectUrl) {
-      URL.revokeObjectURL(currentObjectUrl);
-      currentObjectUrl = null;
+  const applyGain = () => {
+    if (audioElement) {
+      const gainDb = getNormalizationGainDb(trackLoudness, usePlayerSettingsStore.getState());
+      setElementGainDb(audioElement, gainDb);
     }
   };
 
+  /**
+   * Запрашивает громкость трека и применяет усиление (до ответа - без нормализации)
+   */
+  const loadLoudness = (track: Track) => {
+    trackLoudness = null;
+    loudnessPath = track.path;
+    applyGain();
+    analysisService
+      .getLoudness(track.path)
+      .then((loudness) => {
+        if (loudnessPath === track.path) {
+          trackLoudness = loudness;
+          applyGain();
+        }
+      })
+      .catch((error) => {
+        logger.warn('Failed to get track loudness', error);
+      });
+  };
+
+  // Пересчитываем усиление при изменении настроек нормализации
+  usePlayerSettingsStore.subscribe((state, prevState) => {
+    if (
+      state.loudnessNormalization !== prevState.loudnessNormalization ||
+      state.targetLoudness !== prevState.targetLoudness
+    ) {
+      applyGain();
+    }
+  });
+
   const cleanupAudioElement = () => {
     if (audioElement) {
       // Remove all event listeners
@@ -125,7 +161,10 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
       audioElement.pause();
       audioElement.src = '';
       audioElement.currentTime = 0;
+      detachAudioGraph(audioElement);
       audioElement = null;
+      trackLoudness = null;
+      loudnessPath = null;
     }
   };
 
@@ -186,6 +225,9 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
       audioElement.addEventListener('pause', eventHandlers.pause);
       audioElement.addEventListener('play', eventHandlers.play);
 
+      // Звук идёт через Web Audio граф для усиления нормализации
+      attachAudioGraph(audioElement);
+
       // Применяем выбранное устройство из настроек
       const deviceId = usePlayerSettingsStore.getState().demoPlayerAudioDeviceId;
       if (deviceId !== null) {
@@ -248,17 +290,13 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
         const audio = getAudioElement();
         audio.pause();
 
-        const { buffer, mimeType } = await ipcService.getAudioFileSource(track.path, false);
-        const arrayBuffer = base64ToArrayBuffer(buffer);
-        const blob = new Blob([arrayBuffer], { type: mimeType });
-
-        revokeCurrentObjectUrl();
-        const objectUrl = URL.createObjectURL(blob);
-        currentObjectUrl = objectUrl;
-
-        audio.src = objectUrl;
+        // Файл отдается потоково через протокол cherry-audio://
+        audio.src = getAudioSourceUrl(track.path);
         audio.currentTime = 0;
         audio.volume = get().volume;
+        // Новый трек играет с обычной скоростью, темп задаёт вызывающий код
+        applyPlaybackToElement(audio, DEFAULT_PLAYBACK);
+        loadLoudness(track);
 
         // Применяем выбранное устройство
         const deviceId = usePlayerSettingsStore.getState().demoPlayerAudioDeviceId;
@@ -296,7 +334,11 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
           position: 0,
           duration: track.duration ?? 0,
           error: null,
+          playback: DEFAULT_PLAYBACK,
         });
+
+        // Прослушанные треки сохраняются в черновиках
+        useDraftsStore.getState().captureTracks([track], 'preview', sourceWorkspaceId);
       } catch (error) {
         get().handleError('Не удалось загрузить файл для воспроизведения', error);
         throw error instanceof Error ? error : new Error('Failed to load audio source');
@@ -341,6 +383,7 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
             }
           }
         }
+        await resumeAudioGraph(audio);
         await audio.play();
         set({ status: 'playing', error: null });
       } catch (error) {
@@ -382,9 +425,13 @@ export const useDemoPlayerStore = createWithEqualityFn<DemoPlayerState>((set, ge
       set({ volume: safeValue });
     },
 
+    setPlayback: (playback) => {
+      applyPlaybackToElement(getAudioElement(), playback);
+      set({ playback });
+    },
+
     clear: () => {
       cleanupAudioElement();
-      revokeCurrentObjectUrl();
       const preservedVolume = get().volume;
       set({ ...INITIAL_STATE, volume: preservedVolume });
     },
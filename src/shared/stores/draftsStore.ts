@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { persist } from 'zustand/middleware';
+import { createWithEqualityFn } from 'zustand/traditional';
+
+import { DEFAULT_DRAFTS_WORKSPACE_ID } from '../../core/constants/workspace';
+import { DraftEntry, DraftOrigin } from '../../core/types/drafts';
+import { Track } from '../../core/types/track';
+import { WorkspaceId } from '../../core/types/workspace';
+import { getExpiredDraftIds } from '../utils/draftsUtils';
+
+import {
+  addTrackRemovalListener,
+  ensureTrackWorkspaceStore,
+  TrackWorkspaceStore,
+} from './trackWorkspaceStoreFactory';
+
+const DEFAULT_RETENTION_HOURS = 24;
+
+interface DraftsState {
+  // Метаданные по ID трека в drafts workspace
+  entries: Record<string, DraftEntry>;
+  retentionHours: number;
+
+  // Actions
+  captureTracks: (
+    tracks: Track[],
+    origin: DraftOrigin,
+    sourceWorkspaceId: WorkspaceId | null,
+  ) => void;
+  pruneExpired: (now?: number) => void;
+  setRetentionHours: (hours: number) => void;
+  clearDrafts: () => void;
+}
+
+/**
+ * Store треков черновиков - обычный track workspace без лимита (сохраняется между запусками)
+ */
+export function getDraftsTrackStore(): TrackWorkspaceStore {
+  return ensureTrackWorkspaceStore({
+    workspaceId: DEFAULT_DRAFTS_WORKSPACE_ID,
+    initialName: 'Черновики',
+    maxTracks: null,
+  });
+}
+
+/**
+ * Нормализует путь для сравнения (разделители и регистр)
+ */
+function normalizePathForCompare(filePath: string): string {
+  return filePath.replace(/\\/g, '/').toLowerCase();
+}
+
+/**
+ * Store черновиков: автоматически собирает прослушанные в DemoPlayer
+ * и удалённые из плейлистов треки, чтобы их можно было перетащить обратно
+ */
+export const useDraftsStore = createWithEqualityFn<DraftsState>()(
+  persist(
+    (set, get) => ({
+      entries: {},
+      retentionHours: DEFAULT_RETENTION_HOURS,
+
+      captureTracks: (tracks, origin, sourceWorkspaceId) => {
+        if (sourceWorkspaceId === DEFAULT_DRAFTS_WORKSPACE_ID || tracks.length === 0) {
+          return;
+        }
+
+        const trackStore = getDraftsTrackStore();
+        const capturedAt = Date.now();
+        const capturedPaths = new Set(tracks.map((track) => normalizePathForCompare(track.path)));
+
+        // Повторно захваченный файл поднимается наверх вместо дубликата
+        const keptTracks = trackStore
+          .getState()
+          .tracks.filter((track) => !capturedPaths.has(normalizePathForCompare(track.path)));
+        const newTracks: Track[] = tracks.map((track) => ({
+          id: uuidv4(),
+          path: track.path,
+          name: track.name,
+          duration: track.duration,
+        }));
+
+        const keptIds = new Set(keptTracks.map((track) => track.id));
+        const entries: Record<string, DraftEntry> = {};
+        for (const [id, entry] of Object.entries(get().entries)) {
+          if (keptIds.has(id)) {
+            entries[id] = entry;
+          }
+        }
+        for (const track of newTracks) {
+          entries[track.id] = { origin, sourceWorkspaceId, capturedAt };
+        }
+
+        trackStore.getState()._setTracks([...newTracks, ...keptTracks]);
+        set({ entries });
+        get().pruneExpired(capturedAt);
+      },
+
+      pruneExpired: (now = Date.now()) => {
+        const trackStore = getDraftsTrackStore();
+        const { tracks } = trackStore.getState();
+        const expiredIds = getExpiredDraftIds(tracks, get().entries, get().retentionHours, now);
+
+        const remainingTracks =
+          expiredIds.size > 0 ? tracks.filter((track) => !expiredIds.has(track.id)) : tracks;
+        if (remainingTracks !== tracks) {
+          trackStore.getState()._setTracks(remainingTracks);
+        }
+
+        // Удаляем метаданные истёкших треков и треков, убранных из черновиков вручную
+        const remainingIds = new Set(remainingTracks.map((track) => track.id));
+        const currentEntries = get().entries;
+        const entryIds = Object.keys(currentEntries);
+        if (entryIds.some((id) => !remainingIds.has(id))) {
+          const entries: Record<string, DraftEntry> = {};
+          for (const id of entryIds) {
+            if (remainingIds.has(id)) {
+              entries[id] = currentEntries[id];
+            }
+          }
+          set({ entries });
+        }
+      },
+
+      setRetentionHours: (hours) => {
+        set({ retentionHours: hours });
+        get().pruneExpired();
+      },
+
+      clearDrafts: () => {
+        getDraftsTrackStore().getState()._setTracks([]);
+        set({ entries: {} });
+      },
+    }),
+    {
+      name: 'cherryplaylist-drafts',
+      version: 1,
+      partialize: (state) => ({
+        entries: state.entries,
+        retentionHours: state.retentionHours,
+      }),
+    },
+  ),
+);
+
+// Удалённые из плейлистов и коллекций треки автоматически попадают в черновики
+addTrackRemovalListener((workspaceId, tracks) => {
+  useDraftsStore.getState().captureTracks(tracks, 'removed', workspaceId);
+});
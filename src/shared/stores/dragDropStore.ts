@@ -9,6 +9,7 @@ import {
   getTrackWorkspaceStore,
   getAllTrackWorkspaceStores,
   TrackWorkspaceState,
+  withoutTrackRemovalNotifications,
 } from './trackWorkspaceStoreFactory';
 import { useUIStore } from './uiStore';
 
@@ -153,9 +154,12 @@ export const useDragDropStore = createWithEqualityFn<DragDropState>(() => ({
         }
 
         // Удаляем все треки, получая removeTrack один раз для эффективности
+        // Перемещённые треки не считаются удалёнными (не попадают в черновики)
         const { removeTrack } = sourceStore.getState();
-        tracksToRemove.forEach((track) => {
-          removeTrack(track.id);
+        withoutTrackRemovalNotifications(() => {
+          tracksToRemove.forEach((track) => {
+            removeTrack(track.id);
+          });
         });
 
         return true;
@@ -3,7 +3,12 @@ import { createWithEqualityFn } from 'zustand/traditional';
 import { Track } from '../../core/types/track';
 
 // Типы действий для истории
-export type HistoryAction = AddTracksAction | RemoveTracksAction | MoveTracksAction | SetNameAction;
+export type HistoryAction =
+  | AddTracksAction
+  | RemoveTracksAction
+  | MoveTracksAction
+  | SetNameAction
+  | ReplaceTracksAction;
 
 export interface AddTracksAction {
   type: 'addTracks';
@@ -30,6 +35,13 @@ export interface SetNameAction {
   newName: string;
 }
 
+// Полная замена списка треков (например, при генерации плейлиста) - один шаг истории
+export interface ReplaceTracksAction {
+  type: 'replaceTracks';
+  oldTracks: Track[];
+  newTracks: Track[];
+}
+
 interface HistoryState {
   history: HistoryAction[];
   historyIndex: number; // -1 если нет истории, иначе индекс текущей позиции
@@ -141,6 +153,13 @@ export function createInverseAction(action: HistoryAction): HistoryAction {
         oldName: action.newName,
         newName: action.oldName,
       };
+
+    case 'replaceTracks':
+      return {
+        type: 'replaceTracks',
+        oldTracks: action.newTracks,
+        newTracks: action.oldTracks,
+      };
   }
 }
 
@@ -187,6 +206,10 @@ export function applyActionToPlaylist(
       break;
     }
 
+    case 'replaceTracks':
+      playlistStore._setTracks?.(action.newTracks);
+      break;
+
     case 'removeTracks':
       // Удаляем треки по их ID (индексы могли измениться)
       action.tracks.forEach((track) => {
@@ -275,20 +298,22 @@ export function applyActionToPlaylist(
   }
 }
 
-export interface HistoryManager {
-  addAction: (action: HistoryAction) => void;
-  undo: () => HistoryAction | null;
-  redo: () => HistoryAction | null;
+export interface HistoryManager<TAction = HistoryAction> {
+  addAction: (action: TAction) => void;
+  undo: () => TAction | null;
+  redo: () => TAction | null;
   canUndo: () => boolean;
   canRedo: () => boolean;
   clear: () => void;
 }
 
-export function createHistoryManager(maxDepth = 50): HistoryManager {
-  let history: HistoryAction[] = [];
+export function createHistoryManager<TAction = HistoryAction>(
+  maxDepth = 50,
+): HistoryManager<TAction> {
+  let history: TAction[] = [];
   let historyIndex = -1;
 
-  const addAction = (action: HistoryAction) => {
+  const addAction = (action: TAction) => {
     const hasFuture = historyIndex < history.length - 1;
     const baseHistory = hasFuture ? history.slice(0, historyIndex + 1) : history;
     const updatedHistory = [...baseHistory, action];
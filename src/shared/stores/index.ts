@@ -1,6 +1,8 @@
+export { useAutogeneratorStore } from './autogeneratorStore';
 export { useDemoPlayerStore } from './demoPlayerStore';
 export type { PlayerStatus } from './demoPlayerStore';
 export { useDragDropStore } from './dragDropStore';
+export { getDraftsTrackStore, useDraftsStore } from './draftsStore';
 export {
   useHistoryStore,
   createInverseAction,
@@ -13,13 +15,19 @@ export type {
   RemoveTracksAction,
   MoveTracksAction,
   SetNameAction,
+  ReplaceTracksAction,
   HistoryManager,
 } from './historyStore';
 export { useLayoutStore } from './layoutStore';
+export { useLibraryStore } from './libraryStore';
 export type { LayoutPreset } from './layoutStore';
 export { usePlaylistStore } from './playlistStore';
+export { useRulesStore } from './rulesStore';
 export { useSettingsStore } from './settingsStore';
+export type { ExportStrategyId } from './settingsStore';
+export { usePluginsStore } from './pluginsStore';
 export {
+  addTrackRemovalListener,
   ensureTrackWorkspaceStore,
   getTrackWorkspaceStore,
   registerTrackWorkspaceStore,
@@ -31,11 +39,22 @@ export type {
   TrackWorkspaceStoreOptions,
   TrackWorkspaceState,
   TrackWorkspaceStore,
+  TrackRemovalListener,
 } from './trackWorkspaceStoreFactory';
 export { useUIStore } from './uiStore';
 export type { ModalType, Notification, WorkspaceInfo } from './uiStore';
 export { usePlayerSessionStore } from './playerSessionStore';
-export type { PlayerSessionMode } from './playerSessionStore';
+export type {
+  PlayerSessionCheckpoint,
+  PlayerSessionMode,
+  PlayerSessionPendingAction,
+} from './playerSessionStore';
+export { usePlayerSessionLogStore } from './playerSessionLogStore';
+export type {
+  SessionLogEndReason,
+  SessionLogEntry,
+  SessionLogEventType,
+} from './playerSessionLogStore';
 export { usePlayerAudioStore } from './playerAudioStore';
 export type { PlayerAudioStatus } from './playerAudioStore';
 export { usePlayerSettingsStore } from './playerSettingsStore';
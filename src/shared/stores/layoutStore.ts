@@ -7,6 +7,10 @@ import { WorkspaceId } from '@core/types/workspace';
 import {
   DEFAULT_PLAYLIST_WORKSPACE_ID,
   DEFAULT_PLAYER_WORKSPACE_ID,
+  DEFAULT_DATABASE_WORKSPACE_ID,
+  DEFAULT_RULES_WORKSPACE_ID,
+  DEFAULT_AUTOGENERATOR_WORKSPACE_ID,
+  DEFAULT_DRAFTS_WORKSPACE_ID,
   generateWorkspaceId,
 } from '../../core/constants/workspace';
 import {
@@ -445,7 +449,16 @@ function createComplexLayout(): Layout {
 /**
  * Типы предустановленных layout
  */
-export type LayoutPreset = 'simple' | 'complex' | 'collections' | 'collections-vertical' | 'player';
+export type LayoutPreset =
+  | 'simple'
+  | 'complex'
+  | 'collections'
+  | 'collections-vertical'
+  | 'player'
+  | 'database'
+  | 'rules'
+  | 'autogenerator'
+  | 'drafts';
 
 /**
  * Создает layout для player workspace
@@ -486,6 +499,210 @@ function createPlayerLayout(): Layout {
   };
 }
 
+/**
+ * Создает layout для database workspace (библиотека)
+ * Структура:
+ * - Root (horizontal)
+ *   - Database workspace (50%)
+ *   - Vertical container (50%)
+ *     - Playlist workspace (50%)
+ *     - Player workspace (50%)
+ */
+function createDatabaseLayout(): Layout {
+  const databaseZoneId = uuidv4();
+  const playlistZoneId = uuidv4();
+  const playerZoneId = uuidv4();
+  const verticalContainerId = uuidv4();
+  const rootContainerId = uuidv4();
+
+  const verticalContainer: ContainerZone = {
+    id: verticalContainerId,
+    type: 'container',
+    direction: 'vertical',
+    zones: [
+      {
+        id: playlistZoneId,
+        type: 'workspace',
+        workspaceId: DEFAULT_PLAYLIST_WORKSPACE_ID,
+        workspaceType: 'playlist',
+        size: 50,
+      },
+      {
+        id: playerZoneId,
+        type: 'workspace',
+        workspaceId: DEFAULT_PLAYER_WORKSPACE_ID,
+        workspaceType: 'player',
+        size: 50,
+      },
+    ],
+    sizes: [50, 50],
+  };
+
+  return {
+    rootZone: {
+      id: rootContainerId,
+      type: 'container',
+      direction: 'horizontal',
+      zones: [
+        {
+          id: databaseZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_DATABASE_WORKSPACE_ID,
+          workspaceType: 'database',
+          size: 50,
+        },
+        verticalContainer,
+      ],
+      sizes: [50, 50],
+    },
+    version: 1,
+  };
+}
+
+/**
+ * Создает layout для rules workspace
+ * Структура:
+ * - Root (horizontal)
+ *   - Rules workspace (30%)
+ *   - Playlist workspace (35%)
+ *   - Player workspace (35%)
+ */
+function createRulesLayout(): Layout {
+  const rulesZoneId = uuidv4();
+  const playlistZoneId = uuidv4();
+  const playerZoneId = uuidv4();
+  const rootContainerId = uuidv4();
+
+  return {
+    rootZone: {
+      id: rootContainerId,
+      type: 'container',
+      direction: 'horizontal',
+      zones: [
+        {
+          id: rulesZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_RULES_WORKSPACE_ID,
+          workspaceType: 'rules',
+          size: 30,
+        },
+        {
+          id: playlistZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_PLAYLIST_WORKSPACE_ID,
+          workspaceType: 'playlist',
+          size: 35,
+        },
+        {
+          id: playerZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_PLAYER_WORKSPACE_ID,
+          workspaceType: 'player',
+          size: 35,
+        },
+      ],
+      sizes: [30, 35, 35],
+    },
+    version: 1,
+  };
+}
+
+/**
+ * Создает layout для autogenerator workspace
+ * Структура:
+ * - Root (horizontal)
+ *   - Autogenerator workspace (30%)
+ *   - Playlist workspace (35%)
+ *   - Player workspace (35%)
+ */
+function createAutogeneratorLayout(): Layout {
+  const autogeneratorZoneId = uuidv4();
+  const playlistZoneId = uuidv4();
+  const playerZoneId = uuidv4();
+  const rootContainerId = uuidv4();
+
+  return {
+    rootZone: {
+      id: rootContainerId,
+      type: 'container',
+      direction: 'horizontal',
+      zones: [
+        {
+          id: autogeneratorZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_AUTOGENERATOR_WORKSPACE_ID,
+          workspaceType: 'autogenerator',
+          size: 30,
+        },
+        {
+          id: playlistZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_PLAYLIST_WORKSPACE_ID,
+          workspaceType: 'playlist',
+          size: 35,
+        },
+        {
+          id: playerZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_PLAYER_WORKSPACE_ID,
+          workspaceType: 'player',
+          size: 35,
+        },
+      ],
+      sizes: [30, 35, 35],
+    },
+    version: 1,
+  };
+}
+
+/**
+ * Создает layout для drafts workspace (черновики)
+ * Структура:
+ * - Root (horizontal)
+ *   - Drafts workspace (30%)
+ *   - Playlist workspace (40%)
+ *   - File Browser workspace (30%)
+ */
+function createDraftsLayout(): Layout {
+  const draftsZoneId = uuidv4();
+  const playlistZoneId = uuidv4();
+  const fileBrowserZoneId = uuidv4();
+  const rootContainerId = uuidv4();
+
+  return {
+    rootZone: {
+      id: rootContainerId,
+      type: 'container',
+      direction: 'horizontal',
+      zones: [
+        {
+          id: draftsZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_DRAFTS_WORKSPACE_ID,
+          workspaceType: 'drafts',
+          size: 30,
+        },
+        {
+          id: playlistZoneId,
+          type: 'workspace',
+          workspaceId: DEFAULT_PLAYLIST_WORKSPACE_ID,
+          workspaceType: 'playlist',
+          size: 40,
+        },
+        {
+          id: fileBrowserZoneId,
+          type: 'workspace',
+          workspaceId: 'default-filebrowser-workspace',
+          workspaceType: 'fileBrowser',
+          size: 30,
+        },
+      ],
+      sizes: [30, 40, 30],
+    },
+    version: 1,
+  };
+}
+
 /**
  * Создает layout по имени предустановки
  */
@@ -501,6 +718,14 @@ function createLayoutByPreset(preset: LayoutPreset): Layout {
       return createCollectionsVerticalLayout();
     case 'player':
       return createPlayerLayout();
+    case 'database':
+      return createDatabaseLayout();
+    case 'rules':
+      return createRulesLayout();
+    case 'autogenerator':
+      return createAutogeneratorLayout();
+    case 'drafts':
+      return createDraftsLayout();
     default:
       return createSimpleLayout();
   }
@@ -0,0 +1,101 @@
+import { createWithEqualityFn } from 'zustand/traditional';
+
+import { LibraryScanResult, LibraryTrack } from '@core/types/library';
+
+import { libraryService } from '../services/libraryService';
+import { logger } from '../utils/logger';
+
+import { useUIStore } from './uiStore';
+
+interface LibraryState {
+  roots: string[];
+  tracks: LibraryTrack[];
+  isLoading: boolean;
+  isScanning: boolean;
+  isLoaded: boolean;
+  lastScan: LibraryScanResult | null;
+
+  // Actions
+  loadLibrary: () => Promise<void>;
+  scanLibrary: (root?: string) => Promise<void>;
+  addRoot: (path: string) => Promise<void>;
+  removeRoot: (path: string) => Promise<void>;
+}
+
+const INITIAL_STATE: Omit<LibraryState, 'loadLibrary' | 'scanLibrary' | 'addRoot' | 'removeRoot'> =
+  {
+    roots: [],
+    tracks: [],
+    isLoading: false,
+    isScanning: false,
+    isLoaded: false,
+    lastScan: null,
+  };
+
+/**
+ * Store библиотеки - кэш индекса из main процесса для отображения в renderer
+ * Индекс хранится на диске в main процессе, здесь не персистится
+ */
+export const useLibraryStore = createWithEqualityFn<LibraryState>((set, get) => ({
+  ...INITIAL_STATE,
+
+  loadLibrary: async () => {
+    set({ isLoading: true });
+    try {
+      const [roots, result] = await Promise.all([
+        libraryService.getRoots(),
+        libraryService.query(),
+      ]);
+      set({ roots, tracks: result.tracks, isLoaded: true });
+    } catch (error) {
+      logger.error('Failed to load library', error);
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  scanLibrary: async (root) => {
+    if (get().isScanning) {
+      return;
+    }
+
+    set({ isScanning: true });
+    try {
+      const lastScan = await libraryService.scan(root);
+      const result = await libraryService.query();
+      set({ lastScan, tracks: result.tracks, isLoaded: true });
+
+      useUIStore.getState().addNotification({
+        type: lastScan.failed.length > 0 ? 'warning' : 'success',
+        message:
+          `Библиотека обновлена: добавлено ${lastScan.added}, обновлено ${lastScan.updated}, ` +
+          `удалено ${lastScan.removed}` +
+          (lastScan.failed.length > 0 ? `, ошибок: ${lastScan.failed.length}` : ''),
+      });
+    } catch (error) {
+      logger.error('Failed to scan library', error);
+    } finally {
+      set({ isScanning: false });
+    }
+  },
+
+  addRoot: async (path) => {
+    try {
+      const roots = await libraryService.addRoot(path);
+      set({ roots });
+      await get().scanLibrary(path);
+    } catch (error) {
+      logger.error('Failed to add library root', error);
+    }
+  },
+
+  removeRoot: async (path) => {
+    try {
+      const roots = await libraryService.removeRoot(path);
+      const result = await libraryService.query();
+      set({ roots, tracks: result.tracks });
+    } catch (error) {
+      logger.error('Failed to remove library root', error);
+    }
+  },
+}));
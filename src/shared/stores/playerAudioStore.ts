@@ -1,16 +1,45 @@
 import { createWithEqualityFn } from 'zustand/traditional';
 
+import { TrackLoudness } from '@core/types/analysis';
 import { Track } from '@core/types/track';
 
-import { ipcService } from '../services/ipcService';
+import { analysisService } from '../services/analysisService';
 import { setAudioSinkId, getDefaultDeviceId } from '../utils/audioDevices';
+import {
+  attachAudioGraph,
+  detachAudioGraph,
+  resumeAudioGraph,
+  setElementEffects,
+  setElementGainDb,
+} from '../utils/audioGraph';
+import { getAudioSourceUrl } from '../utils/audioSource';
+import { getCrossfadeGains } from '../utils/crossfadeUtils';
+import { getCueEndPosition, getCueFadeGain } from '../utils/cueUtils';
 import { logger } from '../utils/logger';
-import { usePlayerSettingsStore } from './playerSettingsStore';
+import { getNormalizationGainDb } from '../utils/loudnessUtils';
+import { DEFAULT_PLAYBACK, applyPlaybackToElement } from '../utils/playbackRateUtils';
+
 import { useDemoPlayerStore } from './demoPlayerStore';
+import {
+  PlayerCuePoints,
+  PlayerEffectsPreset,
+  PlayerTrackPlayback,
+  usePlayerSettingsStore,
+} from './playerSettingsStore';
 import { useUIStore } from './uiStore';
 
 export type PlayerAudioStatus = 'idle' | 'playing' | 'paused' | 'ended';
 
+/**
+ * План кроссфейда для текущего трека: onStart вызывается один раз,
+ * когда до конца трека остаётся duration секунд
+ */
+export interface PlayerCrossfadePlan {
+  trackId: string;
+  duration: number;
+  onStart: () => void;
+}
+
 interface PlayerAudioState {
   currentTrack: Track | null;
   status: PlayerAudioStatus;
@@ -18,9 +47,20 @@ interface PlayerAudioState {
   duration: number;
   volume: number;
   error: string | null;
+  isCrossfading: boolean;
+  playbackRate: number; // Скорость воспроизведения текущего трека
   onTrackEnded?: () => void;
+  // Точки входа/выхода и фейды трека в сессии (не задан - трек играет целиком)
+  getCuePoints?: (track: Track) => PlayerCuePoints;
+  // Скорость воспроизведения трека (не задан - обычная скорость)
+  getPlayback?: (track: Track) => PlayerTrackPlayback;
+  // Пресет обработки звука трека (не задан - без обработки)
+  getEffects?: (track: Track) => PlayerEffectsPreset | null;
 
   loadTrack: (track: Track) => Promise<void>;
+  preloadTrack: (track: Track | null) => Promise<void>;
+  crossfadeTo: (track: Track, durationSeconds: number) => Promise<void>;
+  setCrossfadePlan: (plan: PlayerCrossfadePlan | null) => void;
   play: () => Promise<void>;
   pause: () => void;
   stop: () => void;
@@ -28,9 +68,16 @@ interface PlayerAudioState {
   seek: (positionSeconds: number) => void;
   setVolume: (value: number) => void;
   setOnTrackEnded: (callback: (() => void) | undefined) => void;
+  setCuePointsResolver: (resolver: ((track: Track) => PlayerCuePoints) | undefined) => void;
+  setPlaybackResolver: (resolver: ((track: Track) => PlayerTrackPlayback) | undefined) => void;
+  setEffectsResolver: (
+    resolver: ((track: Track) => PlayerEffectsPreset | null) | undefined,
+  ) => void;
   clear: () => void;
   setPauseTimer: (callback: () => void, delayMs: number) => void;
   clearPauseTimer: () => void;
+  // Таймер паузы ещё не сработал и не был отменён
+  hasPauseTimer: () => boolean;
   setAudioDevice: (deviceId: string | null) => Promise<void>;
 
   // Internal actions triggered by audio events
@@ -43,21 +90,15 @@ interface PlayerAudioState {
 const clamp = (value: number, min: number, max: number): number =>
   Math.min(max, Math.max(min, value));
 
-const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
-  const binaryString = atob(base64);
-  const length = binaryString.length;
-  const bytes = new Uint8Array(length);
-
-  for (let i = 0; i < length; i += 1) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-
-  return bytes.buffer;
-};
+// Шаг обновления громкости дек (фейды и кроссфейд) и проверки точки выхода
+const VOLUME_STEP_MS = 50;
 
 const INITIAL_STATE: Omit<
   PlayerAudioState,
   | 'loadTrack'
+  | 'preloadTrack'
+  | 'crossfadeTo'
+  | 'setCrossfadePlan'
   | 'play'
   | 'pause'
   | 'stop'
@@ -65,6 +106,9 @@ const INITIAL_STATE: Omit<
   | 'seek'
   | 'setVolume'
   | 'setOnTrackEnded'
+  | 'setCuePointsResolver'
+  | 'setPlaybackResolver'
+  | 'setEffectsResolver'
   | 'clear'
   | 'setDuration'
   | 'setPosition'
@@ -77,29 +121,61 @@ const INITIAL_STATE: Omit<
   duration: 0,
   volume: 0.8,
   error: null,
+  isCrossfading: false,
+  playbackRate: 1,
   onTrackEnded: undefined,
+  getCuePoints: undefined,
+  getPlayback: undefined,
+  getEffects: undefined,
 };
 
+type DeckIndex = 0 | 1;
+
+interface Deck {
+  element: HTMLAudioElement;
+  // Store event handlers for cleanup
+  handlers: Partial<
+    Record<'ended' | 'timeupdate' | 'loadedmetadata' | 'error' | 'pause' | 'play', () => void>
+  >;
+}
+
+const isDeviceNotFoundError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'NotFoundError' || error.message.includes('not found'));
+
+/**
+ * Плеер сессии с двумя деками: активная дека играет текущий трек,
+ * вторая заранее загружает следующий трек для бесшовного перехода и кроссфейда
+ */
 export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set, get) => {
-  let audioElement: HTMLAudioElement | null = null;
-  let currentObjectUrl: string | null = null;
+  const decks: [Deck | null, Deck | null] = [null, null];
+  let activeDeckIndex: DeckIndex = 0;
+  // ID трека, заранее загруженного во вторую деку
+  let preloadedTrackId: string | null = null;
+  // Предзагрузка, отложенная до окончания кроссфейда (вторая дека ещё звучит)
+  let pendingPreload: Track | null | undefined = undefined;
   let pauseTimerId: NodeJS.Timeout | null = null;
-  // Store event handlers for cleanup
-  let eventHandlers: {
-    ended?: () => void;
-    timeupdate?: () => void;
-    loadedmetadata?: () => void;
-    error?: () => void;
-    pause?: () => void;
-    play?: () => void;
-  } = {};
-
-  const revokeCurrentObjectUrl = () => {
-    if (currentObjectUrl) {
-      URL.revokeObjectURL(currentObjectUrl);
-      currentObjectUrl = null;
-    }
-  };
+  let volumeTimerId: ReturnType<typeof setInterval> | null = null;
+  let fadingOutDeckIndex: DeckIndex | null = null;
+  let crossfadeStartedAt: number | null = null;
+  let crossfadeDurationMs = 0;
+  // Точки входа/выхода трека, загруженного в деку, и множители громкости кроссфейда
+  const deckCuePoints: [PlayerCuePoints | null, PlayerCuePoints | null] = [null, null];
+  const deckCrossfadeGains: [number, number] = [1, 1];
+  // Скорость воспроизведения трека в деке (время до точки выхода делится на неё)
+  const deckPlayback: [PlayerTrackPlayback, PlayerTrackPlayback] = [
+    DEFAULT_PLAYBACK,
+    DEFAULT_PLAYBACK,
+  ];
+  // Громкость треков в деках для нормализации (путь - чтобы отбросить устаревшие ответы)
+  const deckLoudness: [TrackLoudness | null, TrackLoudness | null] = [null, null];
+  const deckLoudnessPaths: [string | null, string | null] = [null, null];
+  let crossfadePlan: PlayerCrossfadePlan | null = null;
+  let crossfadeTriggeredTrackId: string | null = null;
+
+  const getInactiveDeckIndex = (): DeckIndex => (activeDeckIndex === 0 ? 1 : 0);
+
+  const getActiveElement = (): HTMLAudioElement | null => decks[activeDeckIndex]?.element ?? null;
 
   const clearPauseTimer = () => {
     if (pauseTimerId !== null) {
@@ -108,60 +184,268 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
     }
   };
 
-  const cleanupAudioElement = () => {
-    clearPauseTimer();
-    if (audioElement) {
-      // Remove all event listeners
-      if (eventHandlers.ended) {
-        audioElement.removeEventListener('ended', eventHandlers.ended);
-      }
-      if (eventHandlers.timeupdate) {
-        audioElement.removeEventListener('timeupdate', eventHandlers.timeupdate);
+  /**
+   * Применяет выбранное устройство к элементу; при пропаже устройства
+   * сбрасывает настройку и переключается на устройство по умолчанию
+   * @returns true, если выбранное устройство установлено
+   */
+  const applyPlayerDevice = async (audio: HTMLAudioElement, context: string): Promise<boolean> => {
+    const deviceId = usePlayerSettingsStore.getState().playerAudioDeviceId;
+    if (deviceId === null) {
+      return false;
+    }
+    try {
+      await setAudioSinkId(audio, deviceId);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to set audio device on ${context}`, error);
+
+      if (isDeviceNotFoundError(error)) {
+        // Устройство не найдено - обновляем настройки и используем устройство по умолчанию
+        usePlayerSettingsStore.getState().setPlayerAudioDeviceId(null);
+        useUIStore.getState().addNotification({
+          type: 'warning',
+          message: 'Выбранное аудиоустройство недоступно. Используется устройство по умолчанию.',
+        });
+        // Пробуем установить устройство по умолчанию
+        try {
+          await setAudioSinkId(audio, getDefaultDeviceId());
+        } catch (fallbackError) {
+          logger.error('Failed to set default audio device', fallbackError);
+        }
       }
-      if (eventHandlers.loadedmetadata) {
-        audioElement.removeEventListener('loadedmetadata', eventHandlers.loadedmetadata);
+      return false;
+    }
+  };
+
+  const cleanupDeck = (index: DeckIndex) => {
+    const deck = decks[index];
+    if (!deck) {
+      return;
+    }
+    const { element, handlers } = deck;
+    // Remove all event listeners
+    for (const [eventName, handler] of Object.entries(handlers)) {
+      if (handler) {
+        element.removeEventListener(eventName, handler);
       }
-      if (eventHandlers.error) {
-        audioElement.removeEventListener('error', eventHandlers.error);
+    }
+    // Pause and clear src
+    element.pause();
+    element.src = '';
+    element.currentTime = 0;
+    detachAudioGraph(element);
+    decks[index] = null;
+    deckLoudness[index] = null;
+    deckLoudnessPaths[index] = null;
+  };
+
+  /**
+   * Применяет усиление нормализации к деке
+   */
+  const applyDeckGain = (index: DeckIndex) => {
+    const element = decks[index]?.element;
+    if (element) {
+      const gainDb = getNormalizationGainDb(deckLoudness[index], usePlayerSettingsStore.getState());
+      setElementGainDb(element, gainDb);
+    }
+  };
+
+  /**
+   * Запрашивает громкость трека, загруженного в деку, и применяет усиление
+   * До ответа трек играет без нормализации
+   */
+  const loadDeckLoudness = (index: DeckIndex, track: Track) => {
+    deckLoudness[index] = null;
+    deckLoudnessPaths[index] = track.path;
+    applyDeckGain(index);
+    analysisService
+      .getLoudness(track.path)
+      .then((loudness) => {
+        if (deckLoudnessPaths[index] === track.path) {
+          deckLoudness[index] = loudness;
+          applyDeckGain(index);
+        }
+      })
+      .catch((error) => {
+        logger.warn('Failed to get track loudness', error);
+      });
+  };
+
+  // Пересчитываем усиление дек при изменении настроек нормализации
+  usePlayerSettingsStore.subscribe((state, prevState) => {
+    if (
+      state.loudnessNormalization !== prevState.loudnessNormalization ||
+      state.targetLoudness !== prevState.targetLoudness
+    ) {
+      applyDeckGain(0);
+      applyDeckGain(1);
+    }
+  });
+
+  /**
+   * Проверяет, пора ли начинать кроссфейд для текущего трека
+   */
+  const checkCrossfadePlan = (audio: HTMLAudioElement) => {
+    const { status, currentTrack, isCrossfading, duration } = get();
+    if (
+      !crossfadePlan ||
+      isCrossfading ||
+      status !== 'playing' ||
+      !currentTrack ||
+      crossfadePlan.trackId !== currentTrack.id ||
+      crossfadeTriggeredTrackId === currentTrack.id ||
+      crossfadePlan.duration <= 0
+    ) {
+      return;
+    }
+
+    const effectiveDuration = Number.isFinite(audio.duration) ? audio.duration : duration;
+    if (!effectiveDuration) {
+      return;
+    }
+
+    const cuePoints = deckCuePoints[activeDeckIndex];
+    const endPosition = cuePoints
+      ? getCueEndPosition(effectiveDuration, cuePoints)
+      : effectiveDuration;
+    const remaining = (endPosition - audio.currentTime) / deckPlayback[activeDeckIndex].rate;
+    if (remaining <= crossfadePlan.duration) {
+      crossfadeTriggeredTrackId = currentTrack.id;
+      crossfadePlan.onStart();
+    }
+  };
+
+  const getDeckDuration = (index: DeckIndex): number => {
+    const element = decks[index]?.element;
+    if (element && Number.isFinite(element.duration)) {
+      return element.duration;
+    }
+    return index === activeDeckIndex ? get().duration : 0;
+  };
+
+  // Громкость деки: общая громкость × фейд трека × кроссфейд
+  const getDeckVolume = (index: DeckIndex): number => {
+    const element = decks[index]?.element;
+    const cuePoints = deckCuePoints[index];
+    const cueGain =
+      element && cuePoints
+        ? getCueFadeGain(element.currentTime, getDeckDuration(index), cuePoints)
+        : 1;
+    return clamp(get().volume * cueGain * deckCrossfadeGains[index], 0, 1);
+  };
+
+  const applyDeckVolumes = () => {
+    for (const index of [0, 1] as DeckIndex[]) {
+      const element = decks[index]?.element;
+      if (element) {
+        element.volume = getDeckVolume(index);
       }
-      if (eventHandlers.pause) {
-        audioElement.removeEventListener('pause', eventHandlers.pause);
+    }
+  };
+
+  /**
+   * Останавливает трек в точке выхода так же, как при естественном окончании
+   */
+  const checkCueEnd = (audio: HTMLAudioElement): boolean => {
+    const cuePoints = deckCuePoints[activeDeckIndex];
+    if (!cuePoints || cuePoints.endOffset <= 0 || get().status !== 'playing') {
+      return false;
+    }
+    const duration = getDeckDuration(activeDeckIndex);
+    if (!duration || audio.currentTime < getCueEndPosition(duration, cuePoints)) {
+      return false;
+    }
+    audio.pause();
+    get().handleEnded();
+    return true;
+  };
+
+  const stopVolumeTimer = () => {
+    if (volumeTimerId !== null) {
+      clearInterval(volumeTimerId);
+      volumeTimerId = null;
+    }
+  };
+
+  const tick = () => {
+    if (crossfadeStartedAt !== null) {
+      const progress = (Date.now() - crossfadeStartedAt) / crossfadeDurationMs;
+      if (progress >= 1) {
+        finishCrossfade();
+      } else {
+        const { fadeIn, fadeOut } = getCrossfadeGains(progress);
+        deckCrossfadeGains[activeDeckIndex] = fadeIn;
+        if (fadingOutDeckIndex !== null) {
+          deckCrossfadeGains[fadingOutDeckIndex] = fadeOut;
+        }
       }
-      if (eventHandlers.play) {
-        audioElement.removeEventListener('play', eventHandlers.play);
+    }
+
+    const audio = getActiveElement();
+    if (!audio || get().status !== 'playing') {
+      // Таймер нужен только во время воспроизведения
+      if (crossfadeStartedAt === null) {
+        stopVolumeTimer();
       }
-      // Clear handlers
-      eventHandlers = {};
-      // Pause and clear src
-      audioElement.pause();
-      audioElement.src = '';
-      audioElement.currentTime = 0;
-      audioElement = null;
+      applyDeckVolumes();
+      return;
+    }
+
+    if (checkCueEnd(audio)) {
+      return;
     }
+    checkCrossfadePlan(audio);
+    applyDeckVolumes();
   };
 
-  const getAudioElement = (): HTMLAudioElement => {
-    if (!audioElement) {
-      audioElement = new Audio();
-      audioElement.preload = 'auto';
-      audioElement.crossOrigin = 'anonymous';
-      audioElement.volume = 0.8;
-
-      // Create and store event handlers
-      eventHandlers.ended = () => {
-        get().handleEnded();
-      };
-      eventHandlers.timeupdate = () => {
-        get().setPosition(audioElement?.currentTime ?? 0);
-      };
-      eventHandlers.loadedmetadata = () => {
-        const duration = audioElement?.duration ?? 0;
-        if (Number.isFinite(duration)) {
+  const startVolumeTimer = () => {
+    if (volumeTimerId === null) {
+      volumeTimerId = setInterval(tick, VOLUME_STEP_MS);
+    }
+  };
+
+  const getDeckElement = (index: DeckIndex): HTMLAudioElement => {
+    const existingDeck = decks[index];
+    if (existingDeck) {
+      return existingDeck.element;
+    }
+
+    const element = new Audio();
+    element.preload = 'auto';
+    element.crossOrigin = 'anonymous';
+    element.volume = get().volume;
+
+    // События неактивной деки (предзагрузка или затухание) не влияют на состояние плеера
+    const isActive = () => decks[activeDeckIndex]?.element === element;
+
+    const handlers: Deck['handlers'] = {
+      ended: () => {
+        if (isActive()) {
+          get().handleEnded();
+        }
+      },
+      timeupdate: () => {
+        if (isActive()) {
+          get().setPosition(element.currentTime);
+        }
+      },
+      loadedmetadata: () => {
+        const duration = element.duration;
+        if (isActive() && Number.isFinite(duration)) {
           get().setDuration(duration);
         }
-      };
-      eventHandlers.error = () => {
-        const mediaError = audioElement?.error;
+      },
+      error: () => {
+        const mediaError = element.error;
+        if (!isActive()) {
+          // Ошибка предзагрузки: трек будет загружен заново при переходе
+          if (decks[getInactiveDeckIndex()]?.element === element) {
+            preloadedTrackId = null;
+          }
+          logger.warn('Failed to preload next player track', mediaError ?? undefined);
+          return;
+        }
         const code = mediaError?.code;
         const errorMessages: Record<number, string> = {
           1: 'Воспроизведение прервано системой',
@@ -173,58 +457,127 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
           (code && errorMessages[code]) ||
           'Не удалось воспроизвести трек. Проверьте файл и попробуйте снова.';
         get().handleError(message, mediaError ?? undefined);
-      };
-      eventHandlers.pause = () => {
+      },
+      pause: () => {
         // Синхронизируем состояние при системной паузе
-        const currentStatus = get().status;
-        if (currentStatus === 'playing') {
+        if (isActive() && get().status === 'playing') {
           clearPauseTimer();
           set({ status: 'paused' });
         }
-      };
-      eventHandlers.play = () => {
+      },
+      play: () => {
         // Синхронизируем состояние при системном возобновлении
         const currentStatus = get().status;
-        if (currentStatus === 'paused' || currentStatus === 'idle') {
+        if (isActive() && (currentStatus === 'paused' || currentStatus === 'idle')) {
           set({ status: 'playing', error: null });
         }
-      };
-
-      // Add event listeners
-      audioElement.addEventListener('ended', eventHandlers.ended);
-      audioElement.addEventListener('timeupdate', eventHandlers.timeupdate);
-      audioElement.addEventListener('loadedmetadata', eventHandlers.loadedmetadata);
-      audioElement.addEventListener('error', eventHandlers.error);
-      audioElement.addEventListener('pause', eventHandlers.pause);
-      audioElement.addEventListener('play', eventHandlers.play);
-
-      // Применяем выбранное устройство из настроек
-      const deviceId = usePlayerSettingsStore.getState().playerAudioDeviceId;
-      if (deviceId !== null) {
-        setAudioSinkId(audioElement, deviceId).catch((error) => {
-          logger.error('Failed to set audio device on element creation', error);
-          // Проверяем, является ли это ошибкой "устройство не найдено"
-          const isDeviceNotFound =
-            error instanceof DOMException &&
-            (error.name === 'NotFoundError' || error.message.includes('not found'));
-          
-          if (isDeviceNotFound) {
-            // Устройство не найдено - обновляем настройки
-            usePlayerSettingsStore.getState().setPlayerAudioDeviceId(null);
-            useUIStore.getState().addNotification({
-              type: 'warning',
-              message: 'Выбранное аудиоустройство недоступно. Используется устройство по умолчанию.',
-            });
-            // Пробуем установить устройство по умолчанию
-            setAudioSinkId(audioElement, getDefaultDeviceId()).catch((fallbackError) => {
-              logger.error('Failed to set default audio device on element creation', fallbackError);
-            });
-          }
-        });
+        if (isActive()) {
+          startVolumeTimer();
+        }
+      },
+    };
+
+    // Add event listeners
+    for (const [eventName, handler] of Object.entries(handlers)) {
+      if (handler) {
+        element.addEventListener(eventName, handler);
       }
     }
 
-    return audioElement;
+    decks[index] = { element, handlers };
+    // Звук идёт через Web Audio граф для усиления нормализации
+    attachAudioGraph(element);
+
+    // Применяем выбранное устройство из настроек
+    void applyPlayerDevice(element, 'element creation');
+
+    return element;
+  };
+
+  /**
+   * Применяет скорость воспроизведения трека к деке
+   */
+  const applyDeckPlayback = (index: DeckIndex, track: Track) => {
+    const playback = get().getPlayback?.(track) ?? DEFAULT_PLAYBACK;
+    deckPlayback[index] = playback;
+    applyPlaybackToElement(getDeckElement(index), playback);
+    if (index === activeDeckIndex && get().playbackRate !== playback.rate) {
+      set({ playbackRate: playback.rate });
+    }
+  };
+
+  /**
+   * Применяет к деке пресет обработки звука трека
+   */
+  const applyDeckEffects = (index: DeckIndex, track: Track) => {
+    setElementEffects(getDeckElement(index), get().getEffects?.(track) ?? null);
+  };
+
+  /**
+   * Выставляет деку в точку входа трека
+   */
+  const cueDeck = (index: DeckIndex, track: Track) => {
+    const audio = getDeckElement(index);
+    applyDeckPlayback(index, track);
+    applyDeckEffects(index, track);
+    deckCuePoints[index] = get().getCuePoints?.(track) ?? null;
+    deckCrossfadeGains[index] = 1;
+    audio.currentTime = deckCuePoints[index]?.startOffset ?? 0;
+    audio.volume = getDeckVolume(index);
+  };
+
+  /**
+   * Загружает трек в деку без запуска воспроизведения
+   */
+  const prepareDeck = async (index: DeckIndex, track: Track, context: string) => {
+    const audio = getDeckElement(index);
+    audio.pause();
+    // Файл отдается потоково через протокол cherry-audio://
+    audio.src = getAudioSourceUrl(track.path);
+    cueDeck(index, track);
+    loadDeckLoudness(index, track);
+    await applyPlayerDevice(audio, context);
+  };
+
+  const stopDeck = (index: DeckIndex) => {
+    const element = decks[index]?.element;
+    if (element) {
+      element.pause();
+      element.currentTime = 0;
+    }
+    deckCuePoints[index] = null;
+    deckCrossfadeGains[index] = 1;
+  };
+
+  const runPendingPreload = () => {
+    if (pendingPreload === undefined) {
+      return;
+    }
+    const track = pendingPreload;
+    pendingPreload = undefined;
+    get()
+      .preloadTrack(track)
+      .catch((error) => {
+        logger.error('Failed to preload next player track', error);
+      });
+  };
+
+  /**
+   * Мгновенно завершает текущий кроссфейд: уходящая дека останавливается,
+   * входящая получает полную громкость
+   */
+  const finishCrossfade = () => {
+    crossfadeStartedAt = null;
+    if (fadingOutDeckIndex !== null) {
+      stopDeck(fadingOutDeckIndex);
+      fadingOutDeckIndex = null;
+    }
+    deckCrossfadeGains[activeDeckIndex] = 1;
+    applyDeckVolumes();
+    if (get().isCrossfading) {
+      set({ isCrossfading: false });
+    }
+    runPendingPreload();
   };
 
   const syncWithDemoPlayer = (deviceId: string | null) => {
@@ -258,55 +611,32 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
 
     loadTrack: async (track) => {
       try {
-        const audio = getAudioElement();
-        audio.pause();
-
-        const { buffer, mimeType } = await ipcService.getAudioFileSource(track.path, false);
-        const arrayBuffer = base64ToArrayBuffer(buffer);
-        const blob = new Blob([arrayBuffer], { type: mimeType });
-
-        revokeCurrentObjectUrl();
-        const objectUrl = URL.createObjectURL(blob);
-        currentObjectUrl = objectUrl;
-
-        audio.src = objectUrl;
-        audio.currentTime = 0;
-        audio.volume = get().volume;
-
-        // Применяем выбранное устройство
-        const deviceId = usePlayerSettingsStore.getState().playerAudioDeviceId;
-        if (deviceId !== null) {
-          try {
-            await setAudioSinkId(audio, deviceId);
-          } catch (error) {
-            logger.error('Failed to set audio device on track load', error);
-            // Проверяем, является ли это ошибкой "устройство не найдено"
-            const isDeviceNotFound =
-              error instanceof DOMException &&
-              (error.name === 'NotFoundError' || error.message.includes('not found'));
-            
-            if (isDeviceNotFound) {
-              // Устройство не найдено - обновляем настройки и используем устройство по умолчанию
-              usePlayerSettingsStore.getState().setPlayerAudioDeviceId(null);
-              useUIStore.getState().addNotification({
-                type: 'warning',
-                message: 'Выбранное аудиоустройство недоступно. Используется устройство по умолчанию.',
-              });
-              // Пробуем установить устройство по умолчанию
-              try {
-                await setAudioSinkId(audio, getDefaultDeviceId());
-              } catch (fallbackError) {
-                logger.error('Failed to set default audio device', fallbackError);
-              }
-            }
-          }
+        finishCrossfade();
+        crossfadeTriggeredTrackId = null;
+
+        const inactiveIndex = getInactiveDeckIndex();
+        const preloadedElement = decks[inactiveIndex]?.element;
+
+        if (preloadedTrackId === track.id && preloadedElement) {
+          // Следующий трек уже загружен во вторую деку - переключаемся без паузы на загрузку
+          stopDeck(activeDeckIndex);
+          activeDeckIndex = inactiveIndex;
+          preloadedTrackId = null;
+          // Настройки трека могли измениться после предзагрузки
+          cueDeck(activeDeckIndex, track);
+        } else {
+          await prepareDeck(activeDeckIndex, track, 'track load');
         }
 
+        const loadedDuration = getActiveElement()?.duration;
         set({
           currentTrack: track,
           status: 'paused',
-          position: 0,
-          duration: track.duration ?? 0,
+          position: deckCuePoints[activeDeckIndex]?.startOffset ?? 0,
+          duration:
+            loadedDuration !== undefined && Number.isFinite(loadedDuration)
+              ? loadedDuration
+              : (track.duration ?? 0),
           error: null,
         });
       } catch (error) {
@@ -315,6 +645,91 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
       }
     },
 
+    preloadTrack: async (track) => {
+      if (get().isCrossfading) {
+        pendingPreload = track;
+        return;
+      }
+
+      if (!track) {
+        preloadedTrackId = null;
+        return;
+      }
+
+      if (preloadedTrackId === track.id || get().currentTrack?.id === track.id) {
+        return;
+      }
+
+      try {
+        await prepareDeck(getInactiveDeckIndex(), track, 'track preload');
+        preloadedTrackId = track.id;
+      } catch (error) {
+        preloadedTrackId = null;
+        logger.error('Failed to preload next player track', error);
+      }
+    },
+
+    crossfadeTo: async (track, durationSeconds) => {
+      finishCrossfade();
+      clearPauseTimer();
+
+      const fromIndex = activeDeckIndex;
+      const toIndex = getInactiveDeckIndex();
+      const toAudio = getDeckElement(toIndex);
+
+      if (preloadedTrackId !== track.id) {
+        try {
+          await prepareDeck(toIndex, track, 'crossfade');
+        } catch (error) {
+          get().handleError('Не удалось загрузить файл для воспроизведения', error);
+          throw error instanceof Error ? error : new Error('Failed to load audio source');
+        }
+      }
+      preloadedTrackId = null;
+      crossfadeTriggeredTrackId = null;
+
+      const fromAudio = decks[fromIndex]?.element ?? null;
+      const fadeDurationMs = Math.max(0, durationSeconds) * 1000;
+
+      activeDeckIndex = toIndex;
+      fadingOutDeckIndex = fromAudio && !fromAudio.paused ? fromIndex : null;
+      cueDeck(toIndex, track);
+      if (fadingOutDeckIndex !== null && fadeDurationMs > 0) {
+        deckCrossfadeGains[toIndex] = 0;
+        toAudio.volume = 0;
+      }
+
+      set({
+        currentTrack: track,
+        status: 'playing',
+        position: deckCuePoints[toIndex]?.startOffset ?? 0,
+        duration: track.duration ?? 0,
+        error: null,
+        isCrossfading: fadingOutDeckIndex !== null,
+      });
+
+      try {
+        await resumeAudioGraph(toAudio);
+        await toAudio.play();
+      } catch (error) {
+        finishCrossfade();
+        get().handleError('Не удалось воспроизвести трек', error);
+        throw error instanceof Error ? error : new Error('Failed to start playback');
+      }
+
+      if (fadingOutDeckIndex === null || fadeDurationMs <= 0) {
+        finishCrossfade();
+      } else {
+        crossfadeStartedAt = Date.now();
+        crossfadeDurationMs = fadeDurationMs;
+      }
+      startVolumeTimer();
+    },
+
+    setCrossfadePlan: (plan) => {
+      crossfadePlan = plan;
+    },
+
     play: async () => {
       const { currentTrack, handleError } = get();
       if (!currentTrack) {
@@ -322,39 +737,17 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
       }
 
       try {
-        const audio = getAudioElement();
+        const audio = getDeckElement(activeDeckIndex);
         // Применяем выбранное устройство перед воспроизведением
         const deviceId = usePlayerSettingsStore.getState().playerAudioDeviceId;
-        if (deviceId !== null) {
-          try {
-            await setAudioSinkId(audio, deviceId);
-            // Синхронизируем с демо-плеером после установки устройства
-            syncWithDemoPlayer(deviceId);
-          } catch (error) {
-            logger.error('Failed to set audio device on play', error);
-            // Проверяем, является ли это ошибкой "устройство не найдено"
-            const isDeviceNotFound =
-              error instanceof DOMException &&
-              (error.name === 'NotFoundError' || error.message.includes('not found'));
-            
-            if (isDeviceNotFound) {
-              // Устройство не найдено - обновляем настройки и используем устройство по умолчанию
-              usePlayerSettingsStore.getState().setPlayerAudioDeviceId(null);
-              useUIStore.getState().addNotification({
-                type: 'warning',
-                message: 'Выбранное аудиоустройство недоступно. Используется устройство по умолчанию.',
-              });
-              // Пробуем установить устройство по умолчанию
-              try {
-                await setAudioSinkId(audio, getDefaultDeviceId());
-              } catch (fallbackError) {
-                logger.error('Failed to set default audio device', fallbackError);
-              }
-            }
-          }
+        if (await applyPlayerDevice(audio, 'play')) {
+          // Синхронизируем с демо-плеером после установки устройства
+          syncWithDemoPlayer(deviceId);
         }
+        await resumeAudioGraph(audio);
         await audio.play();
         set({ status: 'playing', error: null });
+        startVolumeTimer();
       } catch (error) {
         handleError('Не удалось воспроизвести трек', error);
         throw error instanceof Error ? error : new Error('Failed to start playback');
@@ -362,23 +755,30 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
     },
 
     pause: () => {
-      if (!audioElement) {
+      const audio = getActiveElement();
+      if (!audio) {
         return;
       }
 
+      // Пауза во время кроссфейда сразу завершает переход
+      finishCrossfade();
       clearPauseTimer();
-      audioElement.pause();
+      audio.pause();
       set({ status: 'paused' });
     },
 
     stop: () => {
-      if (!audioElement) {
+      const audio = getActiveElement();
+      if (!audio) {
         return;
       }
 
-      audioElement.pause();
-      audioElement.currentTime = 0;
-      set({ status: 'idle', position: 0 });
+      finishCrossfade();
+      audio.pause();
+      // Остановка возвращает трек в точку входа
+      const startOffset = deckCuePoints[activeDeckIndex]?.startOffset ?? 0;
+      audio.currentTime = startOffset;
+      set({ status: 'idle', position: startOffset });
     },
 
     next: () => {
@@ -393,27 +793,50 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
         return;
       }
 
-      const audio = audioElement ?? getAudioElement();
+      const audio = getDeckElement(activeDeckIndex);
       const effectiveDuration = duration || audio.duration || 0;
       const clamped = clamp(positionSeconds, 0, effectiveDuration || positionSeconds);
       audio.currentTime = clamped;
       set({ position: clamped });
 
+      // Перемотка назад позволяет кроссфейду сработать ещё раз
+      const cuePoints = deckCuePoints[activeDeckIndex];
+      const endPosition = cuePoints
+        ? getCueEndPosition(effectiveDuration, cuePoints)
+        : effectiveDuration;
+      const remaining = (endPosition - clamped) / deckPlayback[activeDeckIndex].rate;
+      if (crossfadePlan && remaining > crossfadePlan.duration) {
+        crossfadeTriggeredTrackId = null;
+      }
+      applyDeckVolumes();
+
       if (get().status === 'ended') {
         set({ status: 'paused' });
       }
     },
 
     setVolume: (value) => {
-      const audio = getAudioElement();
       const safeValue = clamp(value, 0, 1);
-      audio.volume = safeValue;
       set({ volume: safeValue });
+      // Фейды и кроссфейд масштабируются новой общей громкостью
+      applyDeckVolumes();
     },
 
     clear: () => {
-      cleanupAudioElement();
-      revokeCurrentObjectUrl();
+      pendingPreload = undefined;
+      finishCrossfade();
+      clearPauseTimer();
+      stopVolumeTimer();
+      cleanupDeck(0);
+      cleanupDeck(1);
+      deckCuePoints[0] = null;
+      deckCuePoints[1] = null;
+      deckPlayback[0] = DEFAULT_PLAYBACK;
+      deckPlayback[1] = DEFAULT_PLAYBACK;
+      activeDeckIndex = 0;
+      preloadedTrackId = null;
+      crossfadePlan = null;
+      crossfadeTriggeredTrackId = null;
       const preservedVolume = get().volume;
       set({ ...INITIAL_STATE, volume: preservedVolume });
     },
@@ -430,6 +853,8 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
       clearPauseTimer();
     },
 
+    hasPauseTimer: () => pauseTimerId !== null,
+
     setDuration: (durationSeconds) => {
       if (!Number.isFinite(durationSeconds)) {
         return;
@@ -445,6 +870,8 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
     },
 
     handleEnded: () => {
+      // Входящий трек короче кроссфейда - завершаем переход
+      finishCrossfade();
       const { duration, onTrackEnded } = get();
       set({
         status: 'ended',
@@ -460,6 +887,28 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
       set({ onTrackEnded: callback });
     },
 
+    setCuePointsResolver: (resolver) => {
+      set({ getCuePoints: resolver });
+    },
+
+    setPlaybackResolver: (resolver) => {
+      set({ getPlayback: resolver });
+      // Темп текущего трека меняется сразу, без перезагрузки
+      const { currentTrack } = get();
+      if (currentTrack && decks[activeDeckIndex]) {
+        applyDeckPlayback(activeDeckIndex, currentTrack);
+      }
+    },
+
+    setEffectsResolver: (resolver) => {
+      set({ getEffects: resolver });
+      // Изменённый пресет слышен сразу на текущем треке
+      const { currentTrack } = get();
+      if (currentTrack && decks[activeDeckIndex]) {
+        applyDeckEffects(activeDeckIndex, currentTrack);
+      }
+    },
+
     handleError: (message, error) => {
       logger.error('Player audio error', error instanceof Error ? error : undefined);
       set({
@@ -469,19 +918,23 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
     },
 
     setAudioDevice: async (deviceId) => {
-      const audio = audioElement ?? getAudioElement();
+      const audio = getDeckElement(activeDeckIndex);
+      // Вторая дека переключается вместе с активной, чтобы кроссфейд звучал на одном устройстве
+      const inactiveElement = decks[getInactiveDeckIndex()]?.element;
+      if (inactiveElement) {
+        setAudioSinkId(inactiveElement, deviceId).catch((error) => {
+          logger.error('Failed to set audio device on inactive deck', error);
+        });
+      }
+
       try {
         await setAudioSinkId(audio, deviceId);
         // Синхронизируем с демо-плеером
         syncWithDemoPlayer(deviceId);
       } catch (error) {
         logger.error('Failed to set audio device', error);
-        // Проверяем, является ли это ошибкой "устройство не найдено"
-        const isDeviceNotFound =
-          error instanceof DOMException &&
-          (error.name === 'NotFoundError' || error.message.includes('not found'));
-        
-        if (isDeviceNotFound) {
+
+        if (isDeviceNotFoundError(error)) {
           // Устройство не найдено - обновляем настройки и используем устройство по умолчанию
           usePlayerSettingsStore.getState().setPlayerAudioDeviceId(null);
           useUIStore.getState().addNotification({
@@ -503,4 +956,3 @@ export const usePlayerAudioStore = createWithEqualityFn<PlayerAudioState>((set,
     },
   };
 });
-
@@ -4,10 +4,22 @@ import { createWithEqualityFn } from 'zustand/traditional';
 
 import { DEFAULT_PLAYER_WORKSPACE_ID } from '@core/constants/workspace';
 import { PlayerGroup, PlayerItem, isPlayerGroup, isPlayerTrack } from '@core/types/player';
-import { Track } from '@core/types/track';
+import { Track, TrackSuggestedCue } from '@core/types/track';
 
+import { createHistoryManager } from './historyStore';
 import { usePlayerStore } from './playerStore';
 
+/**
+ * Шаг истории плеера: замена группы целиком (например, результат автогенерации)
+ * null - группы до/после замены нет
+ */
+interface PlayerGroupReplacement {
+  groupId: string;
+  oldGroup: PlayerGroup | null;
+  newGroup: PlayerGroup | null;
+  index: number; // Позиция группы на верхнем уровне - для возврата удалённой группы
+}
+
 /**
  * Store для управления items (треки и группы) в плеере
  * Расширяет функциональность playerStore для работы с группами
@@ -47,6 +59,35 @@ interface PlayerItemsState {
 
   // Track duration
   updateTrackDuration: (id: string, duration: number) => void;
+
+  // Темп и тональность (из тегов или анализа)
+  updateTrackTempoKey: (id: string, tempoKey: Pick<Track, 'bpm' | 'key'>) => void;
+
+  // Предлагаемые точки входа/выхода (определение тишины)
+  updateTrackSuggestedCue: (id: string, suggestedCue: TrackSuggestedCue) => void;
+
+  // Вставка трека сразу после элемента (тот же уровень вложенности); трек с тем же ID перемещается
+  insertTrackAfter: (track: Track, afterItemId: string | null) => void;
+
+  // История: замена группы записывается одним шагом и отменяется через undo
+  canUndo: boolean;
+  canRedo: boolean;
+  replaceGroup: (group: PlayerGroup) => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+// Вспомогательная функция для рекурсивного обновления полей трека в items
+function updateTrackInItems(items: PlayerItem[], id: string, patch: Partial<Track>): PlayerItem[] {
+  return items.map((item) => {
+    if (isPlayerTrack(item) && item.id === id) {
+      return { ...item, ...patch };
+    }
+    if (isPlayerGroup(item)) {
+      return { ...item, items: updateTrackInItems(item.items, id, patch) };
+    }
+    return item;
+  });
 }
 
 // Вспомогательная функция для рекурсивного поиска элемента
@@ -140,6 +181,50 @@ function removeItemFromItems(items: PlayerItem[], itemId: string): PlayerItem[]
     .filter((item): item is PlayerItem => item !== null);
 }
 
+// Вспомогательная функция для вставки элемента после указанного (рекурсивно, null - не найден)
+function insertItemAfter(
+  items: PlayerItem[],
+  afterItemId: string,
+  newItem: PlayerItem,
+): PlayerItem[] | null {
+  const index = items.findIndex((item) => item.id === afterItemId);
+  if (index !== -1) {
+    const newItems = [...items];
+    newItems.splice(index + 1, 0, newItem);
+    return newItems;
+  }
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (isPlayerGroup(item)) {
+      const updatedItems = insertItemAfter(item.items, afterItemId, newItem);
+      if (updatedItems) {
+        const newItems = [...items];
+        newItems[i] = { ...item, items: updatedItems };
+        return newItems;
+      }
+    }
+  }
+  return null;
+}
+
+// Ставит группу на место groupId (рекурсивно) или вставляет на верхний уровень; null - удаляет группу
+function setGroupInItems(
+  items: PlayerItem[],
+  groupId: string,
+  group: PlayerGroup | null,
+  index: number,
+): PlayerItem[] {
+  if (!group) {
+    return removeItemFromItems(items, groupId);
+  }
+  if (findItemRecursive(items, groupId)) {
+    return updateGroupInItems(items, groupId, () => group);
+  }
+  const newItems = [...items];
+  newItems.splice(Math.min(index, newItems.length), 0, group);
+  return newItems;
+}
+
 export const usePlayerItemsStore = createWithEqualityFn<PlayerItemsState>()(
   persist(
     (set, get) => {
@@ -149,13 +234,25 @@ export const usePlayerItemsStore = createWithEqualityFn<PlayerItemsState>()(
         return playerState.tracks.map((track) => track as PlayerItem);
       };
 
+      const history = createHistoryManager<PlayerGroupReplacement>();
+
+      const applyGroupReplacement = (groupId: string, group: PlayerGroup | null, index: number) => {
+        const newItems = setGroupInItems(get().items, groupId, group, index);
+        set({ items: newItems, canUndo: history.canUndo(), canRedo: history.canRedo() });
+        // Синхронизируем треки
+        const tracks = getAllTracksRecursive(newItems);
+        usePlayerStore.getState()._setTracks(tracks);
+      };
+
       return {
         items: initializeItems(),
 
         selectedItemIds: new Set<string>(),
 
         setItems: (items) => {
-          set({ items });
+          // Новый список целиком (загрузка файла) - прежние шаги истории к нему неприменимы
+          history.clear();
+          set({ items, canUndo: false, canRedo: false });
           // Синхронизируем треки с playerStore для обратной совместимости
           const tracks = getAllTracksRecursive(items);
           usePlayerStore.getState()._setTracks(tracks);
@@ -237,7 +334,8 @@ export const usePlayerItemsStore = createWithEqualityFn<PlayerItemsState>()(
           // Проверяем, что все элементы имеют одного родителя
           for (let i = 1; i < itemPaths.length; i++) {
             const currentPath = itemPaths[i].path;
-            const currentParentId = currentPath.length > 1 ? currentPath[currentPath.length - 2] : null;
+            const currentParentId =
+              currentPath.length > 1 ? currentPath[currentPath.length - 2] : null;
             if (currentParentId !== parentId) {
               throw new Error('Items must be in the same container to create a group');
             }
@@ -537,27 +635,84 @@ export const usePlayerItemsStore = createWithEqualityFn<PlayerItemsState>()(
 
         updateTrackDuration: (id, duration) => {
           const state = get();
-          
-          // Рекурсивная функция для обновления трека в items
-          const updateTrackInItems = (items: PlayerItem[]): PlayerItem[] => {
-            return items.map((item) => {
-              if (isPlayerTrack(item) && item.id === id) {
-                return { ...item, duration };
-              }
-              if (isPlayerGroup(item)) {
-                return { ...item, items: updateTrackInItems(item.items) };
-              }
-              return item;
-            });
-          };
+          const newItems = updateTrackInItems(state.items, id, { duration });
+          set({ items: newItems });
+
+          // Синхронизируем треки в playerStore
+          const tracks = getAllTracksRecursive(newItems);
+          usePlayerStore.getState()._setTracks(tracks);
+        },
+
+        updateTrackTempoKey: (id, tempoKey) => {
+          const state = get();
+          const newItems = updateTrackInItems(state.items, id, tempoKey);
+          set({ items: newItems });
 
-          const newItems = updateTrackInItems(state.items);
+          // Синхронизируем треки в playerStore
+          const tracks = getAllTracksRecursive(newItems);
+          usePlayerStore.getState()._setTracks(tracks);
+        },
+
+        insertTrackAfter: (track, afterItemId) => {
+          if (track.id === afterItemId) {
+            return;
+          }
+          const state = get();
+          const itemsWithoutTrack = removeItemFromItems(state.items, track.id);
+          // Без опорного элемента трек ставится в начало
+          const newItems = (afterItemId &&
+            insertItemAfter(itemsWithoutTrack, afterItemId, track)) || [
+            track,
+            ...itemsWithoutTrack,
+          ];
           set({ items: newItems });
-          
+
           // Синхронизируем треки в playerStore
           const tracks = getAllTracksRecursive(newItems);
           usePlayerStore.getState()._setTracks(tracks);
         },
+
+        updateTrackSuggestedCue: (id, suggestedCue) => {
+          const state = get();
+          const newItems = updateTrackInItems(state.items, id, { suggestedCue });
+          set({ items: newItems });
+
+          // Синхронизируем треки в playerStore
+          const tracks = getAllTracksRecursive(newItems);
+          usePlayerStore.getState()._setTracks(tracks);
+        },
+
+        canUndo: false,
+        canRedo: false,
+
+        replaceGroup: (group) => {
+          const { items } = get();
+          const oldItem = findItemRecursive(items, group.id);
+          const oldGroup = oldItem && isPlayerGroup(oldItem) ? oldItem : null;
+          // Пустая группа не добавляется, а заменённая на пустую - удаляется
+          const newGroup = group.items.length > 0 ? group : null;
+          if (!oldGroup && !newGroup) {
+            return;
+          }
+          const topIndex = items.findIndex((item) => item.id === group.id);
+          const index = topIndex >= 0 ? topIndex : items.length;
+          history.addAction({ groupId: group.id, oldGroup, newGroup, index });
+          applyGroupReplacement(group.id, newGroup, index);
+        },
+
+        undo: () => {
+          const action = history.undo();
+          if (action) {
+            applyGroupReplacement(action.groupId, action.oldGroup, action.index);
+          }
+        },
+
+        redo: () => {
+          const action = history.redo();
+          if (action) {
+            applyGroupReplacement(action.groupId, action.newGroup, action.index);
+          }
+        },
       };
     },
     {
@@ -577,4 +732,3 @@ export const usePlayerItemsStore = createWithEqualityFn<PlayerItemsState>()(
     },
   ),
 );
-
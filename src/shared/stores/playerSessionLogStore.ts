@@ -0,0 +1,193 @@
+import { PersistStorage, StorageValue, persist } from 'zustand/middleware';
+import { createWithEqualityFn } from 'zustand/traditional';
+
+import { Track } from '@core/types/track';
+
+import { usePlayerSessionStore } from './playerSessionStore';
+import { usePlayerSettingsStore } from './playerSettingsStore';
+
+export type SessionLogEventType =
+  | 'sessionStart'
+  | 'sessionEnd'
+  | 'trackStart'
+  | 'trackEnd'
+  | 'trackDisabled'
+  | 'seek';
+
+// Как закончился трек: доиграл (или ушёл в кроссфейд), пропущен кнопкой "Следующий", остановлен сбросом
+export type SessionLogEndReason = 'ended' | 'skipped' | 'stopped';
+
+/**
+ * Событие журнала сессии. Журнал только дополняется: события не меняются и не удаляются
+ */
+export interface SessionLogEntry {
+  type: SessionLogEventType;
+  time: number; // Timestamp события
+  sessionStartTime: number | null; // Начало сессии, к которой относится событие
+  trackId?: string;
+  trackName?: string;
+  trackPath?: string;
+  deviceId?: string | null; // Устройство вывода плеера на момент начала трека
+  reason?: SessionLogEndReason;
+  from?: number; // Перемотка: позиция до (секунды)
+  to?: number; // Перемотка: позиция после (секунды)
+}
+
+// Ограничение размера журнала в localStorage: самые старые события вытесняются
+export const MAX_SESSION_LOG_ENTRIES = 10000;
+
+// Журнал сохраняется не чаще одного раза за интервал: сериализация тысяч событий
+// на каждую перемотку слишком дорогая
+const SESSION_LOG_SAVE_INTERVAL_MS = 5000;
+
+interface PlayerSessionLogState {
+  entries: SessionLogEntry[];
+
+  logSessionStart: () => void;
+  logSessionEnd: () => void;
+  logTrackStart: (track: Track) => void;
+  logTrackEnd: (trackId: string, reason: SessionLogEndReason) => void;
+  logTrackDisabled: (track: Track) => void;
+  logSeek: (trackId: string, from: number, to: number) => void;
+  // Трек, который начался и ещё не закончился
+  getOpenTrackId: () => string | null;
+}
+
+type PersistedSessionLog = Pick<PlayerSessionLogState, 'entries'>;
+
+/**
+ * localStorage с отложенной записью: в localStorage попадает последнее состояние
+ * раз в SESSION_LOG_SAVE_INTERVAL_MS, несохранённое записывается при закрытии окна
+ */
+function createBatchedStorage(): PersistStorage<PersistedSessionLog> {
+  let pending: { name: string; value: StorageValue<PersistedSessionLog> } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending) {
+      localStorage.setItem(pending.name, JSON.stringify(pending.value));
+      pending = null;
+    }
+  };
+  window.addEventListener('beforeunload', flush);
+
+  return {
+    getItem: (name) => {
+      const value = localStorage.getItem(name);
+      return value ? (JSON.parse(value) as StorageValue<PersistedSessionLog>) : null;
+    },
+    setItem: (name, value) => {
+      pending = { name, value };
+      timer ??= setTimeout(flush, SESSION_LOG_SAVE_INTERVAL_MS);
+    },
+    removeItem: (name) => {
+      pending = null;
+      localStorage.removeItem(name);
+    },
+  };
+}
+
+export const usePlayerSessionLogStore = createWithEqualityFn<PlayerSessionLogState>()(
+  persist(
+    (set, get) => {
+      const append = (entry: Omit<SessionLogEntry, 'time' | 'sessionStartTime'>) => {
+        const event: SessionLogEntry = {
+          ...entry,
+          time: Date.now(),
+          sessionStartTime: usePlayerSessionStore.getState().sessionStartTime,
+        };
+        set((state) => ({
+          entries: [...state.entries, event].slice(-MAX_SESSION_LOG_ENTRIES),
+        }));
+      };
+
+      return {
+        entries: [],
+
+        logSessionStart: () => {
+          append({ type: 'sessionStart' });
+        },
+
+        logSessionEnd: () => {
+          const openTrackId = get().getOpenTrackId();
+          if (openTrackId) {
+            append({ type: 'trackEnd', trackId: openTrackId, reason: 'stopped' });
+          }
+          append({ type: 'sessionEnd' });
+        },
+
+        logTrackStart: (track: Track) => {
+          // Повторный запуск после паузы - продолжение того же проигрывания
+          if (get().getOpenTrackId() === track.id) {
+            return;
+          }
+          append({
+            type: 'trackStart',
+            trackId: track.id,
+            trackName: track.name,
+            trackPath: track.path,
+            deviceId: usePlayerSettingsStore.getState().playerAudioDeviceId,
+          });
+        },
+
+        logTrackEnd: (trackId: string, reason: SessionLogEndReason) => {
+          // Трек, который так и не начал играть (загружен на паузе), не закрывается
+          if (get().getOpenTrackId() !== trackId) {
+            return;
+          }
+          append({ type: 'trackEnd', trackId, reason });
+        },
+
+        logTrackDisabled: (track: Track) => {
+          append({
+            type: 'trackDisabled',
+            trackId: track.id,
+            trackName: track.name,
+            trackPath: track.path,
+          });
+        },
+
+        logSeek: (trackId: string, from: number, to: number) => {
+          append({ type: 'seek', trackId, from, to });
+        },
+
+        getOpenTrackId: () => {
+          const { entries } = get();
+          for (let i = entries.length - 1; i >= 0; i--) {
+            const entry = entries[i];
+            if (entry.type === 'trackStart') {
+              return entry.trackId ?? null;
+            }
+            if (
+              entry.type === 'trackEnd' ||
+              entry.type === 'sessionEnd' ||
+              entry.type === 'sessionStart'
+            ) {
+              return null;
+            }
+          }
+          return null;
+        },
+      };
+    },
+    {
+      name: 'cherryplaylist-player-session-log',
+      version: 1,
+      storage: createBatchedStorage(),
+      partialize: (state): PersistedSessionLog => ({
+        entries: state.entries,
+      }),
+      merge: (persistedState: unknown, currentState: PlayerSessionLogState) => {
+        const entries = (persistedState as Partial<PlayerSessionLogState> | undefined)?.entries;
+        return {
+          ...currentState,
+          entries: Array.isArray(entries) ? entries : [],
+        };
+      },
+    },
+  ),
+);
@@ -1,12 +1,36 @@
 import { persist } from 'zustand/middleware';
 import { createWithEqualityFn } from 'zustand/traditional';
 
-import { isPlayerGroup } from '@core/types/player';
+import { isPlayerGroup, isPlayerTrack } from '@core/types/player';
+import { Track } from '@core/types/track';
+
+import { createTrackWithId } from '../utils/trackFactory';
 
 import { usePlayerItemsStore } from './playerItemsStore';
 
 export type PlayerSessionMode = 'preparation' | 'session';
 
+/**
+ * Отложенное действие сессии, которое выполняется по таймеру:
+ * запуск загруженного трека после паузы между треками (pauseAndNext) или начало запланированного блока
+ */
+export interface PlayerSessionPendingAction {
+  type: 'playTrack' | 'scheduledBlock';
+  trackId: string; // Трек, который будет запущен
+  at: number; // Timestamp запуска
+}
+
+/**
+ * Контрольная точка сессии для продолжения после аварийного завершения приложения
+ */
+export interface PlayerSessionCheckpoint {
+  trackId: string;
+  position: number; // Позиция в треке (секунды)
+  isPlaying: boolean;
+  savedAt: number;
+  pendingAction: PlayerSessionPendingAction | null;
+}
+
 interface PlayerSessionState {
   mode: PlayerSessionMode;
   playedTrackIds: Set<string>;
@@ -14,6 +38,7 @@ interface PlayerSessionState {
   disabledGroupIds: Set<string>;
   currentTrackId: string | null;
   sessionStartTime: number | null;
+  checkpoint: PlayerSessionCheckpoint | null;
 
   startSession: () => void;
   resetSession: () => void;
@@ -24,6 +49,9 @@ interface PlayerSessionState {
   isTrackDisabled: (trackId: string) => boolean;
   toggleGroupDisabled: (groupId: string) => void;
   isGroupDisabled: (groupId: string) => boolean;
+  // Ставит трек следующим после текущего трека сессии, возвращает ID трека в плеере
+  queueTrackNext: (track: Track, currentTrackId: string | null) => string;
+  saveCheckpoint: (checkpoint: Omit<PlayerSessionCheckpoint, 'savedAt'>) => void;
 }
 
 const INITIAL_STATE: Omit<
@@ -37,6 +65,8 @@ const INITIAL_STATE: Omit<
   | 'isTrackDisabled'
   | 'toggleGroupDisabled'
   | 'isGroupDisabled'
+  | 'queueTrackNext'
+  | 'saveCheckpoint'
 > = {
   mode: 'preparation',
   playedTrackIds: new Set<string>(),
@@ -44,6 +74,7 @@ const INITIAL_STATE: Omit<
   disabledGroupIds: new Set<string>(),
   currentTrackId: null,
   sessionStartTime: null,
+  checkpoint: null,
 };
 
 export const usePlayerSessionStore = createWithEqualityFn<PlayerSessionState>()(
@@ -72,6 +103,7 @@ export const usePlayerSessionStore = createWithEqualityFn<PlayerSessionState>()(
           disabledGroupIds: new Set<string>(),
           currentTrackId: null,
           sessionStartTime: null,
+          checkpoint: null,
         });
       },
 
@@ -146,10 +178,35 @@ export const usePlayerSessionStore = createWithEqualityFn<PlayerSessionState>()(
       isGroupDisabled: (groupId: string) => {
         return get().disabledGroupIds.has(groupId);
       },
+
+      queueTrackNext: (track, currentTrackId) => {
+        const state = get();
+        const itemsStore = usePlayerItemsStore.getState();
+        const existing = itemsStore.findItemById(track.id);
+
+        // Ещё не игравший и не отключённый трек плеера переносится,
+        // иначе (трек из другого модуля, уже сыгранный или отключённый) вставляется копия
+        const canMove =
+          existing !== null &&
+          isPlayerTrack(existing) &&
+          !state.playedTrackIds.has(track.id) &&
+          !state.disabledTrackIds.has(track.id);
+        const queuedTrack = canMove ? existing : createTrackWithId({ ...track });
+
+        itemsStore.insertTrackAfter(queuedTrack, currentTrackId);
+        return queuedTrack.id;
+      },
+
+      saveCheckpoint: (checkpoint) => {
+        if (get().mode !== 'session') {
+          return;
+        }
+        set({ checkpoint: { ...checkpoint, savedAt: Date.now() } });
+      },
     }),
     {
       name: 'cherryplaylist-player-session',
-      version: 3, // Увеличиваем версию из-за добавления sessionStartTime
+      version: 4, // Увеличиваем версию из-за добавления checkpoint
       partialize: (state) => ({
         mode: state.mode,
         playedTrackIds: Array.from(state.playedTrackIds),
@@ -157,6 +214,7 @@ export const usePlayerSessionStore = createWithEqualityFn<PlayerSessionState>()(
         disabledGroupIds: Array.from(state.disabledGroupIds),
         currentTrackId: state.currentTrackId,
         sessionStartTime: state.sessionStartTime,
+        checkpoint: state.checkpoint,
       }),
       // Восстанавливаем Set из массива
       merge: (persistedState: any, currentState: PlayerSessionState) => {
@@ -167,9 +225,9 @@ export const usePlayerSessionStore = createWithEqualityFn<PlayerSessionState>()(
           disabledTrackIds: new Set(persistedState?.disabledTrackIds || []),
           disabledGroupIds: new Set(persistedState?.disabledGroupIds || []),
           sessionStartTime: persistedState?.sessionStartTime ?? null,
+          checkpoint: persistedState?.checkpoint ?? null,
         };
       },
     },
   ),
 );
-
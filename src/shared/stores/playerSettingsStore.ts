@@ -1,24 +1,93 @@
 import { persist } from 'zustand/middleware';
 import { createWithEqualityFn } from 'zustand/traditional';
 
-export type ActionAfterTrack = 'next' | 'pauseAndNext' | 'pause';
+import { DEFAULT_EFFECTS_PRESETS, FLAT_EFFECTS_PRESET_ID } from '../utils/audioEffectsUtils';
 
-export interface PlayerTrackSettings {
+export type ActionAfterTrack = 'next' | 'pauseAndNext' | 'pause' | 'crossfade';
+
+// Длительность кроссфейда по умолчанию (секунды)
+export const DEFAULT_CROSSFADE_DURATION = 5;
+// Целевая громкость нормализации (LUFS), как у стриминговых сервисов
+export const DEFAULT_TARGET_LOUDNESS = -14;
+
+/**
+ * Точки входа/выхода и фейды трека (секунды)
+ */
+export interface PlayerCuePoints {
+  startOffset: number; // Пропуск от начала трека
+  endOffset: number; // Обрезка с конца трека
+  fadeIn: number; // Нарастание громкости от точки входа
+  fadeOut: number; // Затухание громкости до точки выхода
+}
+
+export const DEFAULT_CUE_POINTS: PlayerCuePoints = {
+  startOffset: 0,
+  endOffset: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+};
+
+type PlayerCuePointSettings = {
+  [K in keyof PlayerCuePoints]?: number | null;
+};
+
+/**
+ * Скорость воспроизведения трека
+ */
+export interface PlayerTrackPlayback {
+  rate: number; // Множитель скорости (1 - без изменений)
+  preservePitch: boolean; // Сохранять высоту тона при изменении темпа
+}
+
+/**
+ * Полоса эквалайзера
+ */
+export interface PlayerEqBand {
+  frequency: number; // Гц
+  gain: number; // дБ
+}
+
+/**
+ * Пресет обработки звука в сессии: эквалайзер, срез низких частот и лимитер
+ */
+export interface PlayerEffectsPreset {
+  id: string;
+  name: string;
+  bands: PlayerEqBand[]; // От 3 до 10 полос
+  highPassFrequency: number | null; // Срез низких частот (Гц), null - выключен
+  limiter: boolean; // Ограничение пиков перед выходом
+}
+
+export interface PlayerTrackSettings extends PlayerCuePointSettings {
   pauseBetweenTracks?: number | null;
   actionAfterTrack?: ActionAfterTrack | null;
+  crossfadeDuration?: number | null; // Длительность наложения со следующим треком (секунды)
+  tempo?: number | null; // Изменение темпа в процентах (+8 - на 8% быстрее)
+  preservePitch?: boolean | null; // Сохранять высоту тона (по умолчанию - да)
 }
 
-export interface PlayerGroupSettings {
+export interface PlayerGroupSettings extends PlayerCuePointSettings {
   pauseBetweenTracks?: number | null;
   actionAfterTrack?: ActionAfterTrack | null;
+  crossfadeDuration?: number | null;
+  effectsPresetId?: string | null; // Пресет обработки звука для треков группы
+  scheduledStartTime?: string | null; // Жёсткое время начала группы "HH:MM"
+  fillerGroupId?: string | null; // Группа, которая играет, пока сессия ждёт начала
 }
 
 export interface PlayerSettings {
   defaultPauseBetweenTracks: number;
   defaultActionAfterTrack: ActionAfterTrack;
+  defaultCrossfadeDuration: number;
+  defaultCuePoints: PlayerCuePoints;
   plannedEndTime: number | null;
   playerAudioDeviceId: string | null;
   demoPlayerAudioDeviceId: string | null;
+  loudnessNormalization: boolean;
+  targetLoudness: number; // LUFS
+  autoTrimSilence: boolean; // Применять точки входа/выхода по найденной тишине
+  effectsPresets: PlayerEffectsPreset[];
+  defaultEffectsPresetId: string; // Пресет для треков вне групп с назначенным пресетом
 }
 
 interface PlayerSettingsState extends PlayerSettings {
@@ -34,6 +103,8 @@ interface PlayerSettingsState extends PlayerSettings {
   // Actions
   setDefaultPauseBetweenTracks: (value: number) => void;
   setDefaultActionAfterTrack: (value: ActionAfterTrack) => void;
+  setDefaultCrossfadeDuration: (value: number) => void;
+  setDefaultCuePoints: (value: PlayerCuePoints) => void;
   setTrackSettings: (trackId: string, settings: PlayerTrackSettings) => void;
   getTrackSettings: (trackId: string) => PlayerTrackSettings;
   clearTrackSettings: (trackId: string) => void;
@@ -46,12 +117,32 @@ interface PlayerSettingsState extends PlayerSettings {
   setPlannedEndTime: (time: number | null) => void;
   setPlayerAudioDeviceId: (deviceId: string | null) => void;
   setDemoPlayerAudioDeviceId: (deviceId: string | null) => void;
+  setLoudnessNormalization: (enabled: boolean) => void;
+  setTargetLoudness: (value: number) => void;
+  setAutoTrimSilence: (enabled: boolean) => void;
+  setEffectsPresets: (presets: PlayerEffectsPreset[]) => void;
+  setDefaultEffectsPresetId: (presetId: string) => void;
+  // Полная замена настроек плейлиста (при загрузке файла .player.json)
+  replacePlaylistSettings: (
+    settings: Pick<
+      PlayerSettingsState,
+      | 'defaultPauseBetweenTracks'
+      | 'defaultActionAfterTrack'
+      | 'defaultCrossfadeDuration'
+      | 'defaultCuePoints'
+      | 'plannedEndTime'
+      | 'trackSettings'
+      | 'groupSettings'
+    >,
+  ) => void;
 }
 
 const INITIAL_STATE: Omit<
   PlayerSettingsState,
   | 'setDefaultPauseBetweenTracks'
   | 'setDefaultActionAfterTrack'
+  | 'setDefaultCrossfadeDuration'
+  | 'setDefaultCuePoints'
   | 'setTrackSettings'
   | 'getTrackSettings'
   | 'clearTrackSettings'
@@ -64,12 +155,25 @@ const INITIAL_STATE: Omit<
   | 'setPlannedEndTime'
   | 'setPlayerAudioDeviceId'
   | 'setDemoPlayerAudioDeviceId'
+  | 'setLoudnessNormalization'
+  | 'setTargetLoudness'
+  | 'setAutoTrimSilence'
+  | 'setEffectsPresets'
+  | 'setDefaultEffectsPresetId'
+  | 'replacePlaylistSettings'
 > = {
   defaultPauseBetweenTracks: 0,
   defaultActionAfterTrack: 'next',
+  defaultCrossfadeDuration: DEFAULT_CROSSFADE_DURATION,
+  defaultCuePoints: DEFAULT_CUE_POINTS,
   plannedEndTime: null,
   playerAudioDeviceId: null,
   demoPlayerAudioDeviceId: null,
+  loudnessNormalization: true,
+  targetLoudness: DEFAULT_TARGET_LOUDNESS,
+  autoTrimSilence: true,
+  effectsPresets: DEFAULT_EFFECTS_PRESETS,
+  defaultEffectsPresetId: FLAT_EFFECTS_PRESET_ID,
   trackSettings: new Map(),
   groupSettings: new Map(),
   editingTrackId: null,
@@ -90,6 +194,14 @@ export const usePlayerSettingsStore = createWithEqualityFn<PlayerSettingsState>(
         set({ defaultActionAfterTrack: value });
       },
 
+      setDefaultCrossfadeDuration: (value) => {
+        set({ defaultCrossfadeDuration: Math.max(0, value) });
+      },
+
+      setDefaultCuePoints: (value) => {
+        set({ defaultCuePoints: { ...value } });
+      },
+
       setTrackSettings: (trackId, settings) => {
         set((state) => {
           const newTrackSettings = new Map(state.trackSettings);
@@ -165,6 +277,51 @@ export const usePlayerSettingsStore = createWithEqualityFn<PlayerSettingsState>(
       setDemoPlayerAudioDeviceId: (deviceId) => {
         set({ demoPlayerAudioDeviceId: deviceId });
       },
+
+      setLoudnessNormalization: (enabled) => {
+        set({ loudnessNormalization: enabled });
+      },
+
+      setTargetLoudness: (value) => {
+        set({ targetLoudness: value });
+      },
+
+      setAutoTrimSilence: (enabled) => {
+        set({ autoTrimSilence: enabled });
+      },
+
+      setEffectsPresets: (presets) => {
+        set((state) => ({
+          effectsPresets: presets,
+          // Удалённый пресет по умолчанию заменяем на первый оставшийся
+          defaultEffectsPresetId: presets.some(
+            (preset) => preset.id === state.defaultEffectsPresetId,
+          )
+            ? state.defaultEffectsPresetId
+            : (presets[0]?.id ?? FLAT_EFFECTS_PRESET_ID),
+        }));
+      },
+
+      setDefaultEffectsPresetId: (presetId) => {
+        set({ defaultEffectsPresetId: presetId });
+      },
+
+      replacePlaylistSettings: (settings) => {
+        // Аудиоустройства, нормализация громкости, обрезка тишины и пресеты обработки
+        // не относятся к плейлисту и сохраняются
+        set({
+          defaultPauseBetweenTracks: settings.defaultPauseBetweenTracks,
+          defaultActionAfterTrack: settings.defaultActionAfterTrack,
+          defaultCrossfadeDuration: settings.defaultCrossfadeDuration,
+          defaultCuePoints: settings.defaultCuePoints,
+          plannedEndTime: settings.plannedEndTime,
+          trackSettings: new Map(settings.trackSettings),
+          groupSettings: new Map(settings.groupSettings),
+          editingTrackId: null,
+          editingGroupId: null,
+          editingIsGlobal: false,
+        });
+      },
     }),
     {
       name: 'cherryplaylist-player-settings',
@@ -172,9 +329,16 @@ export const usePlayerSettingsStore = createWithEqualityFn<PlayerSettingsState>(
       partialize: (state) => ({
         defaultPauseBetweenTracks: state.defaultPauseBetweenTracks,
         defaultActionAfterTrack: state.defaultActionAfterTrack,
+        defaultCrossfadeDuration: state.defaultCrossfadeDuration,
+        defaultCuePoints: state.defaultCuePoints,
         plannedEndTime: state.plannedEndTime,
         playerAudioDeviceId: state.playerAudioDeviceId,
         demoPlayerAudioDeviceId: state.demoPlayerAudioDeviceId,
+        loudnessNormalization: state.loudnessNormalization,
+        targetLoudness: state.targetLoudness,
+        autoTrimSilence: state.autoTrimSilence,
+        effectsPresets: state.effectsPresets,
+        defaultEffectsPresetId: state.defaultEffectsPresetId,
         trackSettings: Array.from(state.trackSettings.entries()),
         groupSettings: Array.from(state.groupSettings.entries()),
       }),
@@ -186,6 +350,14 @@ export const usePlayerSettingsStore = createWithEqualityFn<PlayerSettingsState>(
           // Миграция с версии 1: добавляем поля для аудиоустройств, если их нет
           playerAudioDeviceId: persistedState?.playerAudioDeviceId ?? null,
           demoPlayerAudioDeviceId: persistedState?.demoPlayerAudioDeviceId ?? null,
+          defaultCrossfadeDuration:
+            persistedState?.defaultCrossfadeDuration ?? DEFAULT_CROSSFADE_DURATION,
+          defaultCuePoints: { ...DEFAULT_CUE_POINTS, ...persistedState?.defaultCuePoints },
+          loudnessNormalization: persistedState?.loudnessNormalization ?? true,
+          targetLoudness: persistedState?.targetLoudness ?? DEFAULT_TARGET_LOUDNESS,
+          autoTrimSilence: persistedState?.autoTrimSilence ?? true,
+          effectsPresets: persistedState?.effectsPresets ?? DEFAULT_EFFECTS_PRESETS,
+          defaultEffectsPresetId: persistedState?.defaultEffectsPresetId ?? FLAT_EFFECTS_PRESET_ID,
           trackSettings: new Map(persistedState?.trackSettings || []),
           groupSettings: new Map(persistedState?.groupSettings || []),
         };
@@ -193,4 +365,3 @@ export const usePlayerSettingsStore = createWithEqualityFn<PlayerSettingsState>(
     },
   ),
 );
-
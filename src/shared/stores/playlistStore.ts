@@ -3,9 +3,14 @@ import { createWithEqualityFn } from 'zustand/traditional';
 
 import { DEFAULT_PLAYLIST_WORKSPACE_ID } from '../../core/constants/workspace';
 import { Track } from '../../core/types/track';
+import { sortTracks, TrackSortDirection, TrackSortField } from '../utils/trackSortUtils';
 
 import { useHistoryStore, createInverseAction, applyActionToPlaylist } from './historyStore';
-import { registerTrackWorkspaceStore, TrackWorkspaceStore } from './trackWorkspaceStoreFactory';
+import {
+  notifyTracksRemoved,
+  registerTrackWorkspaceStore,
+  TrackWorkspaceStore,
+} from './trackWorkspaceStoreFactory';
 
 interface PlaylistState {
   name: string;
@@ -21,6 +26,7 @@ interface PlaylistState {
   addTracksAt: (tracks: Omit<Track, 'id'>[], index: number) => void;
   removeTrack: (id: string) => void;
   moveTrack: (fromIndex: number, toIndex: number) => void;
+  replaceTracks: (tracks: Omit<Track, 'id'>[]) => void; // Замена всех треков одним шагом истории
   clear: () => void;
   loadFromJSON: (data: {
     name: string;
@@ -46,6 +52,10 @@ interface PlaylistState {
   // Duration update
   updateTrackDuration: (id: string, duration: number) => void;
 
+  // Темп и тональность (из тегов или анализа)
+  updateTrackTempoKey: (id: string, tempoKey: Pick<Track, 'bpm' | 'key'>) => void;
+  sortTracks: (field: TrackSortField, direction: TrackSortDirection) => void; // Одним шагом истории
+
   // Методы для совместимости с TrackWorkspaceStore
   canUndo: () => boolean;
   canRedo: () => boolean;
@@ -159,6 +169,7 @@ const playlistStore = createWithEqualityFn<PlaylistState>((set, get) => ({
         tracks: [removedTrack],
         indices: [trackIndex],
       });
+      notifyTracksRemoved(DEFAULT_PLAYLIST_WORKSPACE_ID, [removedTrack]);
     }
   },
 
@@ -181,6 +192,21 @@ const playlistStore = createWithEqualityFn<PlaylistState>((set, get) => ({
     }
   },
 
+  replaceTracks: (tracks) => {
+    const state = get();
+    const tracksWithIds = tracks.map((t) => ({ ...t, id: uuidv4() }));
+
+    set({ tracks: tracksWithIds, selectedTrackIds: new Set() });
+
+    if (!state._skipHistory) {
+      useHistoryStore.getState().addAction({
+        type: 'replaceTracks',
+        oldTracks: state.tracks,
+        newTracks: tracksWithIds,
+      });
+    }
+  },
+
   clear: () => {
     const state = get();
     const oldTracks = state.tracks;
@@ -194,6 +220,7 @@ const playlistStore = createWithEqualityFn<PlaylistState>((set, get) => ({
         tracks: oldTracks,
         indices: oldIndices,
       });
+      notifyTracksRemoved(DEFAULT_PLAYLIST_WORKSPACE_ID, oldTracks);
     }
   },
 
@@ -362,6 +389,7 @@ const playlistStore = createWithEqualityFn<PlaylistState>((set, get) => ({
         tracks: removedTracks,
         indices: removedIndices,
       });
+      notifyTracksRemoved(DEFAULT_PLAYLIST_WORKSPACE_ID, removedTracks);
     }
   },
 
@@ -414,6 +442,33 @@ const playlistStore = createWithEqualityFn<PlaylistState>((set, get) => ({
     set({ tracks: newTracks });
   },
 
+  updateTrackTempoKey: (id, tempoKey) => {
+    const state = get();
+    const trackIndex = state.tracks.findIndex((t) => t.id === id);
+    if (trackIndex === -1) return;
+
+    const newTracks = [...state.tracks];
+    newTracks[trackIndex] = { ...newTracks[trackIndex], ...tempoKey };
+    set({ tracks: newTracks });
+  },
+
+  sortTracks: (field, direction) => {
+    const state = get();
+    const sortedTracks = sortTracks(state.tracks, field, direction);
+    if (sortedTracks.every((track, index) => track === state.tracks[index])) return;
+
+    set({ tracks: sortedTracks });
+
+    // Сортировка отменяется как замена списка (ID треков сохраняются)
+    if (!state._skipHistory) {
+      useHistoryStore.getState().addAction({
+        type: 'replaceTracks',
+        oldTracks: state.tracks,
+        newTracks: sortedTracks,
+      });
+    }
+  },
+
   // Методы для совместимости с TrackWorkspaceStore
   canUndo: () => {
     return useHistoryStore.getState().canUndo();
@@ -0,0 +1,74 @@
+import { createWithEqualityFn } from 'zustand/traditional';
+
+import { PluginInfo } from '../../core/types/plugins';
+import { Track } from '../../core/types/track';
+import { pluginService } from '../services/pluginService';
+import { logger } from '../utils/logger';
+
+import { useUIStore } from './uiStore';
+
+interface PluginsState {
+  plugins: PluginInfo[];
+  isLoading: boolean;
+  isLoaded: boolean;
+
+  // Actions
+  loadPlugins: (rescan?: boolean) => Promise<void>;
+  setPluginEnabled: (pluginId: string, enabled: boolean) => Promise<void>;
+  runTrackAction: (pluginId: string, actionId: string, tracks: Track[]) => Promise<void>;
+}
+
+/**
+ * Store плагинов - состояние плагинов из main процесса
+ * Включение/отключение сохраняется в main процессе, здесь не персистится
+ */
+export const usePluginsStore = createWithEqualityFn<PluginsState>((set, get) => ({
+  plugins: [],
+  isLoading: false,
+  isLoaded: false,
+
+  loadPlugins: async (rescan = false) => {
+    set({ isLoading: true });
+    try {
+      const plugins = await pluginService.list(rescan);
+      set({ plugins, isLoaded: true });
+    } catch (error) {
+      logger.error('Failed to load plugins', error);
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  setPluginEnabled: async (pluginId, enabled) => {
+    try {
+      const updated = await pluginService.setEnabled(pluginId, enabled);
+      set({
+        plugins: get().plugins.map((plugin) => (plugin.id === pluginId ? updated : plugin)),
+      });
+
+      if (updated.error) {
+        useUIStore.getState().addNotification({
+          type: 'error',
+          message: `Плагин ${updated.name} не загружен: ${updated.error}`,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to toggle plugin', error);
+    }
+  },
+
+  runTrackAction: async (pluginId, actionId, tracks) => {
+    if (tracks.length === 0) {
+      return;
+    }
+    try {
+      const result = await pluginService.runTrackAction(pluginId, actionId, tracks);
+      useUIStore.getState().addNotification({
+        type: 'success',
+        message: result.message ?? 'Действие плагина выполнено',
+      });
+    } catch (error) {
+      logger.error('Plugin track action failed', error);
+    }
+  },
+}));
@@ -0,0 +1,86 @@
+import { persist } from 'zustand/middleware';
+import { createWithEqualityFn } from 'zustand/traditional';
+
+import { DEFAULT_PLAYLIST_WORKSPACE_ID } from '../../core/constants/workspace';
+import { PlaylistRule, PlaylistRuleType } from '../../core/types/rules';
+import { WorkspaceId } from '../../core/types/workspace';
+import { createRule } from '../utils/rulesUtils';
+
+const EMPTY_RULES: PlaylistRule[] = [];
+
+interface RulesState {
+  // Правила по workspace (плейлист, коллекция или плеер)
+  rulesByWorkspace: Record<WorkspaceId, PlaylistRule[]>;
+  // Workspace, правила которого редактируются в Rules workspace
+  targetWorkspaceId: WorkspaceId;
+
+  // Actions
+  setTargetWorkspace: (workspaceId: WorkspaceId) => void;
+  getRules: (workspaceId: WorkspaceId) => PlaylistRule[];
+  setRules: (workspaceId: WorkspaceId, rules: PlaylistRule[]) => void;
+  addRule: (workspaceId: WorkspaceId, type: PlaylistRuleType) => void;
+  updateRule: (workspaceId: WorkspaceId, ruleId: string, patch: Partial<PlaylistRule>) => void;
+  removeRule: (workspaceId: WorkspaceId, ruleId: string) => void;
+}
+
+const INITIAL_STATE: Pick<RulesState, 'rulesByWorkspace' | 'targetWorkspaceId'> = {
+  rulesByWorkspace: {},
+  targetWorkspaceId: DEFAULT_PLAYLIST_WORKSPACE_ID,
+};
+
+/**
+ * Store правил (ограничений) для плейлистов и плеера
+ * Правила хранятся как обычные JSON объекты и сохраняются вместе с плейлистом
+ */
+export const useRulesStore = createWithEqualityFn<RulesState>()(
+  persist(
+    (set, get) => ({
+      ...INITIAL_STATE,
+
+      setTargetWorkspace: (workspaceId) => {
+        set({ targetWorkspaceId: workspaceId });
+      },
+
+      getRules: (workspaceId) => {
+        return get().rulesByWorkspace[workspaceId] ?? EMPTY_RULES;
+      },
+
+      setRules: (workspaceId, rules) => {
+        set((state) => ({
+          rulesByWorkspace: { ...state.rulesByWorkspace, [workspaceId]: rules },
+        }));
+      },
+
+      addRule: (workspaceId, type) => {
+        const rules = get().getRules(workspaceId);
+        get().setRules(workspaceId, [...rules, createRule(type)]);
+      },
+
+      updateRule: (workspaceId, ruleId, patch) => {
+        const rules = get().getRules(workspaceId);
+        get().setRules(
+          workspaceId,
+          rules.map((rule) =>
+            rule.id === ruleId ? ({ ...rule, ...patch } as PlaylistRule) : rule,
+          ),
+        );
+      },
+
+      removeRule: (workspaceId, ruleId) => {
+        const rules = get().getRules(workspaceId);
+        get().setRules(
+          workspaceId,
+          rules.filter((rule) => rule.id !== ruleId),
+        );
+      },
+    }),
+    {
+      name: 'cherryplaylist-rules',
+      version: 1,
+      partialize: (state) => ({
+        rulesByWorkspace: state.rulesByWorkspace,
+        targetWorkspaceId: state.targetWorkspaceId,
+      }),
+    },
+  ),
+);
@@ -1,21 +1,34 @@
 import { persist } from 'zustand/middleware';
 import { createWithEqualityFn } from 'zustand/traditional';
 
+import { ExportConflictPolicy, ExportOptionValues } from '../../core/types/export';
+
+// ID стратегии из реестра main процесса: встроенной или плагина ("plugin:<plugin>/<strategy>")
+export type ExportStrategyId = string;
+
 interface SettingsState {
   exportPath: string;
-  exportStrategy: 'copyWithNumberPrefix' | 'aimpPlaylist';
+  exportStrategy: ExportStrategyId;
+  exportOptions: Record<ExportStrategyId, ExportOptionValues>; // Последние значения опций по стратегиям
+  exportConflictPolicy: ExportConflictPolicy; // Если файл уже есть в папке экспорта
+  mixBitrate: string; // Битрейт сведения сессии плеера (кбит/с, для сжатых форматов)
   lastOpenedPlaylist: string;
   trackItemSizePreset: 'small' | 'medium' | 'large';
   hourDividerInterval: number;
   showHourDividers: boolean;
+  showTempoKeyColumns: boolean; // Колонки BPM и тональности в списках треков
 
   // Actions
   setExportPath: (path: string) => void;
-  setExportStrategy: (strategy: 'copyWithNumberPrefix' | 'aimpPlaylist') => void;
+  setExportStrategy: (strategy: ExportStrategyId) => void;
+  setExportOptions: (strategy: ExportStrategyId, options: ExportOptionValues) => void;
+  setExportConflictPolicy: (policy: ExportConflictPolicy) => void;
+  setMixBitrate: (bitrate: string) => void;
   setLastOpenedPlaylist: (path: string) => void;
   setTrackItemSizePreset: (preset: 'small' | 'medium' | 'large') => void;
   setHourDividerInterval: (interval: number) => void;
   setShowHourDividers: (show: boolean) => void;
+  setShowTempoKeyColumns: (show: boolean) => void;
 }
 
 export const useSettingsStore = createWithEqualityFn<SettingsState>()(
@@ -23,17 +36,26 @@ export const useSettingsStore = createWithEqualityFn<SettingsState>()(
     (set) => ({
       exportPath: '',
       exportStrategy: 'copyWithNumberPrefix',
+      exportOptions: {},
+      exportConflictPolicy: 'overwrite',
+      mixBitrate: '320',
       lastOpenedPlaylist: '',
       trackItemSizePreset: 'medium',
       hourDividerInterval: 3600,
       showHourDividers: true,
+      showTempoKeyColumns: false,
 
       setExportPath: (path) => set({ exportPath: path }),
       setExportStrategy: (strategy) => set({ exportStrategy: strategy }),
+      setExportOptions: (strategy, options) =>
+        set((state) => ({ exportOptions: { ...state.exportOptions, [strategy]: options } })),
+      setExportConflictPolicy: (policy) => set({ exportConflictPolicy: policy }),
+      setMixBitrate: (bitrate) => set({ mixBitrate: bitrate }),
       setLastOpenedPlaylist: (path) => set({ lastOpenedPlaylist: path }),
       setTrackItemSizePreset: (preset) => set({ trackItemSizePreset: preset }),
       setHourDividerInterval: (interval) => set({ hourDividerInterval: interval }),
       setShowHourDividers: (show) => set({ showHourDividers: show }),
+      setShowTempoKeyColumns: (show) => set({ showTempoKeyColumns: show }),
     }),
     {
       name: 'cherryplaylist-settings',
@@ -6,6 +6,7 @@ import { createWithEqualityFn, useStoreWithEqualityFn } from 'zustand/traditiona
 import { WorkspaceId } from '@core/types/workspace';
 
 import { Track } from '../../core/types/track';
+import { sortTracks, TrackSortDirection, TrackSortField } from '../utils/trackSortUtils';
 
 import { applyActionToPlaylist, createInverseAction, HistoryAction } from './historyStore';
 
@@ -36,6 +37,7 @@ export interface TrackWorkspaceState {
   addTracksAt: (tracks: Omit<Track, 'id'>[], index: number) => void;
   removeTrack: (id: string) => void;
   moveTrack: (fromIndex: number, toIndex: number) => void;
+  replaceTracks: (tracks: Omit<Track, 'id'>[]) => void;
   clear: () => void;
   loadFromJSON: (data: {
     name: string;
@@ -60,6 +62,8 @@ export interface TrackWorkspaceState {
   selectRange: (fromId: string, toId: string) => void;
 
   updateTrackDuration: (id: string, duration: number) => void;
+  updateTrackTempoKey: (id: string, tempoKey: Pick<Track, 'bpm' | 'key'>) => void;
+  sortTracks: (field: TrackSortField, direction: TrackSortDirection) => void;
 }
 
 export type TrackWorkspaceStore = UseBoundStore<StoreApi<TrackWorkspaceState>>;
@@ -77,6 +81,42 @@ function pushHistory(state: TrackWorkspaceState, action: HistoryAction): History
   return updatedHistory;
 }
 
+export type TrackRemovalListener = (workspaceId: WorkspaceId, tracks: Track[]) => void;
+
+const trackRemovalListeners = new Set<TrackRemovalListener>();
+let isRemovalNotificationSuspended = false;
+
+/**
+ * Подписка на удаление треков пользователем (не вызывается при undo/redo)
+ * Возвращает функцию отписки
+ */
+export function addTrackRemovalListener(listener: TrackRemovalListener): () => void {
+  trackRemovalListeners.add(listener);
+  return () => {
+    trackRemovalListeners.delete(listener);
+  };
+}
+
+export function notifyTracksRemoved(workspaceId: WorkspaceId, tracks: Track[]): void {
+  if (isRemovalNotificationSuspended || tracks.length === 0) {
+    return;
+  }
+  trackRemovalListeners.forEach((listener) => listener(workspaceId, tracks));
+}
+
+/**
+ * Выполняет fn без уведомлений об удалении (например, при перемещении треков между workspace)
+ */
+export function withoutTrackRemovalNotifications<T>(fn: () => T): T {
+  const wasSuspended = isRemovalNotificationSuspended;
+  isRemovalNotificationSuspended = true;
+  try {
+    return fn();
+  } finally {
+    isRemovalNotificationSuspended = wasSuspended;
+  }
+}
+
 function createStore(options: TrackWorkspaceStoreOptions): TrackWorkspaceStore {
   const { workspaceId, initialName, maxTracks, historyDepth } = options;
 
@@ -234,6 +274,7 @@ function createStore(options: TrackWorkspaceStoreOptions): TrackWorkspaceStore {
           history: nextHistory,
           historyIndex: nextHistory.length - 1,
         });
+        notifyTracksRemoved(workspaceId, [removedTrack]);
       }
     },
 
@@ -260,6 +301,26 @@ function createStore(options: TrackWorkspaceStoreOptions): TrackWorkspaceStore {
       }
     },
 
+    replaceTracks: (tracks: Omit<Track, 'id'>[]) => {
+      const state = get();
+      const tracksToSet = state.maxTracks === null ? tracks : tracks.slice(0, state.maxTracks);
+      const tracksWithIds = tracksToSet.map((t) => ({ ...t, id: uuidv4() }));
+
+      set({ tracks: tracksWithIds, selectedTrackIds: new Set() });
+
+      if (!state._skipHistory) {
+        const nextHistory = pushHistory(state, {
+          type: 'replaceTracks',
+          oldTracks: state.tracks,
+          newTracks: tracksWithIds,
+        });
+        set({
+          history: nextHistory,
+          historyIndex: nextHistory.length - 1,
+        });
+      }
+    },
+
     clear: () => {
       const state = get();
       const oldTracks = state.tracks;
@@ -277,6 +338,7 @@ function createStore(options: TrackWorkspaceStoreOptions): TrackWorkspaceStore {
           history: nextHistory,
           historyIndex: nextHistory.length - 1,
         });
+        notifyTracksRemoved(workspaceId, oldTracks);
       }
     },
 
@@ -453,6 +515,7 @@ function createStore(options: TrackWorkspaceStoreOptions): TrackWorkspaceStore {
           history: nextHistory,
           historyIndex: nextHistory.length - 1,
         });
+        notifyTracksRemoved(workspaceId, removedTracks);
       }
     },
 
@@ -505,6 +568,37 @@ function createStore(options: TrackWorkspaceStoreOptions): TrackWorkspaceStore {
       newTracks[trackIndex] = { ...newTracks[trackIndex], duration };
       set({ tracks: newTracks });
     },
+
+    updateTrackTempoKey: (id: string, tempoKey: Pick<Track, 'bpm' | 'key'>) => {
+      const state = get();
+      const trackIndex = state.tracks.findIndex((t) => t.id === id);
+      if (trackIndex === -1) return;
+
+      const newTracks = [...state.tracks];
+      newTracks[trackIndex] = { ...newTracks[trackIndex], ...tempoKey };
+      set({ tracks: newTracks });
+    },
+
+    sortTracks: (field: TrackSortField, direction: TrackSortDirection) => {
+      const state = get();
+      const sortedTracks = sortTracks(state.tracks, field, direction);
+      if (sortedTracks.every((track, index) => track === state.tracks[index])) return;
+
+      set({ tracks: sortedTracks });
+
+      // Сортировка отменяется как замена списка (ID треков сохраняются)
+      if (!state._skipHistory) {
+        const nextHistory = pushHistory(state, {
+          type: 'replaceTracks',
+          oldTracks: state.tracks,
+          newTracks: sortedTracks,
+        });
+        set({
+          history: nextHistory,
+          historyIndex: nextHistory.length - 1,
+        });
+      }
+    },
   });
 
   // Create store with or without persistence
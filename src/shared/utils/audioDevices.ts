@@ -1,6 +1,7 @@
 /**
  * Утилиты для работы с аудиоустройствами через Web Audio API
  */
+import { setAudioGraphSinkId } from './audioGraph';
 
 export interface AudioDevice {
   deviceId: string;
@@ -91,12 +92,15 @@ export async function setAudioSinkId(
 
   try {
     await (audioElement as any).setSinkId(targetDeviceId);
+    // Если элемент подключён к Web Audio графу, звук выводит контекст графа
+    await setAudioGraphSinkId(audioElement, targetDeviceId);
   } catch (error) {
     // Если это ошибка "устройство не найдено" и мы пытались установить не устройство по умолчанию,
     // пробуем установить устройство по умолчанию
     if (isDeviceNotFoundError(error) && targetDeviceId !== getDefaultDeviceId()) {
       try {
         await (audioElement as any).setSinkId(getDefaultDeviceId());
+        await setAudioGraphSinkId(audioElement, getDefaultDeviceId());
         // Успешно переключились на устройство по умолчанию - не пробрасываем ошибку
         // Вызывающий код должен обновить настройки
         return;
@@ -106,7 +110,7 @@ export async function setAudioSinkId(
         throw error;
       }
     }
-    
+
     // Для других ошибок или если уже пытались установить устройство по умолчанию, логируем и пробрасываем ошибку
     console.error('Failed to set audio sink ID', error);
     throw error;
@@ -0,0 +1,148 @@
+import type {
+  PlayerEffectsPreset,
+  PlayerEqBand,
+  PlayerGroupSettings,
+} from '../stores/playerSettingsStore';
+
+// Допустимое число полос эквалайзера
+export const MIN_EQ_BANDS = 3;
+export const MAX_EQ_BANDS = 10;
+// Максимальное усиление/ослабление полосы, дБ
+export const MAX_EQ_GAIN = 12;
+// Диапазон частот полос эквалайзера, Гц
+const EQ_MIN_FREQUENCY = 60;
+const EQ_MAX_FREQUENCY = 12000;
+// Частота среза низких частот для речи, Гц
+export const DEFAULT_HIGH_PASS_FREQUENCY = 100;
+
+export const FLAT_EFFECTS_PRESET_ID = 'flat';
+
+/**
+ * Частоты полос эквалайзера: равномерно по логарифмической шкале
+ */
+export function getEqBandFrequencies(count: number): number[] {
+  const bandCount = clampEqBandCount(count);
+  const ratio = EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY;
+  return Array.from({ length: bandCount }, (_, index) => {
+    const frequency = EQ_MIN_FREQUENCY * Math.pow(ratio, index / (bandCount - 1));
+    // Округляем до двух значащих цифр, чтобы частоты читались в интерфейсе
+    const magnitude = Math.pow(10, Math.floor(Math.log10(frequency)) - 1);
+    return Math.round(frequency / magnitude) * magnitude;
+  });
+}
+
+const createBands = (gains: number[]): PlayerEqBand[] =>
+  getEqBandFrequencies(gains.length).map((frequency, index) => ({
+    frequency,
+    gain: gains[index],
+  }));
+
+export const DEFAULT_EFFECTS_PRESETS: PlayerEffectsPreset[] = [
+  {
+    id: FLAT_EFFECTS_PRESET_ID,
+    name: 'Без обработки',
+    bands: createBands([0, 0, 0, 0, 0]),
+    highPassFrequency: null,
+    limiter: false,
+  },
+  {
+    id: 'speech',
+    name: 'Речь',
+    bands: createBands([0, -2, 0, 3, -1]),
+    highPassFrequency: DEFAULT_HIGH_PASS_FREQUENCY,
+    limiter: true,
+  },
+  {
+    id: 'dance',
+    name: 'Танцы',
+    bands: createBands([4, 1, -1, 1, 3]),
+    highPassFrequency: null,
+    limiter: true,
+  },
+];
+
+/**
+ * Ограничивает число полос эквалайзера допустимым диапазоном
+ */
+export function clampEqBandCount(count: number): number {
+  if (!Number.isFinite(count)) {
+    return MIN_EQ_BANDS;
+  }
+  return Math.min(MAX_EQ_BANDS, Math.max(MIN_EQ_BANDS, Math.round(count)));
+}
+
+/**
+ * Ограничивает усиление полосы (некорректные значения - без изменений)
+ */
+export function clampEqGain(gain: number): number {
+  if (!Number.isFinite(gain)) {
+    return 0;
+  }
+  return Math.min(MAX_EQ_GAIN, Math.max(-MAX_EQ_GAIN, gain));
+}
+
+/**
+ * Меняет число полос: новые полосы берут усиление ближайшей по частоте старой полосы
+ */
+export function resizeEqBands(bands: PlayerEqBand[], count: number): PlayerEqBand[] {
+  return getEqBandFrequencies(count).map((frequency) => {
+    let nearest: PlayerEqBand | null = null;
+    for (const band of bands) {
+      if (
+        !nearest ||
+        Math.abs(Math.log(band.frequency / frequency)) <
+          Math.abs(Math.log(nearest.frequency / frequency))
+      ) {
+        nearest = band;
+      }
+    }
+    return { frequency, gain: nearest?.gain ?? 0 };
+  });
+}
+
+/**
+ * Тип фильтра полосы: крайние полосы - полочные, остальные - колокол
+ */
+export function getEqFilterType(index: number, count: number): BiquadFilterType {
+  if (index === 0) {
+    return 'lowshelf';
+  }
+  if (index === count - 1) {
+    return 'highshelf';
+  }
+  return 'peaking';
+}
+
+/**
+ * Пресет не меняет звук - обработку можно не подключать
+ */
+export function isNeutralEffectsPreset(preset: PlayerEffectsPreset | null | undefined): boolean {
+  return (
+    !preset ||
+    (!preset.limiter &&
+      preset.highPassFrequency === null &&
+      preset.bands.every((band) => clampEqGain(band.gain) === 0))
+  );
+}
+
+/**
+ * Выбирает пресет обработки трека: ближайшая группа с назначенным пресетом, затем пресет по умолчанию
+ * Удалённые пресеты пропускаются
+ * @param groupLevels - настройки групп от ближайшей к внешней
+ */
+export function resolveEffectsPreset(
+  groupLevels: PlayerGroupSettings[],
+  defaultPresetId: string | null,
+  presets: PlayerEffectsPreset[],
+): PlayerEffectsPreset | null {
+  const findPreset = (id: string | null | undefined) =>
+    id ? (presets.find((preset) => preset.id === id) ?? null) : null;
+
+  for (const level of groupLevels) {
+    const preset = findPreset(level.effectsPresetId);
+    if (preset) {
+      return preset;
+    }
+  }
+  return findPreset(defaultPresetId);
+}
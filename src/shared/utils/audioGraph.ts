@@ -0,0 +1,203 @@
+/**
+ * Web Audio граф для HTMLAudioElement: источник → усиление → обработка → выход
+ * Нужен для усиления выше 100% громкости элемента (нормализация громкости)
+ * и для эквалайзера/лимитера плеера сессии
+ */
+import type { PlayerEffectsPreset } from '../stores/playerSettingsStore';
+
+import { clampEqGain, getEqFilterType, isNeutralEffectsPreset } from './audioEffectsUtils';
+import { logger } from './logger';
+import { dbToGain } from './loudnessUtils';
+
+interface ElementGraph {
+  context: AudioContext;
+  gain: GainNode;
+  // Узлы обработки между усилением и выходом (пусто - без обработки)
+  effects: AudioNode[];
+  effectsPreset: PlayerEffectsPreset | null;
+}
+
+// Параметры лимитера: жёсткое ограничение чуть ниже 0 dBFS
+const LIMITER_THRESHOLD_DB = -1;
+const LIMITER_RATIO = 20;
+const LIMITER_ATTACK = 0.003;
+const LIMITER_RELEASE = 0.25;
+// Добротность полос-колоколов и среза низких частот (Баттерворт)
+const EQ_PEAKING_Q = 1;
+const HIGH_PASS_Q = Math.SQRT1_2;
+
+// Элемент можно подключить к графу только один раз, поэтому граф хранится по элементу
+const graphs = new WeakMap<HTMLAudioElement, ElementGraph>();
+
+/**
+ * Проверяет, доступен ли Web Audio API
+ */
+export function isAudioGraphSupported(): boolean {
+  return typeof AudioContext !== 'undefined';
+}
+
+/**
+ * Получает граф элемента, создавая его при первом обращении
+ * @returns null, если Web Audio недоступен - звук идёт напрямую с элемента
+ */
+function getElementGraph(element: HTMLAudioElement): ElementGraph | null {
+  const existing = graphs.get(element);
+  if (existing) {
+    return existing;
+  }
+  if (!isAudioGraphSupported()) {
+    return null;
+  }
+
+  try {
+    const context = new AudioContext();
+    const source = context.createMediaElementSource(element);
+    const gain = context.createGain();
+    source.connect(gain);
+    gain.connect(context.destination);
+    const graph: ElementGraph = { context, gain, effects: [], effectsPreset: null };
+    graphs.set(element, graph);
+    return graph;
+  } catch (error) {
+    logger.warn('Failed to create audio graph for element', error);
+    return null;
+  }
+}
+
+/**
+ * Подключает элемент к графу (вызывается при создании элемента)
+ */
+export function attachAudioGraph(element: HTMLAudioElement): void {
+  getElementGraph(element);
+}
+
+/**
+ * Устанавливает усиление элемента в децибелах
+ */
+export function setElementGainDb(element: HTMLAudioElement, gainDb: number): void {
+  const graph = getElementGraph(element);
+  if (graph) {
+    graph.gain.gain.value = dbToGain(gainDb);
+  }
+}
+
+/**
+ * Создаёт узлы обработки пресета: срез низких частот → полосы эквалайзера → лимитер
+ */
+function createEffectNodes(context: AudioContext, preset: PlayerEffectsPreset): AudioNode[] {
+  const nodes: AudioNode[] = [];
+
+  if (preset.highPassFrequency !== null && preset.highPassFrequency > 0) {
+    const highPass = context.createBiquadFilter();
+    highPass.type = 'highpass';
+    highPass.frequency.value = preset.highPassFrequency;
+    highPass.Q.value = HIGH_PASS_Q;
+    nodes.push(highPass);
+  }
+
+  preset.bands.forEach((band, index) => {
+    const gain = clampEqGain(band.gain);
+    if (gain === 0) {
+      return;
+    }
+    const filter = context.createBiquadFilter();
+    filter.type = getEqFilterType(index, preset.bands.length);
+    filter.frequency.value = band.frequency;
+    filter.gain.value = gain;
+    if (filter.type === 'peaking') {
+      filter.Q.value = EQ_PEAKING_Q;
+    }
+    nodes.push(filter);
+  });
+
+  if (preset.limiter) {
+    const limiter = context.createDynamicsCompressor();
+    limiter.threshold.value = LIMITER_THRESHOLD_DB;
+    limiter.knee.value = 0;
+    limiter.ratio.value = LIMITER_RATIO;
+    limiter.attack.value = LIMITER_ATTACK;
+    limiter.release.value = LIMITER_RELEASE;
+    nodes.push(limiter);
+  }
+
+  return nodes;
+}
+
+/**
+ * Устанавливает обработку звука элемента (null или нейтральный пресет - без обработки)
+ * Пресеты неизменяемы, поэтому тот же объект повторно не пересобирается
+ */
+export function setElementEffects(
+  element: HTMLAudioElement,
+  preset: PlayerEffectsPreset | null,
+): void {
+  const graph = getElementGraph(element);
+  const nextPreset = isNeutralEffectsPreset(preset) ? null : preset;
+  if (!graph || graph.effectsPreset === nextPreset) {
+    return;
+  }
+
+  try {
+    graph.gain.disconnect();
+    graph.effects.forEach((node) => node.disconnect());
+    graph.effects = nextPreset ? createEffectNodes(graph.context, nextPreset) : [];
+    graph.effectsPreset = nextPreset;
+
+    let previous: AudioNode = graph.gain;
+    for (const node of graph.effects) {
+      previous.connect(node);
+      previous = node;
+    }
+    previous.connect(graph.context.destination);
+  } catch (error) {
+    logger.warn('Failed to apply audio effects', error);
+    // Восстанавливаем прямой путь, чтобы звук не пропал
+    graph.effects = [];
+    graph.effectsPreset = null;
+    graph.gain.disconnect();
+    graph.gain.connect(graph.context.destination);
+  }
+}
+
+/**
+ * Возобновляет контекст (браузер может приостановить его до первого воспроизведения)
+ */
+export async function resumeAudioGraph(element: HTMLAudioElement): Promise<void> {
+  const graph = graphs.get(element);
+  if (graph && graph.context.state === 'suspended') {
+    await graph.context.resume();
+  }
+}
+
+/**
+ * Направляет выход графа на устройство (звук элемента в графе идёт через контекст)
+ */
+export async function setAudioGraphSinkId(
+  element: HTMLAudioElement,
+  deviceId: string,
+): Promise<void> {
+  const graph = graphs.get(element);
+  // setSinkId у AudioContext есть не во всех версиях Chromium и в lib.dom
+  const context = graph?.context as
+    | (AudioContext & { setSinkId?: (id: string) => Promise<void> })
+    | undefined;
+  if (!context?.setSinkId) {
+    return;
+  }
+  // Для AudioContext устройство по умолчанию задаётся пустой строкой
+  await context.setSinkId(deviceId === 'default' ? '' : deviceId);
+}
+
+/**
+ * Закрывает граф элемента (при удалении элемента)
+ */
+export function detachAudioGraph(element: HTMLAudioElement): void {
+  const graph = graphs.get(element);
+  if (!graph) {
+    return;
+  }
+  graphs.delete(element);
+  graph.context.close().catch((error) => {
+    logger.warn('Failed to close audio graph', error);
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Утилиты для получения источника аудио для воспроизведения
+ */
+
+// Схема протокола, зарегистрированного в main процессе (electron/protocol/audioProtocol.ts)
+export const AUDIO_PROTOCOL_SCHEME = 'cherry-audio';
+
+/**
+ * Формирует URL для потокового воспроизведения локального файла
+ * Main процесс отдает файл по частям (HTTP Range), поэтому перемотка работает сразу
+ * @param filePath - Абсолютный путь к аудиофайлу
+ */
+export function getAudioSourceUrl(filePath: string): string {
+  return `${AUDIO_PROTOCOL_SCHEME}://track/${encodeURIComponent(filePath)}`;
+}
@@ -0,0 +1,198 @@
+import {
+  AutogeneratorCandidate,
+  AutogeneratorOptions,
+  AutogeneratorResult,
+  EnergyCurve,
+} from '../../core/types/autogenerator';
+
+export const ENERGY_CURVE_LABELS: Record<EnergyCurve, string> = {
+  none: 'Без учёта энергии',
+  flat: 'Ровная',
+  rising: 'Нарастающая',
+  falling: 'Спадающая',
+  peak: 'Пик в середине',
+};
+
+// Защита от бесконечной генерации при очень коротких треках
+const MAX_GENERATED_TRACKS = 1000;
+
+/**
+ * Детерминированный генератор псевдослучайных чисел (mulberry32)
+ * Одинаковый seed всегда даёт одинаковую последовательность в [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Создает новый случайный seed
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+/**
+ * Целевая энергия (0..1) в точке плейлиста progress (0..1)
+ * Возвращает null, если энергия не учитывается
+ */
+export function getEnergyTarget(curve: EnergyCurve, progress: number): number | null {
+  const clamped = Math.min(1, Math.max(0, progress));
+  switch (curve) {
+    case 'none':
+      return null;
+    case 'flat':
+      return 0.5;
+    case 'rising':
+      return clamped;
+    case 'falling':
+      return 1 - clamped;
+    case 'peak':
+      return 1 - Math.abs(clamped * 2 - 1);
+  }
+}
+
+/**
+ * Нормализует путь для сравнения (разделители и регистр)
+ */
+function normalizePathForCompare(filePath: string): string {
+  return filePath.replace(/\\/g, '/').toLowerCase();
+}
+
+/**
+ * Убирает повторяющиеся файлы из кандидатов (источники могут пересекаться)
+ */
+export function dedupeCandidates(candidates: AutogeneratorCandidate[]): AutogeneratorCandidate[] {
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    const key = normalizePathForCompare(candidate.path);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Генерирует порядок треков с общей длительностью, близкой к целевой
+ *
+ * Результат зависит только от набора кандидатов и параметров: кандидаты сортируются
+ * по пути, поэтому порядок источников не влияет на результат для того же seed
+ */
+export function generatePlaylist(
+  candidates: AutogeneratorCandidate[],
+  options: AutogeneratorOptions,
+): AutogeneratorResult {
+  const random = createSeededRandom(options.seed);
+  const pool = candidates
+    .filter((candidate) => candidate.duration > 0)
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+  // Перемешиваем (Fisher-Yates), чтобы при равных оценках порядок зависел от seed
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  const bpmValues = pool
+    .map((candidate) => candidate.bpm)
+    .filter((bpm): bpm is number => bpm !== undefined && bpm > 0);
+  const bpmMin = bpmValues.length > 0 ? Math.min(...bpmValues) : 0;
+  const bpmRange = bpmValues.length > 0 ? Math.max(...bpmValues) - bpmMin : 0;
+
+  const genreWeights = new Map<string, number>();
+  for (const [genre, weight] of Object.entries(options.genreMix)) {
+    if (weight > 0) {
+      genreWeights.set(genre.toLowerCase(), weight);
+    }
+  }
+  const totalWeight = Array.from(genreWeights.values()).reduce((sum, weight) => sum + weight, 0);
+  const genreDurations = new Map<string, number>();
+
+  const usageCount = new Array<number>(pool.length).fill(0);
+  const result: AutogeneratorCandidate[] = [];
+  let total = 0;
+  let lastIndex = -1;
+
+  while (total < options.targetDuration && result.length < MAX_GENERATED_TRACKS) {
+    const remaining = options.targetDuration - total;
+    const energyTarget = getEnergyTarget(options.energyCurve, total / options.targetDuration);
+
+    // Жанр с наибольшим отставанием от заданной доли
+    let desiredGenre: string | null = null;
+    if (totalWeight > 0) {
+      let maxDeficit = -Infinity;
+      for (const [genre, weight] of genreWeights) {
+        const deficit = (weight / totalWeight) * total - (genreDurations.get(genre) ?? 0);
+        if (deficit > maxDeficit) {
+          maxDeficit = deficit;
+          desiredGenre = genre;
+        }
+      }
+    }
+
+    let bestIndex = -1;
+    let bestScore = Infinity;
+    pool.forEach((candidate, index) => {
+      if (index === lastIndex || (options.noRepeats && usageCount[index] > 0)) {
+        return;
+      }
+
+      const genre = candidate.genre?.toLowerCase();
+      let score = random() * 0.3;
+
+      // Трек другого жанра из микса лучше, чем трек вне микса
+      if (desiredGenre !== null && genre !== desiredGenre) {
+        score += genre !== undefined && genreWeights.has(genre) ? 1 : 2;
+      }
+
+      if (energyTarget !== null && bpmRange > 0) {
+        score +=
+          candidate.bpm !== undefined && candidate.bpm > 0
+            ? Math.abs((candidate.bpm - bpmMin) / bpmRange - energyTarget)
+            : 0.5;
+      }
+
+      const overshoot = candidate.duration - remaining;
+      if (overshoot > 0) {
+        score += Math.min(1, overshoot / candidate.duration);
+      }
+
+      score += usageCount[index] * 0.5;
+
+      if (score < bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1) {
+      break;
+    }
+
+    const chosen = pool[bestIndex];
+    // Останавливаемся, если с треком окажемся дальше от цели, чем без него
+    if (result.length > 0 && chosen.duration - remaining > remaining) {
+      break;
+    }
+
+    result.push(chosen);
+    total += chosen.duration;
+    usageCount[bestIndex]++;
+    lastIndex = bestIndex;
+
+    const chosenGenre = chosen.genre?.toLowerCase();
+    if (chosenGenre !== undefined && genreWeights.has(chosenGenre)) {
+      genreDurations.set(chosenGenre, (genreDurations.get(chosenGenre) ?? 0) + chosen.duration);
+    }
+  }
+
+  return { tracks: result, totalDuration: total, seed: options.seed };
+}
@@ -0,0 +1,40 @@
+/**
+ * Утилиты кроссфейда между треками в плеере
+ */
+
+export interface CrossfadeGains {
+  fadeOut: number; // Громкость уходящего трека (0..1)
+  fadeIn: number; // Громкость входящего трека (0..1)
+}
+
+/**
+ * Вычисляет громкости дек по равномощной кривой
+ * Сумма мощностей постоянна, поэтому в середине перехода нет провала громкости
+ */
+export function getCrossfadeGains(progress: number): CrossfadeGains {
+  const safeProgress = Math.min(1, Math.max(0, Number.isFinite(progress) ? progress : 1));
+  const angle = (safeProgress * Math.PI) / 2;
+  return {
+    fadeOut: Math.cos(angle),
+    fadeIn: Math.sin(angle),
+  };
+}
+
+/**
+ * Ограничивает длительность кроссфейда оставшимся временем текущего трека
+ * и длительностью следующего трека (если известна)
+ */
+export function getEffectiveCrossfadeDuration(
+  crossfadeDuration: number,
+  remainingSeconds: number,
+  nextTrackDuration?: number,
+): number {
+  let result = Math.max(0, crossfadeDuration);
+  if (Number.isFinite(remainingSeconds)) {
+    result = Math.min(result, Math.max(0, remainingSeconds));
+  }
+  if (nextTrackDuration !== undefined && nextTrackDuration > 0) {
+    result = Math.min(result, nextTrackDuration);
+  }
+  return result;
+}
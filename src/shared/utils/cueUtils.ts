@@ -0,0 +1,98 @@
+import type { TrackSuggestedCue } from '../../core/types/track';
+import type {
+  PlayerCuePoints,
+  PlayerGroupSettings,
+  PlayerTrackSettings,
+} from '../stores/playerSettingsStore';
+
+export const CUE_POINT_KEYS: Array<keyof PlayerCuePoints> = [
+  'startOffset',
+  'endOffset',
+  'fadeIn',
+  'fadeOut',
+];
+
+/**
+ * Разрешает точки входа/выхода трека: каждое значение берётся из первого уровня,
+ * где оно задано (трек → предложенные анализом → группы от ближайшей к дальней → по умолчанию)
+ */
+export function resolveCuePoints(
+  levels: Array<PlayerTrackSettings | PlayerGroupSettings | undefined>,
+  defaults: PlayerCuePoints,
+): PlayerCuePoints {
+  const result: PlayerCuePoints = { ...defaults };
+  for (const key of CUE_POINT_KEYS) {
+    for (const level of levels) {
+      const value = level?.[key];
+      if (value !== null && value !== undefined) {
+        result[key] = Math.max(0, value);
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Уровень наследования из предложенных анализом точек входа/выхода
+ * (нулевые значения не задают точку, чтобы действовали настройки групп и по умолчанию)
+ */
+export function getSuggestedCueLevel(
+  suggestedCue: TrackSuggestedCue | undefined,
+): PlayerTrackSettings | undefined {
+  if (!suggestedCue) {
+    return undefined;
+  }
+  return {
+    startOffset: suggestedCue.startOffset > 0 ? suggestedCue.startOffset : null,
+    endOffset: suggestedCue.endOffset > 0 ? suggestedCue.endOffset : null,
+  };
+}
+
+/**
+ * Проверяет, отличаются ли точки входа/выхода от полного трека без фейдов
+ */
+export function hasCuePoints(cuePoints: PlayerCuePoints): boolean {
+  return CUE_POINT_KEYS.some((key) => cuePoints[key] > 0);
+}
+
+/**
+ * Вычисляет позицию точки выхода (секунды от начала файла)
+ */
+export function getCueEndPosition(duration: number, cuePoints: PlayerCuePoints): number {
+  const start = Math.min(cuePoints.startOffset, duration);
+  return Math.max(start, duration - cuePoints.endOffset);
+}
+
+/**
+ * Вычисляет длительность трека между точками входа и выхода
+ */
+export function getTrimmedDuration(duration: number, cuePoints: PlayerCuePoints): number {
+  if (duration <= 0) {
+    return 0;
+  }
+  return getCueEndPosition(duration, cuePoints) - Math.min(cuePoints.startOffset, duration);
+}
+
+/**
+ * Вычисляет множитель громкости (0..1) для позиции с учётом fade in/out
+ */
+export function getCueFadeGain(
+  position: number,
+  duration: number,
+  cuePoints: PlayerCuePoints,
+): number {
+  let gain = 1;
+
+  if (cuePoints.fadeIn > 0) {
+    const fromStart = position - cuePoints.startOffset;
+    gain = Math.min(gain, fromStart / cuePoints.fadeIn);
+  }
+
+  if (cuePoints.fadeOut > 0 && duration > 0) {
+    const toEnd = getCueEndPosition(duration, cuePoints) - position;
+    gain = Math.min(gain, toEnd / cuePoints.fadeOut);
+  }
+
+  return Math.min(1, Math.max(0, gain));
+}
@@ -0,0 +1,58 @@
+import { DraftEntry, DraftOrigin } from '../../core/types/drafts';
+import { Track } from '../../core/types/track';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const DRAFT_ORIGIN_LABELS: Record<DraftOrigin, string> = {
+  preview: 'Прослушан',
+  removed: 'Удалён',
+};
+
+/**
+ * Варианты срока хранения черновиков (в часах)
+ */
+export const DRAFT_RETENTION_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 1, label: '1 час' },
+  { hours: 24, label: '1 день' },
+  { hours: 24 * 7, label: '7 дней' },
+  { hours: 24 * 30, label: '30 дней' },
+];
+
+/**
+ * Возвращает ID черновиков, срок хранения которых истёк
+ * Треки без метаданных (добавленные вручную) не истекают
+ */
+export function getExpiredDraftIds(
+  tracks: Track[],
+  entries: Record<string, DraftEntry>,
+  retentionHours: number,
+  now: number = Date.now(),
+): Set<string> {
+  const expired = new Set<string>();
+  const retentionMs = retentionHours * HOUR;
+  for (const track of tracks) {
+    const entry = entries[track.id];
+    if (entry && now - entry.capturedAt >= retentionMs) {
+      expired.add(track.id);
+    }
+  }
+  return expired;
+}
+
+/**
+ * Форматирует возраст черновика: "только что", "5 мин назад", "2 ч назад", "3 дн назад"
+ */
+export function formatDraftAge(capturedAt: number, now: number = Date.now()): string {
+  const age = Math.max(0, now - capturedAt);
+  if (age < MINUTE) {
+    return 'только что';
+  }
+  if (age < HOUR) {
+    return `${Math.floor(age / MINUTE)} мин назад`;
+  }
+  if (age < 24 * HOUR) {
+    return `${Math.floor(age / HOUR)} ч назад`;
+  }
+  return `${Math.floor(age / (24 * HOUR))} дн назад`;
+}
@@ -0,0 +1,60 @@
+import { ExportConflictPolicy, ExportProgress, ExportResult } from '../../core/types/export';
+
+export const EXPORT_CONFLICT_POLICY_LABELS: Record<ExportConflictPolicy, string> = {
+  overwrite: 'Перезаписать',
+  skip: 'Пропустить',
+  rename: 'Сохранить под новым именем',
+  skipIfIdentical: 'Пропустить, если файл совпадает',
+};
+
+/**
+ * Доля выполненной работы 0..1: по байтам, если стратегия копирует файлы, иначе по файлам
+ */
+export function getExportProgressFraction(progress: ExportProgress): number {
+  const fraction =
+    progress.bytesTotal > 0
+      ? progress.bytesDone / progress.bytesTotal
+      : progress.filesDone / Math.max(progress.filesTotal, 1);
+  return Math.min(Math.max(fraction, 0), 1);
+}
+
+const formatMegabytes = (bytes: number): string => (bytes / (1024 * 1024)).toFixed(1);
+
+/**
+ * Текст прогресса: "3 из 10 файлов, 120.5 из 800.0 МБ"
+ */
+export function formatExportProgress(progress: ExportProgress): string {
+  const files = `${progress.filesDone} из ${progress.filesTotal} файлов`;
+  if (progress.bytesTotal === 0) {
+    return files;
+  }
+  return `${files}, ${formatMegabytes(progress.bytesDone)} из ${formatMegabytes(progress.bytesTotal)} МБ`;
+}
+
+/**
+ * Уведомление по результату экспорта
+ */
+export function getExportResultNotification(result: ExportResult): {
+  type: 'success' | 'warning' | 'info';
+  message: string;
+} {
+  const skipped = result.skipped?.length ?? 0;
+  const parts = [`Экспортировано: ${result.successful.length}`];
+  if (skipped > 0) {
+    parts.push(`пропущено: ${skipped}`);
+  }
+  if (result.failed.length > 0) {
+    parts.push(`ошибок: ${result.failed.length}`);
+  }
+
+  if (result.cancelled) {
+    return { type: 'info', message: `Экспорт отменён. ${parts.join(', ')}` };
+  }
+  if (result.failed.length > 0) {
+    return { type: 'warning', message: parts.join(', ') };
+  }
+  return {
+    type: 'success',
+    message: skipped > 0 ? `Экспорт завершён. ${parts.join(', ')}` : 'Экспорт завершён',
+  };
+}
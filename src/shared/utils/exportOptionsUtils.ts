@@ -0,0 +1,25 @@
+import { ExportOptionDefinition, ExportOptionValues } from '../../core/types/export';
+
+/**
+ * Значения опций стратегии экспорта для формы: сохранённые, если они подходят под схему,
+ * иначе значения по умолчанию (схема могла измениться после обновления или плагина)
+ */
+export function resolveExportOptionValues(
+  definitions: ExportOptionDefinition[],
+  saved: ExportOptionValues = {},
+): ExportOptionValues {
+  const values: ExportOptionValues = {};
+  for (const definition of definitions) {
+    const value = saved[definition.key];
+    if (definition.type === 'boolean') {
+      values[definition.key] = typeof value === 'boolean' ? value : definition.default;
+    } else if (definition.type === 'string') {
+      values[definition.key] = typeof value === 'string' ? value : definition.default;
+    } else {
+      values[definition.key] = definition.choices.some((choice) => choice.value === value)
+        ? (value as string)
+        : definition.default;
+    }
+  }
+  return values;
+}
@@ -6,6 +6,109 @@ export {
   calculateTotalDuration,
   formatPlayerTime,
 } from './durationUtils';
+export { getAudioSourceUrl } from './audioSource';
+export {
+  RULE_LABELS,
+  createRule,
+  evaluateRules,
+  getArtistFromTrackName,
+  normalizeRules,
+} from './rulesUtils';
+export type { RuleEvaluationContext } from './rulesUtils';
+export {
+  ENERGY_CURVE_LABELS,
+  createRandomSeed,
+  createSeededRandom,
+  dedupeCandidates,
+  generatePlaylist,
+  getEnergyTarget,
+} from './autogeneratorUtils';
+export {
+  DRAFT_ORIGIN_LABELS,
+  DRAFT_RETENTION_OPTIONS,
+  formatDraftAge,
+  getExpiredDraftIds,
+} from './draftsUtils';
+export { getCrossfadeGains, getEffectiveCrossfadeDuration } from './crossfadeUtils';
+export type { CrossfadeGains } from './crossfadeUtils';
+export {
+  CUE_POINT_KEYS,
+  getCueEndPosition,
+  getCueFadeGain,
+  getSuggestedCueLevel,
+  getTrimmedDuration,
+  hasCuePoints,
+  resolveCuePoints,
+} from './cueUtils';
+export {
+  MAX_NORMALIZATION_BOOST_DB,
+  MAX_NORMALIZATION_CUT_DB,
+  calculateNormalizationGainDb,
+  dbToGain,
+  getNormalizationGainDb,
+} from './loudnessUtils';
+export type { NormalizationSettings } from './loudnessUtils';
+export {
+  DEFAULT_PLAYBACK,
+  MAX_TEMPO_ADJUSTMENT,
+  applyPlaybackToElement,
+  clampTempoAdjustment,
+  formatTempoAdjustment,
+  getPlaybackDuration,
+  resolveTrackPlayback,
+} from './playbackRateUtils';
+export {
+  DEFAULT_EFFECTS_PRESETS,
+  DEFAULT_HIGH_PASS_FREQUENCY,
+  FLAT_EFFECTS_PRESET_ID,
+  MAX_EQ_BANDS,
+  MAX_EQ_GAIN,
+  MIN_EQ_BANDS,
+  clampEqBandCount,
+  clampEqGain,
+  getEqBandFrequencies,
+  getEqFilterType,
+  isNeutralEffectsPreset,
+  resizeEqBands,
+  resolveEffectsPreset,
+} from './audioEffectsUtils';
+export { resolveExportOptionValues } from './exportOptionsUtils';
+export {
+  EXPORT_CONFLICT_POLICY_LABELS,
+  formatExportProgress,
+  getExportProgressFraction,
+  getExportResultNotification,
+} from './exportJobUtils';
+export { buildMixSegments } from './mixRenderUtils';
+export type { MixTrackSettings } from './mixRenderUtils';
+export { getPlaylistImportWarning } from './playlistImportUtils';
+export {
+  SESSION_LOG_STATUS_LABELS,
+  buildSessionLogRows,
+  formatSessionLogCsv,
+  formatSessionLogJson,
+  formatSessionLogTime,
+  getSessionLogRowDuration,
+} from './sessionLogUtils';
+export type { SessionLogRow, SessionLogSeek, SessionLogTrackStatus } from './sessionLogUtils';
+export {
+  PLUGIN_WORKSPACE_TYPE,
+  getPluginExportStrategies,
+  getPluginTrackActions,
+  getPluginWorkspaceId,
+  parsePluginWorkspaceId,
+} from './pluginUtils';
+export { getWaveformFraction, resampleWaveformPeaks } from './waveformUtils';
+export {
+  formatMusicalKey,
+  formatTempo,
+  getCamelotKey,
+  getMusicalKeyOrder,
+  parseMusicalKey,
+} from './tempoKeyUtils';
+export type { MusicalKey } from './tempoKeyUtils';
+export { TRACK_SORT_FIELD_LABELS, sortTracks } from './trackSortUtils';
+export type { TrackSortDirection, TrackSortField } from './trackSortUtils';
 export { createTrackDraft, createTrackDrafts } from './trackFactory';
 export type { TrackDraft } from './trackFactory';
 export {
@@ -0,0 +1,51 @@
+import type { TrackLoudness } from '../../core/types/analysis';
+
+// Пределы усиления нормализации, чтобы ошибочные теги не давали резких скачков
+export const MAX_NORMALIZATION_BOOST_DB = 12;
+export const MAX_NORMALIZATION_CUT_DB = -24;
+
+/**
+ * Переводит децибелы в линейный коэффициент усиления
+ */
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Вычисляет усиление (дБ) для приведения трека к целевой громкости
+ * Усиление ограничено так, чтобы пик трека не превышал 0 dBFS
+ * Если громкость трека неизвестна, трек воспроизводится без изменений
+ */
+export function calculateNormalizationGainDb(
+  loudness: TrackLoudness | null | undefined,
+  targetLufs: number,
+): number {
+  if (!loudness || loudness.integratedLufs === null || !Number.isFinite(loudness.integratedLufs)) {
+    return 0;
+  }
+
+  let gainDb = targetLufs - loudness.integratedLufs;
+  if (loudness.peak !== null && loudness.peak > 0) {
+    const headroomDb = -20 * Math.log10(loudness.peak);
+    gainDb = Math.min(gainDb, headroomDb);
+  }
+
+  return Math.min(MAX_NORMALIZATION_BOOST_DB, Math.max(MAX_NORMALIZATION_CUT_DB, gainDb));
+}
+
+export interface NormalizationSettings {
+  loudnessNormalization: boolean;
+  targetLoudness: number;
+}
+
+/**
+ * Усиление трека с учётом настроек (0 дБ, если нормализация выключена)
+ */
+export function getNormalizationGainDb(
+  loudness: TrackLoudness | null | undefined,
+  settings: NormalizationSettings,
+): number {
+  return settings.loudnessNormalization
+    ? calculateNormalizationGainDb(loudness, settings.targetLoudness)
+    : 0;
+}
@@ -0,0 +1,80 @@
+import type { MixSegment } from '../../core/types/export';
+import type { Track } from '../../core/types/track';
+import type {
+  ActionAfterTrack,
+  PlayerCuePoints,
+  PlayerTrackPlayback,
+} from '../stores/playerSettingsStore';
+
+import { getEffectiveCrossfadeDuration } from './crossfadeUtils';
+import { getCueEndPosition, getTrimmedDuration } from './cueUtils';
+import { getPlaybackDuration } from './playbackRateUtils';
+
+/**
+ * Итоговые настройки трека плеера, нужные для сведения
+ */
+export interface MixTrackSettings {
+  actionAfterTrack: ActionAfterTrack;
+  pauseBetweenTracks: number;
+  crossfadeDuration: number;
+  cuePoints: PlayerCuePoints;
+  playback: PlayerTrackPlayback;
+}
+
+// Длительность трека в миксе (0 - неизвестна)
+const getMixTrackDuration = (track: Track, settings: MixTrackSettings): number =>
+  getPlaybackDuration(
+    getTrimmedDuration(track.duration || 0, settings.cuePoints),
+    settings.playback,
+  );
+
+/**
+ * Собирает треки плеера в отрезки микса для рендера в один файл
+ *
+ * Отключённые треки пропускаются. Пауза после трека ("pauseAndNext", а также "pause" -
+ * в файле некому продолжить воспроизведение) становится тишиной, кроссфейд - наложением
+ * на следующий трек, ограниченным длительностями обоих треков (как в расчёте общего времени).
+ */
+export function buildMixSegments(
+  tracks: Track[],
+  getSettings: (track: Track) => MixTrackSettings,
+  isTrackDisabled: (trackId: string) => boolean,
+): MixSegment[] {
+  const enabled = tracks
+    .filter((track) => !isTrackDisabled(track.id))
+    .map((track) => ({ track, settings: getSettings(track) }));
+
+  return enabled.map(({ track, settings }, index) => {
+    const duration = track.duration || 0;
+    const { cuePoints, playback } = settings;
+    const next = enabled[index + 1];
+    let gapAfter = 0;
+    let crossfadeAfter = 0;
+
+    if (next) {
+      if (settings.actionAfterTrack === 'pauseAndNext' || settings.actionAfterTrack === 'pause') {
+        gapAfter = Math.max(0, settings.pauseBetweenTracks);
+      } else if (settings.actionAfterTrack === 'crossfade') {
+        const trackDuration = getMixTrackDuration(track, settings);
+        crossfadeAfter = getEffectiveCrossfadeDuration(
+          settings.crossfadeDuration,
+          trackDuration > 0 ? trackDuration : Infinity,
+          getMixTrackDuration(next.track, next.settings),
+        );
+      }
+    }
+
+    return {
+      path: track.path,
+      title: track.name,
+      start: duration > 0 ? Math.min(cuePoints.startOffset, duration) : cuePoints.startOffset,
+      end: duration > 0 ? getCueEndPosition(duration, cuePoints) : null,
+      fadeIn: cuePoints.fadeIn,
+      fadeOut: cuePoints.fadeOut,
+      rate: playback.rate,
+      preservePitch: playback.preservePitch,
+      gapAfter,
+      crossfadeAfter,
+    };
+  });
+}
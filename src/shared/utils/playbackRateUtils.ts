@@ -0,0 +1,60 @@
+import type { PlayerTrackPlayback, PlayerTrackSettings } from '../stores/playerSettingsStore';
+
+// Максимальное изменение темпа трека, % (как у диапазона питч-фейдера ±16%)
+export const MAX_TEMPO_ADJUSTMENT = 16;
+
+export const DEFAULT_PLAYBACK: PlayerTrackPlayback = {
+  rate: 1,
+  preservePitch: true,
+};
+
+/**
+ * Ограничивает изменение темпа допустимым диапазоном (некорректные значения - без изменений)
+ */
+export function clampTempoAdjustment(tempo: number): number {
+  if (!Number.isFinite(tempo)) {
+    return 0;
+  }
+  return Math.min(MAX_TEMPO_ADJUSTMENT, Math.max(-MAX_TEMPO_ADJUSTMENT, tempo));
+}
+
+/**
+ * Скорость воспроизведения трека из его настроек
+ */
+export function resolveTrackPlayback(
+  settings: PlayerTrackSettings | undefined,
+): PlayerTrackPlayback {
+  const tempo = clampTempoAdjustment(settings?.tempo ?? 0);
+  return {
+    rate: 1 + tempo / 100,
+    preservePitch: settings?.preservePitch ?? DEFAULT_PLAYBACK.preservePitch,
+  };
+}
+
+/**
+ * Реальная длительность отрезка трека с учётом скорости воспроизведения
+ */
+export function getPlaybackDuration(duration: number, playback: PlayerTrackPlayback): number {
+  return playback.rate > 0 ? duration / playback.rate : duration;
+}
+
+/**
+ * Форматирует изменение темпа: "+8%", "-2.5%"
+ */
+export function formatTempoAdjustment(tempo: number): string {
+  const rounded = Math.round(tempo * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+}
+
+/**
+ * Применяет скорость воспроизведения к элементу
+ * (defaultPlaybackRate - чтобы скорость сохранилась после загрузки нового источника)
+ */
+export function applyPlaybackToElement(
+  element: HTMLAudioElement,
+  playback: PlayerTrackPlayback,
+): void {
+  element.defaultPlaybackRate = playback.rate;
+  element.playbackRate = playback.rate;
+  element.preservesPitch = playback.preservePitch;
+}
@@ -0,0 +1,202 @@
+import {
+  PLAYER_FILE_VERSION,
+  PlayerFileData,
+  PlayerFileGroup,
+  PlayerFileTrack,
+  PlayerGroup,
+  PlayerItem,
+  isPlayerGroup,
+} from '@core/types/player';
+import { PlaylistRule } from '@core/types/rules';
+import { Track } from '@core/types/track';
+import { PlayerGroupSettings, PlayerTrackSettings } from '@shared/stores/playerSettingsStore';
+
+import { normalizeRules } from './rulesUtils';
+
+/**
+ * Данные плеера, из которых формируется файл .player.json
+ */
+export interface PlayerSnapshot {
+  name: string;
+  items: PlayerItem[];
+  trackSettings: Map<string, PlayerTrackSettings>;
+  groupSettings: Map<string, PlayerGroupSettings>;
+  settings: PlayerFileData['settings'];
+  rules: PlaylistRule[];
+}
+
+/**
+ * Проверяет, что в настройках задано хотя бы одно значение
+ */
+function hasSettings(settings: PlayerTrackSettings | PlayerGroupSettings | undefined): boolean {
+  if (!settings) {
+    return false;
+  }
+  return Object.values(settings).some((value) => value !== null && value !== undefined);
+}
+
+/**
+ * Рекурсивно собирает треки в порядке воспроизведения
+ */
+function collectTracks(items: PlayerItem[], result: Track[] = []): Track[] {
+  for (const item of items) {
+    if (isPlayerGroup(item)) {
+      collectTracks(item.items, result);
+    } else {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+/**
+ * Преобразует группу плеера в группу файла (треки заменяются на ID)
+ */
+function serializeGroup(
+  group: PlayerGroup,
+  groupSettings: Map<string, PlayerGroupSettings>,
+): PlayerFileGroup {
+  const settings = groupSettings.get(group.id) ?? group.settings;
+  return {
+    id: group.id,
+    name: group.name || null,
+    items: group.items.map((item) =>
+      isPlayerGroup(item) ? serializeGroup(item, groupSettings) : item.id,
+    ),
+    ...(hasSettings(settings) ? { settings } : {}),
+  };
+}
+
+/**
+ * Формирует содержимое файла .player.json
+ * Состояние сессии в файл не попадает
+ */
+export function serializePlayerFile(snapshot: PlayerSnapshot): PlayerFileData {
+  const tracks: PlayerFileTrack[] = collectTracks(snapshot.items).map((track) => {
+    const settings = snapshot.trackSettings.get(track.id);
+    return {
+      id: track.id,
+      path: track.path,
+      name: track.name,
+      duration: track.duration,
+      ...(hasSettings(settings) ? { settings } : {}),
+    };
+  });
+
+  const groups = snapshot.items
+    .filter(isPlayerGroup)
+    .map((group) => serializeGroup(group, snapshot.groupSettings));
+
+  return {
+    version: PLAYER_FILE_VERSION,
+    name: snapshot.name,
+    tracks,
+    groups,
+    settings: { ...snapshot.settings },
+    ...(snapshot.rules.length > 0 ? { rules: snapshot.rules } : {}),
+  };
+}
+
+/**
+ * Восстанавливает группу из файла
+ * Отсутствующие треки пропускаются, группы без треков удаляются (возвращается null)
+ */
+function deserializeGroup(
+  fileGroup: PlayerFileGroup,
+  tracksById: Map<string, Track>,
+  usedTrackIds: Set<string>,
+  groupSettings: Map<string, PlayerGroupSettings>,
+): PlayerGroup | null {
+  const items: PlayerItem[] = [];
+
+  for (const entry of fileGroup.items) {
+    if (typeof entry === 'string') {
+      const track = tracksById.get(entry);
+      if (track && !usedTrackIds.has(entry)) {
+        usedTrackIds.add(entry);
+        items.push(track);
+      }
+    } else {
+      const nestedGroup = deserializeGroup(entry, tracksById, usedTrackIds, groupSettings);
+      if (nestedGroup) {
+        items.push(nestedGroup);
+      }
+    }
+  }
+
+  if (collectTracks(items).length === 0) {
+    return null;
+  }
+
+  if (hasSettings(fileGroup.settings)) {
+    groupSettings.set(fileGroup.id, { ...fileGroup.settings });
+  }
+
+  return {
+    id: fileGroup.id,
+    name: fileGroup.name || 'Группа',
+    items,
+  };
+}
+
+/**
+ * Восстанавливает данные плеера из файла .player.json
+ * Корневой порядок определяется порядком треков: группа встает на место своего первого трека
+ */
+export function deserializePlayerFile(data: PlayerFileData): PlayerSnapshot {
+  const trackSettings = new Map<string, PlayerTrackSettings>();
+  const groupSettings = new Map<string, PlayerGroupSettings>();
+  const tracksById = new Map<string, Track>();
+
+  for (const fileTrack of data.tracks) {
+    if (tracksById.has(fileTrack.id)) {
+      continue;
+    }
+    tracksById.set(fileTrack.id, {
+      id: fileTrack.id,
+      path: fileTrack.path,
+      name: fileTrack.name,
+      duration: fileTrack.duration,
+    });
+    if (hasSettings(fileTrack.settings)) {
+      trackSettings.set(fileTrack.id, { ...fileTrack.settings });
+    }
+  }
+
+  // Треки, попавшие в группы, и корневая группа для каждого из них
+  const usedTrackIds = new Set<string>();
+  const rootGroupByTrackId = new Map<string, PlayerGroup>();
+
+  for (const fileGroup of data.groups) {
+    const group = deserializeGroup(fileGroup, tracksById, usedTrackIds, groupSettings);
+    if (group) {
+      for (const track of collectTracks(group.items)) {
+        rootGroupByTrackId.set(track.id, group);
+      }
+    }
+  }
+
+  const items: PlayerItem[] = [];
+  const addedGroupIds = new Set<string>();
+
+  for (const track of tracksById.values()) {
+    const group = rootGroupByTrackId.get(track.id);
+    if (group) {
+      if (!addedGroupIds.has(group.id)) {
+        addedGroupIds.add(group.id);
+        items.push(group);
+      }
+    } else {
+      items.push(track);
+    }
+  }
+
+  return {
+    name: data.name ?? '',
+    items,
+    trackSettings,
+    groupSettings,
+    settings: { ...data.settings },
+    rules: normalizeRules(data.rules),
+  };
+}
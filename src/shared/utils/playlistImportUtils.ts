@@ -0,0 +1,20 @@
+import type { PlaylistData } from '../../types/playlist';
+
+// Сколько ненайденных записей перечислять в уведомлении
+const MAX_LISTED_UNRESOLVED = 3;
+
+/**
+ * Предупреждение о записях импортированного плейлиста (M3U, PLS, XSPF, WPL), для которых не найден файл
+ * @returns null, если все записи найдены
+ */
+export function getPlaylistImportWarning(
+  playlist: Pick<PlaylistData, 'unresolved'>,
+): string | null {
+  const unresolved = playlist.unresolved ?? [];
+  if (unresolved.length === 0) {
+    return null;
+  }
+  const listed = unresolved.slice(0, MAX_LISTED_UNRESOLVED).join(', ');
+  const rest = unresolved.length - MAX_LISTED_UNRESOLVED;
+  return `Не найдено файлов: ${unresolved.length} (${listed}${rest > 0 ? ` и ещё ${rest}` : ''})`;
+}
@@ -0,0 +1,64 @@
+import { PluginInfo } from '../../core/types/plugins';
+
+// Тип зоны, в которой отображается workspace-модуль любого плагина
+export const PLUGIN_WORKSPACE_TYPE = 'plugin';
+
+const PLUGIN_WORKSPACE_PREFIX = 'plugin:';
+
+/**
+ * ID workspace для модуля плагина: "plugin:<plugin>/<module>"
+ */
+export function getPluginWorkspaceId(pluginId: string, moduleId: string): string {
+  return `${PLUGIN_WORKSPACE_PREFIX}${pluginId}/${moduleId}`;
+}
+
+/**
+ * Разбирает ID workspace модуля плагина, возвращает null для обычных workspace
+ */
+export function parsePluginWorkspaceId(
+  workspaceId: string,
+): { pluginId: string; moduleId: string } | null {
+  if (!workspaceId.startsWith(PLUGIN_WORKSPACE_PREFIX)) {
+    return null;
+  }
+  const [pluginId, moduleId, ...rest] = workspaceId
+    .slice(PLUGIN_WORKSPACE_PREFIX.length)
+    .split('/');
+  if (!pluginId || !moduleId || rest.length > 0) {
+    return null;
+  }
+  return { pluginId, moduleId };
+}
+
+/**
+ * Экспортные стратегии загруженных плагинов
+ */
+export function getPluginExportStrategies(
+  plugins: PluginInfo[],
+): Array<{ id: string; label: string; pluginName: string }> {
+  return plugins
+    .filter((plugin) => plugin.loaded)
+    .flatMap((plugin) =>
+      plugin.contributions.exportStrategies.map((strategy) => ({
+        ...strategy,
+        pluginName: plugin.name,
+      })),
+    );
+}
+
+/**
+ * Действия над треками загруженных плагинов
+ */
+export function getPluginTrackActions(
+  plugins: PluginInfo[],
+): Array<{ pluginId: string; actionId: string; label: string }> {
+  return plugins
+    .filter((plugin) => plugin.loaded)
+    .flatMap((plugin) =>
+      plugin.contributions.trackActions.map((action) => ({
+        pluginId: plugin.id,
+        actionId: action.id,
+        label: action.label,
+      })),
+    );
+}
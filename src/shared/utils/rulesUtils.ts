@@ -0,0 +1,248 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { PlaylistRule, PlaylistRuleType, RuleViolation } from '../../core/types/rules';
+import { Track } from '../../core/types/track';
+
+import { formatDuration, formatTrackDuration } from './durationUtils';
+
+export const RULE_LABELS: Record<PlaylistRuleType, string> = {
+  sameArtistDistance: 'Один исполнитель не чаще чем раз в N треков',
+  longTracksInRow: 'Длинные треки подряд',
+  totalDuration: 'Общая длительность не больше лимита',
+  duplicatePaths: 'Без повторов файлов',
+};
+
+/**
+ * Контекст проверки правил
+ */
+export interface RuleEvaluationContext {
+  // Исполнитель трека (по умолчанию - из имени "Исполнитель - Название")
+  getArtist?: (track: Track) => string | null;
+  // Сколько секунд от начала (от now) до окончания трека, null - трек не звучит
+  // (по умолчанию - сумма track.duration по порядку)
+  getTrackEnd?: (track: Track) => number | null;
+  // Плановое время окончания (timestamp) - лимит для totalDuration без maxDuration
+  plannedEndTime?: number | null;
+  now?: number;
+}
+
+/**
+ * Создает правило с параметрами по умолчанию
+ */
+export function createRule(type: PlaylistRuleType): PlaylistRule {
+  const id = uuidv4();
+  switch (type) {
+    case 'sameArtistDistance':
+      return { id, type, enabled: true, minDistance: 3 };
+    case 'longTracksInRow':
+      return { id, type, enabled: true, minDuration: 420, maxInRow: 2 };
+    case 'totalDuration':
+      return { id, type, enabled: true, maxDuration: null };
+    case 'duplicatePaths':
+      return { id, type, enabled: true };
+  }
+}
+
+/**
+ * Извлекает исполнителя из имени трека вида "Исполнитель - Название.mp3"
+ */
+export function getArtistFromTrackName(name: string): string | null {
+  const separatorIndex = name.indexOf(' - ');
+  if (separatorIndex <= 0) {
+    return null;
+  }
+  const artist = name.slice(0, separatorIndex).trim();
+  return artist || null;
+}
+
+/**
+ * Нормализует путь для сравнения (разделители и регистр)
+ */
+function normalizePathForCompare(filePath: string): string {
+  return filePath.replace(/\\/g, '/').toLowerCase();
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Проверяет и нормализует правила, прочитанные из файла
+ * Неизвестные и некорректные правила отбрасываются
+ */
+export function normalizeRules(value: unknown): PlaylistRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const rules: PlaylistRule[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') {
+      continue;
+    }
+    const candidate = raw as Record<string, unknown>;
+    const id = typeof candidate.id === 'string' && candidate.id ? candidate.id : uuidv4();
+    const enabled = candidate.enabled !== false;
+
+    switch (candidate.type) {
+      case 'sameArtistDistance':
+        if (isPositiveNumber(candidate.minDistance)) {
+          rules.push({
+            id,
+            type: 'sameArtistDistance',
+            enabled,
+            minDistance: candidate.minDistance,
+          });
+        }
+        break;
+      case 'longTracksInRow':
+        if (isPositiveNumber(candidate.minDuration) && isPositiveNumber(candidate.maxInRow)) {
+          rules.push({
+            id,
+            type: 'longTracksInRow',
+            enabled,
+            minDuration: candidate.minDuration,
+            maxInRow: candidate.maxInRow,
+          });
+        }
+        break;
+      case 'totalDuration':
+        rules.push({
+          id,
+          type: 'totalDuration',
+          enabled,
+          maxDuration: isPositiveNumber(candidate.maxDuration) ? candidate.maxDuration : null,
+        });
+        break;
+      case 'duplicatePaths':
+        rules.push({ id, type: 'duplicatePaths', enabled });
+        break;
+      default:
+        break;
+    }
+  }
+  return rules;
+}
+
+/**
+ * Проверяет треки на соответствие правилам
+ * Возвращает нарушения, сгруппированные по ID трека (в порядке правил)
+ */
+export function evaluateRules(
+  tracks: Track[],
+  rules: PlaylistRule[],
+  context: RuleEvaluationContext = {},
+): Map<string, RuleViolation[]> {
+  const violations = new Map<string, RuleViolation[]>();
+  const getArtist = context.getArtist ?? ((track: Track) => getArtistFromTrackName(track.name));
+
+  const addViolation = (rule: PlaylistRule, trackId: string, message: string) => {
+    const list = violations.get(trackId);
+    const violation: RuleViolation = { ruleId: rule.id, ruleType: rule.type, trackId, message };
+    if (list) {
+      list.push(violation);
+    } else {
+      violations.set(trackId, [violation]);
+    }
+  };
+
+  for (const rule of rules) {
+    if (!rule.enabled) {
+      continue;
+    }
+
+    switch (rule.type) {
+      case 'sameArtistDistance': {
+        const lastIndexByArtist = new Map<string, number>();
+        tracks.forEach((track, index) => {
+          const artist = getArtist(track);
+          if (!artist) {
+            return;
+          }
+          const key = artist.toLowerCase();
+          const previousIndex = lastIndexByArtist.get(key);
+          if (previousIndex !== undefined && index - previousIndex <= rule.minDistance) {
+            addViolation(
+              rule,
+              track.id,
+              `Исполнитель «${artist}» уже был ${index - previousIndex} тр. назад (минимум через ${rule.minDistance})`,
+            );
+          }
+          lastIndexByArtist.set(key, index);
+        });
+        break;
+      }
+
+      case 'longTracksInRow': {
+        let runLength = 0;
+        for (const track of tracks) {
+          if ((track.duration || 0) > rule.minDuration) {
+            runLength++;
+            if (runLength > rule.maxInRow) {
+              addViolation(
+                rule,
+                track.id,
+                `Больше ${rule.maxInRow} треков длиннее ${formatTrackDuration(rule.minDuration)} подряд`,
+              );
+            }
+          } else {
+            runLength = 0;
+          }
+        }
+        break;
+      }
+
+      case 'totalDuration': {
+        let limit = rule.maxDuration;
+        if (
+          limit === null &&
+          context.plannedEndTime !== null &&
+          context.plannedEndTime !== undefined
+        ) {
+          const now = context.now ?? Date.now();
+          limit = Math.max(0, (context.plannedEndTime - now) / 1000);
+        }
+        if (limit === null) {
+          break;
+        }
+
+        let accumulated = 0;
+        for (const track of tracks) {
+          let trackEnd: number | null;
+          if (context.getTrackEnd) {
+            trackEnd = context.getTrackEnd(track);
+          } else {
+            accumulated += track.duration || 0;
+            trackEnd = accumulated;
+          }
+          if (trackEnd !== null && trackEnd > limit) {
+            addViolation(
+              rule,
+              track.id,
+              rule.maxDuration !== null
+                ? `Превышена общая длительность (лимит ${formatDuration(rule.maxDuration)})`
+                : 'Трек заканчивается после планового времени окончания',
+            );
+          }
+        }
+        break;
+      }
+
+      case 'duplicatePaths': {
+        const firstIndexByPath = new Map<string, number>();
+        tracks.forEach((track, index) => {
+          const key = normalizePathForCompare(track.path);
+          const firstIndex = firstIndexByPath.get(key);
+          if (firstIndex !== undefined) {
+            addViolation(rule, track.id, `Файл уже есть в списке (позиция ${firstIndex + 1})`);
+          } else {
+            firstIndexByPath.set(key, index);
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,221 @@
+import type { SessionLogEndReason, SessionLogEntry } from '../stores/playerSessionLogStore';
+
+import { getArtistFromTrackName } from './rulesUtils';
+
+export type SessionLogTrackStatus = 'played' | 'skipped' | 'stopped' | 'disabled' | 'unfinished';
+
+export const SESSION_LOG_STATUS_LABELS: Record<SessionLogTrackStatus, string> = {
+  played: 'Сыграно',
+  skipped: 'Пропущено',
+  stopped: 'Остановлено',
+  disabled: 'Отключено',
+  unfinished: 'Не завершено',
+};
+
+const END_REASON_STATUS: Record<SessionLogEndReason, SessionLogTrackStatus> = {
+  ended: 'played',
+  skipped: 'skipped',
+  stopped: 'stopped',
+};
+
+export interface SessionLogSeek {
+  time: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Строка отчёта: одно проигрывание (или пропуск отключённого) трека
+ */
+export interface SessionLogRow {
+  sessionStartTime: number | null;
+  trackId: string;
+  trackName: string;
+  trackPath: string;
+  artist: string | null;
+  startedAt: number | null; // null - трек отключён и не звучал
+  endedAt: number | null; // null - окончание не записано (приложение закрылось во время трека)
+  status: SessionLogTrackStatus;
+  deviceId: string | null;
+  seeks: SessionLogSeek[];
+}
+
+/**
+ * Собирает из событий журнала строки отчёта по трекам
+ */
+export function buildSessionLogRows(entries: SessionLogEntry[]): SessionLogRow[] {
+  const rows: SessionLogRow[] = [];
+  let openRow: SessionLogRow | null = null;
+
+  const closeOpenRow = (time: number | null, status: SessionLogTrackStatus) => {
+    if (openRow) {
+      openRow.endedAt = time;
+      openRow.status = status;
+      openRow = null;
+    }
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'trackStart': {
+        // Начало без окончания: запись прервалась (например, приложение было закрыто)
+        closeOpenRow(null, 'unfinished');
+        const trackName = entry.trackName ?? '';
+        openRow = {
+          sessionStartTime: entry.sessionStartTime,
+          trackId: entry.trackId ?? '',
+          trackName,
+          trackPath: entry.trackPath ?? '',
+          artist: getArtistFromTrackName(trackName),
+          startedAt: entry.time,
+          endedAt: null,
+          status: 'unfinished',
+          deviceId: entry.deviceId ?? null,
+          seeks: [],
+        };
+        rows.push(openRow);
+        break;
+      }
+      case 'trackEnd':
+        if (openRow && openRow.trackId === entry.trackId) {
+          closeOpenRow(entry.time, END_REASON_STATUS[entry.reason ?? 'ended']);
+        }
+        break;
+      case 'seek':
+        if (openRow && openRow.trackId === entry.trackId) {
+          openRow.seeks.push({ time: entry.time, from: entry.from ?? 0, to: entry.to ?? 0 });
+        }
+        break;
+      case 'trackDisabled': {
+        const trackName = entry.trackName ?? '';
+        rows.push({
+          sessionStartTime: entry.sessionStartTime,
+          trackId: entry.trackId ?? '',
+          trackName,
+          trackPath: entry.trackPath ?? '',
+          artist: getArtistFromTrackName(trackName),
+          startedAt: null,
+          endedAt: null,
+          status: 'disabled',
+          deviceId: null,
+          seeks: [],
+        });
+        break;
+      }
+      case 'sessionStart':
+        closeOpenRow(null, 'unfinished');
+        break;
+      case 'sessionEnd':
+        closeOpenRow(entry.time, 'stopped');
+        break;
+    }
+  }
+
+  return rows;
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Локальные дата и время "YYYY-MM-DD HH:MM:SS"
+ */
+export function formatSessionLogTime(timestamp: number | null): string {
+  if (timestamp === null) {
+    return '';
+  }
+  const date = new Date(timestamp);
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Сколько секунд трек звучал (с учётом перемоток - время по часам, а не по позиции)
+ */
+export function getSessionLogRowDuration(row: SessionLogRow): number | null {
+  if (row.startedAt === null || row.endedAt === null) {
+    return null;
+  }
+  return Math.max(0, Math.round((row.endedAt - row.startedAt) / 1000));
+}
+
+const escapeCsvValue = (value: string): string =>
+  /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV отчёта (разделитель ";" - файл открывается в Excel с русской локалью)
+ * @param deviceLabels - названия устройств вывода по ID
+ */
+export function formatSessionLogCsv(
+  rows: SessionLogRow[],
+  deviceLabels: Record<string, string> = {},
+): string {
+  const header = [
+    'Сессия',
+    'Начало',
+    'Окончание',
+    'Длительность (с)',
+    'Статус',
+    'Исполнитель',
+    'Трек',
+    'Файл',
+    'Устройство',
+    'Перемотки',
+  ];
+  const lines = rows.map((row) => {
+    const duration = getSessionLogRowDuration(row);
+    const device = row.deviceId ? (deviceLabels[row.deviceId] ?? row.deviceId) : '';
+    const seeks = row.seeks
+      .map((seek) => `${Math.round(seek.from)}→${Math.round(seek.to)}`)
+      .join(', ');
+    return [
+      formatSessionLogTime(row.sessionStartTime),
+      formatSessionLogTime(row.startedAt),
+      formatSessionLogTime(row.endedAt),
+      duration === null ? '' : String(duration),
+      SESSION_LOG_STATUS_LABELS[row.status],
+      row.artist ?? '',
+      row.trackName,
+      row.trackPath,
+      device,
+      seeks,
+    ]
+      .map(escapeCsvValue)
+      .join(';');
+  });
+  return [header.join(';'), ...lines].join('\r\n');
+}
+
+/**
+ * JSON отчёта: строки по трекам с ISO-временем и исходные события журнала
+ */
+export function formatSessionLogJson(
+  rows: SessionLogRow[],
+  entries: SessionLogEntry[],
+  deviceLabels: Record<string, string> = {},
+): string {
+  const toIso = (timestamp: number | null) =>
+    timestamp === null ? null : new Date(timestamp).toISOString();
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      tracks: rows.map((row) => ({
+        session: toIso(row.sessionStartTime),
+        trackId: row.trackId,
+        name: row.trackName,
+        artist: row.artist,
+        path: row.trackPath,
+        startedAt: toIso(row.startedAt),
+        endedAt: toIso(row.endedAt),
+        duration: getSessionLogRowDuration(row),
+        status: row.status,
+        device: row.deviceId ? (deviceLabels[row.deviceId] ?? row.deviceId) : null,
+        seeks: row.seeks.map((seek) => ({ ...seek, time: toIso(seek.time) })),
+      })),
+      events: entries,
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,96 @@
+const NOTE_OFFSETS: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+const SHARP_NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// "A", "C#m", "Bbm", "F# minor", "Ebmaj", "A min"
+const NOTE_KEY_PATTERN = /^([A-G])([#♯b♭]?)\s*(m|min|minor|maj|major)?$/i;
+// Camelot: "8A" (минор), "8B" (мажор)
+const CAMELOT_KEY_PATTERN = /^(1[0-2]|[1-9])([AB])$/i;
+
+export interface MusicalKey {
+  tonic: number; // Высота тоники: 0 = C, 1 = C#, ... 11 = B
+  isMinor: boolean;
+}
+
+/**
+ * Разбирает тональность из тега или анализа (нотное обозначение или Camelot)
+ * @returns null, если формат не распознан
+ */
+export function parseMusicalKey(value: string | null | undefined): MusicalKey | null {
+  const text = value?.trim() ?? '';
+
+  const camelot = CAMELOT_KEY_PATTERN.exec(text);
+  if (camelot) {
+    const number = Number(camelot[1]);
+    const isMinor = camelot[2].toUpperCase() === 'A';
+    // 8B = C мажор, каждый шаг по кругу - квинта; минор - параллельный мажору номера
+    const majorTonic = ((((number - 8) * 7) % 12) + 12) % 12;
+    return { tonic: isMinor ? (majorTonic + 9) % 12 : majorTonic, isMinor };
+  }
+
+  const note = NOTE_KEY_PATTERN.exec(text);
+  if (!note) {
+    return null;
+  }
+  const accidental = note[2] === '#' || note[2] === '♯' ? 1 : note[2] ? -1 : 0;
+  const quality = note[3]?.toLowerCase();
+  const isMinor = quality === 'm' || quality === 'min' || quality === 'minor';
+  return {
+    tonic: (NOTE_OFFSETS[note[1].toUpperCase()] + accidental + 12) % 12,
+    isMinor,
+  };
+}
+
+/**
+ * Код тональности по кругу Camelot ("8A" = A минор, "8B" = C мажор)
+ */
+export function getCamelotKey(value: string | null | undefined): string | null {
+  const key = parseMusicalKey(value);
+  if (!key) {
+    return null;
+  }
+  const majorTonic = key.isMinor ? (key.tonic + 3) % 12 : key.tonic;
+  const number = ((((majorTonic * 7) % 12) + 7) % 12) + 1;
+  return `${number}${key.isMinor ? 'A' : 'B'}`;
+}
+
+/**
+ * Порядковый номер тональности для сортировки: по кругу Camelot, минор перед мажором
+ */
+export function getMusicalKeyOrder(value: string | null | undefined): number | undefined {
+  const camelot = getCamelotKey(value);
+  if (!camelot) {
+    return undefined;
+  }
+  const number = Number(camelot.slice(0, -1));
+  return number * 2 + (camelot.endsWith('B') ? 1 : 0);
+}
+
+/**
+ * Нормализованное название тональности ("Bbm" -> "A#m"); нераспознанное значение - как есть
+ */
+export function formatMusicalKey(value: string | null | undefined): string {
+  const key = parseMusicalKey(value);
+  if (!key) {
+    return value?.trim() ?? '';
+  }
+  return `${SHARP_NOTE_NAMES[key.tonic]}${key.isMinor ? 'm' : ''}`;
+}
+
+/**
+ * Темп для колонки списка: целое без дробной части, иначе один знак
+ */
+export function formatTempo(bpm: number | null | undefined): string {
+  if (bpm === null || bpm === undefined || !Number.isFinite(bpm) || bpm <= 0) {
+    return '';
+  }
+  return Number.isInteger(bpm) ? String(bpm) : bpm.toFixed(1);
+}
@@ -0,0 +1,57 @@
+import { Track } from '../../core/types/track';
+
+import { getMusicalKeyOrder } from './tempoKeyUtils';
+
+export type TrackSortField = 'name' | 'duration' | 'bpm' | 'key';
+export type TrackSortDirection = 'asc' | 'desc';
+
+export const TRACK_SORT_FIELD_LABELS: Record<TrackSortField, string> = {
+  name: 'Название',
+  duration: 'Длительность',
+  bpm: 'BPM',
+  key: 'Тональность',
+};
+
+/**
+ * Сортирует треки плейлиста (тональности - по кругу Camelot)
+ * Треки без значения в поле сортировки всегда идут в конце, порядок равных сохраняется
+ */
+export function sortTracks<T extends Track>(
+  tracks: T[],
+  field: TrackSortField,
+  direction: TrackSortDirection,
+): T[] {
+  const multiplier = direction === 'asc' ? 1 : -1;
+
+  const getValue = (track: T): string | number | undefined => {
+    switch (field) {
+      case 'name':
+        return track.name || undefined;
+      case 'duration':
+        return track.duration || undefined;
+      case 'bpm':
+        return track.bpm || undefined;
+      case 'key':
+        return getMusicalKeyOrder(track.key);
+    }
+  };
+
+  return [...tracks].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+
+    if (valueA === undefined) {
+      return valueB === undefined ? 0 : 1;
+    }
+    if (valueB === undefined) {
+      return -1;
+    }
+
+    if (typeof valueA === 'number' && typeof valueB === 'number') {
+      return (valueA - valueB) * multiplier;
+    }
+    return (
+      String(valueA).localeCompare(String(valueB), undefined, { sensitivity: 'base' }) * multiplier
+    );
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Утилиты отрисовки формы волны трека
+ */
+
+/**
+ * Приводит пики к нужному количеству столбцов
+ * При уменьшении берётся максимум по отрезку, чтобы не терять короткие пики
+ */
+export function resampleWaveformPeaks(peaks: number[], barCount: number): number[] {
+  const count = Math.max(0, Math.floor(barCount));
+  if (peaks.length === 0 || count === 0) {
+    return [];
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = Math.floor((index * peaks.length) / count);
+    const end = Math.max(start + 1, Math.floor(((index + 1) * peaks.length) / count));
+    let max = 0;
+    for (let i = start; i < end && i < peaks.length; i++) {
+      max = Math.max(max, peaks[i]);
+    }
+    return Math.min(1, max);
+  });
+}
+
+/**
+ * Переводит координату клика по форме волны в долю длительности (0..1)
+ */
+export function getWaveformFraction(offsetX: number, width: number): number {
+  if (!Number.isFinite(offsetX) || !Number.isFinite(width) || width <= 0) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, offsetX / width));
+}
@@ -1,3 +1,5 @@
+import { PlaylistRule } from '../core/types/rules';
+
 /**
  * Playlist data structure for JSON serialization
  */
@@ -8,6 +10,8 @@ export interface PlaylistData {
     name: string;
     duration?: number;
   }>;
+  rules?: PlaylistRule[]; // Правила (Rules workspace), необязательное поле
+  unresolved?: string[]; // Импорт M3U/PLS/XSPF/WPL: записи, для которых не найден файл
 }
 
 /**
@@ -20,4 +24,5 @@ export interface PlaylistFile {
     name: string;
     duration?: number;
   }>;
+  rules?: PlaylistRule[]; // Правила (Rules workspace), необязательное поле
 }
@@ -0,0 +1,312 @@
+import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh';
+import AutorenewIcon from '@mui/icons-material/Autorenew';
+import CasinoIcon from '@mui/icons-material/Casino';
+import ClearIcon from '@mui/icons-material/Clear';
+import CreateNewFolderIcon from '@mui/icons-material/CreateNewFolder';
+import UndoIcon from '@mui/icons-material/Undo';
+import React, { useCallback, useEffect, useMemo } from 'react';
+
+import { DEFAULT_PLAYER_WORKSPACE_ID } from '@core/constants/workspace';
+import { EnergyCurve } from '@core/types/autogenerator';
+import { WorkspaceId } from '@core/types/workspace';
+import { ipcService } from '@shared/services';
+import { useAutogeneratorStore, useLibraryStore, useUIStore } from '@shared/stores';
+import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
+import { ENERGY_CURVE_LABELS, createRandomSeed, formatDuration } from '@shared/utils';
+
+interface AutogeneratorViewProps {
+  workspaceId: WorkspaceId;
+  zoneId: string;
+}
+
+interface WorkspaceOption {
+  id: WorkspaceId;
+  name: string;
+}
+
+const ENERGY_CURVES = Object.keys(ENERGY_CURVE_LABELS) as EnergyCurve[];
+
+/**
+ * Преобразует значение поля ввода в неотрицательное число или null
+ */
+function parseNonNegative(value: string): number | null {
+  const parsed = Number(value);
+  return value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export const AutogeneratorView: React.FC<AutogeneratorViewProps> = () => {
+  const {
+    sources,
+    targetWorkspaceId,
+    options,
+    recentSeeds,
+    isGenerating,
+    lastResult,
+    toggleSourceWorkspace,
+    addSourceFolder,
+    removeSourceFolder,
+    setTargetWorkspace,
+    setOptions,
+    setGenreWeight,
+    generate,
+  } = useAutogeneratorStore();
+  // Генерация в плеер - шаг истории плеера
+  const canUndoPlayer = usePlayerItemsStore((state) => state.canUndo);
+  const undoPlayer = usePlayerItemsStore((state) => state.undo);
+  const workspaces = useUIStore((state) => state.workspaces);
+  const { tracks: libraryTracks, isLoaded, isLoading, loadLibrary } = useLibraryStore();
+
+  // Жанры и теги берутся из индекса библиотеки
+  useEffect(() => {
+    if (!isLoaded && !isLoading) {
+      loadLibrary();
+    }
+  }, [isLoaded, isLoading, loadLibrary]);
+
+  const trackWorkspaces = useMemo<WorkspaceOption[]>(
+    () =>
+      workspaces
+        .filter((workspace) => workspace.type === 'playlist' || workspace.type === 'collection')
+        .map((workspace) => ({ id: workspace.id, name: workspace.name })),
+    [workspaces],
+  );
+
+  const targets = useMemo<WorkspaceOption[]>(() => {
+    const result = [...trackWorkspaces, { id: DEFAULT_PLAYER_WORKSPACE_ID, name: 'Плеер' }];
+    if (!result.some((target) => target.id === targetWorkspaceId)) {
+      result.push({ id: targetWorkspaceId, name: targetWorkspaceId });
+    }
+    return result;
+  }, [trackWorkspaces, targetWorkspaceId]);
+
+  const genres = useMemo(() => {
+    const set = new Set<string>();
+    for (const track of libraryTracks) {
+      if (track.genre) {
+        set.add(track.genre);
+      }
+    }
+    for (const genre of Object.keys(options.genreMix)) {
+      set.add(genre);
+    }
+    return Array.from(set).sort((a, b) => a.localeCompare(b));
+  }, [libraryTracks, options.genreMix]);
+
+  const handleAddFolder = useCallback(async () => {
+    const path = await ipcService.showFolderDialog({ title: 'Добавить папку-источник' });
+    if (path) {
+      addSourceFolder(path);
+    }
+  }, [addSourceFolder]);
+
+  const hasSources = sources.workspaceIds.length > 0 || sources.folders.length > 0;
+  const isPlayerTarget = targetWorkspaceId === DEFAULT_PLAYER_WORKSPACE_ID;
+
+  return (
+    <div className="playlist-view autogenerator-view">
+      <div className="playlist-header-section">
+        <div className="playlist-header-row">
+          <div className="autogenerator-title">
+            <AutoFixHighIcon style={{ fontSize: '20px', marginRight: '6px' }} />
+            <span>Автогенератор</span>
+          </div>
+          <div className="playlist-header-actions">
+            <button
+              onClick={() => generate()}
+              className="playlist-header-action-icon"
+              disabled={isGenerating || !hasSources}
+              title={`Сгенерировать (seed ${options.seed})`}
+            >
+              <AutorenewIcon style={{ fontSize: '20px' }} />
+            </button>
+            <button
+              onClick={() => generate(createRandomSeed())}
+              className="playlist-header-action-icon"
+              disabled={isGenerating || !hasSources}
+              title="Сгенерировать с новым seed"
+            >
+              <CasinoIcon style={{ fontSize: '20px' }} />
+            </button>
+            {isPlayerTarget && canUndoPlayer && (
+              <button
+                onClick={undoPlayer}
+                className="playlist-header-action-icon"
+                disabled={isGenerating}
+                title="Отменить генерацию в плеер (Ctrl+Z)"
+              >
+                <UndoIcon style={{ fontSize: '20px' }} />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="playlist-stats-header">
+          <span>
+            {isGenerating
+              ? 'Генерация...'
+              : lastResult
+                ? `${lastResult.tracks.length} тр., ${formatDuration(lastResult.totalDuration)} (seed ${lastResult.seed})`
+                : 'Результата пока нет'}
+          </span>
+        </div>
+      </div>
+
+      <div className="autogenerator-body">
+        <section className="autogenerator-section">
+          <div className="autogenerator-section-header">
+            <span>Источники</span>
+            <button
+              onClick={handleAddFolder}
+              className="playlist-header-action-icon"
+              title="Добавить папку-источник"
+            >
+              <CreateNewFolderIcon style={{ fontSize: '18px' }} />
+            </button>
+          </div>
+          {trackWorkspaces.map((workspace) => (
+            <label key={workspace.id} className="autogenerator-checkbox">
+              <input
+                type="checkbox"
+                checked={sources.workspaceIds.includes(workspace.id)}
+                onChange={() => toggleSourceWorkspace(workspace.id)}
+              />
+              <span>{workspace.name}</span>
+            </label>
+          ))}
+          {sources.folders.length > 0 && (
+            <div className="autogenerator-folders">
+              {sources.folders.map((folder) => (
+                <span key={folder} className="autogenerator-folder-chip" title={folder}>
+                  <span className="autogenerator-folder-chip-label">{folder}</span>
+                  <button
+                    onClick={() => removeSourceFolder(folder)}
+                    className="autogenerator-folder-chip-remove"
+                    title="Убрать папку"
+                  >
+                    <ClearIcon style={{ fontSize: '14px' }} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="autogenerator-section">
+          <div className="autogenerator-section-header">
+            <span>Параметры</span>
+          </div>
+          <label className="autogenerator-field">
+            <span>Результат в</span>
+            <select value={targetWorkspaceId} onChange={(e) => setTargetWorkspace(e.target.value)}>
+              {targets.map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="autogenerator-field">
+            <span>Длительность (мин)</span>
+            <input
+              type="number"
+              min={1}
+              value={Math.round(options.targetDuration / 60)}
+              onChange={(e) => {
+                const value = parseNonNegative(e.target.value);
+                if (value !== null && value > 0) {
+                  setOptions({ targetDuration: Math.round(value * 60) });
+                }
+              }}
+            />
+          </label>
+          <label className="autogenerator-field">
+            <span>Seed</span>
+            <input
+              type="number"
+              min={0}
+              value={options.seed}
+              onChange={(e) => {
+                const value = parseNonNegative(e.target.value);
+                if (value !== null) {
+                  setOptions({ seed: Math.floor(value) });
+                }
+              }}
+            />
+          </label>
+          <label className="autogenerator-field">
+            <span>Энергия (по BPM)</span>
+            <select
+              value={options.energyCurve}
+              onChange={(e) => setOptions({ energyCurve: e.target.value as EnergyCurve })}
+            >
+              {ENERGY_CURVES.map((curve) => (
+                <option key={curve} value={curve}>
+                  {ENERGY_CURVE_LABELS[curve]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="autogenerator-checkbox">
+            <input
+              type="checkbox"
+              checked={options.noRepeats}
+              onChange={(e) => setOptions({ noRepeats: e.target.checked })}
+            />
+            <span>Без повторов</span>
+          </label>
+        </section>
+
+        {genres.length > 0 && (
+          <section className="autogenerator-section">
+            <div className="autogenerator-section-header">
+              <span>Микс жанров (вес, 0 - не учитывать)</span>
+            </div>
+            {genres.map((genre) => (
+              <label key={genre} className="autogenerator-field">
+                <span>{genre}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={options.genreMix[genre] ?? 0}
+                  onChange={(e) => {
+                    const value = parseNonNegative(e.target.value);
+                    if (value !== null) {
+                      setGenreWeight(genre, value);
+                    }
+                  }}
+                />
+              </label>
+            ))}
+          </section>
+        )}
+
+        {recentSeeds.length > 0 && (
+          <section className="autogenerator-section">
+            <div className="autogenerator-section-header">
+              <span>Последние seed</span>
+            </div>
+            <div className="autogenerator-folders">
+              {recentSeeds.map((seed) => (
+                <button
+                  key={seed}
+                  className="autogenerator-seed-chip"
+                  onClick={() => generate(seed)}
+                  disabled={isGenerating || !hasSources}
+                  title="Повторить генерацию с этим seed"
+                >
+                  {seed}
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <p className="empty-state-hint">
+          {isPlayerTarget
+            ? 'В плеере результат добавляется группой; перегенерация заменяет эту группу'
+            : 'Перегенерация заменяет треки целиком и отменяется через Ctrl+Z'}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { IWorkspaceModule } from '@core/interfaces';
+import { workspaceRegistry } from '@core/registry';
+import { WorkspaceId } from '@core/types/workspace';
+
+import { AutogeneratorView } from './AutogeneratorView';
+
+// Autogenerator workspace builds a playlist to a target duration (single instance per layout zone)
+const AutogeneratorModule: IWorkspaceModule = {
+  id: 'autogenerator-placeholder' as WorkspaceId,
+  type: 'autogenerator',
+  name: 'Autogenerator',
+  component: AutogeneratorView,
+};
+
+// Register the module
+workspaceRegistry.register(AutogeneratorModule);
+
+export { AutogeneratorView };
+export default AutogeneratorModule;
@@ -2,6 +2,7 @@
 import ClearIcon from '@mui/icons-material/Clear';
 import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
 import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
 import ListIcon from '@mui/icons-material/List';
 import SelectAllIcon from '@mui/icons-material/SelectAll';
 import TimerIcon from '@mui/icons-material/Timer';
@@ -9,11 +10,28 @@ import React, { useCallback, useEffect, useRef, useState } from 'react';
 
 import { Track } from '@core/types/track';
 import { WorkspaceId } from '@core/types/workspace';
-import { PlaylistItem } from '@shared/components';
-import { useTrackWorkspaceDragAndDrop, useTrackDuration } from '@shared/hooks';
-import { exportService, fileService, ipcService, playlistService } from '@shared/services';
-import { useDemoPlayerStore, ensureTrackWorkspaceStore, useUIStore } from '@shared/stores';
-import { formatDuration, logger } from '@shared/utils';
+import { PlaylistItem, PluginTrackActions, TrackSortSelect } from '@shared/components';
+import {
+  useRuleViolations,
+  useTrackWorkspaceDragAndDrop,
+  useTrackDuration,
+  useTrackTempoKey,
+} from '@shared/hooks';
+import {
+  PLAYLIST_OPEN_FILTERS,
+  exportService,
+  fileService,
+  ipcService,
+  playlistService,
+} from '@shared/services';
+import {
+  useDemoPlayerStore,
+  ensureTrackWorkspaceStore,
+  useRulesStore,
+  useSettingsStore,
+  useUIStore,
+} from '@shared/stores';
+import { formatDuration, getPlaylistImportWarning, logger, normalizeRules } from '@shared/utils';
 
 interface CollectionViewProps {
   workspaceId: WorkspaceId;
@@ -54,6 +72,8 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
     redo,
     selectRange,
     updateTrackDuration,
+    updateTrackTempoKey,
+    sortTracks,
   } = collectionStore();
 
   const resolveTrackByPath = useCallback(
@@ -70,6 +90,14 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
     onDurationResolved: updateTrackDuration,
   });
 
+  useTrackTempoKey({
+    tracks,
+    isAudioFile: fileService.isValidAudioFile.bind(fileService),
+    onTempoKeyResolved: updateTrackTempoKey,
+  });
+
+  const showTempoKeyColumns = useSettingsStore((state) => state.showTempoKeyColumns);
+
   const {
     currentTrack: activeTrack,
     status: playerStatus,
@@ -122,6 +150,8 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
     loadFolderTracks: ipcService.findAudioFilesRecursive.bind(ipcService),
   });
 
+  const ruleViolations = useRuleViolations(workspaceId, tracks);
+
   // Обработка горячих клавиш для undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -180,10 +210,39 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
         name: track.name,
         duration: track.duration,
       })),
+      rules: useRulesStore.getState().getRules(workspaceId),
     };
     await playlistService.savePlaylist(path, playlistData);
     addNotification({ type: 'success', message: 'Коллекция экспортирована в JSON' });
-  }, [addNotification, name, tracks]);
+  }, [addNotification, name, tracks, workspaceId]);
+
+  // Импорт заменяет содержимое коллекции (JSON, M3U/M3U8, PLS, XSPF, WPL)
+  const handleImportPlaylist = useCallback(async () => {
+    try {
+      const path = await ipcService.showOpenFileDialog({
+        title: 'Импортировать плейлист в коллекцию',
+        filters: PLAYLIST_OPEN_FILTERS,
+      });
+      if (!path) {
+        return;
+      }
+
+      const playlist = await playlistService.loadPlaylist(path);
+      collectionStoreRef.current.getState().loadFromJSON(playlist);
+      // Правила есть только в собственном JSON - у импортированных форматов правила коллекции сохраняются
+      if (playlist.rules) {
+        useRulesStore.getState().setRules(workspaceId, normalizeRules(playlist.rules));
+      }
+      const warning = getPlaylistImportWarning(playlist);
+      addNotification(
+        warning
+          ? { type: 'warning', message: `Плейлист импортирован. ${warning}` }
+          : { type: 'success', message: 'Плейлист импортирован' },
+      );
+    } catch (error) {
+      addNotification({ type: 'error', message: `Ошибка импорта: ${(error as Error).message}` });
+    }
+  }, [addNotification, workspaceId]);
 
   const handleCopyTracks = useCallback(async () => {
     setExportMenuOpen(false);
@@ -199,7 +258,7 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
     if (result.failed.length === 0) {
       addNotification({
         type: 'success',
-        message: `Треки скопированы в папку: ${result.folderPath}`,
+        message: `Треки скопированы в папку: ${result.outputPath}`,
       });
     } else {
       addNotification({
@@ -231,8 +290,12 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
           />
           {tracks.length > 0 && (
             <div className="playlist-header-actions">
+              {tracks.length > 1 && <TrackSortSelect onSort={sortTracks} />}
               {hasSelectedTracks ? (
                 <>
+                  <PluginTrackActions
+                    tracks={tracks.filter((track) => selectedTrackIds.has(track.id))}
+                  />
                   <button
                     onClick={deselectAll}
                     className="playlist-header-action-icon"
@@ -274,6 +337,13 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
               </div>
             </div>
           )}
+          <button
+            onClick={handleImportPlaylist}
+            className="playlist-header-action-icon"
+            title="Импортировать плейлист (JSON, M3U, PLS, XSPF, WPL)"
+          >
+            <FileUploadIcon style={{ fontSize: '20px' }} />
+          </button>
         </div>
         <div className="playlist-stats-header">
           <ListIcon style={{ fontSize: '18px', marginRight: '4px' }} />
@@ -354,6 +424,7 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
                       }
                     }}
                     onRemove={removeTrack}
+                    warnings={ruleViolations.get(track.id)?.map((violation) => violation.message)}
                     onDragStart={(e) => collectionDrag.handleDragStart(e, track.id)}
                     onDragOver={(e) =>
                       collectionDrag.handleDragOver(e, {
@@ -376,6 +447,7 @@ export const CollectionView: React.FC<CollectionViewProps> = ({ workspaceId, zon
                     isPlaying={isPlaying}
                     onPlay={startTrackPlayback}
                     onPause={pausePlayback}
+                    showTempoKey={showTempoKeyColumns}
                   />
                   {showInsertLine && collectionDrag.insertPosition === 'bottom' && (
                     <div className="drag-insert-line" />
@@ -0,0 +1,484 @@
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ClearIcon from '@mui/icons-material/Clear';
+import CreateNewFolderIcon from '@mui/icons-material/CreateNewFolder';
+import FilterAltOffIcon from '@mui/icons-material/FilterAltOff';
+import LibraryMusicIcon from '@mui/icons-material/LibraryMusic';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import TimerIcon from '@mui/icons-material/Timer';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { LibraryTrack } from '@core/types/library';
+import { Track } from '@core/types/track';
+import { WorkspaceId } from '@core/types/workspace';
+import { Spinner } from '@shared/components';
+import { ipcService } from '@shared/services';
+import { useDemoPlayerStore, useLibraryStore, useUIStore } from '@shared/stores';
+import { formatDuration, formatTrackDuration, logger } from '@shared/utils';
+
+import {
+  EMPTY_LIBRARY_FILTER,
+  LIBRARY_COLUMNS,
+  LibraryFilter,
+  LibrarySortKey,
+  SortDirection,
+  filterLibraryTracks,
+  getLibraryGenres,
+  getLibraryTrackTitle,
+  getVisibleRange,
+  sortLibraryTracks,
+} from './libraryTableUtils';
+
+const ROW_HEIGHT = 32;
+const DEFAULT_VIEWPORT_HEIGHT = 600;
+const GRID_TEMPLATE_COLUMNS = LIBRARY_COLUMNS.map((column) => column.width).join(' ');
+
+interface DatabaseViewProps {
+  workspaceId: WorkspaceId;
+  zoneId: string;
+}
+
+/**
+ * Преобразует трек библиотеки в трек для воспроизведения
+ */
+function toPlayableTrack(track: LibraryTrack): Track {
+  return {
+    id: track.path,
+    path: track.path,
+    name: track.artist
+      ? `${track.artist} - ${getLibraryTrackTitle(track)}`
+      : getLibraryTrackTitle(track),
+    duration: track.duration,
+  };
+}
+
+/**
+ * Форматирует значение ячейки таблицы
+ */
+function formatCell(track: LibraryTrack, key: LibrarySortKey): string {
+  switch (key) {
+    case 'title':
+      return getLibraryTrackTitle(track);
+    case 'duration':
+      return track.duration ? formatTrackDuration(track.duration) : '--:--';
+    default: {
+      const value = track[key];
+      return value !== undefined ? String(value) : '';
+    }
+  }
+}
+
+export const DatabaseView: React.FC<DatabaseViewProps> = ({ workspaceId }) => {
+  const {
+    roots,
+    tracks,
+    isLoading,
+    isScanning,
+    isLoaded,
+    loadLibrary,
+    scanLibrary,
+    addRoot,
+    removeRoot,
+  } = useLibraryStore();
+
+  const setDragging = useUIStore((state) => state.setDragging);
+  const setDraggedItems = useUIStore((state) => state.setDraggedItems);
+
+  const {
+    currentTrack: activeDemoTrack,
+    status: demoPlayerStatus,
+    loadTrack: loadDemoTrack,
+    play: playDemo,
+  } = useDemoPlayerStore();
+
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_LIBRARY_FILTER);
+  const [sortKey, setSortKey] = useState<LibrarySortKey>('artist');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [lastSelectedPath, setLastSelectedPath] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(DEFAULT_VIEWPORT_HEIGHT);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded && !isLoading) {
+      loadLibrary();
+    }
+  }, [isLoaded, isLoading, loadLibrary]);
+
+  // Отслеживаем высоту области прокрутки для виртуализации
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) {
+      return;
+    }
+
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+
+    // ResizeObserver вызывает callback сразу после observe, отдельная инициализация не нужна
+    const observer = new ResizeObserver(() => {
+      setViewportHeight(viewport.clientHeight || DEFAULT_VIEWPORT_HEIGHT);
+    });
+    observer.observe(viewport);
+    return () => {
+      observer.disconnect();
+    };
+  }, []);
+
+  const genres = useMemo(() => getLibraryGenres(tracks), [tracks]);
+
+  const visibleTracks = useMemo(
+    () => sortLibraryTracks(filterLibraryTracks(tracks, filter), sortKey, sortDirection),
+    [tracks, filter, sortKey, sortDirection],
+  );
+
+  const totalDuration = useMemo(
+    () => visibleTracks.reduce((sum, track) => sum + (track.duration || 0), 0),
+    [visibleTracks],
+  );
+
+  const { start, end } = getVisibleRange(
+    scrollTop,
+    viewportHeight,
+    ROW_HEIGHT,
+    visibleTracks.length,
+  );
+
+  const isFilterActive =
+    filter.search !== '' ||
+    filter.genre !== null ||
+    filter.bpmMin !== null ||
+    filter.bpmMax !== null;
+
+  const handleSort = useCallback(
+    (key: LibrarySortKey) => {
+      if (key === sortKey) {
+        setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+      } else {
+        setSortKey(key);
+        setSortDirection('asc');
+      }
+    },
+    [sortKey],
+  );
+
+  const handleBpmChange = useCallback((field: 'bpmMin' | 'bpmMax', value: string) => {
+    const parsed = value === '' ? null : Number(value);
+    setFilter((prev) => ({
+      ...prev,
+      [field]: parsed !== null && Number.isFinite(parsed) ? parsed : null,
+    }));
+  }, []);
+
+  const handleAddRoot = useCallback(async () => {
+    const path = await ipcService.showFolderDialog({ title: 'Добавить папку в библиотеку' });
+    if (path) {
+      await addRoot(path);
+    }
+  }, [addRoot]);
+
+  const handleRowClick = useCallback(
+    (e: React.MouseEvent, path: string) => {
+      if (e.ctrlKey || e.metaKey) {
+        setSelectedPaths((prev) => {
+          const next = new Set(prev);
+          if (next.has(path)) {
+            next.delete(path);
+          } else {
+            next.add(path);
+          }
+          return next;
+        });
+        setLastSelectedPath(path);
+        return;
+      }
+
+      if (e.shiftKey && lastSelectedPath) {
+        const fromIndex = visibleTracks.findIndex((track) => track.path === lastSelectedPath);
+        const toIndex = visibleTracks.findIndex((track) => track.path === path);
+        if (fromIndex !== -1 && toIndex !== -1) {
+          const [from, to] = fromIndex < toIndex ? [fromIndex, toIndex] : [toIndex, fromIndex];
+          const range = visibleTracks.slice(from, to + 1).map((track) => track.path);
+          setSelectedPaths(new Set(range));
+          return;
+        }
+      }
+
+      setSelectedPaths(new Set([path]));
+      setLastSelectedPath(path);
+    },
+    [lastSelectedPath, visibleTracks],
+  );
+
+  const handleRowDoubleClick = useCallback(
+    async (track: LibraryTrack) => {
+      try {
+        const playableTrack = toPlayableTrack(track);
+        if (activeDemoTrack?.id !== playableTrack.id || demoPlayerStatus === 'ended') {
+          await loadDemoTrack(playableTrack, workspaceId);
+        }
+        await playDemo();
+      } catch (error) {
+        logger.error('Failed to play library track', error);
+      }
+    },
+    [activeDemoTrack, demoPlayerStatus, loadDemoTrack, playDemo, workspaceId],
+  );
+
+  const handleRowKeyDown = useCallback(
+    (e: React.KeyboardEvent, track: LibraryTrack) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        handleRowDoubleClick(track);
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        setSelectedPaths(new Set([track.path]));
+        setLastSelectedPath(track.path);
+      }
+    },
+    [handleRowDoubleClick],
+  );
+
+  const handleDragStart = useCallback(
+    (e: React.DragEvent, path: string) => {
+      // Если строка выделена, перетаскиваем все выделенные строки в порядке таблицы
+      const paths =
+        selectedPaths.has(path) && selectedPaths.size > 1
+          ? visibleTracks
+              .filter((track) => selectedPaths.has(track.path))
+              .map((track) => track.path)
+          : [path];
+
+      setDraggedItems({ type: 'files', paths });
+      setDragging(true);
+      e.dataTransfer.effectAllowed = 'copy';
+      e.dataTransfer.setData('application/json', JSON.stringify({ type: 'files', paths }));
+    },
+    [selectedPaths, visibleTracks, setDraggedItems, setDragging],
+  );
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedItems(null);
+    setDragging(false);
+  }, [setDraggedItems, setDragging]);
+
+  return (
+    <div className="playlist-view database-view">
+      <div className="playlist-header-section">
+        <div className="playlist-header-row">
+          <div className="database-title">
+            <LibraryMusicIcon style={{ fontSize: '20px', marginRight: '6px' }} />
+            <span>Библиотека</span>
+          </div>
+          <div className="playlist-header-actions">
+            {selectedPaths.size > 0 && (
+              <button
+                onClick={() => setSelectedPaths(new Set())}
+                className="playlist-header-action-icon"
+                title="Снять выделение"
+              >
+                <ClearIcon style={{ fontSize: '20px' }} />
+              </button>
+            )}
+            <button
+              onClick={handleAddRoot}
+              className="playlist-header-action-icon"
+              title="Добавить папку в библиотеку"
+            >
+              <CreateNewFolderIcon style={{ fontSize: '20px' }} />
+            </button>
+            <button
+              onClick={() => scanLibrary()}
+              className="playlist-header-action-icon"
+              disabled={isScanning || roots.length === 0}
+              title="Обновить библиотеку"
+            >
+              <RefreshIcon style={{ fontSize: '20px' }} />
+            </button>
+          </div>
+        </div>
+
+        {roots.length > 0 && (
+          <div className="database-roots">
+            {roots.map((root) => (
+              <span key={root} className="database-root-chip" title={root}>
+                <span className="database-root-chip-label">{root}</span>
+                <button
+                  onClick={() => removeRoot(root)}
+                  className="database-root-chip-remove"
+                  title="Убрать папку из библиотеки"
+                >
+                  <ClearIcon style={{ fontSize: '14px' }} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="database-filters">
+          <input
+            type="text"
+            className="database-filter-search"
+            value={filter.search}
+            onChange={(e) => setFilter((prev) => ({ ...prev, search: e.target.value }))}
+            placeholder="Поиск: исполнитель, название, альбом"
+          />
+          <select
+            className="database-filter-select"
+            value={filter.genre ?? ''}
+            onChange={(e) =>
+              setFilter((prev) => ({
+                ...prev,
+                genre: e.target.value === '' ? null : e.target.value,
+              }))
+            }
+          >
+            <option value="">Все жанры</option>
+            {genres.map((genre) => (
+              <option key={genre} value={genre}>
+                {genre}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            className="database-filter-bpm"
+            value={filter.bpmMin ?? ''}
+            onChange={(e) => handleBpmChange('bpmMin', e.target.value)}
+            placeholder="BPM от"
+            min={0}
+          />
+          <input
+            type="number"
+            className="database-filter-bpm"
+            value={filter.bpmMax ?? ''}
+            onChange={(e) => handleBpmChange('bpmMax', e.target.value)}
+            placeholder="BPM до"
+            min={0}
+          />
+          {isFilterActive && (
+            <button
+              onClick={() => setFilter(EMPTY_LIBRARY_FILTER)}
+              className="playlist-header-action-icon"
+              title="Сбросить фильтры"
+            >
+              <FilterAltOffIcon style={{ fontSize: '18px' }} />
+            </button>
+          )}
+        </div>
+
+        <div className="playlist-stats-header">
+          <LibraryMusicIcon style={{ fontSize: '18px', marginRight: '4px' }} />
+          <span>
+            {visibleTracks.length}
+            {isFilterActive ? ` из ${tracks.length}` : ''} треков
+          </span>
+          {visibleTracks.length > 0 && (
+            <>
+              <span style={{ margin: '0 8px' }}>•</span>
+              <TimerIcon style={{ fontSize: '18px', marginRight: '4px' }} />
+              <span>{formatDuration(totalDuration)}</span>
+            </>
+          )}
+          {isScanning && (
+            <>
+              <span style={{ margin: '0 8px' }}>•</span>
+              <span>Сканирование...</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="database-table">
+        <div
+          className="database-table-header"
+          style={{ gridTemplateColumns: GRID_TEMPLATE_COLUMNS }}
+        >
+          {LIBRARY_COLUMNS.map((column) => (
+            <button
+              key={column.key}
+              className={`database-table-header-cell${column.numeric ? ' database-table-cell--numeric' : ''}`}
+              onClick={() => handleSort(column.key)}
+            >
+              <span>{column.label}</span>
+              {sortKey === column.key &&
+                (sortDirection === 'asc' ? (
+                  <ArrowUpwardIcon style={{ fontSize: '14px' }} />
+                ) : (
+                  <ArrowDownwardIcon style={{ fontSize: '14px' }} />
+                ))}
+            </button>
+          ))}
+        </div>
+
+        <div
+          ref={viewportRef}
+          className="database-table-body"
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          {isLoading || (isScanning && tracks.length === 0) ? (
+            <div className="empty-state">
+              <Spinner />
+            </div>
+          ) : visibleTracks.length === 0 ? (
+            <div className="empty-state">
+              {roots.length === 0 ? (
+                <>
+                  <p>Библиотека пуста</p>
+                  <p className="empty-state-hint">
+                    Добавьте папку с музыкой, чтобы проиндексировать её
+                  </p>
+                </>
+              ) : (
+                <p>Нет треков, подходящих под фильтр</p>
+              )}
+            </div>
+          ) : (
+            <div style={{ height: visibleTracks.length * ROW_HEIGHT, position: 'relative' }}>
+              {visibleTracks.slice(start, end).map((track, offset) => {
+                const index = start + offset;
+                const isSelected = selectedPaths.has(track.path);
+                const isActive = activeDemoTrack?.id === track.path;
+
+                return (
+                  <div
+                    key={track.path}
+                    className={`database-table-row${isSelected ? ' database-table-row--selected' : ''}${
+                      isActive ? ' database-table-row--active' : ''
+                    }`}
+                    style={{
+                      gridTemplateColumns: GRID_TEMPLATE_COLUMNS,
+                      height: ROW_HEIGHT,
+                      transform: `translateY(${index * ROW_HEIGHT}px)`,
+                    }}
+                    draggable
+                    role="button"
+                    tabIndex={0}
+                    aria-pressed={isSelected}
+                    onClick={(e) => handleRowClick(e, track.path)}
+                    onKeyDown={(e) => handleRowKeyDown(e, track)}
+                    onDoubleClick={() => handleRowDoubleClick(track)}
+                    onDragStart={(e) => handleDragStart(e, track.path)}
+                    onDragEnd={handleDragEnd}
+                    title={track.path}
+                  >
+                    {LIBRARY_COLUMNS.map((column) => (
+                      <div
+                        key={column.key}
+                        className={`database-table-cell${column.numeric ? ' database-table-cell--numeric' : ''}`}
+                      >
+                        {formatCell(track, column.key)}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
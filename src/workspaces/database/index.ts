@@ -0,0 +1,19 @@
+import { IWorkspaceModule } from '@core/interfaces';
+import { workspaceRegistry } from '@core/registry';
+import { WorkspaceId } from '@core/types/workspace';
+
+import { DatabaseView } from './DatabaseView';
+
+// Database workspace shows the persistent library index (single instance per layout zone)
+const DatabaseModule: IWorkspaceModule = {
+  id: 'database-placeholder' as WorkspaceId,
+  type: 'database',
+  name: 'Database',
+  component: DatabaseView,
+};
+
+// Register the module
+workspaceRegistry.register(DatabaseModule);
+
+export { DatabaseView };
+export default DatabaseModule;
@@ -0,0 +1,137 @@
+import { LibraryTrack } from '@core/types/library';
+
+export type LibrarySortKey = 'artist' | 'title' | 'genre' | 'bpm' | 'duration' | 'year';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LibraryColumn {
+  key: LibrarySortKey;
+  label: string;
+  width: string; // CSS grid track size
+  numeric?: boolean;
+}
+
+export const LIBRARY_COLUMNS: LibraryColumn[] = [
+  { key: 'artist', label: 'Исполнитель', width: 'minmax(120px, 2fr)' },
+  { key: 'title', label: 'Название', width: 'minmax(140px, 3fr)' },
+  { key: 'genre', label: 'Жанр', width: 'minmax(80px, 1fr)' },
+  { key: 'bpm', label: 'BPM', width: '64px', numeric: true },
+  { key: 'year', label: 'Год', width: '64px', numeric: true },
+  { key: 'duration', label: 'Длит.', width: '72px', numeric: true },
+];
+
+export interface LibraryFilter {
+  search: string;
+  genre: string | null;
+  bpmMin: number | null;
+  bpmMax: number | null;
+}
+
+export const EMPTY_LIBRARY_FILTER: LibraryFilter = {
+  search: '',
+  genre: null,
+  bpmMin: null,
+  bpmMax: null,
+};
+
+/**
+ * Отображаемое название трека (тег title или имя файла)
+ */
+export function getLibraryTrackTitle(track: LibraryTrack): string {
+  return track.title || track.name;
+}
+
+/**
+ * Фильтрует треки библиотеки по строке поиска, жанру и диапазону BPM
+ */
+export function filterLibraryTracks(tracks: LibraryTrack[], filter: LibraryFilter): LibraryTrack[] {
+  const search = filter.search.trim().toLowerCase();
+  const genre = filter.genre?.toLowerCase() ?? null;
+
+  return tracks.filter((track) => {
+    if (genre !== null && (track.genre ?? '').toLowerCase() !== genre) {
+      return false;
+    }
+    if (filter.bpmMin !== null && (track.bpm === undefined || track.bpm < filter.bpmMin)) {
+      return false;
+    }
+    if (filter.bpmMax !== null && (track.bpm === undefined || track.bpm > filter.bpmMax)) {
+      return false;
+    }
+    if (search) {
+      const haystack = [track.artist, getLibraryTrackTitle(track), track.album, track.genre]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(search)) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Сортирует треки библиотеки
+ * Треки без значения в колонке сортировки всегда идут в конце
+ */
+export function sortLibraryTracks(
+  tracks: LibraryTrack[],
+  key: LibrarySortKey,
+  direction: SortDirection,
+): LibraryTrack[] {
+  const multiplier = direction === 'asc' ? 1 : -1;
+
+  const getValue = (track: LibraryTrack): string | number | undefined => {
+    if (key === 'title') {
+      return getLibraryTrackTitle(track);
+    }
+    return track[key];
+  };
+
+  return [...tracks].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+
+    if (valueA === undefined || valueA === '') {
+      return valueB === undefined || valueB === '' ? 0 : 1;
+    }
+    if (valueB === undefined || valueB === '') {
+      return -1;
+    }
+
+    if (typeof valueA === 'number' && typeof valueB === 'number') {
+      return (valueA - valueB) * multiplier;
+    }
+    return (
+      String(valueA).localeCompare(String(valueB), undefined, { sensitivity: 'base' }) * multiplier
+    );
+  });
+}
+
+/**
+ * Собирает список уникальных жанров для фильтра
+ */
+export function getLibraryGenres(tracks: LibraryTrack[]): string[] {
+  const genres = new Set<string>();
+  for (const track of tracks) {
+    if (track.genre) {
+      genres.add(track.genre);
+    }
+  }
+  return Array.from(genres).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Вычисляет диапазон видимых строк для виртуализированного списка
+ */
+export function getVisibleRange(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  totalRows: number,
+  overscan: number = 8,
+): { start: number; end: number } {
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(totalRows, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { start, end };
+}
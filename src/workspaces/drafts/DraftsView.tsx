@@ -0,0 +1,202 @@
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import HistoryIcon from '@mui/icons-material/History';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import {
+  DEFAULT_DATABASE_WORKSPACE_ID,
+  DEFAULT_PLAYER_WORKSPACE_ID,
+  DEFAULT_PLAYLIST_WORKSPACE_ID,
+} from '@core/constants/workspace';
+import { Track } from '@core/types/track';
+import { WorkspaceId } from '@core/types/workspace';
+import { PlaylistItem } from '@shared/components';
+import { useTrackWorkspaceDragAndDrop } from '@shared/hooks';
+import { fileService } from '@shared/services';
+import {
+  getDraftsTrackStore,
+  useDemoPlayerStore,
+  useDraftsStore,
+  useSettingsStore,
+  useUIStore,
+} from '@shared/stores';
+import {
+  DRAFT_ORIGIN_LABELS,
+  DRAFT_RETENTION_OPTIONS,
+  formatDraftAge,
+  logger,
+} from '@shared/utils';
+
+interface DraftsViewProps {
+  workspaceId: WorkspaceId;
+  zoneId: string;
+}
+
+// Интервал очистки истёкших черновиков и обновления возраста записей
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+const KNOWN_SOURCE_NAMES: Record<WorkspaceId, string> = {
+  [DEFAULT_PLAYLIST_WORKSPACE_ID]: 'Плейлист',
+  [DEFAULT_PLAYER_WORKSPACE_ID]: 'Плеер',
+  [DEFAULT_DATABASE_WORKSPACE_ID]: 'Библиотека',
+};
+
+export const DraftsView: React.FC<DraftsViewProps> = ({ workspaceId }) => {
+  const draftsTrackStore = getDraftsTrackStore();
+  const { tracks, selectedTrackIds, toggleTrackSelection, removeTrack } = draftsTrackStore();
+  const { entries, retentionHours, setRetentionHours, pruneExpired, clearDrafts } =
+    useDraftsStore();
+  const workspaces = useUIStore((state) => state.workspaces);
+  const showTempoKeyColumns = useSettingsStore((state) => state.showTempoKeyColumns);
+  const [now, setNow] = useState(() => Date.now());
+
+  const {
+    currentTrack: activeTrack,
+    status: playerStatus,
+    loadTrack: loadDemoTrack,
+    play,
+    pause,
+  } = useDemoPlayerStore();
+  const activeTrackId = activeTrack?.id;
+
+  // Истёкшие черновики удаляются при открытии и периодически
+  useEffect(() => {
+    pruneExpired();
+    const intervalId = window.setInterval(() => {
+      pruneExpired();
+      setNow(Date.now());
+    }, PRUNE_INTERVAL_MS);
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [pruneExpired]);
+
+  // Черновики только отдают треки: перетаскивание наружу, без приёма
+  const draftsDrag = useTrackWorkspaceDragAndDrop({
+    tracks,
+    selectedTrackIds,
+    workspaceId,
+    isValidAudioFile: fileService.isValidAudioFile.bind(fileService),
+    onMoveTrack: () => undefined,
+    onMoveSelectedTracks: () => undefined,
+    onAddTracks: () => undefined,
+    onAddTracksAt: () => undefined,
+  });
+
+  const getSourceName = useCallback(
+    (sourceWorkspaceId: WorkspaceId | null) => {
+      if (!sourceWorkspaceId) {
+        return null;
+      }
+      const workspace = workspaces.find((item) => item.id === sourceWorkspaceId);
+      return workspace?.name ?? KNOWN_SOURCE_NAMES[sourceWorkspaceId] ?? sourceWorkspaceId;
+    },
+    [workspaces],
+  );
+
+  const startTrackPlayback = useCallback(
+    async (track: Track) => {
+      try {
+        if (activeTrackId !== track.id || playerStatus === 'ended') {
+          await loadDemoTrack(track, workspaceId);
+        }
+        await play();
+      } catch (error) {
+        logger.error('Failed to start draft track playback', error);
+      }
+    },
+    [activeTrackId, playerStatus, loadDemoTrack, play, workspaceId],
+  );
+
+  return (
+    <div className="playlist-view drafts-view">
+      <div className="playlist-header-section">
+        <div className="playlist-header-row">
+          <div className="drafts-title">
+            <HistoryIcon style={{ fontSize: '20px', marginRight: '6px' }} />
+            <span>Черновики</span>
+          </div>
+          {tracks.length > 0 && (
+            <div className="playlist-header-actions">
+              <button
+                onClick={clearDrafts}
+                className="playlist-header-action-icon delete-button"
+                title="Очистить черновики"
+              >
+                <DeleteSweepIcon style={{ fontSize: '20px' }} />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="drafts-toolbar">
+          <label className="drafts-retention">
+            <span>Хранить:</span>
+            <select
+              value={retentionHours}
+              onChange={(e) => setRetentionHours(Number(e.target.value))}
+            >
+              {DRAFT_RETENTION_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="playlist-stats-header">
+          <span>{tracks.length} треков</span>
+        </div>
+      </div>
+
+      <div className="playlist-tracks">
+        {tracks.length === 0 ? (
+          <div className="empty-state">
+            <p>Черновиков нет</p>
+            <p className="empty-state-hint">
+              Здесь появляются прослушанные и удалённые из плейлистов треки
+            </p>
+          </div>
+        ) : (
+          tracks.map((track, index) => {
+            const entry = entries[track.id];
+            const sourceName = entry ? getSourceName(entry.sourceWorkspaceId) : null;
+            const isActive = activeTrackId === track.id;
+
+            return (
+              <div key={track.id} className="drafts-item">
+                <PlaylistItem
+                  track={track}
+                  index={index}
+                  isSelected={selectedTrackIds.has(track.id)}
+                  isDragging={
+                    draftsDrag.draggedItems?.type === 'tracks' &&
+                    draftsDrag.draggedItems.ids.has(track.id)
+                  }
+                  onToggleSelect={toggleTrackSelection}
+                  onRemove={removeTrack}
+                  onDragStart={(e) => draftsDrag.handleDragStart(e, track.id)}
+                  onDragOver={() => undefined}
+                  onDrop={() => undefined}
+                  onDragEnd={draftsDrag.handleDragEnd}
+                  isActive={isActive}
+                  isPlaying={isActive && playerStatus === 'playing'}
+                  onPlay={startTrackPlayback}
+                  onPause={pause}
+                  showTempoKey={showTempoKeyColumns}
+                />
+                {entry && (
+                  <div className="drafts-item-meta">
+                    {DRAFT_ORIGIN_LABELS[entry.origin]}
+                    {sourceName && ` · ${sourceName}`}
+                    {` · ${formatDraftAge(entry.capturedAt, now)}`}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { IWorkspaceModule } from '@core/interfaces';
+import { workspaceRegistry } from '@core/registry';
+import { WorkspaceId } from '@core/types/workspace';
+
+import { DraftsView } from './DraftsView';
+
+// Drafts workspace collects previewed and removed tracks (single instance per layout zone)
+const DraftsModule: IWorkspaceModule = {
+  id: 'drafts-placeholder' as WorkspaceId,
+  type: 'drafts',
+  name: 'Drafts',
+  component: DraftsView,
+};
+
+// Register the module
+workspaceRegistry.register(DraftsModule);
+
+export { DraftsView };
+export default DraftsModule;
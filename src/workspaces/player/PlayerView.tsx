@@ -1,8 +1,11 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo } from 'react';
 
 import { DEFAULT_PLAYER_WORKSPACE_ID } from '@core/constants/workspace';
 import { isPlayerGroup, isPlayerTrack } from '@core/types/player';
+import { Track } from '@core/types/track';
 import { WorkspaceId } from '@core/types/workspace';
+import { useRuleViolations, useTrackSilence, useTrackTempoKey } from '@shared/hooks';
+import { fileService } from '@shared/services';
 import { useUIStore } from '@shared/stores';
 import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
 import { usePlayerSessionStore } from '@shared/stores/playerSessionStore';
@@ -12,12 +15,15 @@ import { flattenItemsForDisplay, getTracksFromDisplayItems } from '@shared/utils
 
 import { PlayerHeader } from './components/PlayerHeader';
 import { PlayerTrackList } from './components/PlayerTrackList';
-import { PlayerControls } from './PlayerControls';
+import { useMixRender } from './hooks/useMixRender';
 import { usePlayerDividers } from './hooks/usePlayerDividers';
 import { usePlayerDragAndDrop } from './hooks/usePlayerDragAndDrop';
+import { usePlayerFile } from './hooks/usePlayerFile';
 import { usePlayerFileHandling } from './hooks/usePlayerFileHandling';
 import { usePlayerSession } from './hooks/usePlayerSession';
 import { usePlayerSettings } from './hooks/usePlayerSettings';
+import { useSessionLogExport } from './hooks/useSessionLogExport';
+import { PlayerControls } from './PlayerControls';
 
 interface PlayerViewProps {
   workspaceId: WorkspaceId;
@@ -34,8 +40,12 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
     createGroup,
     findItemById,
     updateTrackDuration,
+    updateTrackTempoKey,
+    updateTrackSuggestedCue,
     getAllTracksInOrder,
     getItemPath,
+    undo,
+    redo,
   } = usePlayerItemsStore((state) => state);
 
   const { name, setName } = usePlayerStore((state) => ({
@@ -43,19 +53,41 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
     setName: state.setName,
   }));
 
+  // Обработка горячих клавиш для undo/redo (история плеера - замены групп)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.code === 'KeyZ' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      }
+      if ((e.ctrlKey && e.code === 'KeyY') || (e.ctrlKey && e.code === 'KeyZ' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
   const displayItems = useMemo(() => flattenItemsForDisplay(items), [items]);
 
   const allTracks = useMemo(() => {
     return getTracksFromDisplayItems(displayItems);
   }, [displayItems]);
 
-  const { isTrackPlayed, isGroupDisabled } = usePlayerSessionStore();
+  const { isTrackPlayed } = usePlayerSessionStore();
   const { plannedEndTime } = usePlayerSettingsStore();
+  // Множества берутся из стора напрямую: isTrackDisabled/isGroupDisabled не меняют ссылку,
+  // а зависимые расчёты (правила, общая длительность) должны обновляться при отключении
+  const disabledTrackIds = usePlayerSessionStore((state) => state.disabledTrackIds);
+  const disabledGroupIds = usePlayerSessionStore((state) => state.disabledGroupIds);
 
   const isTrackOrGroupDisabled = useCallback(
     (itemId: string): boolean => {
-      const { isTrackDisabled } = usePlayerSessionStore.getState();
-      if (isTrackDisabled(itemId)) {
+      if (disabledTrackIds.has(itemId)) {
         return true;
       }
       const path = getItemPath(itemId);
@@ -63,14 +95,14 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
         for (let i = path.length - 2; i >= 0; i--) {
           const groupId = path[i];
           const item = findItemById(groupId);
-          if (item && isPlayerGroup(item) && isGroupDisabled(groupId)) {
+          if (item && isPlayerGroup(item) && disabledGroupIds.has(groupId)) {
             return true;
           }
         }
       }
       return false;
     },
-    [getItemPath, findItemById, isGroupDisabled],
+    [getItemPath, findItemById, disabledTrackIds, disabledGroupIds],
   );
 
   const isTrackActive = useCallback(
@@ -85,6 +117,18 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
     updateTrackDuration,
   });
 
+  useTrackTempoKey({
+    tracks: allTracks,
+    isAudioFile: fileService.isValidAudioFile.bind(fileService),
+    onTempoKeyResolved: updateTrackTempoKey,
+  });
+
+  useTrackSilence({
+    tracks: allTracks,
+    isAudioFile: fileService.isValidAudioFile.bind(fileService),
+    onSuggestedCueResolved: updateTrackSuggestedCue,
+  });
+
   const { playerDrag, handleDropWithGroups } = usePlayerDragAndDrop({
     allTracks,
     selectedItemIds,
@@ -111,6 +155,14 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
 
   const { setEditingTrack, setEditingGroup, setEditingGlobal } = usePlayerSettings();
 
+  const { handleSavePlayer, handleLoadPlayer } = usePlayerFile();
+  const { handleExportSessionLog } = useSessionLogExport();
+  const { isRenderingMix, mixProgress, handleRenderMix, handleCancelMix } = useMixRender({
+    tracks: allTracks,
+    isTrackDisabled: isTrackOrGroupDisabled,
+    name,
+  });
+
   const openModal = useUIStore((state) => state.openModal);
 
   const handleOpenTrackSettings = useCallback(
@@ -184,16 +236,47 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
     removeSelectedItems();
   }, [canRemoveSelectedItems, removeSelectedItems]);
 
-  const { getEffectiveTrackSettings } = usePlayerSettings();
+  const { getEffectiveTrackSettings, getTransitionOverlap, getEffectiveDuration } =
+    usePlayerSettings();
+
+  // Правила проверяются только по включённым трекам
+  const ruleTracks = useMemo(
+    () => allTracks.filter((track) => !isTrackOrGroupDisabled(track.id)),
+    [allTracks, isTrackOrGroupDisabled],
+  );
+
+  // Окончание трека считается по той же шкале, что и плановая отсечка:
+  // с кроссфейдами, без проигранных треков и проигранной части текущего
+  const { trackTimeline } = dividers;
+  const getRuleTrackEnd = useCallback(
+    (track: Track) => {
+      const entry = trackTimeline.tracks.get(track.id);
+      return entry ? (entry.end - trackTimeline.startTime) / 1000 : null;
+    },
+    [trackTimeline],
+  );
+
+  const ruleViolations = useRuleViolations(DEFAULT_PLAYER_WORKSPACE_ID, ruleTracks, {
+    getTrackEnd: getRuleTrackEnd,
+    plannedEndTime,
+    now: trackTimeline.startTime,
+  });
 
   const totalDuration = useMemo(() => {
     let total = 0;
+    let previousTrack: Track | null = null;
     for (let i = 0; i < allTracks.length; i++) {
       const track = allTracks[i];
       if (isTrackOrGroupDisabled(track.id)) {
         continue;
       }
-      total += track.duration || 0;
+      const trackDuration = getEffectiveDuration(track);
+      total += trackDuration;
+      // Кроссфейд сокращает общее время на наложение с предыдущим треком
+      if (previousTrack) {
+        total -= Math.min(getTransitionOverlap(previousTrack), trackDuration);
+      }
+      previousTrack = track;
       if (i < allTracks.length - 1) {
         const settings = getEffectiveTrackSettings(track.id);
         if (settings.actionAfterTrack === 'pauseAndNext') {
@@ -202,7 +285,13 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
       }
     }
     return total;
-  }, [allTracks, isTrackOrGroupDisabled, getEffectiveTrackSettings]);
+  }, [
+    allTracks,
+    isTrackOrGroupDisabled,
+    getEffectiveTrackSettings,
+    getTransitionOverlap,
+    getEffectiveDuration,
+  ]);
 
   const areItemsConsecutive = useCallback(
     (itemIds: string[]): boolean => {
@@ -259,7 +348,17 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
         canRemoveSelectedItems={canRemoveSelectedItems}
         onStartSession={session.handleStartSession}
         onResetSession={session.handleResetSession}
+        resumeTrackName={session.resumeTrack?.name ?? null}
+        resumePosition={session.resumePosition}
+        onResumeSession={session.handleResumeSession}
         onOpenGlobalSettings={handleOpenGlobalSettings}
+        onSavePlayer={handleSavePlayer}
+        onLoadPlayer={handleLoadPlayer}
+        onExportSessionLog={handleExportSessionLog}
+        isRenderingMix={isRenderingMix}
+        mixProgress={mixProgress}
+        onRenderMix={handleRenderMix}
+        onCancelMix={handleCancelMix}
       />
 
       <div
@@ -287,6 +386,9 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
           activeTrackId={session.activeTrackId ?? null}
           playerStatus={session.playerStatus}
           activePlayerTrackId={session.activePlayerTrackId ?? null}
+          activePosition={session.activePosition}
+          activeDuration={session.activeDuration}
+          seekActiveTrack={session.seekActiveTrack}
           isPreparationMode={session.isPreparationMode}
           mode={session.mode}
           plannedEndTime={plannedEndTime}
@@ -294,14 +396,19 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ workspaceId: _workspaceI
           showHourDividers={dividers.showHourDividers}
           calculateDividerMarkers={dividers.calculateDividerMarkers}
           formatDividerLabel={dividers.formatDividerLabel}
+          scheduleMarkers={dividers.scheduleMarkers}
           formatPlannedEndTimeLabel={dividers.formatPlannedEndTimeLabel}
           formatPlannedEndMarkerTime={dividers.formatPlannedEndMarkerTime}
           playerDrag={playerDrag as any}
           handleDropWithGroups={handleDropWithGroups}
           startTrackPlayback={session.startTrackPlayback}
           pausePlayback={session.pausePlayback}
+          cueTrack={session.cueTrack}
+          cuedTrackId={session.cuedTrackId}
+          isCuePlaying={session.isCuePlaying}
           handleToggleDisabled={session.toggleTrackDisabled}
           handleOpenTrackSettings={handleOpenTrackSettings}
+          ruleViolations={ruleViolations}
           zoneId={zoneId}
         />
       </div>
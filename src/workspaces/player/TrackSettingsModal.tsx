@@ -1,16 +1,90 @@
 import CloseIcon from '@mui/icons-material/Close';
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 
-import { usePlayerSettingsStore, ActionAfterTrack } from '@shared/stores/playerSettingsStore';
+import { PlayerGroup, PlayerItem, isPlayerGroup, isPlayerTrack } from '@core/types/player';
+import { Waveform } from '@shared/components/Waveform';
+import { useTrackWaveform } from '@shared/hooks/useTrackWaveform';
+import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
+import {
+  usePlayerSettingsStore,
+  ActionAfterTrack,
+  PlayerCuePoints,
+  PlayerEffectsPreset,
+  PlayerGroupSettings,
+  PlayerTrackSettings,
+} from '@shared/stores/playerSettingsStore';
 import { useUIStore } from '@shared/stores/uiStore';
+import {
+  CUE_POINT_KEYS,
+  DEFAULT_PLAYBACK,
+  MAX_TEMPO_ADJUSTMENT,
+  clampTempoAdjustment,
+  getSuggestedCueLevel,
+  resolveCuePoints,
+} from '@shared/utils';
+
+import { EffectsPresetEditor } from './components/EffectsPresetEditor';
+import { parseScheduledTime } from './scheduleUtils';
+
+const ACTION_AFTER_TRACK_LABELS: Record<ActionAfterTrack, string> = {
+  next: 'Сплошное воспроизведение',
+  pauseAndNext: 'Пауза между треками',
+  pause: 'Пауза после трека',
+  crossfade: 'Кроссфейд',
+};
+
+const CUE_POINT_LABELS: Record<keyof PlayerCuePoints, string> = {
+  startOffset: 'Пропустить от начала (секунды)',
+  endOffset: 'Обрезать с конца (секунды)',
+  fadeIn: 'Нарастание громкости (секунды)',
+  fadeOut: 'Затухание громкости (секунды)',
+};
+
+// Незаданные значения трека/группы показываются как значения по умолчанию
+const getLocalCuePoints = (
+  settings: PlayerTrackSettings | PlayerGroupSettings,
+  defaults: PlayerCuePoints,
+): PlayerCuePoints => ({
+  startOffset: settings.startOffset ?? defaults.startOffset,
+  endOffset: settings.endOffset ?? defaults.endOffset,
+  fadeIn: settings.fadeIn ?? defaults.fadeIn,
+  fadeOut: settings.fadeOut ?? defaults.fadeOut,
+});
+
+// Значения, совпадающие со значениями по умолчанию, не сохраняются (наследуются)
+const getCuePointOverrides = (
+  cuePoints: PlayerCuePoints,
+  defaults: PlayerCuePoints,
+): PlayerTrackSettings => {
+  const overrides: PlayerTrackSettings = {};
+  for (const key of CUE_POINT_KEYS) {
+    overrides[key] = cuePoints[key] === defaults[key] ? null : cuePoints[key];
+  }
+  return overrides;
+};
+
+// Все группы плеера в порядке отображения (для выбора группы-заполнителя)
+const collectGroups = (items: PlayerItem[], result: PlayerGroup[] = []): PlayerGroup[] => {
+  for (const item of items) {
+    if (isPlayerGroup(item)) {
+      result.push(item);
+      collectGroups(item.items, result);
+    }
+  }
+  return result;
+};
 
 export const TrackSettingsModal: React.FC = () => {
   const { closeModal, addNotification } = useUIStore();
   const {
     defaultPauseBetweenTracks,
     defaultActionAfterTrack,
+    defaultCrossfadeDuration,
+    defaultCuePoints,
     setDefaultPauseBetweenTracks,
     setDefaultActionAfterTrack,
+    setDefaultCrossfadeDuration,
+    setDefaultCuePoints,
     getTrackSettings,
     setTrackSettings,
     getGroupSettings,
@@ -20,6 +94,11 @@ export const TrackSettingsModal: React.FC = () => {
     editingIsGlobal,
     plannedEndTime,
     setPlannedEndTime,
+    autoTrimSilence,
+    effectsPresets,
+    defaultEffectsPresetId,
+    setEffectsPresets,
+    setDefaultEffectsPresetId,
   } = usePlayerSettingsStore();
 
   const trackId = editingTrackId;
@@ -28,8 +107,35 @@ export const TrackSettingsModal: React.FC = () => {
 
   // Определяем тип настройки
   const settingsType = isGlobal ? 'global' : groupId ? 'group' : 'track';
-  const currentSettings = isGlobal
-    ? { pauseBetweenTracks: defaultPauseBetweenTracks, actionAfterTrack: defaultActionAfterTrack }
+  const editingItem = usePlayerItemsStore((state) =>
+    settingsType === 'track' && trackId ? state.findItemById(trackId) : null,
+  );
+  const editingTrack = editingItem && isPlayerTrack(editingItem) ? editingItem : null;
+  const playerItems = usePlayerItemsStore((state) => state.items);
+  const fillerGroupOptions = useMemo(
+    () =>
+      settingsType === 'group' && groupId
+        ? collectGroups(playerItems).filter((group) => group.id !== groupId)
+        : [],
+    [settingsType, groupId, playerItems],
+  );
+  const waveform = useTrackWaveform(editingTrack?.path);
+  const suggestedCue = editingTrack?.suggestedCue;
+  // Для трека незаданные точки наследуют найденную анализом тишину (если обрезка включена)
+  const inheritedCuePoints = useMemo(
+    () =>
+      autoTrimSilence
+        ? resolveCuePoints([getSuggestedCueLevel(suggestedCue)], defaultCuePoints)
+        : defaultCuePoints,
+    [autoTrimSilence, suggestedCue, defaultCuePoints],
+  );
+  const currentSettings: PlayerTrackSettings = isGlobal
+    ? {
+        pauseBetweenTracks: defaultPauseBetweenTracks,
+        actionAfterTrack: defaultActionAfterTrack,
+        crossfadeDuration: defaultCrossfadeDuration,
+        ...defaultCuePoints,
+      }
     : groupId
       ? getGroupSettings(groupId)
       : trackId
@@ -42,6 +148,32 @@ export const TrackSettingsModal: React.FC = () => {
   const [localPauseBetweenTracks, setLocalPauseBetweenTracks] = useState<number>(
     currentSettings.pauseBetweenTracks ?? defaultPauseBetweenTracks,
   );
+  const [localCrossfadeDuration, setLocalCrossfadeDuration] = useState<number>(
+    currentSettings.crossfadeDuration ?? defaultCrossfadeDuration,
+  );
+  const [localCuePoints, setLocalCuePoints] = useState<PlayerCuePoints>(
+    getLocalCuePoints(currentSettings, inheritedCuePoints),
+  );
+  const [localTempo, setLocalTempo] = useState<number>(currentSettings.tempo ?? 0);
+  const [localPreservePitch, setLocalPreservePitch] = useState<boolean>(
+    currentSettings.preservePitch ?? DEFAULT_PLAYBACK.preservePitch,
+  );
+  // Пресеты редактируются в глобальных настройках, группам назначается пресет ('default' - наследуется)
+  const [localEffectsPresets, setLocalEffectsPresets] =
+    useState<PlayerEffectsPreset[]>(effectsPresets);
+  const [localEffectsPresetId, setLocalEffectsPresetId] = useState<string>(
+    isGlobal
+      ? defaultEffectsPresetId
+      : groupId
+        ? getGroupSettings(groupId).effectsPresetId || 'default'
+        : 'default',
+  );
+  const [localScheduledStartTime, setLocalScheduledStartTime] = useState<string>(
+    groupId ? getGroupSettings(groupId).scheduledStartTime || '' : '',
+  );
+  const [localFillerGroupId, setLocalFillerGroupId] = useState<string>(
+    groupId ? getGroupSettings(groupId).fillerGroupId || '' : '',
+  );
 
   // Конвертация timestamp в строку времени HH:MM
   const timestampToTimeString = (timestamp: number | null): string => {
@@ -73,8 +205,13 @@ export const TrackSettingsModal: React.FC = () => {
   useEffect(() => {
     if (modal === 'trackSettings' && prevModalRef.current !== 'trackSettings') {
       const timeoutId = setTimeout(() => {
-        const settings = isGlobal
-          ? { pauseBetweenTracks: defaultPauseBetweenTracks, actionAfterTrack: defaultActionAfterTrack }
+        const settings: PlayerTrackSettings = isGlobal
+          ? {
+              pauseBetweenTracks: defaultPauseBetweenTracks,
+              actionAfterTrack: defaultActionAfterTrack,
+              crossfadeDuration: defaultCrossfadeDuration,
+              ...defaultCuePoints,
+            }
           : groupId
             ? getGroupSettings(groupId)
             : trackId
@@ -82,6 +219,22 @@ export const TrackSettingsModal: React.FC = () => {
               : {};
         setLocalActionAfterTrack(settings.actionAfterTrack || 'default');
         setLocalPauseBetweenTracks(settings.pauseBetweenTracks ?? defaultPauseBetweenTracks);
+        setLocalCrossfadeDuration(settings.crossfadeDuration ?? defaultCrossfadeDuration);
+        setLocalCuePoints(getLocalCuePoints(settings, inheritedCuePoints));
+        setLocalTempo(settings.tempo ?? 0);
+        setLocalPreservePitch(settings.preservePitch ?? DEFAULT_PLAYBACK.preservePitch);
+        setLocalEffectsPresets(effectsPresets);
+        setLocalEffectsPresetId(
+          isGlobal
+            ? defaultEffectsPresetId
+            : groupId
+              ? getGroupSettings(groupId).effectsPresetId || 'default'
+              : 'default',
+        );
+        setLocalScheduledStartTime(
+          groupId ? getGroupSettings(groupId).scheduledStartTime || '' : '',
+        );
+        setLocalFillerGroupId(groupId ? getGroupSettings(groupId).fillerGroupId || '' : '');
         if (isGlobal) {
           setLocalPlannedEndTime(timestampToTimeString(plannedEndTime));
         }
@@ -96,9 +249,14 @@ export const TrackSettingsModal: React.FC = () => {
     groupId,
     defaultPauseBetweenTracks,
     defaultActionAfterTrack,
+    defaultCrossfadeDuration,
+    defaultCuePoints,
+    inheritedCuePoints,
     getTrackSettings,
     getGroupSettings,
     plannedEndTime,
+    effectsPresets,
+    defaultEffectsPresetId,
   ]);
 
   if (modal !== 'trackSettings') {
@@ -111,18 +269,41 @@ export const TrackSettingsModal: React.FC = () => {
         localActionAfterTrack === 'default' ? defaultActionAfterTrack : localActionAfterTrack,
       );
       setDefaultPauseBetweenTracks(localPauseBetweenTracks);
+      setDefaultCrossfadeDuration(localCrossfadeDuration);
+      setDefaultCuePoints(localCuePoints);
       setPlannedEndTime(timeStringToTimestamp(localPlannedEndTime));
+      setEffectsPresets(localEffectsPresets);
+      if (localEffectsPresets.some((preset) => preset.id === localEffectsPresetId)) {
+        setDefaultEffectsPresetId(localEffectsPresetId);
+      }
     } else if (groupId) {
       setGroupSettings(groupId, {
         actionAfterTrack: localActionAfterTrack === 'default' ? null : localActionAfterTrack,
         pauseBetweenTracks:
           localPauseBetweenTracks === defaultPauseBetweenTracks ? null : localPauseBetweenTracks,
+        crossfadeDuration:
+          localCrossfadeDuration === defaultCrossfadeDuration ? null : localCrossfadeDuration,
+        ...getCuePointOverrides(localCuePoints, defaultCuePoints),
+        effectsPresetId: localEffectsPresetId === 'default' ? null : localEffectsPresetId,
+        scheduledStartTime: parseScheduledTime(localScheduledStartTime)
+          ? localScheduledStartTime
+          : null,
+        fillerGroupId:
+          parseScheduledTime(localScheduledStartTime) && localFillerGroupId
+            ? localFillerGroupId
+            : null,
       });
     } else if (trackId) {
       setTrackSettings(trackId, {
         actionAfterTrack: localActionAfterTrack === 'default' ? null : localActionAfterTrack,
         pauseBetweenTracks:
           localPauseBetweenTracks === defaultPauseBetweenTracks ? null : localPauseBetweenTracks,
+        crossfadeDuration:
+          localCrossfadeDuration === defaultCrossfadeDuration ? null : localCrossfadeDuration,
+        ...getCuePointOverrides(localCuePoints, inheritedCuePoints),
+        tempo: localTempo === 0 ? null : clampTempoAdjustment(localTempo),
+        preservePitch:
+          localPreservePitch === DEFAULT_PLAYBACK.preservePitch ? null : localPreservePitch,
       });
     }
 
@@ -154,6 +335,12 @@ export const TrackSettingsModal: React.FC = () => {
   };
 
   const showPauseInput = localActionAfterTrack === 'pauseAndNext';
+  const effectiveAction =
+    localActionAfterTrack === 'default' ? defaultActionAfterTrack : localActionAfterTrack;
+  const showCrossfadeInput = effectiveAction === 'crossfade';
+  const selectablePresets = isGlobal ? localEffectsPresets : effectsPresets;
+  const defaultEffectsPresetName =
+    effectsPresets.find((preset) => preset.id === defaultEffectsPresetId)?.name ?? 'Без обработки';
 
   return (
     <div
@@ -186,11 +373,12 @@ export const TrackSettingsModal: React.FC = () => {
               id="track-settings-action"
             >
               <option value="default">
-                По умолчанию ({defaultActionAfterTrack === 'next' ? 'Сплошное воспроизведение' : defaultActionAfterTrack === 'pauseAndNext' ? 'Пауза между треками' : 'Пауза после трека'})
+                По умолчанию ({ACTION_AFTER_TRACK_LABELS[defaultActionAfterTrack]})
               </option>
-              <option value="next">Сплошное воспроизведение</option>
-              <option value="pauseAndNext">Пауза между треками</option>
-              <option value="pause">Пауза после трека</option>
+              <option value="next">{ACTION_AFTER_TRACK_LABELS.next}</option>
+              <option value="pauseAndNext">{ACTION_AFTER_TRACK_LABELS.pauseAndNext}</option>
+              <option value="pause">{ACTION_AFTER_TRACK_LABELS.pause}</option>
+              <option value="crossfade">{ACTION_AFTER_TRACK_LABELS.crossfade}</option>
             </select>
           </div>
 
@@ -211,6 +399,186 @@ export const TrackSettingsModal: React.FC = () => {
             </div>
           )}
 
+          {showCrossfadeInput && (
+            <div className="settings-group">
+              <label className="settings-label" htmlFor="track-settings-crossfade">
+                Длительность кроссфейда (секунды)
+              </label>
+              <input
+                type="number"
+                className="settings-input"
+                value={localCrossfadeDuration}
+                onChange={(e) =>
+                  setLocalCrossfadeDuration(Math.max(0, Number(e.target.value) || 0))
+                }
+                id="track-settings-crossfade"
+                min="0"
+                step="1"
+              />
+            </div>
+          )}
+
+          {waveform === null && (
+            <div className="settings-group">
+              <span className="settings-hint">
+                Форма волны: файл не проанализирован (для форматов кроме WAV нужен FFmpeg, путь
+                задаётся в настройках)
+              </span>
+            </div>
+          )}
+
+          {waveform && waveform.duration > 0 && (
+            <div className="settings-group">
+              <span className="settings-label">Форма волны (звучащая часть выделена)</span>
+              <Waveform
+                peaks={waveform.peaks}
+                regionStart={localCuePoints.startOffset / waveform.duration}
+                regionEnd={(waveform.duration - localCuePoints.endOffset) / waveform.duration}
+                className="track-settings-waveform"
+              />
+            </div>
+          )}
+
+          {settingsType === 'track' && suggestedCue && (
+            <div className="settings-group">
+              <span className="settings-hint">
+                Найдена тишина: {suggestedCue.startOffset.toFixed(2)} с в начале,{' '}
+                {suggestedCue.endOffset.toFixed(2)} с в конце
+                {autoTrimSilence
+                  ? ' (пропускается, если не задано своё значение)'
+                  : ' (обрезка тишины выключена в настройках)'}
+              </span>
+            </div>
+          )}
+
+          {CUE_POINT_KEYS.map((key) => (
+            <div className="settings-group" key={key}>
+              <label className="settings-label" htmlFor={`track-settings-${key}`}>
+                {CUE_POINT_LABELS[key]}
+              </label>
+              <input
+                type="number"
+                className="settings-input"
+                value={localCuePoints[key]}
+                onChange={(e) =>
+                  setLocalCuePoints((prev) => ({
+                    ...prev,
+                    [key]: Math.max(0, Number(e.target.value) || 0),
+                  }))
+                }
+                id={`track-settings-${key}`}
+                min="0"
+                step="0.5"
+              />
+            </div>
+          ))}
+
+          {settingsType === 'track' && (
+            <>
+              <div className="settings-group">
+                <label className="settings-label" htmlFor="track-settings-tempo">
+                  Изменение темпа (%, от -{MAX_TEMPO_ADJUSTMENT} до +{MAX_TEMPO_ADJUSTMENT})
+                </label>
+                <input
+                  type="number"
+                  className="settings-input"
+                  value={localTempo}
+                  onChange={(e) => setLocalTempo(clampTempoAdjustment(Number(e.target.value)))}
+                  id="track-settings-tempo"
+                  min={-MAX_TEMPO_ADJUSTMENT}
+                  max={MAX_TEMPO_ADJUSTMENT}
+                  step="0.5"
+                />
+              </div>
+              <div className="settings-group">
+                <div className="settings-checkbox-group">
+                  <input
+                    type="checkbox"
+                    className="settings-checkbox"
+                    checked={localPreservePitch}
+                    onChange={(e) => setLocalPreservePitch(e.target.checked)}
+                    id="track-settings-preserve-pitch"
+                    disabled={localTempo === 0}
+                  />
+                  <label
+                    className="settings-checkbox-label"
+                    htmlFor="track-settings-preserve-pitch"
+                  >
+                    Сохранять высоту тона при изменении темпа
+                  </label>
+                </div>
+              </div>
+            </>
+          )}
+
+          {settingsType !== 'track' && (
+            <div className="settings-group">
+              <label className="settings-label" htmlFor="track-settings-effects-preset">
+                {isGlobal ? 'Обработка звука по умолчанию' : 'Обработка звука (эквалайзер)'}
+              </label>
+              <select
+                className="settings-select"
+                value={localEffectsPresetId}
+                onChange={(e) => setLocalEffectsPresetId(e.target.value)}
+                id="track-settings-effects-preset"
+              >
+                {!isGlobal && (
+                  <option value="default">По умолчанию ({defaultEffectsPresetName})</option>
+                )}
+                {selectablePresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {settingsType === 'group' && (
+            <>
+              <div className="settings-group">
+                <label className="settings-label" htmlFor="track-settings-scheduled-start">
+                  Время начала группы (жёсткий старт)
+                </label>
+                <input
+                  type="time"
+                  className="settings-input"
+                  value={localScheduledStartTime}
+                  onChange={(e) => setLocalScheduledStartTime(e.target.value)}
+                  id="track-settings-scheduled-start"
+                />
+                <span className="settings-hint">
+                  Если сессия дойдёт до группы раньше, она подождёт; при опоздании появится
+                  предупреждение
+                </span>
+              </div>
+              {localScheduledStartTime && (
+                <div className="settings-group">
+                  <label className="settings-label" htmlFor="track-settings-filler-group">
+                    Во время ожидания играет
+                  </label>
+                  <select
+                    className="settings-select"
+                    value={localFillerGroupId}
+                    onChange={(e) => setLocalFillerGroupId(e.target.value)}
+                    id="track-settings-filler-group"
+                  >
+                    <option value="">Тишина</option>
+                    {fillerGroupOptions.map((group) => (
+                      <option key={group.id} value={group.id}>
+                        {group.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
+          {isGlobal && (
+            <EffectsPresetEditor presets={localEffectsPresets} onChange={setLocalEffectsPresets} />
+          )}
+
           {isGlobal && (
             <div className="settings-group">
               <label className="settings-label" htmlFor="track-settings-planned-end-time">
@@ -249,4 +617,3 @@ export const TrackSettingsModal: React.FC = () => {
     </div>
   );
 };
-
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+import { PlayerEffectsPreset } from '@shared/stores/playerSettingsStore';
+import {
+  DEFAULT_HIGH_PASS_FREQUENCY,
+  MAX_EQ_BANDS,
+  MAX_EQ_GAIN,
+  MIN_EQ_BANDS,
+  clampEqBandCount,
+  clampEqGain,
+  getEqBandFrequencies,
+  resizeEqBands,
+} from '@shared/utils';
+
+interface EffectsPresetEditorProps {
+  presets: PlayerEffectsPreset[];
+  onChange: (presets: PlayerEffectsPreset[]) => void;
+}
+
+const formatFrequency = (frequency: number): string =>
+  frequency >= 1000 ? `${frequency / 1000} кГц` : `${frequency} Гц`;
+
+const formatGain = (gain: number): string => (gain > 0 ? `+${gain}` : `${gain}`);
+
+/**
+ * Редактор пресетов обработки звука плеера сессии (эквалайзер, срез низких частот, лимитер)
+ * Изменения передаются наверх и сохраняются вместе с остальными настройками окна
+ */
+export const EffectsPresetEditor: React.FC<EffectsPresetEditorProps> = ({ presets, onChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(presets[0]?.id ?? null);
+  const selected = presets.find((preset) => preset.id === selectedId) ?? presets[0] ?? null;
+
+  // Пресеты неизменяемы: изменённый пресет заменяется новым объектом
+  const updateSelected = (changes: Partial<PlayerEffectsPreset>) => {
+    if (!selected) {
+      return;
+    }
+    onChange(
+      presets.map((preset) => (preset.id === selected.id ? { ...preset, ...changes } : preset)),
+    );
+  };
+
+  const handleAdd = () => {
+    const preset: PlayerEffectsPreset = {
+      id: uuidv4(),
+      name: `Пресет ${presets.length + 1}`,
+      bands: getEqBandFrequencies(5).map((frequency) => ({ frequency, gain: 0 })),
+      highPassFrequency: null,
+      limiter: false,
+    };
+    onChange([...presets, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const handleRemove = () => {
+    if (!selected || presets.length <= 1) {
+      return;
+    }
+    const remaining = presets.filter((preset) => preset.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  return (
+    <>
+      <div className="settings-group">
+        <label className="settings-label" htmlFor="effects-preset-select">
+          Пресеты обработки звука
+        </label>
+        <div className="settings-input-group">
+          <select
+            className="settings-select"
+            value={selected?.id ?? ''}
+            onChange={(e) => setSelectedId(e.target.value)}
+            id="effects-preset-select"
+          >
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          <button className="modal-button secondary" onClick={handleAdd}>
+            Новый
+          </button>
+          <button
+            className="modal-button secondary"
+            onClick={handleRemove}
+            disabled={presets.length <= 1}
+          >
+            Удалить
+          </button>
+        </div>
+      </div>
+
+      {selected && (
+        <>
+          <div className="settings-group">
+            <label className="settings-label" htmlFor="effects-preset-name">
+              Название пресета
+            </label>
+            <input
+              type="text"
+              className="settings-input"
+              value={selected.name}
+              onChange={(e) => updateSelected({ name: e.target.value })}
+              id="effects-preset-name"
+            />
+          </div>
+
+          <div className="settings-group">
+            <label className="settings-label" htmlFor="effects-preset-band-count">
+              Полосы эквалайзера (от {MIN_EQ_BANDS} до {MAX_EQ_BANDS})
+            </label>
+            <input
+              type="number"
+              className="settings-input"
+              value={selected.bands.length}
+              onChange={(e) =>
+                updateSelected({
+                  bands: resizeEqBands(selected.bands, clampEqBandCount(Number(e.target.value))),
+                })
+              }
+              id="effects-preset-band-count"
+              min={MIN_EQ_BANDS}
+              max={MAX_EQ_BANDS}
+              step="1"
+            />
+            <div className="effects-eq-bands">
+              {selected.bands.map((band, index) => (
+                <label className="effects-eq-band" key={band.frequency}>
+                  <span className="effects-eq-band-value">{formatGain(band.gain)} дБ</span>
+                  <input
+                    type="range"
+                    className="effects-eq-band-slider"
+                    value={band.gain}
+                    onChange={(e) =>
+                      updateSelected({
+                        bands: selected.bands.map((item, itemIndex) =>
+                          itemIndex === index
+                            ? { ...item, gain: clampEqGain(Number(e.target.value)) }
+                            : item,
+                        ),
+                      })
+                    }
+                    min={-MAX_EQ_GAIN}
+                    max={MAX_EQ_GAIN}
+                    step="0.5"
+                  />
+                  <span className="effects-eq-band-frequency">
+                    {formatFrequency(band.frequency)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="settings-group">
+            <div className="settings-checkbox-group">
+              <input
+                type="checkbox"
+                className="settings-checkbox"
+                checked={selected.highPassFrequency !== null}
+                onChange={(e) =>
+                  updateSelected({
+                    highPassFrequency: e.target.checked ? DEFAULT_HIGH_PASS_FREQUENCY : null,
+                  })
+                }
+                id="effects-preset-high-pass"
+              />
+              <label className="settings-checkbox-label" htmlFor="effects-preset-high-pass">
+                Срезать низкие частоты (для речи)
+              </label>
+            </div>
+            {selected.highPassFrequency !== null && (
+              <input
+                type="number"
+                className="settings-input"
+                value={selected.highPassFrequency}
+                onChange={(e) =>
+                  updateSelected({
+                    highPassFrequency: Math.max(20, Number(e.target.value) || 0),
+                  })
+                }
+                aria-label="Частота среза (Гц)"
+                title="Частота среза (Гц)"
+                min="20"
+                max="500"
+                step="10"
+              />
+            )}
+          </div>
+
+          <div className="settings-group">
+            <div className="settings-checkbox-group">
+              <input
+                type="checkbox"
+                className="settings-checkbox"
+                checked={selected.limiter}
+                onChange={(e) => updateSelected({ limiter: e.target.checked })}
+                id="effects-preset-limiter"
+              />
+              <label className="settings-checkbox-label" htmlFor="effects-preset-limiter">
+                Лимитер (защита от перегрузки)
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
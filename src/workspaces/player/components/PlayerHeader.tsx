@@ -1,13 +1,24 @@
+import AlbumIcon from '@mui/icons-material/Album';
 import ClearIcon from '@mui/icons-material/Clear';
 import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import GroupAddIcon from '@mui/icons-material/GroupAdd';
+import HistoryIcon from '@mui/icons-material/History';
 import ListIcon from '@mui/icons-material/List';
+import SaveIcon from '@mui/icons-material/Save';
 import SelectAllIcon from '@mui/icons-material/SelectAll';
 import SettingsIcon from '@mui/icons-material/Settings';
+import StopIcon from '@mui/icons-material/Stop';
 import TimerIcon from '@mui/icons-material/Timer';
 import React from 'react';
 
-import { formatDuration } from '@shared/utils';
+import { ExportProgress } from '@core/types/export';
+import {
+  formatDuration,
+  formatExportProgress,
+  formatPlayerTime,
+  getExportProgressFraction,
+} from '@shared/utils';
 
 interface PlayerHeaderProps {
   name: string;
@@ -26,7 +37,19 @@ interface PlayerHeaderProps {
   canRemoveSelectedItems: boolean;
   onStartSession: () => void;
   onResetSession: () => void;
+  // Трек прерванной сессии, которую можно продолжить с сохранённой позиции
+  resumeTrackName: string | null;
+  resumePosition: number;
+  onResumeSession: () => void;
   onOpenGlobalSettings: () => void;
+  onSavePlayer: () => void;
+  onLoadPlayer: () => void;
+  onExportSessionLog: () => void;
+  // Сведение сессии в один файл (идёт задачей экспорта в main процессе)
+  isRenderingMix: boolean;
+  mixProgress: ExportProgress | null;
+  onRenderMix: () => void;
+  onCancelMix: () => void;
 }
 
 export const PlayerHeader: React.FC<PlayerHeaderProps> = ({
@@ -46,7 +69,17 @@ export const PlayerHeader: React.FC<PlayerHeaderProps> = ({
   canRemoveSelectedItems,
   onStartSession,
   onResetSession,
+  resumeTrackName,
+  resumePosition,
+  onResumeSession,
   onOpenGlobalSettings,
+  onSavePlayer,
+  onLoadPlayer,
+  onExportSessionLog,
+  isRenderingMix,
+  mixProgress,
+  onRenderMix,
+  onCancelMix,
 }) => {
   return (
     <div className="playlist-header-section">
@@ -127,15 +160,74 @@ export const PlayerHeader: React.FC<PlayerHeaderProps> = ({
               Начать сессию
             </button>
           ) : (
-            <button
-              onClick={onResetSession}
-              className="player-session-button player-session-button--reset"
-            >
-              Сбросить
-            </button>
+            <>
+              {resumeTrackName !== null && (
+                <button
+                  onClick={onResumeSession}
+                  className="player-session-button player-session-button--start"
+                  title={`Продолжить сессию: «${resumeTrackName}» с ${formatPlayerTime(resumePosition)}`}
+                >
+                  Продолжить с {formatPlayerTime(resumePosition)}
+                </button>
+              )}
+              <button
+                onClick={onResetSession}
+                className="player-session-button player-session-button--reset"
+              >
+                Сбросить
+              </button>
+            </>
           )}
         </div>
 
+        <button
+          onClick={onSavePlayer}
+          disabled={allTracksCount === 0}
+          className="player-settings-icon"
+          title="Сохранить плеер (.player.json)"
+        >
+          <SaveIcon style={{ fontSize: '20px' }} />
+        </button>
+        <button
+          onClick={onLoadPlayer}
+          className="player-settings-icon"
+          title="Загрузить плеер (.player.json)"
+        >
+          <FolderOpenIcon style={{ fontSize: '20px' }} />
+        </button>
+        <button
+          onClick={onExportSessionLog}
+          className="player-settings-icon"
+          title="Экспорт журнала сессий (CSV, JSON)"
+        >
+          <HistoryIcon style={{ fontSize: '20px' }} />
+        </button>
+        {isRenderingMix ? (
+          <>
+            <progress
+              className="export-progress-bar player-mix-progress"
+              value={mixProgress ? getExportProgressFraction(mixProgress) : undefined}
+              max={1}
+              title={mixProgress ? formatExportProgress(mixProgress) : 'Подготовка...'}
+            />
+            <button
+              onClick={onCancelMix}
+              className="player-settings-icon"
+              title="Отменить сведение"
+            >
+              <StopIcon style={{ fontSize: '20px' }} />
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={onRenderMix}
+            disabled={allTracksCount === 0}
+            className="player-settings-icon"
+            title="Свести в один файл с CUE (MP3, WAV, FLAC, M4A, OGG)"
+          >
+            <AlbumIcon style={{ fontSize: '20px' }} />
+          </button>
+        )}
         <button
           onClick={onOpenGlobalSettings}
           className="player-settings-icon"
@@ -147,4 +239,3 @@ export const PlayerHeader: React.FC<PlayerHeaderProps> = ({
     </div>
   );
 };
-
@@ -1,14 +1,19 @@
+import HeadphonesIcon from '@mui/icons-material/Headphones';
 import SettingsIcon from '@mui/icons-material/Settings';
 import React from 'react';
 
 import { DEFAULT_PLAYER_WORKSPACE_ID } from '@core/constants/workspace';
 import { isPlayerGroup, isPlayerTrack, PlayerItem as PlayerItemType } from '@core/types/player';
+import { RuleViolation } from '@core/types/rules';
 import { Track } from '@core/types/track';
 import { PlayerItem } from '@shared/components';
 import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
 import { usePlayerSessionStore } from '@shared/stores/playerSessionStore';
+import { useSettingsStore } from '@shared/stores/settingsStore';
+
 import { formatTimeFromTimestamp } from '../dividerUtils';
 import { usePlayerSettings } from '../hooks/usePlayerSettings';
+import { SCHEDULE_LATE_TOLERANCE_MS, ScheduleMarker, formatScheduleDrift } from '../scheduleUtils';
 
 interface PlayerTrackListProps {
   displayItems: Array<{ item: PlayerItemType; level: number; displayIndex: number }>;
@@ -16,6 +21,9 @@ interface PlayerTrackListProps {
   activeTrackId: string | null;
   playerStatus: string;
   activePlayerTrackId: string | null;
+  activePosition: number;
+  activeDuration: number;
+  seekActiveTrack: (positionSeconds: number) => void;
   isPreparationMode: boolean;
   mode: 'preparation' | 'session';
   plannedEndTime: number | null;
@@ -25,6 +33,7 @@ interface PlayerTrackListProps {
   formatDividerLabel: (trackId: string) => string;
   formatPlannedEndTimeLabel: () => string;
   formatPlannedEndMarkerTime: () => string;
+  scheduleMarkers: Map<string, ScheduleMarker>;
   playerDrag: {
     draggedItems?: { type: string; ids?: Set<string>; paths?: string[] } | null;
     dragOverId: string | null;
@@ -46,8 +55,12 @@ interface PlayerTrackListProps {
   handleDropWithGroups: (e: React.DragEvent, targetItemId: string) => void;
   startTrackPlayback: (track: Track) => void;
   pausePlayback: () => void;
+  cueTrack: (track: Track) => void;
+  cuedTrackId: string | null;
+  isCuePlaying: boolean;
   handleToggleDisabled: (itemId: string) => void;
   handleOpenTrackSettings: (itemId: string) => void;
+  ruleViolations: Map<string, RuleViolation[]>;
   zoneId: string;
 }
 
@@ -57,6 +70,9 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
   activeTrackId,
   playerStatus,
   activePlayerTrackId,
+  activePosition,
+  activeDuration,
+  seekActiveTrack,
   isPreparationMode,
   mode,
   plannedEndTime,
@@ -66,12 +82,17 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
   formatDividerLabel,
   formatPlannedEndTimeLabel,
   formatPlannedEndMarkerTime,
+  scheduleMarkers,
   playerDrag,
   handleDropWithGroups,
   startTrackPlayback,
   pausePlayback,
+  cueTrack,
+  cuedTrackId,
+  isCuePlaying,
   handleToggleDisabled,
   handleOpenTrackSettings,
+  ruleViolations,
   zoneId,
 }) => {
   const {
@@ -91,7 +112,14 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
   }));
 
   const { isTrackPlayed, isGroupDisabled, isTrackDisabled } = usePlayerSessionStore();
-  const { getEffectiveTrackSettings, getTrackSettings, getGroupSettings } = usePlayerSettings();
+  const showTempoKeyColumns = useSettingsStore((state) => state.showTempoKeyColumns);
+  const {
+    getEffectiveTrackSettings,
+    getTrackSettings,
+    getGroupSettings,
+    getTransitionOverlap,
+    getEffectiveDuration,
+  } = usePlayerSettings();
   const { getItemPath } = usePlayerItemsStore((state) => ({
     getItemPath: state.getItemPath,
   }));
@@ -156,19 +184,28 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
           !hasPlannedEndDivider;
         const dividerTime = track ? (calculateDividerMarkers.get(track.id) ?? null) : null;
 
+        // Начало запланированного блока: в подготовке - время, в сессии - ещё и прогноз
+        const scheduledStartTime = isGroup
+          ? getGroupSettings(item.id).scheduledStartTime || null
+          : null;
+        const scheduleMarker = isGroup ? scheduleMarkers.get(item.id) : undefined;
+        const scheduleDrift = scheduleMarker
+          ? scheduleMarker.projectedTime - scheduleMarker.scheduledTime
+          : 0;
+        const showScheduleDivider =
+          scheduledStartTime !== null && (isPreparationMode || scheduleMarker !== undefined);
+
         let hasCustomSettings = false;
         let settingsActionAfterTrack: string | null = null;
         if (isGroup) {
           const groupSettings = getGroupSettings(item.id);
           hasCustomSettings =
-            groupSettings.actionAfterTrack !== null &&
-            groupSettings.actionAfterTrack !== undefined;
+            groupSettings.actionAfterTrack !== null && groupSettings.actionAfterTrack !== undefined;
           settingsActionAfterTrack = groupSettings.actionAfterTrack || null;
         } else if (track) {
           const trackSettings = getTrackSettings(track.id);
           hasCustomSettings =
-            trackSettings.actionAfterTrack !== null &&
-            trackSettings.actionAfterTrack !== undefined;
+            trackSettings.actionAfterTrack !== null && trackSettings.actionAfterTrack !== undefined;
           settingsActionAfterTrack = trackSettings.actionAfterTrack || null;
         }
 
@@ -193,13 +230,21 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
                 (t) => isTrackPlayed(t.id) || t.id === activePlayerTrackId,
               )));
 
+        // В сессии несыгранный трек можно прослушать в наушниках (демо-плеер)
+        const canCue = !isPreparationMode && track !== null && !itemIsPlayed && !isCurrentTrack;
+        const isCued = track !== null && track.id === cuedTrackId;
+
         let groupDurationWithPauses: number | undefined = undefined;
         if (isGroup) {
           const groupTracks = getAllTracksInOrder([item]);
           let total = 0;
           for (let i = 0; i < groupTracks.length; i++) {
             const groupTrack = groupTracks[i];
-            total += groupTrack.duration || 0;
+            const trackDuration = getEffectiveDuration(groupTrack);
+            total += trackDuration;
+            if (i > 0) {
+              total -= Math.min(getTransitionOverlap(groupTracks[i - 1]), trackDuration);
+            }
             const settings = getEffectiveTrackSettings(groupTrack.id);
             if (settings.actionAfterTrack === 'pauseAndNext') {
               total += settings.pauseBetweenTracks || 0;
@@ -214,13 +259,22 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
             {showInsertLine && playerDrag.insertPosition === 'top' && (
               <div className="drag-insert-line" />
             )}
-            {showPlannedEndDividerBeforeActive && (
-              <div className="playlist-hour-divider playlist-hour-divider--planned-end">
+            {showScheduleDivider && (
+              <div
+                className={`playlist-hour-divider playlist-hour-divider--schedule${scheduleDrift > SCHEDULE_LATE_TOLERANCE_MS ? ' playlist-hour-divider--schedule-late' : ''}`}
+              >
                 <span className="playlist-hour-divider-label">
-                  {formatPlannedEndTimeLabel()}
+                  Начало в {scheduledStartTime}
+                  {scheduleMarker &&
+                    ` · прогноз ${formatTimeFromTimestamp(scheduleMarker.projectedTime)} (${formatScheduleDrift(scheduleDrift)})`}
                 </span>
               </div>
             )}
+            {showPlannedEndDividerBeforeActive && (
+              <div className="playlist-hour-divider playlist-hour-divider--planned-end">
+                <span className="playlist-hour-divider-label">{formatPlannedEndTimeLabel()}</span>
+              </div>
+            )}
             <PlayerItem
               item={item}
               index={displayIndex}
@@ -283,26 +337,61 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
               showDisableButton={!isPreparationMode}
               groupDuration={groupDurationWithPauses}
               onRenameGroup={setGroupName}
+              showWaveform={!isGroup}
+              showTempoKey={showTempoKeyColumns}
+              playbackProgress={
+                isActive && activeDuration > 0 ? activePosition / activeDuration : undefined
+              }
+              onSeek={
+                isActive && activeDuration > 0
+                  ? (fraction) => seekActiveTrack(fraction * activeDuration)
+                  : undefined
+              }
+              warnings={
+                track
+                  ? ruleViolations.get(track.id)?.map((violation) => violation.message)
+                  : undefined
+              }
               settingsButton={
-                <button
-                  className="playlist-item-settings"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleOpenTrackSettings(item.id);
-                  }}
-                  title={isGroup ? 'Настройки группы' : 'Настройки трека'}
-                >
-                  <SettingsIcon style={{ fontSize: '18px' }} />
-                  {hasCustomSettings && settingsActionAfterTrack && (
-                    <span className="player-settings-indicator">
-                      {settingsActionAfterTrack === 'pause'
-                        ? '⏸'
-                        : settingsActionAfterTrack === 'pauseAndNext'
-                          ? '⏸⏭'
-                          : '⏭'}
-                    </span>
+                <>
+                  {canCue && track && (
+                    <button
+                      className={`playlist-item-settings player-cue-button${isCued && isCuePlaying ? ' player-cue-button--active' : ''}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cueTrack(track);
+                      }}
+                      title={
+                        isCued && isCuePlaying
+                          ? 'Остановить прослушивание'
+                          : 'Прослушать в наушниках'
+                      }
+                    >
+                      <HeadphonesIcon style={{ fontSize: '18px' }} />
+                    </button>
                   )}
-                </button>
+                  <button
+                    className="playlist-item-settings"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleOpenTrackSettings(item.id);
+                    }}
+                    title={isGroup ? 'Настройки группы' : 'Настройки трека'}
+                  >
+                    <SettingsIcon style={{ fontSize: '18px' }} />
+                    {hasCustomSettings && settingsActionAfterTrack && (
+                      <span className="player-settings-indicator">
+                        {settingsActionAfterTrack === 'pause'
+                          ? '⏸'
+                          : settingsActionAfterTrack === 'pauseAndNext'
+                            ? '⏸⏭'
+                            : settingsActionAfterTrack === 'crossfade'
+                              ? '⤨'
+                              : '⏭'}
+                      </span>
+                    )}
+                  </button>
+                </>
               }
             />
             {showInsertLine && playerDrag.insertPosition === 'bottom' && (
@@ -341,4 +430,3 @@ export const PlayerTrackList: React.FC<PlayerTrackListProps> = ({
     </>
   );
 };
-
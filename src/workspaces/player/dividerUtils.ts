@@ -1,5 +1,7 @@
 import { Track } from '@core/types/track';
 
+import type { ScheduleMarker } from './scheduleUtils';
+
 /**
  * Интерфейс для контекста расчета отсечек
  */
@@ -12,6 +14,66 @@ export interface DividerCalculationContext {
   isTrackDisabled: (trackId: string) => boolean;
   isTrackPlayed: (trackId: string) => boolean;
   calculateTrackDurationWithPause: (track: Track) => number;
+  // Уже проигранная часть текущего трека (секунды между точками входа и выхода); по умолчанию 0
+  currentTrackElapsed?: number;
+  // Наложение трека на следующий при кроссфейде (секунды); по умолчанию 0
+  getTransitionOverlap?: (track: Track) => number;
+  // Длительность трека между точками входа и выхода; по умолчанию track.duration
+  getEffectiveDuration?: (track: Track) => number;
+  // Запланированный блок, который начинается с трека (время начала - timestamp)
+  getScheduledBlockStart?: (track: Track) => { groupId: string; scheduledTime: number } | null;
+}
+
+/**
+ * Время начала трека с учётом ожидания запланированного блока: если сессия доходит до блока
+ * раньше времени, блок начинается в запланированное время. Кроссфейд в ожидающий блок
+ * не выполняется, поэтому блок начинается не раньше конца предыдущего трека
+ * @param overlap - наложение трека на предыдущий (секунды), уже вычтенное из trackStartRealTime
+ */
+export function getScheduledTrackStart(
+  track: Track,
+  trackStartRealTime: number,
+  overlap: number,
+  context: Pick<DividerCalculationContext, 'getScheduledBlockStart'>,
+): number {
+  const block = context.getScheduledBlockStart?.(track);
+  if (!block || block.scheduledTime <= trackStartRealTime) {
+    return trackStartRealTime;
+  }
+  return Math.max(block.scheduledTime, trackStartRealTime + overlap * 1000);
+}
+
+/**
+ * Вычисляет наложение трека на предыдущий учтённый трек (кроссфейд)
+ * Наложение не может быть длиннее самого трека
+ */
+export function getOverlapWithPrevious(
+  previousTrack: Track | null,
+  track: Track,
+  context: Pick<DividerCalculationContext, 'getTransitionOverlap' | 'getEffectiveDuration'>,
+): number {
+  if (previousTrack === null || !context.getTransitionOverlap) {
+    return 0;
+  }
+  const overlap = context.getTransitionOverlap(previousTrack);
+  const trackDuration = context.getEffectiveDuration
+    ? context.getEffectiveDuration(track)
+    : track.duration || 0;
+  return Math.max(0, Math.min(overlap, trackDuration));
+}
+
+/**
+ * Оставшаяся длительность трека с паузой: у текущего трека в сессии вычитается проигранная часть
+ */
+export function getRemainingTrackDuration(
+  track: Track,
+  context: DividerCalculationContext,
+): number {
+  const duration = context.calculateTrackDurationWithPause(track);
+  if (context.mode !== 'session' || track.id !== context.activeTrackId) {
+    return duration;
+  }
+  return Math.max(0, duration - (context.currentTrackElapsed ?? 0));
 }
 
 /**
@@ -97,16 +159,20 @@ export function calculateNextEvenTime(currentTime: number, hourDividerInterval:
 
 /**
  * Вычисляет накопленную длительность от startIndex до endIndex (включительно)
+ * @param startRealTime - время начала отсчёта (timestamp); если задано, учитывается
+ *   ожидание запланированных блоков
  */
 export function calculateAccumulatedDuration(
   tracks: Track[],
   startIndex: number,
   endIndex: number,
   context: DividerCalculationContext,
+  startRealTime: number | null = null,
 ): number {
-  const { mode, isTrackDisabled, isTrackPlayed, calculateTrackDurationWithPause } = context;
+  const { mode, isTrackDisabled, isTrackPlayed } = context;
 
   let accumulatedDuration = 0;
+  let previousTrack: Track | null = null;
 
   for (let i = startIndex; i <= endIndex && i < tracks.length; i++) {
     const track = tracks[i];
@@ -121,10 +187,20 @@ export function calculateAccumulatedDuration(
       continue;
     }
 
-    // Добавляем длительность трека с учетом паузы
-    const trackDuration = calculateTrackDurationWithPause(track);
+    // Добавляем длительность трека с учетом паузы и наложения на предыдущий трек
+    const trackDuration = getRemainingTrackDuration(track, context);
+    const overlap = getOverlapWithPrevious(previousTrack, track, context);
+    accumulatedDuration -= overlap;
+
+    // Ожидание запланированного блока сдвигает начало трека
+    if (startRealTime !== null) {
+      const trackStartRealTime = startRealTime + accumulatedDuration * 1000;
+      const scheduledStart = getScheduledTrackStart(track, trackStartRealTime, overlap, context);
+      accumulatedDuration += (scheduledStart - trackStartRealTime) / 1000;
+    }
 
     accumulatedDuration += trackDuration;
+    previousTrack = track;
   }
 
   return accumulatedDuration;
@@ -173,7 +249,7 @@ export function calculateDividerMarkers(
   }
 
   const startPosition = calculateStartPosition(context);
-  const { startFromIndex, currentRealTime } = startPosition;
+  const { currentRealTime } = startPosition;
 
   // Вычисляем следующее ровное время для режима сессии
   if (context.mode === 'session' && currentRealTime !== null) {
@@ -182,6 +258,8 @@ export function calculateDividerMarkers(
 
   // В режиме подготовки используем логику с учетом пауз между треками
   if (context.mode === 'preparation') {
+    let previousTrack: Track | null = null;
+
     // Начинаем с начала списка
     for (let i = 0; i < tracks.length; i++) {
       const track = tracks[i];
@@ -191,8 +269,11 @@ export function calculateDividerMarkers(
         continue;
       }
 
-      // В режиме подготовки учитываем паузы между треками (как в режиме сессии)
-      accumulatedDuration += context.calculateTrackDurationWithPause(track);
+      // В режиме подготовки учитываем паузы и кроссфейды между треками (как в режиме сессии)
+      accumulatedDuration +=
+        context.calculateTrackDurationWithPause(track) -
+        getOverlapWithPrevious(previousTrack, track, context);
+      previousTrack = track;
 
       // Используем ту же логику, что и в плейлисте
       const intervals = Math.floor(accumulatedDuration / hourDividerInterval);
@@ -200,73 +281,26 @@ export function calculateDividerMarkers(
         markers.set(track.id, null);
       }
     }
-  } else {
+  } else if (currentRealTime !== null) {
     // В режиме сессии: отсчет от текущего трека и текущего момента
-    // currentRealTime уже включает проигранное время до текущего момента
-    // accumulatedDuration начинается с 0 и накапливается от текущего трека
-    let previousTrack: Track | null = null;
-
-    for (let i = startFromIndex; i < tracks.length; i++) {
-      const track = tracks[i];
-
-      // Пропускаем отключённые треки
-      if (context.isTrackDisabled(track.id)) {
-        continue;
+    // (проигранные треки и проигранная часть текущего уже учтены в currentRealTime)
+    let previousTrackId: string | null = null;
+
+    for (const [trackId, { start, end }] of calculateTrackTimeline(context, currentRealTime)) {
+      // Проверяем обычные отсечки (ровное время): отсечка попадает внутри трека
+      if (nextEvenTime !== null && nextEvenTime >= start && nextEvenTime <= end) {
+        markers.set(trackId, end);
+        nextEvenTime += hourDividerInterval * 1000;
       }
 
-      // Пропускаем проигранные треки (они уже учтены в currentRealTime)
-      if (context.isTrackPlayed(track.id)) {
-        continue;
+      // Проверяем красную отсечку (плановое время окончания)
+      // Для красной отсечки используем округление вверх: если время попадает внутри трека,
+      // показываем отсечку после предыдущего трека
+      if (plannedEndTime !== null && plannedEndTime !== undefined && plannedEndMarker === null) {
+        plannedEndMarker = findPlannedEndPosition(plannedEndTime, start, end, previousTrackId);
       }
 
-      // Добавляем длительность трека с учетом паузы
-      const trackDuration = context.calculateTrackDurationWithPause(track);
-
-      // Проверяем, попадает ли отсечка внутри этого трека
-      // Для этого проверяем ДО того, как добавим длительность трека
-      if (currentRealTime !== null) {
-        // Время начала трека (в реальном времени)
-        const trackStartRealTime = currentRealTime + accumulatedDuration * 1000;
-        // Время окончания трека (в реальном времени)
-        const trackEndRealTime = trackStartRealTime + trackDuration * 1000;
-
-        // Проверяем обычные отсечки (ровное время)
-        if (nextEvenTime !== null) {
-          // Проверяем, попадает ли отсечка внутри трека
-          if (nextEvenTime >= trackStartRealTime && nextEvenTime <= trackEndRealTime) {
-            // Отсечка попадает внутри трека - сохраняем время отсечки
-            markers.set(track.id, trackEndRealTime);
-            // Вычисляем следующее ровное время
-            nextEvenTime += hourDividerInterval * 1000;
-          }
-        }
-
-        // Проверяем красную отсечку (плановое время окончания)
-        // Для красной отсечки используем округление вверх: если время попадает внутри трека,
-        // показываем отсечку после предыдущего трека
-        if (
-          plannedEndTime !== null &&
-          plannedEndTime !== undefined &&
-          plannedEndMarker === null &&
-          context.mode === 'session'
-        ) {
-          const position = findPlannedEndPosition(
-            plannedEndTime,
-            trackStartRealTime,
-            trackEndRealTime,
-            previousTrack,
-          );
-          if (position !== null) {
-            plannedEndMarker = position;
-          }
-        }
-      }
-
-      // Сохраняем текущий трек как предыдущий для следующей итерации
-      previousTrack = track;
-
-      // Накопленная длительность от текущего момента (начинается с 0)
-      accumulatedDuration += trackDuration;
+      previousTrackId = trackId;
     }
   }
 
@@ -338,6 +372,7 @@ export function formatDividerLabel(
       startFromIndex,
       trackIndex,
       context,
+      currentRealTime,
     );
 
     // Вычисляем будущее реальное время
@@ -359,14 +394,18 @@ export function formatDividerLabel(
     // Режим подготовки: учитываем паузы между треками
     // Считаем накопленную длительность от начала, пропуская отключенные треки
     let accumulatedDuration = 0;
+    let previousTrack: Track | null = null;
     for (let i = 0; i <= trackIndex && i < tracks.length; i++) {
       const track = tracks[i];
       // Пропускаем отключённые треки
       if (context.isTrackDisabled(track.id)) {
         continue;
       }
-      // Учитываем паузы между треками (как в режиме сессии)
-      accumulatedDuration += context.calculateTrackDurationWithPause(track);
+      // Учитываем паузы и кроссфейды между треками (как в режиме сессии)
+      accumulatedDuration +=
+        context.calculateTrackDurationWithPause(track) -
+        getOverlapWithPrevious(previousTrack, track, context);
+      previousTrack = track;
     }
     return formatTimeFromDuration(accumulatedDuration);
   }
@@ -449,17 +488,17 @@ export function calculatePlannedEndDividerPosition<T extends { id: string }>(
  * @param plannedEndTime - Плановое время окончания (timestamp)
  * @param trackStartRealTime - Время начала трека (timestamp)
  * @param trackEndRealTime - Время окончания трека (timestamp)
- * @param previousTrack - Предыдущий трек или null для первого трека
+ * @param previousTrackId - ID предыдущего трека или null для первого трека
  * @returns Объект с trackId и time, или null если не найдено
  */
 function findPlannedEndPosition(
   plannedEndTime: number,
   trackStartRealTime: number,
   trackEndRealTime: number,
-  previousTrack: Track | null,
+  previousTrackId: string | null,
 ): { trackId: string | null; time: number | null } | null {
   // Проверяем, попадает ли плановое время окончания до начала первого трека
-  if (previousTrack === null && plannedEndTime < trackStartRealTime) {
+  if (previousTrackId === null && plannedEndTime < trackStartRealTime) {
     // Плановое время попадает до начала первого трека - отсечка вверху
     return {
       trackId: null,
@@ -472,7 +511,7 @@ function findPlannedEndPosition(
     // Плановое время попадает внутри трека - округляем вверх
     // Используем предыдущий трек, если он есть, иначе null (отсечка вверху)
     return {
-      trackId: previousTrack?.id ?? null,
+      trackId: previousTrackId,
       time: trackStartRealTime,
     };
   }
@@ -505,12 +544,63 @@ export function calculateProjectedEndTime(context: DividerCalculationContext): n
     startFromIndex,
     context.tracks.length - 1,
     context,
+    currentRealTime,
   );
 
   // Вычисляем время окончания: текущее время + оставшаяся длительность
   return currentRealTime + remainingDuration * 1000;
 }
 
+/**
+ * Время начала и окончания (timestamp) оставшихся треков, начиная с текущего
+ *
+ * Учитывает наложения кроссфейда, ожидание запланированных блоков и проигранную часть
+ * текущего трека; отключённые и проигранные треки пропускаются. Используется для
+ * плановой отсечки и для правила общей длительности, чтобы они не расходились
+ */
+export function calculateTrackTimeline(
+  context: DividerCalculationContext,
+  startRealTime: number = Date.now(),
+): Map<string, { start: number; end: number }> {
+  const { tracks, activeTrackId, isTrackDisabled, isTrackPlayed } = context;
+  const timeline = new Map<string, { start: number; end: number }>();
+  const startFromIndex = findStartIndex(tracks, activeTrackId, isTrackDisabled, isTrackPlayed);
+
+  let accumulatedDuration = 0;
+  let previousTrack: Track | null = null;
+
+  for (let i = startFromIndex; i < tracks.length; i++) {
+    const track = tracks[i];
+    if (isTrackDisabled(track.id) || isTrackPlayed(track.id)) {
+      continue;
+    }
+
+    // Трек начинается раньше на длительность кроссфейда с предыдущим треком
+    const overlap = getOverlapWithPrevious(previousTrack, track, context);
+    accumulatedDuration -= overlap;
+
+    // Время начала трека с учётом ожидания запланированного блока
+    const unscheduledStartRealTime = startRealTime + accumulatedDuration * 1000;
+    const trackStartRealTime = getScheduledTrackStart(
+      track,
+      unscheduledStartRealTime,
+      overlap,
+      context,
+    );
+    accumulatedDuration += (trackStartRealTime - unscheduledStartRealTime) / 1000;
+
+    const trackDuration = getRemainingTrackDuration(track, context);
+    timeline.set(track.id, {
+      start: trackStartRealTime,
+      end: trackStartRealTime + trackDuration * 1000,
+    });
+    previousTrack = track;
+    accumulatedDuration += trackDuration;
+  }
+
+  return timeline;
+}
+
 /**
  * Вычисляет plannedEndMarker независимо от showHourDividers
  * Используется для красной отсечки, которая должна показываться всегда при наличии plannedEndTime
@@ -519,17 +609,47 @@ export function calculatePlannedEndMarker(
   context: DividerCalculationContext,
   plannedEndTime: number | null,
 ): { trackId: string | null; time: number | null } | null {
-  const { mode, tracks } = context;
+  if (context.mode !== 'session' || plannedEndTime === null || plannedEndTime === undefined) {
+    return null;
+  }
 
-  if (mode !== 'session' || plannedEndTime === null || plannedEndTime === undefined) {
+  const { currentRealTime } = calculateStartPosition(context);
+  if (currentRealTime === null) {
     return null;
   }
 
-  const startPosition = calculateStartPosition(context);
-  const { startFromIndex, currentRealTime } = startPosition;
+  let previousTrackId: string | null = null;
+  for (const [trackId, { start, end }] of calculateTrackTimeline(context, currentRealTime)) {
+    // Проверяем позицию планового времени окончания
+    const position = findPlannedEndPosition(plannedEndTime, start, end, previousTrackId);
+    if (position !== null) {
+      return position;
+    }
+    previousTrackId = trackId;
+  }
+
+  // Если не нашли позицию, возвращаем null (отсечка будет показана в конце)
+  return null;
+}
+
+/**
+ * Вычисляет прогноз начала запланированных блоков в сессии (groupId -> прогноз)
+ * projectedTime - когда блок начался бы без ожидания: раньше плана - сессия подождёт,
+ * позже - блок опаздывает
+ */
+export function calculateScheduleMarkers(
+  context: DividerCalculationContext,
+): Map<string, ScheduleMarker> {
+  const markers = new Map<string, ScheduleMarker>();
+  const { mode, tracks } = context;
+
+  if (mode !== 'session' || !context.getScheduledBlockStart) {
+    return markers;
+  }
 
+  const { startFromIndex, currentRealTime } = calculateStartPosition(context);
   if (currentRealTime === null) {
-    return null;
+    return markers;
   }
 
   let accumulatedDuration = 0;
@@ -538,38 +658,33 @@ export function calculatePlannedEndMarker(
   for (let i = startFromIndex; i < tracks.length; i++) {
     const track = tracks[i];
 
-    // Пропускаем отключённые треки
-    if (context.isTrackDisabled(track.id)) {
+    // Пропускаем отключённые и проигранные треки
+    if (context.isTrackDisabled(track.id) || context.isTrackPlayed(track.id)) {
       continue;
     }
 
-    // Пропускаем проигранные треки
-    if (context.isTrackPlayed(track.id)) {
-      continue;
-    }
+    const overlap = getOverlapWithPrevious(previousTrack, track, context);
+    accumulatedDuration -= overlap;
 
-    // Добавляем длительность трека с учетом паузы
-    const trackDuration = context.calculateTrackDurationWithPause(track);
-
-    // Время начала трека (в реальном времени)
-    const trackStartRealTime = currentRealTime + accumulatedDuration * 1000;
-    // Время окончания трека (в реальном времени)
-    const trackEndRealTime = trackStartRealTime + trackDuration * 1000;
-
-    // Проверяем позицию планового времени окончания
-    const position = findPlannedEndPosition(
-      plannedEndTime,
-      trackStartRealTime,
-      trackEndRealTime,
-      previousTrack,
-    );
-    if (position !== null) {
-      return position;
+    const unscheduledStartRealTime = currentRealTime + accumulatedDuration * 1000;
+    const block = context.getScheduledBlockStart(track);
+    if (block && !markers.has(block.groupId)) {
+      markers.set(block.groupId, {
+        scheduledTime: block.scheduledTime,
+        projectedTime: unscheduledStartRealTime,
+      });
     }
+    const trackStartRealTime = getScheduledTrackStart(
+      track,
+      unscheduledStartRealTime,
+      overlap,
+      context,
+    );
+    accumulatedDuration += (trackStartRealTime - unscheduledStartRealTime) / 1000;
+
     previousTrack = track;
-    accumulatedDuration += trackDuration;
+    accumulatedDuration += getRemainingTrackDuration(track, context);
   }
 
-  // Если не нашли позицию, возвращаем null (отсечка будет показана в конце)
-  return null;
+  return markers;
 }
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { ExportProgress } from '@core/types/export';
+import { Track } from '@core/types/track';
+import { exportService, ipcService } from '@shared/services';
+import { useSettingsStore } from '@shared/stores/settingsStore';
+import { useUIStore } from '@shared/stores/uiStore';
+import { buildMixSegments, getExportResultNotification } from '@shared/utils';
+
+import { usePlayerSettings } from './usePlayerSettings';
+
+interface UseMixRenderParams {
+  tracks: Track[]; // Все треки плеера по порядку
+  isTrackDisabled: (trackId: string) => boolean;
+  name: string;
+}
+
+const MIX_FILTERS = [
+  { name: 'MP3', extensions: ['mp3'] },
+  { name: 'WAV', extensions: ['wav'] },
+  { name: 'FLAC', extensions: ['flac'] },
+  { name: 'AAC (M4A)', extensions: ['m4a'] },
+  { name: 'Ogg Vorbis', extensions: ['ogg'] },
+];
+
+/**
+ * Сведение сессии плеера в один аудиофайл с CUE (для мероприятий без ноутбука)
+ *
+ * Рендер идёт в main процессе как задача экспорта: прогресс приходит событиями,
+ * задачу можно отменить. Формат файла выбирается расширением в диалоге сохранения.
+ */
+export function useMixRender({ tracks, isTrackDisabled, name }: UseMixRenderParams) {
+  const addNotification = useUIStore((state) => state.addNotification);
+  const mixBitrate = useSettingsStore((state) => state.mixBitrate);
+  const { getEffectiveTrackSettings, getPlayback } = usePlayerSettings();
+  const [mixJobId, setMixJobId] = useState<string | null>(null);
+  const [mixProgress, setMixProgress] = useState<ExportProgress | null>(null);
+  const mixJobIdRef = useRef<string | null>(null);
+
+  useEffect(
+    () =>
+      exportService.onProgress((event) => {
+        if (event.jobId === mixJobIdRef.current) {
+          setMixProgress(event);
+        }
+      }),
+    [],
+  );
+
+  const handleRenderMix = useCallback(async () => {
+    const segments = buildMixSegments(
+      tracks,
+      (track) => ({ ...getEffectiveTrackSettings(track.id), playback: getPlayback(track.id) }),
+      isTrackDisabled,
+    );
+    if (segments.length === 0) {
+      addNotification({ type: 'info', message: 'Нет включённых треков для сведения' });
+      return;
+    }
+
+    const outputPath = await ipcService.showSaveDialog({
+      title: 'Свести сессию в один файл',
+      defaultPath: `${name || 'mix'}.mp3`,
+      filters: MIX_FILTERS,
+    });
+    if (!outputPath) {
+      return;
+    }
+
+    const jobId = exportService.createJobId();
+    mixJobIdRef.current = jobId;
+    setMixJobId(jobId);
+    setMixProgress(null);
+
+    try {
+      const result = await exportService.exportMix({
+        segments,
+        outputPath,
+        name: name || 'Mix',
+        // Битрейт сведения задаётся в настройках (FFmpeg - тоже из настроек)
+        options: { transcodeBitrate: mixBitrate },
+        jobId,
+      });
+      addNotification(getExportResultNotification(result));
+    } catch (error) {
+      addNotification({ type: 'error', message: `Ошибка сведения: ${(error as Error).message}` });
+    } finally {
+      mixJobIdRef.current = null;
+      setMixJobId(null);
+      setMixProgress(null);
+    }
+  }, [
+    tracks,
+    isTrackDisabled,
+    name,
+    mixBitrate,
+    getEffectiveTrackSettings,
+    getPlayback,
+    addNotification,
+  ]);
+
+  const handleCancelMix = useCallback(() => {
+    if (mixJobId) {
+      void exportService.cancelExport(mixJobId);
+    }
+  }, [mixJobId]);
+
+  return {
+    isRenderingMix: mixJobId !== null,
+    mixProgress,
+    handleRenderMix,
+    handleCancelMix,
+  };
+}
@@ -1,12 +1,12 @@
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 
-import { Track } from '@core/types/track';
 import { isPlayerGroup } from '@core/types/player';
+import { Track } from '@core/types/track';
 import { useSettingsStore } from '@shared/stores';
-import { usePlayerSessionStore } from '@shared/stores/playerSessionStore';
-import { usePlayerSettingsStore } from '@shared/stores/playerSettingsStore';
 import { usePlayerAudioStore } from '@shared/stores/playerAudioStore';
 import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
+import { usePlayerSessionStore } from '@shared/stores/playerSessionStore';
+import { usePlayerSettingsStore } from '@shared/stores/playerSettingsStore';
 
 import {
   calculateDividerMarkers as calculateDividerMarkersUtil,
@@ -14,11 +14,19 @@ import {
   calculatePlannedEndDividerPosition,
   calculateProjectedEndTime,
   calculatePlannedEndMarker,
+  calculateScheduleMarkers,
+  calculateStartPosition,
+  calculateTrackTimeline,
   formatTimeFromTimestamp,
   type DividerCalculationContext,
 } from '../dividerUtils';
+import { formatScheduleDrift, resolveScheduledTimestamp } from '../scheduleUtils';
+
 import { usePlayerSettings } from './usePlayerSettings';
 
+// Без воспроизведения время окончания треков сдвигается вместе с часами
+const TIMELINE_REFRESH_INTERVAL_MS = 60 * 1000;
+
 interface UsePlayerDividersParams {
   allTracks: Track[];
   displayItems: Array<{ item: { id: string } }>;
@@ -33,8 +41,11 @@ export function usePlayerDividers({
   const mode = usePlayerSessionStore((state) => state.mode);
   const { hourDividerInterval, showHourDividers } = useSettingsStore();
   const { plannedEndTime } = usePlayerSettingsStore();
-  const { currentTrack: activePlayerTrack, position: currentTrackPosition } =
-    usePlayerAudioStore();
+  const {
+    currentTrack: activePlayerTrack,
+    position: currentTrackPosition,
+    status: playerStatus,
+  } = usePlayerAudioStore();
   const activePlayerTrackId = activePlayerTrack?.id;
 
   const { isTrackDisabled, isTrackPlayed, isGroupDisabled } = usePlayerSessionStore();
@@ -57,7 +68,34 @@ export function usePlayerDividers({
     Array.from(state.playedTrackIds).sort().join(','),
   );
 
-  const { calculateTrackDurationWithPause } = usePlayerSettings();
+  const {
+    calculateTrackDurationWithPause,
+    getTransitionOverlap,
+    getEffectiveDuration,
+    getScheduledBlock,
+    getCuePoints,
+    getPlayback,
+  } = usePlayerSettings();
+
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(Date.now()), TIMELINE_REFRESH_INTERVAL_MS);
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, []);
+
+  // Проигранная часть текущего трека: позиция отсчитывается от начала файла
+  const currentTrackElapsed = useMemo(() => {
+    if (!activePlayerTrackId || currentTrackPosition === undefined) {
+      return 0;
+    }
+    const { startOffset } = getCuePoints(activePlayerTrackId);
+    return Math.max(
+      0,
+      (currentTrackPosition - startOffset) / getPlayback(activePlayerTrackId).rate,
+    );
+  }, [activePlayerTrackId, currentTrackPosition, getCuePoints, getPlayback]);
 
   const isTrackOrGroupDisabled = useCallback(
     (itemId: string): boolean => {
@@ -81,7 +119,27 @@ export function usePlayerDividers({
     // Примечание: disabledTracksKey и disabledGroupsKey необходимы для пересчёта функции
     // при изменении состояния disabled tracks/groups, так как функции isTrackDisabled/isGroupDisabled
     // не меняют свою ссылку при изменении store
-    [isTrackDisabled, isGroupDisabled, getItemPath, findItemById, disabledTracksKey, disabledGroupsKey],
+    [
+      isTrackDisabled,
+      isGroupDisabled,
+      getItemPath,
+      findItemById,
+      disabledTracksKey,
+      disabledGroupsKey,
+    ],
+  );
+
+  // Блок, текущий трек которого уже звучит, начался - ожидание к нему не применяется
+  const getScheduledBlockStart = useCallback(
+    (track: Track) => {
+      if (track.id === activePlayerTrackId && playerStatus === 'playing') {
+        return null;
+      }
+      const block = getScheduledBlock(track.id, isTrackOrGroupDisabled);
+      const scheduledTime = block ? resolveScheduledTimestamp(block.startTime, Date.now()) : null;
+      return block && scheduledTime !== null ? { groupId: block.groupId, scheduledTime } : null;
+    },
+    [activePlayerTrackId, playerStatus, getScheduledBlock, isTrackOrGroupDisabled],
   );
 
   const dividerCalculationContext: DividerCalculationContext = useMemo(
@@ -95,6 +153,10 @@ export function usePlayerDividers({
       isTrackPlayed,
       calculateTrackDurationWithPause: (track: Track) =>
         calculateTrackDurationWithPause(track, true),
+      currentTrackElapsed,
+      getTransitionOverlap,
+      getEffectiveDuration,
+      getScheduledBlockStart,
     }),
     [
       allTracks,
@@ -105,6 +167,10 @@ export function usePlayerDividers({
       isTrackOrGroupDisabled,
       isTrackPlayed,
       calculateTrackDurationWithPause,
+      currentTrackElapsed,
+      getTransitionOverlap,
+      getEffectiveDuration,
+      getScheduledBlockStart,
       // Примечание: ключи необходимы для пересчёта при изменении состояния
       disabledTracksKey,
       disabledGroupsKey,
@@ -159,12 +225,18 @@ export function usePlayerDividers({
     return formatTimeFromTimestamp(projectedEndTime);
   }, [projectedEndTime]);
 
+  // В сессии к плановому времени окончания добавляется прогноз и его отклонение от плана
+  const plannedEndDriftLabel =
+    plannedEndTime !== null && projectedEndTime !== null
+      ? ` (прогноз ${formatTimeFromTimestamp(projectedEndTime)}, ${formatScheduleDrift(projectedEndTime - plannedEndTime)})`
+      : '';
+
   const formatPlannedEndTimeLabel = useCallback((): string => {
     if (plannedEndTime === null) {
       return '';
     }
-    return formatTimeFromTimestamp(plannedEndTime);
-  }, [plannedEndTime]);
+    return formatTimeFromTimestamp(plannedEndTime) + plannedEndDriftLabel;
+  }, [plannedEndTime, plannedEndDriftLabel]);
 
   const plannedEndMarker = useMemo(() => {
     const isPreparationMode = mode === 'preparation';
@@ -177,10 +249,10 @@ export function usePlayerDividers({
   const formatPlannedEndMarkerTime = useCallback((): string => {
     const markerTime = plannedEndMarker?.time;
     if (markerTime !== null && markerTime !== undefined && markerTime > 0) {
-      return formatTimeFromTimestamp(markerTime);
+      return formatTimeFromTimestamp(markerTime) + plannedEndDriftLabel;
     }
     return formatPlannedEndTimeLabel();
-  }, [plannedEndMarker, formatPlannedEndTimeLabel]);
+  }, [plannedEndMarker, plannedEndDriftLabel, formatPlannedEndTimeLabel]);
 
   const plannedEndDividerPosition = useMemo(() => {
     const isPreparationMode = mode === 'preparation';
@@ -203,8 +275,22 @@ export function usePlayerDividers({
     dividerMarkersResult.startPosition,
   ]);
 
+  // Прогноз начала запланированных блоков (только в сессии)
+  const scheduleMarkers = useMemo(
+    () => calculateScheduleMarkers(dividerCalculationContext),
+    [dividerCalculationContext],
+  );
+
+  // Окончание оставшихся треков для правила общей длительности - по той же шкале, что и отсечки
+  // (в сессии отсчёт от текущего момента, в подготовке - от времени последнего обновления)
+  const trackTimeline = useMemo(() => {
+    const startTime = calculateStartPosition(dividerCalculationContext).currentRealTime ?? now;
+    return { startTime, tracks: calculateTrackTimeline(dividerCalculationContext, startTime) };
+  }, [dividerCalculationContext, now]);
+
   return {
     calculateDividerMarkers,
+    scheduleMarkers,
     formatDividerLabel,
     projectedEndTime,
     formatProjectedEndTime,
@@ -212,6 +298,6 @@ export function usePlayerDividers({
     formatPlannedEndMarkerTime,
     plannedEndDividerPosition,
     showHourDividers,
+    trackTimeline,
   };
 }
-
@@ -90,7 +90,7 @@ export function usePlayerDragAndDrop({
           const rawData = e.dataTransfer.getData('application/json');
           const parsed = JSON.parse(rawData);
 
-          if (parsed.type === 'fileBrowser') {
+          if (parsed.type === 'fileBrowser' || parsed.type === 'files') {
             const files: string[] = Array.isArray(parsed.paths) ? parsed.paths : [];
             const directories: string[] = Array.isArray(parsed.directories)
               ? parsed.directories
@@ -390,4 +390,3 @@ export function usePlayerDragAndDrop({
     handleDropWithGroups,
   };
 }
-
@@ -0,0 +1,113 @@
+import { useCallback } from 'react';
+
+import { DEFAULT_PLAYER_WORKSPACE_ID } from '@core/constants/workspace';
+import { ipcService, playerService } from '@shared/services';
+import { usePlayerAudioStore } from '@shared/stores/playerAudioStore';
+import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
+import { usePlayerSessionStore } from '@shared/stores/playerSessionStore';
+import {
+  DEFAULT_CROSSFADE_DURATION,
+  DEFAULT_CUE_POINTS,
+  usePlayerSettingsStore,
+} from '@shared/stores/playerSettingsStore';
+import { usePlayerStore } from '@shared/stores/playerStore';
+import { useRulesStore } from '@shared/stores/rulesStore';
+import { useUIStore } from '@shared/stores/uiStore';
+import { deserializePlayerFile, serializePlayerFile } from '@shared/utils/playerFileUtils';
+
+const PLAYER_FILE_EXTENSION = '.player.json';
+
+/**
+ * Добавляет расширение .player.json, если его нет
+ */
+function ensurePlayerFileExtension(filePath: string): string {
+  if (filePath.toLowerCase().endsWith(PLAYER_FILE_EXTENSION)) {
+    return filePath;
+  }
+  return filePath.replace(/\.json$/i, '') + PLAYER_FILE_EXTENSION;
+}
+
+/**
+ * Сохранение и загрузка плеера в файл .player.json
+ */
+export function usePlayerFile() {
+  const addNotification = useUIStore((state) => state.addNotification);
+
+  const handleSavePlayer = useCallback(async () => {
+    try {
+      const { name } = usePlayerStore.getState();
+      const { items } = usePlayerItemsStore.getState();
+      const settingsState = usePlayerSettingsStore.getState();
+
+      const path = await ipcService.showSaveDialog({
+        title: 'Сохранить плеер',
+        defaultPath: `${name || 'player'}${PLAYER_FILE_EXTENSION}`,
+        filters: [{ name: 'Файлы плеера', extensions: ['json'] }],
+      });
+
+      if (path) {
+        const data = serializePlayerFile({
+          name,
+          items,
+          trackSettings: settingsState.trackSettings,
+          groupSettings: settingsState.groupSettings,
+          settings: {
+            defaultPauseBetweenTracks: settingsState.defaultPauseBetweenTracks,
+            defaultActionAfterTrack: settingsState.defaultActionAfterTrack,
+            defaultCrossfadeDuration: settingsState.defaultCrossfadeDuration,
+            defaultCuePoints: settingsState.defaultCuePoints,
+            plannedEndTime: settingsState.plannedEndTime,
+          },
+          rules: useRulesStore.getState().getRules(DEFAULT_PLAYER_WORKSPACE_ID),
+        });
+        await playerService.savePlayer(ensurePlayerFileExtension(path), data);
+        addNotification({ type: 'success', message: 'Плеер сохранён' });
+      }
+    } catch (error) {
+      addNotification({ type: 'error', message: `Ошибка сохранения: ${(error as Error).message}` });
+    }
+  }, [addNotification]);
+
+  const handleLoadPlayer = useCallback(async () => {
+    try {
+      const path = await ipcService.showOpenFileDialog({
+        title: 'Загрузить плеер',
+        filters: [{ name: 'Файлы плеера', extensions: ['json'] }],
+      });
+
+      if (!path) {
+        return;
+      }
+
+      const data = await playerService.loadPlayer(path);
+      const snapshot = deserializePlayerFile(data);
+
+      // Загрузка полностью заменяет плейлист и сбрасывает состояние сессии
+      usePlayerAudioStore.getState().clear();
+      usePlayerSessionStore.getState().resetSession();
+      usePlayerItemsStore.getState().deselectAll();
+      usePlayerItemsStore.getState().setItems(snapshot.items);
+      usePlayerSettingsStore.getState().replacePlaylistSettings({
+        ...snapshot.settings,
+        defaultCrossfadeDuration:
+          snapshot.settings.defaultCrossfadeDuration ?? DEFAULT_CROSSFADE_DURATION,
+        defaultCuePoints: { ...DEFAULT_CUE_POINTS, ...snapshot.settings.defaultCuePoints },
+        trackSettings: snapshot.trackSettings,
+        groupSettings: snapshot.groupSettings,
+      });
+      useRulesStore.getState().setRules(DEFAULT_PLAYER_WORKSPACE_ID, snapshot.rules);
+      if (snapshot.name) {
+        usePlayerStore.getState().setName(snapshot.name);
+      }
+
+      addNotification({ type: 'success', message: 'Плеер загружен' });
+    } catch (error) {
+      addNotification({ type: 'error', message: `Ошибка загрузки: ${(error as Error).message}` });
+    }
+  }, [addNotification]);
+
+  return {
+    handleSavePlayer,
+    handleLoadPlayer,
+  };
+}
@@ -1,14 +1,41 @@
 import { useCallback, useEffect, useRef } from 'react';
 
 import { DEFAULT_PLAYER_WORKSPACE_ID } from '@core/constants/workspace';
+import { isPlayerGroup } from '@core/types/player';
 import { Track } from '@core/types/track';
 import { useDemoPlayerStore } from '@shared/stores';
 import { usePlayerAudioStore } from '@shared/stores/playerAudioStore';
-import { usePlayerSessionStore } from '@shared/stores/playerSessionStore';
-import { logger } from '@shared/utils';
+import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
+import { usePlayerSessionLogStore } from '@shared/stores/playerSessionLogStore';
+import {
+  PlayerSessionPendingAction,
+  usePlayerSessionStore,
+} from '@shared/stores/playerSessionStore';
+import { useUIStore } from '@shared/stores/uiStore';
+import { getCueEndPosition, getEffectiveCrossfadeDuration, logger } from '@shared/utils';
+
+import {
+  SCHEDULE_LATE_TOLERANCE_MS,
+  ScheduledBlock,
+  resolveScheduledTimestamp,
+} from '../scheduleUtils';
 
 import { usePlayerSettings } from './usePlayerSettings';
 
+// Переход от заполнителя к запланированному блоку (секунды)
+const FILLER_CROSSFADE_DURATION = 3;
+// Как часто сохраняется позиция во время воспроизведения (мс)
+const SESSION_CHECKPOINT_INTERVAL_MS = 5000;
+
+/**
+ * Ожидание запланированного блока, пока играет группа-заполнитель
+ */
+interface ScheduleWait {
+  blockTrack: Track;
+  fillerTracks: Track[];
+  fillerIndex: number;
+}
+
 interface UsePlayerSessionParams {
   allTracks: Track[];
   isTrackActive: (trackId: string) => boolean;
@@ -25,27 +52,42 @@ export function usePlayerSession({
   const mode = usePlayerSessionStore((state) => state.mode);
   const startSession = usePlayerSessionStore((state) => state.startSession);
   const resetSession = usePlayerSessionStore((state) => state.resetSession);
+  const checkpoint = usePlayerSessionStore((state) => state.checkpoint);
   const {
     markTrackAsPlayed,
     setCurrentTrack,
     toggleTrackDisabled,
     toggleGroupDisabled,
+    saveCheckpoint,
   } = usePlayerSessionStore();
+  const logSessionStart = usePlayerSessionLogStore((state) => state.logSessionStart);
+  const logSessionEnd = usePlayerSessionLogStore((state) => state.logSessionEnd);
+  const logTrackStart = usePlayerSessionLogStore((state) => state.logTrackStart);
+  const logTrackEnd = usePlayerSessionLogStore((state) => state.logTrackEnd);
+  const logTrackDisabled = usePlayerSessionLogStore((state) => state.logTrackDisabled);
+  const logSeek = usePlayerSessionLogStore((state) => state.logSeek);
 
   const isPreparationMode = mode === 'preparation';
 
   const {
     currentTrack: activeDemoTrack,
     status: demoPlayerStatus,
+    position: demoPosition,
+    duration: demoDuration,
+    seek: seekDemo,
     loadTrack: loadDemoTrack,
     play: playDemo,
     pause: pauseDemo,
+    setPlayback: setDemoPlayback,
   } = useDemoPlayerStore();
   const activeDemoTrackId = activeDemoTrack?.id;
 
   const {
     currentTrack: activePlayerTrack,
     status: playerAudioStatus,
+    position: playerPosition,
+    duration: playerDuration,
+    seek: seekPlayer,
     loadTrack: loadPlayerTrack,
     play: playPlayer,
     pause: pausePlayer,
@@ -53,15 +95,67 @@ export function usePlayerSession({
     setOnTrackEnded,
     setPauseTimer,
     clearPauseTimer,
+    hasPauseTimer,
+    preloadTrack,
+    crossfadeTo,
+    setCrossfadePlan,
+    setCuePointsResolver,
+    setPlaybackResolver,
+    setEffectsResolver,
   } = usePlayerAudioStore();
   const activePlayerTrackId = activePlayerTrack?.id;
 
   const isProcessingTrackEndRef = useRef(false);
+  const scheduleWaitRef = useRef<ScheduleWait | null>(null);
+  const pendingActionRef = useRef<PlayerSessionPendingAction | null>(null);
+  const addNotification = useUIStore((state) => state.addNotification);
+  const { findItemById, getAllTracksInOrder } = usePlayerItemsStore((state) => ({
+    findItemById: state.findItemById,
+    getAllTracksInOrder: state.getAllTracksInOrder,
+  }));
 
   const activeTrackId = isPreparationMode ? activeDemoTrackId : activePlayerTrackId;
   const playerStatus = isPreparationMode ? demoPlayerStatus : playerAudioStatus;
+  const activePosition = isPreparationMode ? demoPosition : playerPosition;
+  const activeDuration = isPreparationMode
+    ? demoDuration || activeDemoTrack?.duration || 0
+    : playerDuration || activePlayerTrack?.duration || 0;
+
+  // Контрольная точка сессии: трек, позиция и отложенное действие (для продолжения после сбоя)
+  const saveSessionCheckpoint = useCallback(() => {
+    const { currentTrack, status, position } = usePlayerAudioStore.getState();
+    if (!currentTrack || (status !== 'playing' && status !== 'paused')) {
+      return;
+    }
+    saveCheckpoint({
+      trackId: currentTrack.id,
+      position,
+      isPlaying: status === 'playing',
+      pendingAction: hasPauseTimer() ? pendingActionRef.current : null,
+    });
+  }, [saveCheckpoint, hasPauseTimer]);
+
+  // Перемотка в сессии записывается в журнал
+  const seekSessionTrack = useCallback(
+    (position: number) => {
+      if (activePlayerTrackId) {
+        logSeek(activePlayerTrackId, usePlayerAudioStore.getState().position, position);
+      }
+      seekPlayer(position);
+      saveSessionCheckpoint();
+    },
+    [activePlayerTrackId, logSeek, seekPlayer, saveSessionCheckpoint],
+  );
+  const seekActiveTrack = isPreparationMode ? seekDemo : seekSessionTrack;
 
-  const { getEffectiveTrackSettings } = usePlayerSettings();
+  const {
+    getEffectiveTrackSettings,
+    getCuePoints,
+    getPlayback,
+    getEffectsPreset,
+    getScheduledBlock,
+    getEffectiveDuration,
+  } = usePlayerSettings();
 
   const getNextActiveTrack = useCallback(() => {
     const currentIndex = allTracks.findIndex((t) => t.id === activePlayerTrackId);
@@ -91,10 +185,149 @@ export function usePlayerSession({
         const track = allTracks[i];
         if (track && isTrackOrGroupDisabled(track.id) && !isTrackPlayed(track.id)) {
           markTrackAsPlayed(track.id);
+          logTrackDisabled(track);
         }
       }
     },
-    [allTracks, isTrackOrGroupDisabled, isTrackPlayed, markTrackAsPlayed],
+    [allTracks, isTrackOrGroupDisabled, isTrackPlayed, markTrackAsPlayed, logTrackDisabled],
+  );
+
+  // Запланированный блок, который начинается с трека, и время его начала (timestamp)
+  const getScheduledStart = useCallback(
+    (track: Track) => {
+      const block = getScheduledBlock(track.id, isTrackOrGroupDisabled);
+      const startTime = block ? resolveScheduledTimestamp(block.startTime, Date.now()) : null;
+      return block && startTime !== null ? { block, startTime } : null;
+    },
+    [getScheduledBlock, isTrackOrGroupDisabled],
+  );
+
+  // Треки группы-заполнителя запланированного блока (без первого трека самого блока)
+  const getFiller = useCallback(
+    (block: ScheduledBlock, blockTrack: Track) => {
+      const group = block.fillerGroupId ? findItemById(block.fillerGroupId) : null;
+      if (!group || !isPlayerGroup(group)) {
+        return null;
+      }
+      const tracks = getAllTracksInOrder([group]).filter((track) => track.id !== blockTrack.id);
+      return tracks.length > 0 ? { name: group.name, tracks } : null;
+    },
+    [findItemById, getAllTracksInOrder],
+  );
+
+  // Отложенное действие запоминается в контрольной точке, чтобы восстановить таймер после перезапуска
+  const schedulePendingAction = useCallback(
+    (action: PlayerSessionPendingAction, callback: () => void) => {
+      pendingActionRef.current = action;
+      setPauseTimer(
+        () => {
+          pendingActionRef.current = null;
+          callback();
+        },
+        Math.max(0, action.at - Date.now()),
+      );
+      saveSessionCheckpoint();
+    },
+    [setPauseTimer, saveSessionCheckpoint],
+  );
+
+  // Запуск трека после паузы между треками, если его не запустили и не сменили вручную
+  const playWaitingTrack = useCallback(
+    async (trackId: string) => {
+      const { status, currentTrack } = usePlayerAudioStore.getState();
+      if (status === 'paused' && currentTrack?.id === trackId) {
+        await playPlayer();
+      }
+    },
+    [playPlayer],
+  );
+
+  // Запускает блок, которого ждала сессия (после заполнителя - коротким кроссфейдом)
+  const startScheduledBlock = useCallback(
+    async (track: Track) => {
+      scheduleWaitRef.current = null;
+      clearPauseTimer();
+      try {
+        const { status, currentTrack } = usePlayerAudioStore.getState();
+        if (currentTrack && currentTrack.id !== track.id && status === 'playing') {
+          logTrackEnd(currentTrack.id, 'ended');
+          await crossfadeTo(track, FILLER_CROSSFADE_DURATION);
+        } else {
+          if (currentTrack?.id !== track.id) {
+            await loadPlayerTrack(track);
+          }
+          await playPlayer();
+        }
+        setCurrentTrack(track.id);
+      } catch (error) {
+        logger.error('Failed to start scheduled block', error);
+      }
+    },
+    [clearPauseTimer, crossfadeTo, loadPlayerTrack, playPlayer, setCurrentTrack, logTrackEnd],
+  );
+
+  /**
+   * Если следующий трек начинает запланированный блок раньше времени, сессия ждёт начала:
+   * в тишине (трек загружен на паузе) или под группу-заполнитель
+   * @returns true, если началось ожидание и следующий трек запустится по таймеру
+   */
+  const waitForScheduledBlock = useCallback(
+    async (nextTrack: Track): Promise<boolean> => {
+      const scheduled = getScheduledStart(nextTrack);
+      if (!scheduled) {
+        return false;
+      }
+      const { block, startTime } = scheduled;
+      const delay = startTime - Date.now();
+      if (delay <= 0) {
+        if (-delay > SCHEDULE_LATE_TOLERANCE_MS) {
+          addNotification({
+            type: 'warning',
+            message: `Блок «${block.groupName}» начинается с опозданием на ${Math.round(-delay / 60000)} мин`,
+          });
+        }
+        return false;
+      }
+
+      const filler = getFiller(block, nextTrack);
+      addNotification({
+        type: 'info',
+        message: filler
+          ? `Блок «${block.groupName}» начнётся в ${block.startTime}, до начала играет «${filler.name}»`
+          : `Блок «${block.groupName}» начнётся в ${block.startTime}`,
+      });
+
+      if (filler) {
+        scheduleWaitRef.current = {
+          blockTrack: nextTrack,
+          fillerTracks: filler.tracks,
+          fillerIndex: 0,
+        };
+        await loadPlayerTrack(filler.tracks[0]);
+        setCurrentTrack(filler.tracks[0].id);
+        await playPlayer();
+      } else {
+        await loadPlayerTrack(nextTrack);
+        setCurrentTrack(nextTrack.id);
+      }
+      schedulePendingAction(
+        { type: 'scheduledBlock', trackId: nextTrack.id, at: startTime },
+        () => {
+          void startScheduledBlock(nextTrack);
+        },
+      );
+      return true;
+    },
+    [
+      getScheduledStart,
+      getFiller,
+      addNotification,
+      loadPlayerTrack,
+      setCurrentTrack,
+      playPlayer,
+      schedulePendingAction,
+      startScheduledBlock,
+    ],
   );
 
   const startTrackPlayback = useCallback(
@@ -105,9 +338,13 @@ export function usePlayerSession({
           if (!isSameTrack || demoPlayerStatus === 'ended') {
             await loadDemoTrack(track, DEFAULT_PLAYER_WORKSPACE_ID);
           }
+          setDemoPlayback(getPlayback(track.id));
           await playDemo();
         } else {
           const isSameTrack = activePlayerTrackId === track.id;
+          if (!isSameTrack && activePlayerTrackId) {
+            logTrackEnd(activePlayerTrackId, 'skipped');
+          }
           if (!isSameTrack || playerAudioStatus === 'ended') {
             await loadPlayerTrack(track);
           }
@@ -125,8 +362,40 @@ export function usePlayerSession({
       playerAudioStatus,
       loadDemoTrack,
       loadPlayerTrack,
+      setDemoPlayback,
+      getPlayback,
       playDemo,
       playPlayer,
+      logTrackEnd,
+    ],
+  );
+
+  // Прослушивание трека на устройстве демо-плеера (наушники), повторный клик - пауза
+  const cueTrack = useCallback(
+    async (track: Track) => {
+      try {
+        const isSameTrack = activeDemoTrackId === track.id;
+        if (isSameTrack && demoPlayerStatus === 'playing') {
+          pauseDemo();
+          return;
+        }
+        if (!isSameTrack || demoPlayerStatus === 'ended') {
+          await loadDemoTrack(track, DEFAULT_PLAYER_WORKSPACE_ID);
+        }
+        setDemoPlayback(getPlayback(track.id));
+        await playDemo();
+      } catch (error) {
+        logger.error('Failed to cue track', error);
+      }
+    },
+    [
+      activeDemoTrackId,
+      demoPlayerStatus,
+      loadDemoTrack,
+      setDemoPlayback,
+      getPlayback,
+      playDemo,
+      pauseDemo,
     ],
   );
 
@@ -149,6 +418,7 @@ export function usePlayerSession({
     }
 
     startSession();
+    logSessionStart();
 
     const firstActiveTrack = allTracks.find((track) => isTrackActive(track.id));
 
@@ -161,14 +431,93 @@ export function usePlayerSession({
         logger.error('Failed to start first track playback', error);
       }
     }
-  }, [startSession, allTracks, isTrackActive, loadPlayerTrack, setCurrentTrack, playPlayer]);
+  }, [
+    startSession,
+    logSessionStart,
+    allTracks,
+    isTrackActive,
+    loadPlayerTrack,
+    setCurrentTrack,
+    playPlayer,
+  ]);
 
   const handleResetSession = useCallback(() => {
     clearPauseTimer();
+    scheduleWaitRef.current = null;
+    pendingActionRef.current = null;
+    logSessionEnd();
     resetSession();
     pausePlayer();
     isProcessingTrackEndRef.current = false;
-  }, [resetSession, pausePlayer, clearPauseTimer]);
+  }, [resetSession, logSessionEnd, pausePlayer, clearPauseTimer]);
+
+  // Трек контрольной точки, если сессия прервалась (приложение перезапущено, плеер пуст)
+  const resumeTrack =
+    !isPreparationMode && checkpoint && !activePlayerTrack
+      ? (allTracks.find((track) => track.id === checkpoint.trackId) ?? null)
+      : null;
+
+  /**
+   * Продолжение прерванной сессии: трек загружается с сохранённой позиции,
+   * таймер паузы между треками или ожидания запланированного блока восстанавливается
+   * (если время запуска уже прошло - действие выполняется сразу)
+   */
+  const handleResumeSession = useCallback(async () => {
+    const saved = usePlayerSessionStore.getState().checkpoint;
+    const track = saved ? allTracks.find((t) => t.id === saved.trackId) : undefined;
+    if (!saved || !track) {
+      return;
+    }
+
+    try {
+      await loadPlayerTrack(track);
+      seekPlayer(saved.position);
+      setCurrentTrack(track.id);
+
+      const action = saved.pendingAction;
+      const actionTrack = action ? allTracks.find((t) => t.id === action.trackId) : undefined;
+      if (action && actionTrack && action.type === 'scheduledBlock') {
+        // Ожидание под заполнитель продолжается с того же трека заполнителя
+        const scheduled = actionTrack.id !== track.id ? getScheduledStart(actionTrack) : null;
+        const filler = scheduled ? getFiller(scheduled.block, actionTrack) : null;
+        if (filler) {
+          scheduleWaitRef.current = {
+            blockTrack: actionTrack,
+            fillerTracks: filler.tracks,
+            fillerIndex: Math.max(
+              0,
+              filler.tracks.findIndex((t) => t.id === track.id),
+            ),
+          };
+        }
+        if (saved.isPlaying) {
+          await playPlayer();
+        }
+        schedulePendingAction(action, () => {
+          void startScheduledBlock(actionTrack);
+        });
+      } else if (action && actionTrack) {
+        schedulePendingAction(action, () => {
+          void playWaitingTrack(actionTrack.id);
+        });
+      } else if (saved.isPlaying) {
+        await playPlayer();
+      }
+    } catch (error) {
+      logger.error('Failed to resume session', error);
+    }
+  }, [
+    allTracks,
+    loadPlayerTrack,
+    seekPlayer,
+    setCurrentTrack,
+    getScheduledStart,
+    getFiller,
+    playPlayer,
+    schedulePendingAction,
+    startScheduledBlock,
+    playWaitingTrack,
+  ]);
 
   const handleTrackEnded = useCallback(async () => {
     if (!activePlayerTrackId || isPreparationMode) {
@@ -182,6 +531,19 @@ export function usePlayerSession({
     isProcessingTrackEndRef.current = true;
 
     try {
+      // Пока ждём запланированный блок, заполнитель играет по кругу (треки не отмечаются)
+      const scheduleWait = scheduleWaitRef.current;
+      if (scheduleWait) {
+        logTrackEnd(activePlayerTrackId, 'ended');
+        scheduleWait.fillerIndex =
+          (scheduleWait.fillerIndex + 1) % scheduleWait.fillerTracks.length;
+        const fillerTrack = scheduleWait.fillerTracks[scheduleWait.fillerIndex];
+        await loadPlayerTrack(fillerTrack);
+        setCurrentTrack(fillerTrack.id);
+        await playPlayer();
+        return;
+      }
+
       const currentTrack = allTracks.find((t) => t.id === activePlayerTrackId);
       if (!currentTrack) {
         return;
@@ -190,6 +552,7 @@ export function usePlayerSession({
       const currentIndex = allTracks.findIndex((t) => t.id === activePlayerTrackId);
 
       markTrackAsPlayed(activePlayerTrackId);
+      logTrackEnd(activePlayerTrackId, 'ended');
 
       const settings = getEffectiveTrackSettings(activePlayerTrackId);
 
@@ -209,24 +572,35 @@ export function usePlayerSession({
         if (nextTrack) {
           const nextIndex = allTracks.findIndex((t) => t.id === nextTrack.id);
           markSkippedDisabledTracks(currentIndex, nextIndex);
+          // Ожидание запланированного блока заменяет паузу между треками
+          if (await waitForScheduledBlock(nextTrack)) {
+            return;
+          }
           await loadPlayerTrack(nextTrack);
           setCurrentTrack(nextTrack.id);
-          setPauseTimer(async () => {
-            const currentStatus = usePlayerAudioStore.getState().status;
-            const currentTrackId = usePlayerAudioStore.getState().currentTrack?.id;
-            if (currentStatus === 'paused' && currentTrackId === nextTrack.id) {
-              await playPlayer();
-            }
-          }, settings.pauseBetweenTracks * 1000);
+          schedulePendingAction(
+            {
+              type: 'playTrack',
+              trackId: nextTrack.id,
+              at: Date.now() + settings.pauseBetweenTracks * 1000,
+            },
+            () => {
+              void playWaitingTrack(nextTrack.id);
+            },
+          );
         } else {
           markSkippedDisabledTracks(currentIndex, allTracks.length);
           setCurrentTrack(null);
         }
       } else {
+        // 'next', а также 'crossfade', если переход не начался до конца трека
         const nextTrack = getNextActiveTrack();
         if (nextTrack) {
           const nextIndex = allTracks.findIndex((t) => t.id === nextTrack.id);
           markSkippedDisabledTracks(currentIndex, nextIndex);
+          if (await waitForScheduledBlock(nextTrack)) {
+            return;
+          }
           await loadPlayerTrack(nextTrack);
           setCurrentTrack(nextTrack.id);
           await playPlayer();
@@ -243,13 +617,78 @@ export function usePlayerSession({
     isPreparationMode,
     allTracks,
     markTrackAsPlayed,
+    logTrackEnd,
     getEffectiveTrackSettings,
     getNextActiveTrack,
     loadPlayerTrack,
     setCurrentTrack,
     playPlayer,
     markSkippedDisabledTracks,
-    setPauseTimer,
+    schedulePendingAction,
+    playWaitingTrack,
+    waitForScheduledBlock,
+  ]);
+
+  // Кроссфейд начинается до конца трека: следующий трек запускается на второй деке
+  const handleCrossfadeStart = useCallback(async () => {
+    // Треки заполнителя доигрывают до конца и сменяются по кругу
+    if (
+      !activePlayerTrackId ||
+      isPreparationMode ||
+      isProcessingTrackEndRef.current ||
+      scheduleWaitRef.current
+    ) {
+      return;
+    }
+
+    const nextTrack = getNextActiveTrack();
+    if (!nextTrack) {
+      // Последний трек доигрывает до конца
+      return;
+    }
+
+    // В запланированный блок, время которого не наступило, кроссфейда нет: сессия будет ждать
+    const scheduled = getScheduledStart(nextTrack);
+    if (scheduled && scheduled.startTime > Date.now()) {
+      return;
+    }
+
+    isProcessingTrackEndRef.current = true;
+
+    try {
+      const currentIndex = allTracks.findIndex((t) => t.id === activePlayerTrackId);
+      const nextIndex = allTracks.findIndex((t) => t.id === nextTrack.id);
+      const settings = getEffectiveTrackSettings(activePlayerTrackId);
+      const { position, duration } = usePlayerAudioStore.getState();
+      const crossfadeDuration = getEffectiveCrossfadeDuration(
+        settings.crossfadeDuration,
+        getCueEndPosition(duration, settings.cuePoints) - position,
+        getEffectiveDuration(nextTrack),
+      );
+
+      markTrackAsPlayed(activePlayerTrackId);
+      logTrackEnd(activePlayerTrackId, 'ended');
+      markSkippedDisabledTracks(currentIndex, nextIndex);
+      await crossfadeTo(nextTrack, crossfadeDuration);
+      setCurrentTrack(nextTrack.id);
+    } catch (error) {
+      logger.error('Failed to start crossfade', error);
+    } finally {
+      isProcessingTrackEndRef.current = false;
+    }
+  }, [
+    activePlayerTrackId,
+    isPreparationMode,
+    allTracks,
+    getNextActiveTrack,
+    getScheduledStart,
+    getEffectiveTrackSettings,
+    getEffectiveDuration,
+    markTrackAsPlayed,
+    logTrackEnd,
+    markSkippedDisabledTracks,
+    crossfadeTo,
+    setCurrentTrack,
   ]);
 
   const handleNext = useCallback(async () => {
@@ -266,8 +705,17 @@ export function usePlayerSession({
     isProcessingTrackEndRef.current = true;
 
     try {
+      // Во время ожидания блока "Следующий" запускает блок сразу
+      const scheduleWait = scheduleWaitRef.current;
+      if (scheduleWait) {
+        logTrackEnd(activePlayerTrackId, 'skipped');
+        await startScheduledBlock(scheduleWait.blockTrack);
+        return;
+      }
+
       const currentIndex = allTracks.findIndex((t) => t.id === activePlayerTrackId);
       markTrackAsPlayed(activePlayerTrackId);
+      logTrackEnd(activePlayerTrackId, 'skipped');
       const nextTrack = getNextActiveTrack();
       if (nextTrack) {
         const nextIndex = allTracks.findIndex((t) => t.id === nextTrack.id);
@@ -288,6 +736,7 @@ export function usePlayerSession({
     activePlayerTrackId,
     allTracks,
     markTrackAsPlayed,
+    logTrackEnd,
     getNextActiveTrack,
     markSkippedDisabledTracks,
     loadPlayerTrack,
@@ -295,6 +744,7 @@ export function usePlayerSession({
     playPlayer,
     stop,
     clearPauseTimer,
+    startScheduledBlock,
   ]);
 
   useEffect(() => {
@@ -308,19 +758,111 @@ export function usePlayerSession({
     };
   }, [isPreparationMode, handleTrackEnded, setOnTrackEnded]);
 
+  // Точки входа/выхода и фейды применяет плеер сессии (демо-плеер подготовки играет трек целиком)
+  // Резолвер задаётся и в режиме подготовки, чтобы первый трек сессии уже был с ним
+  useEffect(() => {
+    setCuePointsResolver((track) => getCuePoints(track.id));
+    return () => {
+      setCuePointsResolver(undefined);
+    };
+  }, [getCuePoints, setCuePointsResolver]);
+
+  // Темп трека применяется и в плеере сессии, и при прослушивании в демо-плеере
+  useEffect(() => {
+    setPlaybackResolver((track) => getPlayback(track.id));
+    return () => {
+      setPlaybackResolver(undefined);
+    };
+  }, [getPlayback, setPlaybackResolver]);
+
+  // Эквалайзер и лимитер - только в плеере сессии (прослушивание в наушниках идёт без обработки)
+  useEffect(() => {
+    setEffectsResolver((track) => getEffectsPreset(track.id));
+    return () => {
+      setEffectsResolver(undefined);
+    };
+  }, [getEffectsPreset, setEffectsResolver]);
+
+  // План кроссфейда для текущего трека
+  useEffect(() => {
+    if (isPreparationMode || !activePlayerTrackId) {
+      setCrossfadePlan(null);
+      return;
+    }
+
+    const settings = getEffectiveTrackSettings(activePlayerTrackId);
+    if (settings.actionAfterTrack !== 'crossfade' || settings.crossfadeDuration <= 0) {
+      setCrossfadePlan(null);
+      return;
+    }
+
+    setCrossfadePlan({
+      trackId: activePlayerTrackId,
+      duration: settings.crossfadeDuration,
+      onStart: () => {
+        void handleCrossfadeStart();
+      },
+    });
+  }, [
+    isPreparationMode,
+    activePlayerTrackId,
+    getEffectiveTrackSettings,
+    handleCrossfadeStart,
+    setCrossfadePlan,
+  ]);
+
+  // Контрольная точка сохраняется при смене трека и паузе, а во время воспроизведения - периодически
+  useEffect(() => {
+    if (isPreparationMode || !activePlayerTrackId) {
+      return;
+    }
+    saveSessionCheckpoint();
+    if (playerAudioStatus !== 'playing') {
+      return;
+    }
+    const intervalId = setInterval(saveSessionCheckpoint, SESSION_CHECKPOINT_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isPreparationMode, activePlayerTrackId, playerAudioStatus, saveSessionCheckpoint]);
+
+  // Начало звучания трека в сессии записывается в журнал (продолжение после паузы - нет)
+  useEffect(() => {
+    if (!isPreparationMode && playerAudioStatus === 'playing' && activePlayerTrack) {
+      logTrackStart(activePlayerTrack);
+    }
+  }, [isPreparationMode, playerAudioStatus, activePlayerTrack, logTrackStart]);
+
+  // Следующий трек заранее загружается во вторую деку для перехода без паузы
+  useEffect(() => {
+    if (isPreparationMode || !activePlayerTrackId) {
+      return;
+    }
+    // Во время ожидания блока заранее загружается его первый трек
+    preloadTrack(scheduleWaitRef.current?.blockTrack ?? getNextActiveTrack()).catch((error) => {
+      logger.error('Failed to preload next track', error);
+    });
+  }, [isPreparationMode, activePlayerTrackId, getNextActiveTrack, preloadTrack]);
+
   return {
     mode,
     isPreparationMode,
     activeTrackId,
     playerStatus,
     activePlayerTrackId,
+    activePosition,
+    activeDuration,
+    seekActiveTrack,
     startTrackPlayback,
     pausePlayback,
+    cueTrack,
+    cuedTrackId: activeDemoTrackId ?? null,
+    isCuePlaying: demoPlayerStatus === 'playing',
     handleStartSession,
     handleResetSession,
+    resumeTrack,
+    resumePosition: checkpoint?.position ?? 0,
+    handleResumeSession,
     handleNext,
     toggleTrackDisabled,
     toggleGroupDisabled,
   };
 }
-
@@ -1,8 +1,25 @@
 import { useCallback } from 'react';
 
-import { ActionAfterTrack, usePlayerSettingsStore } from '@shared/stores/playerSettingsStore';
+import { isPlayerGroup, isPlayerTrack } from '@core/types/player';
 import { usePlayerItemsStore } from '@shared/stores/playerItemsStore';
-import { isPlayerGroup } from '@core/types/player';
+import {
+  ActionAfterTrack,
+  PlayerCuePoints,
+  PlayerEffectsPreset,
+  PlayerGroupSettings,
+  PlayerTrackPlayback,
+  usePlayerSettingsStore,
+} from '@shared/stores/playerSettingsStore';
+import {
+  getPlaybackDuration,
+  getSuggestedCueLevel,
+  getTrimmedDuration,
+  resolveCuePoints,
+  resolveEffectsPreset,
+  resolveTrackPlayback,
+} from '@shared/utils';
+
+import { ScheduledBlock, parseScheduledTime } from '../scheduleUtils';
 
 export function usePlayerSettings() {
   const {
@@ -13,19 +30,60 @@ export function usePlayerSettings() {
     setEditingGlobal,
     defaultActionAfterTrack,
     defaultPauseBetweenTracks,
+    defaultCrossfadeDuration,
+    defaultCuePoints,
+    autoTrimSilence,
+    trackSettings,
+    groupSettings,
+    effectsPresets,
+    defaultEffectsPresetId,
   } = usePlayerSettingsStore();
 
-  const { getItemPath, findItemById } = usePlayerItemsStore((state) => ({
+  const { getItemPath, findItemById, getAllTracksInOrder } = usePlayerItemsStore((state) => ({
     getItemPath: state.getItemPath,
     findItemById: state.findItemById,
+    getAllTracksInOrder: state.getAllTracksInOrder,
   }));
 
+  // Точки входа/выхода наследуются по каждому значению отдельно:
+  // трек → найденная анализом тишина (если включено) → группы → по умолчанию
+  const getCuePoints = useCallback(
+    (trackId: string): PlayerCuePoints => {
+      const track = findItemById(trackId);
+      const suggestedLevel =
+        autoTrimSilence && track && isPlayerTrack(track)
+          ? getSuggestedCueLevel(track.suggestedCue)
+          : undefined;
+      const path = getItemPath(trackId);
+      const groupLevels: PlayerGroupSettings[] = [];
+      for (let i = path.length - 1; i >= 0; i--) {
+        const item = findItemById(path[i]);
+        if (item && isPlayerGroup(item)) {
+          groupLevels.push(getGroupSettings(item.id));
+        }
+      }
+      return resolveCuePoints(
+        [getTrackSettings(trackId), suggestedLevel, ...groupLevels],
+        defaultCuePoints,
+      );
+    },
+    [
+      getTrackSettings,
+      getGroupSettings,
+      getItemPath,
+      findItemById,
+      defaultCuePoints,
+      autoTrimSilence,
+    ],
+  );
+
   const getEffectiveTrackSettings = useCallback(
     (trackId: string) => {
       const trackSettings = getTrackSettings(trackId);
 
       let effectiveActionAfterTrack: ActionAfterTrack = defaultActionAfterTrack;
       let effectivePauseBetweenTracks: number = defaultPauseBetweenTracks;
+      let effectiveCrossfadeDuration: number = defaultCrossfadeDuration;
 
       // 1. Проверяем настройки трека
       if (trackSettings.actionAfterTrack !== null && trackSettings.actionAfterTrack !== undefined) {
@@ -35,6 +93,10 @@ export function usePlayerSettings() {
           trackSettings.pauseBetweenTracks !== undefined
             ? trackSettings.pauseBetweenTracks
             : defaultPauseBetweenTracks;
+        effectiveCrossfadeDuration =
+          trackSettings.crossfadeDuration !== null && trackSettings.crossfadeDuration !== undefined
+            ? trackSettings.crossfadeDuration
+            : defaultCrossfadeDuration;
       } else {
         // 2. Ищем настройки в группах (от ближайшей к дальней)
         const path = getItemPath(trackId);
@@ -55,6 +117,11 @@ export function usePlayerSettings() {
                 groupSettings.pauseBetweenTracks !== undefined
                   ? groupSettings.pauseBetweenTracks
                   : defaultPauseBetweenTracks;
+              effectiveCrossfadeDuration =
+                groupSettings.crossfadeDuration !== null &&
+                groupSettings.crossfadeDuration !== undefined
+                  ? groupSettings.crossfadeDuration
+                  : defaultCrossfadeDuration;
               foundInGroup = true;
               break;
             }
@@ -69,27 +136,98 @@ export function usePlayerSettings() {
             trackSettings.pauseBetweenTracks !== undefined
               ? trackSettings.pauseBetweenTracks
               : defaultPauseBetweenTracks;
+          effectiveCrossfadeDuration =
+            trackSettings.crossfadeDuration !== null &&
+            trackSettings.crossfadeDuration !== undefined
+              ? trackSettings.crossfadeDuration
+              : defaultCrossfadeDuration;
         }
       }
 
       return {
         actionAfterTrack: effectiveActionAfterTrack,
         pauseBetweenTracks: effectivePauseBetweenTracks,
+        crossfadeDuration: effectiveCrossfadeDuration,
+        cuePoints: getCuePoints(trackId),
       };
     },
     [
+      getCuePoints,
       getTrackSettings,
       getGroupSettings,
       getItemPath,
       findItemById,
       defaultActionAfterTrack,
       defaultPauseBetweenTracks,
+      defaultCrossfadeDuration,
     ],
   );
 
+  // Скорость воспроизведения задаётся только на уровне трека
+  // (trackSettings в зависимостях - чтобы длительности пересчитывались при смене темпа)
+  const getPlayback = useCallback(
+    (trackId: string): PlayerTrackPlayback => resolveTrackPlayback(trackSettings.get(trackId)),
+    [trackSettings],
+  );
+
+  // Пресет обработки звука назначается группам: ближайшая группа с пресетом → по умолчанию
+  const getEffectsPreset = useCallback(
+    (trackId: string): PlayerEffectsPreset | null => {
+      const path = getItemPath(trackId);
+      const groupLevels: PlayerGroupSettings[] = [];
+      for (let i = path.length - 1; i >= 0; i--) {
+        const item = findItemById(path[i]);
+        if (item && isPlayerGroup(item)) {
+          groupLevels.push(groupSettings.get(item.id) || {});
+        }
+      }
+      return resolveEffectsPreset(groupLevels, defaultEffectsPresetId, effectsPresets);
+    },
+    [getItemPath, findItemById, groupSettings, defaultEffectsPresetId, effectsPresets],
+  );
+
+  // Запланированный блок, который начинается с трека: группа со временем начала,
+  // в которой трек - первый неотключённый (ближайшая группа проверяется первой)
+  const getScheduledBlock = useCallback(
+    (trackId: string, isTrackDisabled: (trackId: string) => boolean): ScheduledBlock | null => {
+      const path = getItemPath(trackId);
+      for (let i = path.length - 2; i >= 0; i--) {
+        const group = findItemById(path[i]);
+        if (!group || !isPlayerGroup(group)) {
+          continue;
+        }
+        const settings = groupSettings.get(group.id);
+        if (!settings?.scheduledStartTime || !parseScheduledTime(settings.scheduledStartTime)) {
+          continue;
+        }
+        const firstTrack = getAllTracksInOrder([group]).find((track) => !isTrackDisabled(track.id));
+        if (firstTrack?.id === trackId) {
+          return {
+            groupId: group.id,
+            groupName: group.name,
+            startTime: settings.scheduledStartTime,
+            fillerGroupId: settings.fillerGroupId ?? null,
+          };
+        }
+      }
+      return null;
+    },
+    [getItemPath, findItemById, getAllTracksInOrder, groupSettings],
+  );
+
+  // Длительность трека между точками входа и выхода с учётом скорости воспроизведения
+  const getEffectiveDuration = useCallback(
+    (track: { id: string; duration?: number }): number =>
+      getPlaybackDuration(
+        getTrimmedDuration(track.duration || 0, getCuePoints(track.id)),
+        getPlayback(track.id),
+      ),
+    [getCuePoints, getPlayback],
+  );
+
   const calculateTrackDurationWithPause = useCallback(
     (track: { id: string; duration?: number }, includePause: boolean = true): number => {
-      let duration = track.duration || 0;
+      let duration = getEffectiveDuration(track);
       if (includePause) {
         const settings = getEffectiveTrackSettings(track.id);
         if (settings.actionAfterTrack === 'pauseAndNext') {
@@ -98,12 +236,30 @@ export function usePlayerSettings() {
       }
       return duration;
     },
-    [getEffectiveTrackSettings],
+    [getEffectiveTrackSettings, getEffectiveDuration],
+  );
+
+  // Наложение трека на следующий при кроссфейде (секунды, не больше длительности трека)
+  const getTransitionOverlap = useCallback(
+    (track: { id: string; duration?: number }): number => {
+      const settings = getEffectiveTrackSettings(track.id);
+      if (settings.actionAfterTrack !== 'crossfade') {
+        return 0;
+      }
+      return Math.max(0, Math.min(settings.crossfadeDuration, getEffectiveDuration(track)));
+    },
+    [getEffectiveTrackSettings, getEffectiveDuration],
   );
 
   return {
     getEffectiveTrackSettings,
+    getCuePoints,
+    getPlayback,
+    getEffectsPreset,
+    getScheduledBlock,
+    getEffectiveDuration,
     calculateTrackDurationWithPause,
+    getTransitionOverlap,
     getTrackSettings,
     getGroupSettings,
     setEditingTrack,
@@ -111,4 +267,3 @@ export function usePlayerSettings() {
     setEditingGlobal,
   };
 }
-
@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+
+import { ipcService, playerService } from '@shared/services';
+import { usePlayerSessionLogStore } from '@shared/stores/playerSessionLogStore';
+import { useUIStore } from '@shared/stores/uiStore';
+import { buildSessionLogRows, formatSessionLogCsv, formatSessionLogJson } from '@shared/utils';
+import { getAudioOutputDevices } from '@shared/utils/audioDevices';
+
+/**
+ * Экспорт журнала сессий в CSV или JSON (формат выбирается расширением файла)
+ */
+export function useSessionLogExport() {
+  const addNotification = useUIStore((state) => state.addNotification);
+
+  const handleExportSessionLog = useCallback(async () => {
+    try {
+      const { entries } = usePlayerSessionLogStore.getState();
+      const rows = buildSessionLogRows(entries);
+      if (rows.length === 0) {
+        addNotification({ type: 'info', message: 'Журнал сессий пуст' });
+        return;
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      const path = await ipcService.showSaveDialog({
+        title: 'Экспорт журнала сессий',
+        defaultPath: `session-log-${date}.csv`,
+        filters: [
+          { name: 'CSV', extensions: ['csv'] },
+          { name: 'JSON', extensions: ['json'] },
+        ],
+      });
+      if (!path) {
+        return;
+      }
+
+      // В журнале хранятся ID устройств, в отчёт попадают их названия
+      const devices = await getAudioOutputDevices();
+      const deviceLabels = Object.fromEntries(
+        devices.map((device) => [device.deviceId, device.label]),
+      );
+      const content = path.toLowerCase().endsWith('.json')
+        ? formatSessionLogJson(rows, entries, deviceLabels)
+        : formatSessionLogCsv(rows, deviceLabels);
+
+      await playerService.exportSessionLog(path, content);
+      addNotification({ type: 'success', message: 'Журнал сессий экспортирован' });
+    } catch (error) {
+      addNotification({ type: 'error', message: `Ошибка экспорта: ${(error as Error).message}` });
+    }
+  }, [addNotification]);
+
+  return { handleExportSessionLog };
+}
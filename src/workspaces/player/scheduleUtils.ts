@@ -0,0 +1,75 @@
+/**
+ * Запланированные блоки: группа плеера с жёстким временем начала (например, "первый танец в 20:00")
+ */
+export interface ScheduledBlock {
+  groupId: string;
+  groupName: string;
+  startTime: string; // Время начала "HH:MM"
+  fillerGroupId: string | null; // Группа, которая играет во время ожидания
+}
+
+/**
+ * Прогноз начала запланированного блока в сессии (timestamp)
+ */
+export interface ScheduleMarker {
+  scheduledTime: number; // Запланированное время начала
+  projectedTime: number; // Когда блок начался бы без ожидания
+}
+
+// Опоздание меньше этого порога не считается опозданием (мс)
+export const SCHEDULE_LATE_TOLERANCE_MS = 30 * 1000;
+// Время, запланированное дальше этого интервала в прошлом, относится к следующим суткам (мс)
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Разбирает время "HH:MM"
+ * @returns null для пустой или некорректной строки
+ */
+export function parseScheduledTime(time: string | null | undefined): {
+  hours: number;
+  minutes: number;
+} | null {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return { hours, minutes };
+}
+
+/**
+ * Переводит время "HH:MM" в timestamp ближайшего к now наступления этого времени
+ * (мероприятие может переходить через полночь: 01:00 вечером означает следующие сутки)
+ */
+export function resolveScheduledTimestamp(time: string, now: number): number | null {
+  const parsed = parseScheduledTime(time);
+  if (!parsed) {
+    return null;
+  }
+  const date = new Date(now);
+  date.setHours(parsed.hours, parsed.minutes, 0, 0);
+  const timestamp = date.getTime();
+  if (timestamp - now > HALF_DAY_MS) {
+    return timestamp - DAY_MS;
+  }
+  if (now - timestamp > HALF_DAY_MS) {
+    return timestamp + DAY_MS;
+  }
+  return timestamp;
+}
+
+/**
+ * Форматирует отклонение прогноза от плана: "+5 мин" - опоздание, "-3 мин" - запас
+ */
+export function formatScheduleDrift(driftMs: number): string {
+  const minutes = Math.round(driftMs / 60000);
+  if (minutes === 0) {
+    return 'вовремя';
+  }
+  return minutes > 0 ? `+${minutes} мин` : `−${Math.abs(minutes)} мин`;
+}
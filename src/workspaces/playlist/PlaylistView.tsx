@@ -8,15 +8,18 @@ import React, { useCallback, useEffect, useMemo } from 'react';
 import { DEFAULT_PLAYLIST_WORKSPACE_ID } from '@core/constants/workspace';
 import { Track } from '@core/types/track';
 import { WorkspaceId } from '@core/types/workspace';
-import { PlaylistItem } from '@shared/components';
-import { useTrackWorkspaceDragAndDrop, useTrackDuration } from '@shared/hooks';
+import { PlaylistItem, PluginTrackActions, TrackSortSelect } from '@shared/components';
+import {
+  useRuleViolations,
+  useTrackWorkspaceDragAndDrop,
+  useTrackDuration,
+  useTrackTempoKey,
+} from '@shared/hooks';
 import { fileService, ipcService } from '@shared/services';
 import { useDemoPlayerStore, usePlaylistStore, useSettingsStore } from '@shared/stores';
 import { formatDuration, logger } from '@shared/utils';
-import {
-  calculateSimpleDividerMarkers,
-  formatSimpleDividerLabel,
-} from '../player/dividerUtils';
+
+import { calculateSimpleDividerMarkers, formatSimpleDividerLabel } from '../player/dividerUtils';
 
 interface PlaylistViewProps {
   workspaceId: WorkspaceId;
@@ -45,6 +48,8 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
     redo,
     selectRange,
     updateTrackDuration,
+    updateTrackTempoKey,
+    sortTracks,
   } = usePlaylistStore();
 
   const resolveTrackByPath = useCallback(
@@ -60,6 +65,12 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
     onDurationResolved: updateTrackDuration,
   });
 
+  useTrackTempoKey({
+    tracks,
+    isAudioFile: fileService.isValidAudioFile.bind(fileService),
+    onTempoKeyResolved: updateTrackTempoKey,
+  });
+
   const {
     currentTrack: activeTrack,
     status: playerStatus,
@@ -129,7 +140,9 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
     };
   }, [handleKeyDown]);
 
-  const { hourDividerInterval, showHourDividers } = useSettingsStore();
+  const { hourDividerInterval, showHourDividers, showTempoKeyColumns } = useSettingsStore();
+
+  const ruleViolations = useRuleViolations(DEFAULT_PLAYLIST_WORKSPACE_ID, tracks);
 
   // Функция для вычисления позиций отсечек с настраиваемым интервалом
   const calculateDividerMarkers = useMemo(
@@ -164,6 +177,9 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
           />
           {hasSelectedTracks && (
             <>
+              <PluginTrackActions
+                tracks={tracks.filter((track) => selectedTrackIds.has(track.id))}
+              />
               <button
                 onClick={deselectAll}
                 className="playlist-header-action-icon"
@@ -180,6 +196,7 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
               </button>
             </>
           )}
+          {tracks.length > 1 && <TrackSortSelect onSort={sortTracks} />}
           {!hasSelectedTracks && tracks.length > 0 && (
             <button onClick={selectAll} className="playlist-header-action-icon" title="Select All">
               <SelectAllIcon style={{ fontSize: '20px' }} />
@@ -266,6 +283,7 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
                       }
                     }}
                     onRemove={removeTrack}
+                    warnings={ruleViolations.get(track.id)?.map((violation) => violation.message)}
                     onDragStart={(e) => playlistDrag.handleDragStart(e, track.id)}
                     onDragOver={(e) =>
                       playlistDrag.handleDragOver(e, {
@@ -288,6 +306,7 @@ export const PlaylistView: React.FC<PlaylistViewProps> = ({
                     isPlaying={isPlaying}
                     onPlay={startTrackPlayback}
                     onPause={pausePlayback}
+                    showTempoKey={showTempoKeyColumns}
                   />
                   {showInsertLine && playlistDrag.insertPosition === 'bottom' && (
                     <div className="drag-insert-line" />
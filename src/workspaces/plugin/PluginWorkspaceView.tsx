@@ -0,0 +1,111 @@
+import ExtensionIcon from '@mui/icons-material/Extension';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { PluginWorkspaceContent } from '@core/types/plugins';
+import { WorkspaceId } from '@core/types/workspace';
+import { pluginService } from '@shared/services';
+import { usePluginsStore } from '@shared/stores';
+import { parsePluginWorkspaceId } from '@shared/utils';
+
+interface PluginWorkspaceViewProps {
+  workspaceId: WorkspaceId;
+  zoneId: string;
+}
+
+export const PluginWorkspaceView: React.FC<PluginWorkspaceViewProps> = ({ workspaceId }) => {
+  const target = parsePluginWorkspaceId(workspaceId);
+  const plugin = usePluginsStore((state) =>
+    target ? state.plugins.find((item) => item.id === target.pluginId) : undefined,
+  );
+  const isPluginsLoaded = usePluginsStore((state) => state.isLoaded);
+  const module = plugin?.contributions.workspaceModules.find(
+    (item) => item.id === target?.moduleId,
+  );
+  const isAvailable = Boolean(plugin?.loaded && module);
+
+  const [content, setContent] = useState<PluginWorkspaceContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pluginId = target?.pluginId;
+  const moduleId = target?.moduleId;
+
+  const refresh = useCallback(async () => {
+    if (!pluginId || !moduleId) {
+      return;
+    }
+    try {
+      setContent(await pluginService.getWorkspaceContent(pluginId, moduleId));
+      setError(null);
+    } catch (contentError) {
+      setError((contentError as Error).message);
+    }
+  }, [pluginId, moduleId]);
+
+  // Содержимое запрашивается у плагина при открытии и после его (пере)загрузки
+  useEffect(() => {
+    if (!isAvailable) {
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      void refresh();
+    }, 0);
+    return () => clearTimeout(timeoutId);
+  }, [isAvailable, refresh]);
+
+  const getPlaceholder = () => {
+    if (!target) {
+      return <p>Некорректный модуль плагина: {workspaceId}</p>;
+    }
+    if (!isPluginsLoaded) {
+      return <p>Загрузка плагинов...</p>;
+    }
+    if (!isAvailable) {
+      return (
+        <>
+          <p>Плагин {target.pluginId} недоступен</p>
+          <p className="empty-state-hint">Включите плагин в настройках</p>
+        </>
+      );
+    }
+    if (error) {
+      return <p>Ошибка плагина: {error}</p>;
+    }
+    return null;
+  };
+
+  const placeholder = getPlaceholder();
+
+  return (
+    <div className="plugin-workspace-view">
+      <div className="plugin-workspace-header">
+        <div className="plugin-workspace-title">
+          <ExtensionIcon style={{ fontSize: '20px', marginRight: '6px' }} />
+          <span>{content?.title ?? module?.name ?? target?.moduleId ?? 'Плагин'}</span>
+        </div>
+        {isAvailable && (
+          <button
+            onClick={() => void refresh()}
+            className="playlist-header-action-icon"
+            title="Обновить"
+          >
+            <RefreshIcon style={{ fontSize: '20px' }} />
+          </button>
+        )}
+      </div>
+
+      {placeholder ? (
+        <div className="empty-state">{placeholder}</div>
+      ) : (
+        <dl className="plugin-workspace-items">
+          {content?.items.map((item, index) => (
+            <React.Fragment key={`${item.label}-${index}`}>
+              <dt>{item.label}</dt>
+              <dd>{item.value ?? ''}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { IWorkspaceModule } from '@core/interfaces';
+import { workspaceRegistry } from '@core/registry';
+import { WorkspaceId } from '@core/types/workspace';
+import { PLUGIN_WORKSPACE_TYPE } from '@shared/utils';
+
+import { PluginWorkspaceView } from './PluginWorkspaceView';
+
+// One module renders workspace modules of all plugins (workspaceId = "plugin:<plugin>/<module>")
+const PluginWorkspaceModule: IWorkspaceModule = {
+  id: 'plugin-placeholder' as WorkspaceId,
+  type: PLUGIN_WORKSPACE_TYPE,
+  name: 'Plugin',
+  component: PluginWorkspaceView,
+};
+
+// Register the module
+workspaceRegistry.register(PluginWorkspaceModule);
+
+export { PluginWorkspaceView };
+export default PluginWorkspaceModule;
@@ -0,0 +1,243 @@
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RuleIcon from '@mui/icons-material/Rule';
+import React, { useMemo, useState } from 'react';
+
+import {
+  DEFAULT_PLAYER_WORKSPACE_ID,
+  DEFAULT_PLAYLIST_WORKSPACE_ID,
+} from '@core/constants/workspace';
+import { PlaylistRule, PlaylistRuleType } from '@core/types/rules';
+import { WorkspaceId } from '@core/types/workspace';
+import { useRulesStore, useUIStore } from '@shared/stores';
+import { RULE_LABELS } from '@shared/utils';
+
+interface RulesViewProps {
+  workspaceId: WorkspaceId;
+  zoneId: string;
+}
+
+interface RuleTarget {
+  id: WorkspaceId;
+  name: string;
+}
+
+const RULE_TYPES = Object.keys(RULE_LABELS) as PlaylistRuleType[];
+
+/**
+ * Преобразует значение поля ввода в положительное число или null
+ */
+function parsePositive(value: string): number | null {
+  const parsed = Number(value);
+  return value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+interface RuleParamsProps {
+  rule: PlaylistRule;
+  isPlayerTarget: boolean;
+  onChange: (patch: Partial<PlaylistRule>) => void;
+}
+
+/**
+ * Поля параметров правила
+ */
+const RuleParams: React.FC<RuleParamsProps> = ({ rule, isPlayerTarget, onChange }) => {
+  switch (rule.type) {
+    case 'sameArtistDistance':
+      return (
+        <label className="rules-item-param">
+          <span>Минимум треков между</span>
+          <input
+            type="number"
+            min={1}
+            value={rule.minDistance}
+            onChange={(e) => {
+              const value = parsePositive(e.target.value);
+              if (value !== null) {
+                onChange({ minDistance: Math.round(value) });
+              }
+            }}
+          />
+        </label>
+      );
+    case 'longTracksInRow':
+      return (
+        <>
+          <label className="rules-item-param">
+            <span>Длиннее (мин)</span>
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={rule.minDuration / 60}
+              onChange={(e) => {
+                const value = parsePositive(e.target.value);
+                if (value !== null) {
+                  onChange({ minDuration: Math.round(value * 60) });
+                }
+              }}
+            />
+          </label>
+          <label className="rules-item-param">
+            <span>Не больше подряд</span>
+            <input
+              type="number"
+              min={1}
+              value={rule.maxInRow}
+              onChange={(e) => {
+                const value = parsePositive(e.target.value);
+                if (value !== null) {
+                  onChange({ maxInRow: Math.round(value) });
+                }
+              }}
+            />
+          </label>
+        </>
+      );
+    case 'totalDuration':
+      return (
+        <label className="rules-item-param">
+          <span>Лимит (мин)</span>
+          <input
+            type="number"
+            min={1}
+            value={rule.maxDuration !== null ? Math.round(rule.maxDuration / 60) : ''}
+            placeholder={isPlayerTarget ? 'плановое окончание' : 'не задан'}
+            onChange={(e) => {
+              const value = parsePositive(e.target.value);
+              onChange({ maxDuration: value !== null ? Math.round(value * 60) : null });
+            }}
+          />
+        </label>
+      );
+    case 'duplicatePaths':
+      return null;
+  }
+};
+
+export const RulesView: React.FC<RulesViewProps> = () => {
+  const {
+    targetWorkspaceId,
+    rulesByWorkspace,
+    setTargetWorkspace,
+    addRule,
+    updateRule,
+    removeRule,
+  } = useRulesStore();
+  const workspaces = useUIStore((state) => state.workspaces);
+  const [newRuleType, setNewRuleType] = useState<PlaylistRuleType>('sameArtistDistance');
+
+  // Правила можно задать для плейлистов, коллекций и плеера
+  const targets = useMemo<RuleTarget[]>(() => {
+    const result: RuleTarget[] = workspaces
+      .filter((workspace) => workspace.type === 'playlist' || workspace.type === 'collection')
+      .map((workspace) => ({ id: workspace.id, name: workspace.name }));
+    result.push({ id: DEFAULT_PLAYER_WORKSPACE_ID, name: 'Плеер' });
+    if (!result.some((target) => target.id === targetWorkspaceId)) {
+      result.push({ id: targetWorkspaceId, name: targetWorkspaceId });
+    }
+    return result;
+  }, [workspaces, targetWorkspaceId]);
+
+  const rules = rulesByWorkspace[targetWorkspaceId] ?? [];
+  const isPlayerTarget = targetWorkspaceId === DEFAULT_PLAYER_WORKSPACE_ID;
+  const enabledCount = rules.filter((rule) => rule.enabled).length;
+
+  return (
+    <div className="playlist-view rules-view">
+      <div className="playlist-header-section">
+        <div className="playlist-header-row">
+          <div className="rules-title">
+            <RuleIcon style={{ fontSize: '20px', marginRight: '6px' }} />
+            <span>Правила</span>
+          </div>
+        </div>
+
+        <div className="rules-toolbar">
+          <label className="rules-target">
+            <span>Для:</span>
+            <select
+              value={targetWorkspaceId}
+              onChange={(e) => setTargetWorkspace(e.target.value || DEFAULT_PLAYLIST_WORKSPACE_ID)}
+            >
+              {targets.map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="rules-toolbar">
+          <select
+            value={newRuleType}
+            onChange={(e) => setNewRuleType(e.target.value as PlaylistRuleType)}
+          >
+            {RULE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {RULE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => addRule(targetWorkspaceId, newRuleType)}
+            className="playlist-header-action-icon"
+            title="Добавить правило"
+          >
+            <AddIcon style={{ fontSize: '20px' }} />
+          </button>
+        </div>
+
+        <div className="playlist-stats-header">
+          <span>
+            Активных правил: {enabledCount} из {rules.length}
+          </span>
+        </div>
+      </div>
+
+      <div className="rules-list">
+        {rules.length === 0 ? (
+          <div className="empty-state">
+            <p>Правил нет</p>
+            <p className="empty-state-hint">
+              Нарушения правил отображаются предупреждениями у треков
+            </p>
+          </div>
+        ) : (
+          rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`rules-item${rule.enabled ? '' : ' rules-item--disabled'}`}
+            >
+              <label className="rules-item-header">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) =>
+                    updateRule(targetWorkspaceId, rule.id, { enabled: e.target.checked })
+                  }
+                />
+                <span className="rules-item-label">{RULE_LABELS[rule.type]}</span>
+              </label>
+              <div className="rules-item-params">
+                <RuleParams
+                  rule={rule}
+                  isPlayerTarget={isPlayerTarget}
+                  onChange={(patch) => updateRule(targetWorkspaceId, rule.id, patch)}
+                />
+              </div>
+              <button
+                className="playlist-item-delete"
+                onClick={() => removeRule(targetWorkspaceId, rule.id)}
+                aria-label="Удалить правило"
+              >
+                <DeleteIcon />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { IWorkspaceModule } from '@core/interfaces';
+import { workspaceRegistry } from '@core/registry';
+import { WorkspaceId } from '@core/types/workspace';
+
+import { RulesView } from './RulesView';
+
+// Rules workspace edits rules of the target playlist/player (single instance per layout zone)
+const RulesModule: IWorkspaceModule = {
+  id: 'rules-placeholder' as WorkspaceId,
+  type: 'rules',
+  name: 'Rules',
+  component: RulesView,
+};
+
+// Register the module
+workspaceRegistry.register(RulesModule);
+
+export { RulesView };
+export default RulesModule;
@@ -0,0 +1,89 @@
+import { DEFAULT_PLAYER_WORKSPACE_ID } from '../../src/core/constants/workspace';
+import type { AutogeneratorCandidate } from '../../src/core/types/autogenerator';
+import type { PlayerItem } from '../../src/core/types/player';
+import type { Track } from '../../src/core/types/track';
+import { useAutogeneratorStore } from '../../src/shared/stores/autogeneratorStore';
+import { usePlayerItemsStore } from '../../src/shared/stores/playerItemsStore';
+
+const track = (id: string): Track => ({ id, path: `/music/${id}.mp3`, name: id });
+
+const candidate = (name: string): AutogeneratorCandidate => ({
+  path: `/music/${name}.mp3`,
+  name,
+  duration: 60,
+});
+
+const getItemNames = () =>
+  usePlayerItemsStore.getState().items.map((item) => ('items' in item ? item.name : item.id));
+
+const getGroupTrackNames = () =>
+  usePlayerItemsStore
+    .getState()
+    .getAllTracksInOrder()
+    .filter((item) => item.id !== 'a')
+    .map((item) => item.name);
+
+describe('autogeneratorStore: генерация в плеер', () => {
+  beforeEach(() => {
+    const items: PlayerItem[] = [track('a')];
+    usePlayerItemsStore.getState().setItems(items);
+    useAutogeneratorStore.setState({
+      targetWorkspaceId: DEFAULT_PLAYER_WORKSPACE_ID,
+      playerGroupId: null,
+      options: {
+        seed: 1,
+        targetDuration: 3600,
+        genreMix: {},
+        energyCurve: 'none',
+        noRepeats: true,
+      },
+      collectCandidates: async () => [candidate('x')],
+    });
+  });
+
+  it('отмена первой генерации удаляет созданную группу', async () => {
+    await useAutogeneratorStore.getState().generate();
+    expect(getItemNames()).toEqual(['a', 'Автогенерация (seed 1)']);
+
+    usePlayerItemsStore.getState().undo();
+
+    expect(getItemNames()).toEqual(['a']);
+
+    usePlayerItemsStore.getState().redo();
+
+    expect(getItemNames()).toEqual(['a', 'Автогенерация (seed 1)']);
+  });
+
+  it('отмена перегенерации возвращает предыдущую группу', async () => {
+    await useAutogeneratorStore.getState().generate();
+    const groupId = useAutogeneratorStore.getState().playerGroupId;
+
+    useAutogeneratorStore.setState({ collectCandidates: async () => [candidate('y')] });
+    await useAutogeneratorStore.getState().generate(2);
+    expect(getGroupTrackNames()).toEqual(['y']);
+
+    usePlayerItemsStore.getState().undo();
+
+    expect(getItemNames()).toEqual(['a', 'Автогенерация (seed 1)']);
+    expect(getGroupTrackNames()).toEqual(['x']);
+    expect(useAutogeneratorStore.getState().playerGroupId).toBe(groupId);
+  });
+
+  it('несколько перегенераций отменяются по очереди', async () => {
+    await useAutogeneratorStore.getState().generate();
+    useAutogeneratorStore.setState({ collectCandidates: async () => [candidate('y')] });
+    await useAutogeneratorStore.getState().generate(2);
+    useAutogeneratorStore.setState({ collectCandidates: async () => [candidate('z')] });
+    await useAutogeneratorStore.getState().generate(3);
+
+    usePlayerItemsStore.getState().undo();
+    expect(getGroupTrackNames()).toEqual(['y']);
+
+    usePlayerItemsStore.getState().undo();
+    expect(getGroupTrackNames()).toEqual(['x']);
+
+    usePlayerItemsStore.getState().undo();
+    expect(getItemNames()).toEqual(['a']);
+    expect(usePlayerItemsStore.getState().canUndo).toBe(false);
+  });
+});
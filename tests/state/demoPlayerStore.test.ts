@@ -1,22 +1,6 @@
-import { Buffer } from 'buffer';
+import type { Track } from '../../src/core/types/track';
 
-import { ipcService } from '../../src/services/ipcService';
-import type { Track } from '../../src/types/track';
-
-jest.mock('../../src/services/ipcService', () => ({
-  ipcService: {
-    getAudioFileSource: jest.fn().mockResolvedValue({
-      buffer: Buffer.from('mock-audio').toString('base64'),
-      mimeType: 'audio/mpeg',
-    }),
-  },
-}));
-
-const mockedGetAudioFileSource = ipcService.getAudioFileSource as jest.MockedFunction<
-  typeof ipcService.getAudioFileSource
->;
-
-let useDemoPlayerStore: typeof import('../../src/state/demoPlayerStore').useDemoPlayerStore;
+let useDemoPlayerStore: typeof import('../../src/shared/stores/demoPlayerStore').useDemoPlayerStore;
 
 type Listener = () => void;
 
@@ -65,36 +49,10 @@ class MockAudio {
   }
 }
 
-const originalCreateObjectURL: typeof URL.createObjectURL | undefined =
-  typeof URL !== 'undefined' && URL.createObjectURL ? URL.createObjectURL : undefined;
-const originalRevokeObjectURL: typeof URL.revokeObjectURL | undefined =
-  typeof URL !== 'undefined' && URL.revokeObjectURL ? URL.revokeObjectURL : undefined;
-
 beforeAll(async () => {
   // @ts-expect-error override global Audio for tests
   global.Audio = MockAudio as unknown as typeof Audio;
-  if (typeof URL !== 'undefined') {
-    // @ts-expect-error override URL methods for tests
-    URL.createObjectURL = jest.fn(() => 'blob:mock-url') as typeof URL.createObjectURL;
-    // @ts-expect-error override URL methods for tests
-    URL.revokeObjectURL = jest.fn() as typeof URL.revokeObjectURL;
-  } else {
-    // @ts-expect-error provide minimal URL polyfill for tests
-    global.URL = {
-      createObjectURL: jest.fn(() => 'blob:mock-url'),
-      revokeObjectURL: jest.fn(),
-    } as unknown as typeof URL;
-  }
-  ({ useDemoPlayerStore } = await import('../../src/state/demoPlayerStore'));
-});
-
-afterAll(() => {
-  if (originalCreateObjectURL) {
-    URL.createObjectURL = originalCreateObjectURL;
-  }
-  if (originalRevokeObjectURL) {
-    URL.revokeObjectURL = originalRevokeObjectURL;
-  }
+  ({ useDemoPlayerStore } = await import('../../src/shared/stores/demoPlayerStore'));
 });
 
 beforeEach(() => {
@@ -106,14 +64,6 @@ beforeEach(() => {
     existingAudio.error = null;
   }
   useDemoPlayerStore.getState().clear();
-  mockedGetAudioFileSource.mockResolvedValue({
-    buffer: Buffer.from('mock-audio').toString('base64'),
-    mimeType: 'audio/mpeg',
-  });
-  if (typeof URL !== 'undefined') {
-    (URL.createObjectURL as jest.Mock).mockClear();
-    (URL.revokeObjectURL as jest.Mock).mockClear();
-  }
 });
 
 const createTrack = (overrides: Partial<Track> = {}): Track => ({
@@ -137,6 +87,14 @@ describe('demoPlayerStore', () => {
     expect(state.error).toBeNull();
   });
 
+  it('streams track through cherry-audio protocol', async () => {
+    const track = createTrack();
+    await useDemoPlayerStore.getState().loadTrack(track, 'workspace-1');
+
+    const audio = MockAudio.lastInstance();
+    expect(audio?.src).toBe(`cherry-audio://track/${encodeURIComponent(track.path)}`);
+  });
+
   it('plays current track and updates status', async () => {
     const track = createTrack();
     const store = useDemoPlayerStore.getState();
@@ -199,7 +157,7 @@ describe('demoPlayerStore', () => {
     expect(useDemoPlayerStore.getState().volume).toBeCloseTo(0.33);
   });
 
-  it('clears audio element and revokes object url', async () => {
+  it('clears audio element', async () => {
     const track = createTrack();
     const store = useDemoPlayerStore.getState();
     store.setVolume(0.5);
@@ -212,7 +170,6 @@ describe('demoPlayerStore', () => {
     expect(audio?.src).toBe('');
     expect(audio?.currentTime).toBe(0);
     expect(useDemoPlayerStore.getState().currentTrack).toBeNull();
-    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(1);
   });
 
   it('handles audio errors gracefully', async () => {
@@ -242,7 +199,7 @@ describe('demoPlayerStore', () => {
     expect(state.position).toBe(track.duration);
   });
 
-  it('releases previous object url when loading new track', async () => {
+  it('replaces source when loading new track', async () => {
     const track = createTrack();
     const otherTrack = createTrack({ id: 'track-2', path: 'D:/Music/other.flac' });
     const store = useDemoPlayerStore.getState();
@@ -250,19 +207,9 @@ describe('demoPlayerStore', () => {
     await store.loadTrack(track, 'workspace-1');
     await store.loadTrack(otherTrack, 'workspace-1');
 
-    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(1);
-    expect(URL.createObjectURL).toHaveBeenCalledTimes(2);
-  });
-
-  it('propagates load errors and sets error message', async () => {
-    const store = useDemoPlayerStore.getState();
-    mockedGetAudioFileSource.mockRejectedValueOnce(new Error('fs failure'));
-
-    await expect(store.loadTrack(createTrack(), 'workspace-1')).rejects.toThrow('fs failure');
-    const state = useDemoPlayerStore.getState();
-    expect(state.error).toBe('Не удалось загрузить файл для воспроизведения');
-    expect(state.status).toBe('idle');
-    expect(state.currentTrack).toBeNull();
+    const audio = MockAudio.lastInstance();
+    expect(audio?.src).toBe(`cherry-audio://track/${encodeURIComponent(otherTrack.path)}`);
+    expect(useDemoPlayerStore.getState().currentTrack).toEqual(otherTrack);
   });
 
   it('propagates play errors and updates error state', async () => {
@@ -0,0 +1,43 @@
+import { usePlayerSessionLogStore } from '../../src/shared/stores/playerSessionLogStore';
+
+const STORAGE_KEY = 'cherryplaylist-player-session-log';
+
+const getStoredEntries = () => {
+  const value = localStorage.getItem(STORAGE_KEY);
+  return value ? (JSON.parse(value).state.entries as unknown[]) : null;
+};
+
+describe('playerSessionLogStore: сохранение журнала', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    usePlayerSessionLogStore.setState({ entries: [] });
+    jest.runOnlyPendingTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.runOnlyPendingTimers();
+    jest.useRealTimers();
+  });
+
+  it('события записываются в localStorage пачкой, а не по одному', () => {
+    const { logSeek } = usePlayerSessionLogStore.getState();
+    logSeek('a', 0, 10);
+    logSeek('a', 10, 20);
+    logSeek('a', 20, 30);
+
+    expect(getStoredEntries()).toBeNull();
+
+    jest.advanceTimersByTime(5000);
+
+    expect(getStoredEntries()).toHaveLength(3);
+  });
+
+  it('несохранённые события записываются при закрытии окна', () => {
+    usePlayerSessionLogStore.getState().logSeek('a', 0, 10);
+
+    window.dispatchEvent(new Event('beforeunload'));
+
+    expect(getStoredEntries()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,67 @@
+import type { PlayerItem } from '../../src/core/types/player';
+import type { Track } from '../../src/core/types/track';
+import { usePlayerItemsStore } from '../../src/shared/stores/playerItemsStore';
+import { usePlayerSessionStore } from '../../src/shared/stores/playerSessionStore';
+
+const track = (id: string): Track => ({ id, path: `/music/${id}.mp3`, name: id });
+
+const getOrder = () =>
+  usePlayerItemsStore
+    .getState()
+    .getAllTracksInOrder()
+    .map((t) => t.id);
+
+describe('playerSessionStore.queueTrackNext', () => {
+  beforeEach(() => {
+    const items: PlayerItem[] = [
+      track('a'),
+      { id: 'group', name: 'Group', items: [track('b'), track('c')] },
+      track('d'),
+    ];
+    usePlayerItemsStore.getState().setItems(items);
+    usePlayerSessionStore.getState().resetSession();
+  });
+
+  it('moves an unplayed player track right after the current track', () => {
+    const queuedId = usePlayerSessionStore.getState().queueTrackNext(track('d'), 'b');
+
+    expect(queuedId).toBe('d');
+    expect(getOrder()).toEqual(['a', 'b', 'd', 'c']);
+  });
+
+  it('inserts a copy of played or external tracks', () => {
+    usePlayerSessionStore.getState().markTrackAsPlayed('a');
+
+    const copyId = usePlayerSessionStore.getState().queueTrackNext(track('a'), 'c');
+    const externalId = usePlayerSessionStore.getState().queueTrackNext(track('x'), null);
+
+    expect(copyId).not.toBe('a');
+    expect(externalId).not.toBe('x');
+    expect(getOrder()).toEqual([externalId, 'a', 'b', 'c', copyId, 'd']);
+  });
+});
+
+describe('playerSessionStore.saveCheckpoint', () => {
+  beforeEach(() => {
+    usePlayerSessionStore.getState().resetSession();
+  });
+
+  it('keeps checkpoints only while a session is running and clears them on reset', () => {
+    const checkpoint = {
+      trackId: 'a',
+      position: 42.5,
+      isPlaying: false,
+      pendingAction: { type: 'playTrack' as const, trackId: 'a', at: 1000 },
+    };
+
+    usePlayerSessionStore.getState().saveCheckpoint(checkpoint);
+    expect(usePlayerSessionStore.getState().checkpoint).toBeNull();
+
+    usePlayerSessionStore.getState().startSession();
+    usePlayerSessionStore.getState().saveCheckpoint(checkpoint);
+    expect(usePlayerSessionStore.getState().checkpoint).toMatchObject(checkpoint);
+
+    usePlayerSessionStore.getState().resetSession();
+    expect(usePlayerSessionStore.getState().checkpoint).toBeNull();
+  });
+});
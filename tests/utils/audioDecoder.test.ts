@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+type AudioDecoderModule = typeof import('../../electron/analysis/audioDecoder');
+
+const mockUserDataDir = { path: '' };
+const mockSpawn = jest.fn();
+const mockExecFile = jest.fn();
+const mockParseFile = jest.fn();
+
+jest.mock('electron', () => ({
+  app: { getPath: () => mockUserDataDir.path },
+}));
+
+// ESM-only package: jest cannot resolve it, the mock replaces it entirely
+jest.mock('music-metadata', () => ({ parseFile: (filePath: string) => mockParseFile(filePath) }), {
+  virtual: true,
+});
+
+// FFmpeg runs are simulated: tests must not depend on FFmpeg being installed
+jest.mock('child_process', () => ({
+  spawn: (...args: unknown[]) => mockSpawn(...args),
+  execFile: (
+    file: string,
+    args: string[],
+    options: unknown,
+    callback: (error: Error | null, result?: { stdout: string; stderr: string }) => void,
+  ) => {
+    Promise.resolve(mockExecFile(file, args))
+      .then((stdout: string) => callback(null, { stdout, stderr: '' }))
+      .catch((error: Error) => callback(error));
+  },
+}));
+
+/**
+ * 16-bit PCM WAV with interleaved samples
+ */
+function createWav(samples: number[], channelCount: number, sampleRate = 8000): Buffer {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, index) => data.writeInt16LE(Math.round(sample * 32767), index * 2));
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channelCount, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channelCount * 2, 28);
+  header.writeUInt16LE(channelCount * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Fake FFmpeg process writing float PCM to stdout in the given chunks
+ */
+function createDecoderProcess(chunks: Buffer[], code = 0) {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: Readable.from(chunks),
+    stderr: new EventEmitter(),
+    kill: jest.fn(),
+  });
+  child.stdout.on('end', () => setImmediate(() => child.emit('close', code)));
+  return child;
+}
+
+const floats = (values: number[]) => {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeFloatLE(value, index * 4));
+  return buffer;
+};
+
+describe('audioDecoder', () => {
+  let dir: string;
+  let decoder: AudioDecoderModule;
+
+  const decode = async (filePath: string) => {
+    const channels: number[][] = [];
+    const info = await decoder.decodeAudioFile(filePath, (chunk) => {
+      chunk.forEach((samples, channel) => {
+        channels[channel] = [...(channels[channel] ?? []), ...Array.from(samples)];
+      });
+    });
+    return { info, channels };
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cherry-decoder-'));
+    mockUserDataDir.path = dir;
+    mockSpawn.mockReset();
+    mockExecFile.mockReset();
+    mockParseFile.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    jest.resetModules();
+    decoder = await import('../../electron/analysis/audioDecoder');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('WAV читается напрямую без FFmpeg', async () => {
+    const filePath = path.join(dir, 'track.wav');
+    fs.writeFileSync(filePath, createWav([0.5, -0.5, 0.25, -0.25], 2));
+
+    const { info, channels } = await decode(filePath);
+
+    expect(info).toMatchObject({ sampleRate: 8000, channelCount: 2 });
+    expect(channels[0]).toEqual([expect.closeTo(0.5, 3), expect.closeTo(0.25, 3)]);
+    expect(channels[1]).toEqual([expect.closeTo(-0.5, 3), expect.closeTo(-0.25, 3)]);
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('сжатые форматы декодируются FFmpeg, кадры собираются через границы чанков', async () => {
+    mockExecFile.mockResolvedValue(' A....D pcm_f32le            PCM 32-bit floating point');
+    mockParseFile.mockResolvedValue({ format: { sampleRate: 48000, numberOfChannels: 6 } });
+    const pcm = floats([0.1, -0.1, 0.2, -0.2, 0.3, -0.3]);
+    mockSpawn.mockImplementation(() =>
+      createDecoderProcess([pcm.subarray(0, 6), pcm.subarray(6, 13), pcm.subarray(13)]),
+    );
+
+    const { info, channels } = await decode('/music/track.mp3');
+
+    expect(info).toEqual({ sampleRate: 48000, channelCount: 2 });
+    const [binary, args] = mockSpawn.mock.calls[0] as [string, string[]];
+    expect(binary).toBe('ffmpeg');
+    expect(args).toEqual(expect.arrayContaining(['-i', '/music/track.mp3', '-f', 'f32le']));
+    expect(args.slice(args.indexOf('-ar'), args.indexOf('-ar') + 4)).toEqual([
+      '-ar',
+      '48000',
+      '-ac',
+      '2',
+    ]);
+    expect(channels[0]).toEqual([0.1, 0.2, 0.3].map((value) => expect.closeTo(value, 5)));
+    expect(channels[1]).toEqual([-0.1, -0.2, -0.3].map((value) => expect.closeTo(value, 5)));
+  });
+
+  it('без FFmpeg сжатый файл не анализируется - DecoderUnavailableError', async () => {
+    mockExecFile.mockRejectedValue(new Error('spawn ffmpeg ENOENT'));
+
+    await expect(decode('/music/track.flac')).rejects.toBeInstanceOf(
+      decoder.DecoderUnavailableError,
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('ошибка декодирования - последняя строка stderr FFmpeg', async () => {
+    mockExecFile.mockResolvedValue(' A....D pcm_f32le            PCM 32-bit floating point');
+    mockParseFile.mockRejectedValue(new Error('Unknown format'));
+    mockSpawn.mockImplementation(() => {
+      const child = createDecoderProcess([], 1);
+      setImmediate(() => child.stderr.emit('data', Buffer.from('Invalid data found\n')));
+      return child;
+    });
+
+    await expect(decode('/music/broken.ogg')).rejects.toThrow('Invalid data found');
+  });
+});
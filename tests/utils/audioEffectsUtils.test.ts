@@ -0,0 +1,53 @@
+import {
+  DEFAULT_EFFECTS_PRESETS,
+  getEqBandFrequencies,
+  getEqFilterType,
+  isNeutralEffectsPreset,
+  resizeEqBands,
+  resolveEffectsPreset,
+} from '../../src/shared/utils/audioEffectsUtils';
+
+describe('audioEffectsUtils', () => {
+  it('spreads band frequencies logarithmically within the allowed band count', () => {
+    expect(getEqBandFrequencies(5)).toEqual([60, 230, 850, 3200, 12000]);
+    // Число полос ограничено диапазоном 3-10
+    expect(getEqBandFrequencies(1)).toHaveLength(3);
+    expect(getEqBandFrequencies(20)).toHaveLength(10);
+  });
+
+  it('keeps gains of the nearest bands when resizing', () => {
+    const bands = [
+      { frequency: 60, gain: 6 },
+      { frequency: 850, gain: 0 },
+      { frequency: 12000, gain: -3 },
+    ];
+    const resized = resizeEqBands(bands, 5);
+    expect(resized.map((band) => band.gain)).toEqual([6, 0, 0, -3, -3]);
+    expect(getEqFilterType(0, 5)).toBe('lowshelf');
+    expect(getEqFilterType(2, 5)).toBe('peaking');
+    expect(getEqFilterType(4, 5)).toBe('highshelf');
+  });
+
+  it('resolves preset from the nearest group, skipping removed presets', () => {
+    const [flat, speech, dance] = DEFAULT_EFFECTS_PRESETS;
+    expect(resolveEffectsPreset([], flat.id, DEFAULT_EFFECTS_PRESETS)).toBe(flat);
+    expect(
+      resolveEffectsPreset(
+        [{ effectsPresetId: null }, { effectsPresetId: speech.id }],
+        dance.id,
+        DEFAULT_EFFECTS_PRESETS,
+      ),
+    ).toBe(speech);
+    expect(
+      resolveEffectsPreset([{ effectsPresetId: 'removed' }], dance.id, DEFAULT_EFFECTS_PRESETS),
+    ).toBe(dance);
+    expect(resolveEffectsPreset([], 'removed', DEFAULT_EFFECTS_PRESETS)).toBeNull();
+  });
+
+  it('detects presets that do not change the sound', () => {
+    const [flat, speech] = DEFAULT_EFFECTS_PRESETS;
+    expect(isNeutralEffectsPreset(flat)).toBe(true);
+    expect(isNeutralEffectsPreset(null)).toBe(true);
+    expect(isNeutralEffectsPreset(speech)).toBe(false);
+  });
+});
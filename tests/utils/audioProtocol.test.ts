@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { handleAudioRequest } from '../../electron/protocol/audioProtocol';
+
+jest.mock('electron', () => ({ protocol: {} }));
+
+describe('audioProtocol', () => {
+  let dir: string;
+  let filePath: string;
+
+  const request = (headers: Record<string, string> = {}) =>
+    handleAudioRequest(
+      new Request(`cherry-audio://track/${encodeURIComponent(filePath)}`, { headers }),
+    );
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cherry-audio-'));
+    filePath = path.join(dir, 'track.mp3');
+    fs.writeFileSync(filePath, Buffer.from('0123456789'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('отдаёт файл целиком с CORS заголовками', async () => {
+    const response = await request();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Access-Control-Expose-Headers')).toContain('Content-Range');
+    expect(await response.text()).toBe('0123456789');
+  });
+
+  it('отдаёт диапазон байт с CORS заголовками', async () => {
+    const response = await request({ Range: 'bytes=2-5' });
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 2-5/10');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(await response.text()).toBe('2345');
+  });
+
+  it('недопустимый диапазон - 416 с CORS заголовками', async () => {
+    const response = await request({ Range: 'bytes=20-30' });
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */10');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+});
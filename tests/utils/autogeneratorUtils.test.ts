@@ -0,0 +1,105 @@
+import type {
+  AutogeneratorCandidate,
+  AutogeneratorOptions,
+} from '../../src/core/types/autogenerator';
+import {
+  createSeededRandom,
+  dedupeCandidates,
+  generatePlaylist,
+  getEnergyTarget,
+} from '../../src/shared/utils/autogeneratorUtils';
+
+const createCandidate = (
+  label: string,
+  duration = 180,
+  extra: Partial<AutogeneratorCandidate> = {},
+): AutogeneratorCandidate => ({
+  path: `D:/Music/${label}.mp3`,
+  name: `${label}.mp3`,
+  duration,
+  ...extra,
+});
+
+const createOptions = (patch: Partial<AutogeneratorOptions> = {}): AutogeneratorOptions => ({
+  seed: 42,
+  targetDuration: 1800,
+  genreMix: {},
+  energyCurve: 'none',
+  noRepeats: true,
+  ...patch,
+});
+
+const candidates = Array.from({ length: 30 }, (_, i) =>
+  createCandidate(`track-${i}`, 120 + (i % 7) * 30, {
+    genre: i % 3 === 0 ? 'Rock' : 'Jazz',
+    bpm: 80 + i * 3,
+  }),
+);
+
+const paths = (tracks: AutogeneratorCandidate[]) => tracks.map((track) => track.path);
+
+describe('autogeneratorUtils', () => {
+  it('produces the same sequence for the same seed', () => {
+    const randomA = createSeededRandom(7);
+    const randomB = createSeededRandom(7);
+    const sequenceA = [randomA(), randomA(), randomA()];
+
+    expect([randomB(), randomB(), randomB()]).toEqual(sequenceA);
+    sequenceA.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('generates a reproducible order regardless of source order', () => {
+    const first = generatePlaylist(candidates, createOptions());
+    const second = generatePlaylist([...candidates].reverse(), createOptions());
+    const otherSeed = generatePlaylist(candidates, createOptions({ seed: 43 }));
+
+    expect(paths(second.tracks)).toEqual(paths(first.tracks));
+    expect(paths(otherSeed.tracks)).not.toEqual(paths(first.tracks));
+  });
+
+  it('stays close to the target duration without repeats', () => {
+    const result = generatePlaylist(candidates, createOptions());
+
+    expect(Math.abs(result.totalDuration - 1800)).toBeLessThanOrEqual(150);
+    expect(new Set(paths(result.tracks)).size).toBe(result.tracks.length);
+    expect(result.totalDuration).toBe(
+      result.tracks.reduce((sum, track) => sum + track.duration, 0),
+    );
+  });
+
+  it('reuses tracks when repeats are allowed but never back to back', () => {
+    const pool = [createCandidate('a', 100), createCandidate('b', 100)];
+    const result = generatePlaylist(pool, createOptions({ targetDuration: 600, noRepeats: false }));
+
+    expect(result.tracks).toHaveLength(6);
+    result.tracks.slice(1).forEach((track, index) => {
+      expect(track.path).not.toBe(result.tracks[index].path);
+    });
+  });
+
+  it('follows the genre mix and energy curve', () => {
+    const result = generatePlaylist(
+      candidates,
+      createOptions({ genreMix: { Rock: 1 }, energyCurve: 'rising' }),
+    );
+    const bpms = result.tracks.map((track) => track.bpm ?? 0);
+
+    expect(result.tracks.every((track) => track.genre === 'Rock')).toBe(true);
+    expect(bpms[bpms.length - 1]).toBeGreaterThan(bpms[0]);
+    expect(getEnergyTarget('peak', 0.5)).toBe(1);
+    expect(getEnergyTarget('none', 0.5)).toBeNull();
+  });
+
+  it('removes duplicate files across sources', () => {
+    const result = dedupeCandidates([
+      createCandidate('a'),
+      { ...createCandidate('a'), path: 'd:\\music\\A.mp3' },
+      createCandidate('b'),
+    ]);
+
+    expect(paths(result)).toEqual(['D:/Music/a.mp3', 'D:/Music/b.mp3']);
+  });
+});
@@ -0,0 +1,94 @@
+import type { Track } from '../../src/core/types/track';
+import {
+  getCrossfadeGains,
+  getEffectiveCrossfadeDuration,
+} from '../../src/shared/utils/crossfadeUtils';
+import {
+  calculateAccumulatedDuration,
+  calculatePlannedEndMarker,
+  calculateTrackTimeline,
+  type DividerCalculationContext,
+} from '../../src/workspaces/player/dividerUtils';
+
+const createTrack = (id: string, duration: number): Track => ({
+  id,
+  path: `D:/Music/${id}.mp3`,
+  name: `${id}.mp3`,
+  duration,
+});
+
+const createContext = (
+  tracks: Track[],
+  overlaps: Record<string, number>,
+): DividerCalculationContext => ({
+  tracks,
+  activeTrackId: null,
+  currentTrackPosition: undefined,
+  mode: 'preparation',
+  hourDividerInterval: 3600,
+  isTrackDisabled: (trackId) => trackId === 'disabled',
+  isTrackPlayed: () => false,
+  calculateTrackDurationWithPause: (track) => track.duration || 0,
+  getTransitionOverlap: (track) => overlaps[track.id] ?? 0,
+});
+
+describe('crossfadeUtils', () => {
+  it('keeps constant power across the crossfade', () => {
+    expect(getCrossfadeGains(0)).toEqual({ fadeOut: 1, fadeIn: 0 });
+    const middle = getCrossfadeGains(0.5);
+    expect(middle.fadeOut).toBeCloseTo(Math.SQRT1_2);
+    expect(middle.fadeIn).toBeCloseTo(Math.SQRT1_2);
+    expect(middle.fadeOut ** 2 + middle.fadeIn ** 2).toBeCloseTo(1);
+    expect(getCrossfadeGains(2).fadeIn).toBe(1);
+  });
+
+  it('limits crossfade by remaining time and next track duration', () => {
+    expect(getEffectiveCrossfadeDuration(5, 30, 200)).toBe(5);
+    expect(getEffectiveCrossfadeDuration(5, 3, 200)).toBe(3);
+    expect(getEffectiveCrossfadeDuration(5, 30, 2)).toBe(2);
+    expect(getEffectiveCrossfadeDuration(-1, 30)).toBe(0);
+  });
+
+  it('subtracts crossfade overlap from accumulated duration', () => {
+    const tracks = [
+      createTrack('a', 100),
+      createTrack('disabled', 50),
+      createTrack('b', 200),
+      createTrack('c', 4),
+    ];
+    const context = createContext(tracks, { a: 10, b: 8, c: 10 });
+
+    // a→b: -10, b→c: -min(8, 4); у последнего трека наложения нет
+    expect(calculateAccumulatedDuration(tracks, 0, 3, context)).toBe(100 + 200 + 4 - 10 - 4);
+    expect(calculateAccumulatedDuration(tracks, 0, 0, context)).toBe(100);
+  });
+
+  it('ignores overlap when the context does not provide it', () => {
+    const tracks = [createTrack('a', 100), createTrack('b', 200)];
+    const context = { ...createContext(tracks, {}), getTransitionOverlap: undefined };
+
+    expect(calculateAccumulatedDuration(tracks, 0, 1, context)).toBe(300);
+  });
+
+  it('builds the timeline of remaining tracks with overlaps and elapsed part of the current one', () => {
+    const tracks = [createTrack('played', 60), createTrack('a', 100), createTrack('b', 200)];
+    const context: DividerCalculationContext = {
+      ...createContext(tracks, { a: 10 }),
+      mode: 'session',
+      activeTrackId: 'a',
+      currentTrackElapsed: 30,
+      isTrackPlayed: (trackId) => trackId === 'played',
+    };
+
+    const timeline = calculateTrackTimeline(context, 0);
+    expect(Array.from(timeline.keys())).toEqual(['a', 'b']);
+    // a: осталось 70 с, b начинается за 10 с до конца a
+    expect(timeline.get('a')).toEqual({ start: 0, end: 70_000 });
+    expect(timeline.get('b')).toEqual({ start: 60_000, end: 260_000 });
+
+    // Плановая отсечка использует ту же шкалу: 100 с попадает внутрь b
+    jest.spyOn(Date, 'now').mockReturnValue(0);
+    expect(calculatePlannedEndMarker(context, 100_000)).toEqual({ trackId: 'a', time: 60_000 });
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  getCueEndPosition,
+  getCueFadeGain,
+  getSuggestedCueLevel,
+  getTrimmedDuration,
+  hasCuePoints,
+  resolveCuePoints,
+} from '../../src/shared/utils/cueUtils';
+
+const DEFAULTS = { startOffset: 0, endOffset: 0, fadeIn: 0, fadeOut: 2 };
+
+describe('cueUtils', () => {
+  it('resolves each cue point through track, groups and defaults', () => {
+    const trackSettings = { startOffset: 12, fadeIn: null };
+    const nearestGroup = { fadeIn: 3, endOffset: 5 };
+    const outerGroup = { endOffset: 20, fadeOut: 4 };
+
+    expect(resolveCuePoints([trackSettings, nearestGroup, outerGroup], DEFAULTS)).toEqual({
+      startOffset: 12,
+      endOffset: 5,
+      fadeIn: 3,
+      fadeOut: 4,
+    });
+    expect(resolveCuePoints([undefined], DEFAULTS)).toEqual(DEFAULTS);
+    expect(hasCuePoints({ startOffset: 0, endOffset: 0, fadeIn: 0, fadeOut: 0 })).toBe(false);
+  });
+
+  it('applies suggested silence trimming below track settings and above groups', () => {
+    const suggested = getSuggestedCueLevel({ startOffset: 1.5, endOffset: 0 });
+    const group = { startOffset: 8, endOffset: 3 };
+
+    expect(suggested).toEqual({ startOffset: 1.5, endOffset: null });
+    expect(resolveCuePoints([{}, suggested, group], DEFAULTS)).toMatchObject({
+      startOffset: 1.5,
+      endOffset: 3,
+    });
+    // Значение трека важнее найденной тишины
+    expect(resolveCuePoints([{ startOffset: 0 }, suggested], DEFAULTS).startOffset).toBe(0);
+    expect(getSuggestedCueLevel(undefined)).toBeUndefined();
+  });
+
+  it('calculates trimmed duration between cue points', () => {
+    const cuePoints = { startOffset: 30, endOffset: 10, fadeIn: 0, fadeOut: 0 };
+
+    expect(getCueEndPosition(200, cuePoints)).toBe(190);
+    expect(getTrimmedDuration(200, cuePoints)).toBe(160);
+    // Точки пересекаются - трек не занимает времени
+    expect(getTrimmedDuration(35, cuePoints)).toBe(0);
+    expect(getTrimmedDuration(0, cuePoints)).toBe(0);
+  });
+
+  it('applies fade in after start and fade out before end', () => {
+    const cuePoints = { startOffset: 10, endOffset: 20, fadeIn: 4, fadeOut: 5 };
+
+    expect(getCueFadeGain(10, 100, cuePoints)).toBe(0);
+    expect(getCueFadeGain(12, 100, cuePoints)).toBe(0.5);
+    expect(getCueFadeGain(50, 100, cuePoints)).toBe(1);
+    expect(getCueFadeGain(77.5, 100, cuePoints)).toBe(0.5);
+    expect(getCueFadeGain(85, 100, cuePoints)).toBe(0);
+  });
+});
@@ -0,0 +1,32 @@
+import type { DraftEntry } from '../../src/core/types/drafts';
+import type { Track } from '../../src/core/types/track';
+import { formatDraftAge, getExpiredDraftIds } from '../../src/shared/utils/draftsUtils';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1, 12);
+
+const createTrack = (id: string): Track => ({ id, path: `D:/Music/${id}.mp3`, name: `${id}.mp3` });
+
+const createEntry = (ageMs: number): DraftEntry => ({
+  origin: 'removed',
+  sourceWorkspaceId: 'default-playlist-workspace',
+  capturedAt: NOW - ageMs,
+});
+
+describe('draftsUtils', () => {
+  it('expires entries older than the retention period', () => {
+    const tracks = [createTrack('fresh'), createTrack('old'), createTrack('manual')];
+    const entries = { fresh: createEntry(HOUR / 2), old: createEntry(2 * HOUR) };
+
+    const expired = getExpiredDraftIds(tracks, entries, 1, NOW);
+
+    expect(Array.from(expired)).toEqual(['old']);
+  });
+
+  it('formats entry age', () => {
+    expect(formatDraftAge(NOW - 10 * 1000, NOW)).toBe('только что');
+    expect(formatDraftAge(NOW - 5 * 60 * 1000, NOW)).toBe('5 мин назад');
+    expect(formatDraftAge(NOW - 3 * HOUR, NOW)).toBe('3 ч назад');
+    expect(formatDraftAge(NOW - 49 * HOUR, NOW)).toBe('2 дн назад');
+  });
+});
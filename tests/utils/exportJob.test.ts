@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExportJob } from '../../electron/export/exportJob';
+import type { ExportConflictPolicy } from '../../electron/export/exportTypes';
+
+describe('ExportJob', () => {
+  let dir: string;
+
+  const createJob = (policy: ExportConflictPolicy) =>
+    new ExportJob('job', policy, undefined, () => {});
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cherry-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('перезапись заменяет существующий файл без временных файлов', async () => {
+    const src = writeFile('src.mp3', 'new');
+    const dest = writeFile('dest.mp3', 'old');
+
+    const result = await createJob('overwrite').copyFile(src, dest);
+
+    expect(result).toEqual({ destPath: dest, skipped: false });
+    expect(fs.readFileSync(dest, 'utf8')).toBe('new');
+    expect(fs.readdirSync(dir).sort()).toEqual(['dest.mp3', 'src.mp3']);
+  });
+
+  it('ошибка копирования при перезаписи не удаляет существующий файл', async () => {
+    // Directory passes the access check but cannot be read as a file
+    const src = path.join(dir, 'src.mp3');
+    fs.mkdirSync(src);
+    const dest = writeFile('dest.mp3', 'old');
+
+    await expect(createJob('overwrite').copyFile(src, dest)).rejects.toThrow();
+
+    expect(fs.readFileSync(dest, 'utf8')).toBe('old');
+    expect(fs.readdirSync(dir).sort()).toEqual(['dest.mp3', 'src.mp3']);
+  });
+
+  it('кодировщик пишет во временный файл с тем же расширением', async () => {
+    const src = writeFile('src.flac', 'source');
+    const dest = writeFile('dest.mp3', 'old');
+    const outputs: string[] = [];
+
+    await createJob('overwrite').encodeFile(src, dest, async (output) => {
+      outputs.push(output);
+      fs.writeFileSync(output, 'encoded');
+    });
+
+    expect(outputs[0]).not.toBe(dest);
+    expect(path.extname(outputs[0])).toBe('.mp3');
+    expect(fs.readFileSync(dest, 'utf8')).toBe('encoded');
+    expect(fs.existsSync(outputs[0])).toBe(false);
+  });
+
+  it('ошибка кодирования при перезаписи сохраняет существующий файл', async () => {
+    const src = writeFile('src.flac', 'source');
+    const dest = writeFile('dest.mp3', 'old');
+
+    await expect(
+      createJob('overwrite').encodeFile(src, dest, async (output) => {
+        fs.writeFileSync(output, 'partial');
+        throw new Error('Invalid data found');
+      }),
+    ).rejects.toThrow('Invalid data found');
+
+    expect(fs.readFileSync(dest, 'utf8')).toBe('old');
+    expect(fs.readdirSync(dir).sort()).toEqual(['dest.mp3', 'src.flac']);
+  });
+
+  it.each<ExportConflictPolicy>(['overwrite', 'skip', 'skipIfIdentical', 'rename'])(
+    'файл, уже записанный этим заданием, не перезаписывается (%s)',
+    async (policy) => {
+      const first = writeFile('a.flac', 'first');
+      const second = writeFile('a.wav', 'second');
+      const dest = path.join(dir, 'out', 'a.mp3');
+      const job = createJob(policy);
+
+      await job.copyFile(first, dest);
+      const result = await job.copyFile(second, dest);
+
+      expect(result).toEqual({ destPath: path.join(dir, 'out', 'a (1).mp3'), skipped: false });
+      expect(fs.readFileSync(dest, 'utf8')).toBe('first');
+      expect(fs.readFileSync(result.destPath, 'utf8')).toBe('second');
+    },
+  );
+});
@@ -0,0 +1,51 @@
+import type { ExportProgress } from '../../src/core/types/export';
+import {
+  formatExportProgress,
+  getExportProgressFraction,
+  getExportResultNotification,
+} from '../../src/shared/utils/exportJobUtils';
+
+const progress = (overrides: Partial<ExportProgress>): ExportProgress => ({
+  jobId: 'job',
+  filesDone: 0,
+  filesTotal: 4,
+  bytesDone: 0,
+  bytesTotal: 0,
+  ...overrides,
+});
+
+describe('exportJobUtils', () => {
+  it('measures progress by bytes when files are copied and by files otherwise', () => {
+    expect(
+      getExportProgressFraction(progress({ filesDone: 1, bytesDone: 75, bytesTotal: 100 })),
+    ).toBe(0.75);
+    expect(getExportProgressFraction(progress({ filesDone: 1 }))).toBe(0.25);
+    expect(getExportProgressFraction(progress({ filesTotal: 0 }))).toBe(0);
+    expect(getExportProgressFraction(progress({ bytesDone: 150, bytesTotal: 100 }))).toBe(1);
+  });
+
+  it('formats files and megabytes', () => {
+    expect(formatExportProgress(progress({ filesDone: 2 }))).toBe('2 из 4 файлов');
+    expect(
+      formatExportProgress(
+        progress({ filesDone: 2, bytesDone: 1024 * 1024, bytesTotal: 3 * 1024 * 1024 }),
+      ),
+    ).toBe('2 из 4 файлов, 1.0 из 3.0 МБ');
+  });
+
+  it('builds notification from export result', () => {
+    expect(getExportResultNotification({ successful: ['a'], failed: [] })).toEqual({
+      type: 'success',
+      message: 'Экспорт завершён',
+    });
+    expect(
+      getExportResultNotification({ successful: ['a'], failed: [], skipped: ['b', 'c'] }),
+    ).toEqual({ type: 'success', message: 'Экспорт завершён. Экспортировано: 1, пропущено: 2' });
+    expect(
+      getExportResultNotification({ successful: [], failed: [{ path: 'a', error: 'ENOENT' }] }),
+    ).toEqual({ type: 'warning', message: 'Экспортировано: 0, ошибок: 1' });
+    expect(getExportResultNotification({ successful: ['a'], failed: [], cancelled: true })).toEqual(
+      { type: 'info', message: 'Экспорт отменён. Экспортировано: 1' },
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import type { ExportOptionDefinition } from '../../src/core/types/export';
+import { resolveExportOptionValues } from '../../src/shared/utils/exportOptionsUtils';
+
+const definitions: ExportOptionDefinition[] = [
+  { key: 'header', label: 'Header', type: 'boolean', default: true },
+  { key: 'title', label: 'Title', type: 'string', default: 'Playlist' },
+  {
+    key: 'separator',
+    label: 'Separator',
+    type: 'select',
+    default: ';',
+    choices: [
+      { value: ';', label: 'Semicolon' },
+      { value: ',', label: 'Comma' },
+    ],
+  },
+];
+
+describe('exportOptionsUtils', () => {
+  it('fills defaults for missing options', () => {
+    expect(resolveExportOptionValues(definitions)).toEqual({
+      header: true,
+      title: 'Playlist',
+      separator: ';',
+    });
+  });
+
+  it('keeps saved values that match the schema and drops the rest', () => {
+    expect(
+      resolveExportOptionValues(definitions, {
+        header: false,
+        title: '',
+        separator: ',',
+        removed: true,
+      }),
+    ).toEqual({ header: false, title: '', separator: ',' });
+
+    expect(
+      resolveExportOptionValues(definitions, { header: 'yes', title: false, separator: '|' }),
+    ).toEqual({ header: true, title: 'Playlist', separator: ';' });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+type LibraryIndexModule = typeof import('../../electron/library/libraryIndex');
+
+const mockUserDataDir = { path: '' };
+const mockUnreadableDirs = new Set<string>();
+const mockParseFile = jest.fn();
+
+jest.mock('electron', () => ({
+  app: { getPath: () => mockUserDataDir.path },
+}));
+
+// ESM-only package: jest cannot resolve it, the mock replaces it entirely
+jest.mock('music-metadata', () => ({ parseFile: (filePath: string) => mockParseFile(filePath) }), {
+  virtual: true,
+});
+
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual<typeof import('fs/promises')>('fs/promises');
+  return {
+    ...actual,
+    readdir: (dirPath: string, ...args: unknown[]) => {
+      if (mockUnreadableDirs.has(dirPath)) {
+        return Promise.reject(Object.assign(new Error('EACCES'), { code: 'EACCES' }));
+      }
+      return (actual.readdir as (...params: unknown[]) => Promise<unknown>)(dirPath, ...args);
+    },
+  };
+});
+
+describe('libraryIndex', () => {
+  let dir: string;
+  let root: string;
+  let library: LibraryIndexModule;
+
+  const writeTrack = (relativePath: string, content = 'audio') => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const indexedNames = async () => {
+    const { tracks } = await library.queryLibrary({ limit: 100 });
+    return tracks.map((track) => path.basename(track.path)).sort();
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cherry-library-'));
+    root = path.join(dir, 'music');
+    fs.mkdirSync(root);
+    mockUserDataDir.path = path.join(dir, 'userData');
+    mockUnreadableDirs.clear();
+    mockParseFile.mockReset();
+    mockParseFile.mockResolvedValue({ common: { title: 'Title' }, format: { duration: 60 } });
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.resetModules();
+    library = await import('../../electron/library/libraryIndex');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('повторное сканирование не перечитывает неизменённые файлы', async () => {
+    writeTrack('a.mp3');
+    const changedPath = writeTrack('b.mp3');
+    await library.addLibraryRoot(root);
+
+    const first = await library.scanLibrary();
+    expect(first).toMatchObject({ added: 2, updated: 0, unchanged: 0, total: 2 });
+
+    fs.writeFileSync(changedPath, 'longer audio');
+    mockParseFile.mockClear();
+    const second = await library.scanLibrary();
+
+    expect(second).toMatchObject({ added: 0, updated: 1, unchanged: 1, removed: 0 });
+    expect(mockParseFile).toHaveBeenCalledTimes(1);
+    expect(mockParseFile).toHaveBeenCalledWith(changedPath);
+  });
+
+  it('удаляет из индекса исчезнувшие файлы', async () => {
+    const removedPath = writeTrack('a.mp3');
+    writeTrack('b.mp3');
+    await library.addLibraryRoot(root);
+    await library.scanLibrary();
+
+    fs.rmSync(removedPath);
+    const result = await library.scanLibrary();
+
+    expect(result).toMatchObject({ removed: 1, total: 1 });
+    expect(await indexedNames()).toEqual(['b.mp3']);
+  });
+
+  it('сохраняет записи папки, которую не удалось прочитать', async () => {
+    writeTrack('a.mp3');
+    writeTrack(path.join('disc', 'b.mp3'));
+    await library.addLibraryRoot(root);
+    await library.scanLibrary();
+
+    mockUnreadableDirs.add(path.join(root, 'disc'));
+    const result = await library.scanLibrary();
+
+    expect(result.removed).toBe(0);
+    expect(result.failed.map((failure) => failure.path)).toEqual([path.join(root, 'disc')]);
+    expect(await indexedNames()).toEqual(['a.mp3', 'b.mp3']);
+  });
+
+  it('недоступный корень не очищает его записи', async () => {
+    writeTrack('a.mp3');
+    await library.addLibraryRoot(root);
+    await library.scanLibrary();
+
+    mockUnreadableDirs.add(root);
+    const result = await library.scanLibrary();
+
+    expect(result.removed).toBe(0);
+    expect(await indexedNames()).toEqual(['a.mp3']);
+  });
+
+  it('ошибка чтения тегов попадает в failed, остальные файлы индексируются', async () => {
+    const brokenPath = writeTrack('broken.mp3');
+    writeTrack('good.mp3');
+    mockParseFile.mockImplementation((filePath: string) =>
+      filePath === brokenPath
+        ? Promise.reject(new Error('Bad header'))
+        : Promise.resolve({ common: {}, format: { duration: 60 } }),
+    );
+    await library.addLibraryRoot(root);
+
+    const result = await library.scanLibrary();
+
+    expect(result.added).toBe(1);
+    expect(result.failed).toEqual([{ path: brokenPath, error: 'Bad header' }]);
+    expect(await indexedNames()).toEqual(['good.mp3']);
+  });
+
+  it('одновременные сканирования разных корней сканируют каждый свой корень', async () => {
+    const otherRoot = path.join(dir, 'other');
+    fs.mkdirSync(otherRoot);
+    fs.writeFileSync(path.join(otherRoot, 'c.mp3'), 'audio');
+    writeTrack('a.mp3');
+    await library.addLibraryRoot(root);
+    await library.addLibraryRoot(otherRoot);
+
+    const [first, second, repeated] = await Promise.all([
+      library.scanLibrary(root),
+      library.scanLibrary(otherRoot),
+      library.scanLibrary(otherRoot),
+    ]);
+
+    expect(first.added).toBe(1);
+    expect(second.added).toBe(1);
+    expect(repeated).toBe(second);
+    expect(await indexedNames()).toEqual(['a.mp3', 'c.mp3']);
+  });
+
+  it('удаление корня во время сканирования не оставляет его записей', async () => {
+    writeTrack('a.mp3');
+    writeTrack('b.mp3');
+    await library.addLibraryRoot(root);
+
+    const [, remainingRoots] = await Promise.all([
+      library.scanLibrary(),
+      library.removeLibraryRoot(root),
+    ]);
+
+    expect(remainingRoots).toEqual([]);
+    expect(await indexedNames()).toEqual([]);
+  });
+});
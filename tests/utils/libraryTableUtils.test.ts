@@ -0,0 +1,58 @@
+import type { LibraryTrack } from '../../src/core/types/library';
+import {
+  EMPTY_LIBRARY_FILTER,
+  filterLibraryTracks,
+  getVisibleRange,
+  sortLibraryTracks,
+} from '../../src/workspaces/database/libraryTableUtils';
+
+const createTrack = (name: string, overrides: Partial<LibraryTrack> = {}): LibraryTrack => ({
+  path: `D:/Music/${name}.mp3`,
+  name,
+  root: 'D:/Music',
+  size: 1000,
+  mtime: 1,
+  ...overrides,
+});
+
+const tracks: LibraryTrack[] = [
+  createTrack('a', { artist: 'Moby', title: 'Porcelain', genre: 'Electronic', bpm: 96 }),
+  createTrack('b', { artist: 'Air', title: 'La Femme', genre: 'electronic', bpm: 120 }),
+  createTrack('c', { artist: 'Beck', genre: 'Rock' }),
+];
+
+describe('libraryTableUtils', () => {
+  it('filters by search, genre (case-insensitive) and BPM range', () => {
+    expect(filterLibraryTracks(tracks, { ...EMPTY_LIBRARY_FILTER, search: 'porc' })).toHaveLength(
+      1,
+    );
+    expect(
+      filterLibraryTracks(tracks, { ...EMPTY_LIBRARY_FILTER, genre: 'Electronic' }),
+    ).toHaveLength(2);
+
+    const byBpm = filterLibraryTracks(tracks, {
+      ...EMPTY_LIBRARY_FILTER,
+      bpmMin: 100,
+      bpmMax: 130,
+    });
+    expect(byBpm.map((track) => track.name)).toEqual(['b']);
+  });
+
+  it('sorts in both directions and keeps missing values last', () => {
+    const asc = sortLibraryTracks(tracks, 'bpm', 'asc');
+    expect(asc.map((track) => track.name)).toEqual(['a', 'b', 'c']);
+
+    const desc = sortLibraryTracks(tracks, 'bpm', 'desc');
+    expect(desc.map((track) => track.name)).toEqual(['b', 'a', 'c']);
+
+    // Без тега title используется имя файла
+    const byTitle = sortLibraryTracks(tracks, 'title', 'asc');
+    expect(byTitle.map((track) => track.name)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('computes visible row range with overscan', () => {
+    expect(getVisibleRange(0, 100, 20, 1000, 2)).toEqual({ start: 0, end: 7 });
+    expect(getVisibleRange(400, 100, 20, 1000, 2)).toEqual({ start: 18, end: 27 });
+    expect(getVisibleRange(19900, 100, 20, 1000, 2)).toEqual({ start: 993, end: 1000 });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import { LoudnessMeter } from '../../electron/analysis/loudnessMeter';
+
+const SAMPLE_RATE = 48000;
+const CHUNK_FRAMES = 4096;
+
+/**
+ * Sine wave of the given amplitude
+ */
+const sine = (seconds: number, amplitude: number, frequency = 1000) =>
+  Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, frame) => amplitude * Math.sin((2 * Math.PI * frequency * frame) / SAMPLE_RATE),
+  );
+
+/**
+ * Measures channels pushed in fixed-size chunks
+ */
+function measure(channels: Float32Array[]) {
+  const meter = new LoudnessMeter(SAMPLE_RATE, channels.length);
+  for (let offset = 0; offset < channels[0].length; offset += CHUNK_FRAMES) {
+    meter.push(channels.map((samples) => samples.subarray(offset, offset + CHUNK_FRAMES)));
+  }
+  return meter.getResult();
+}
+
+describe('LoudnessMeter', () => {
+  it('синус 1 кГц -20 dBFS в одном канале - около -23 LUFS', () => {
+    const result = measure([sine(5, 0.1)]);
+
+    expect(result.integratedLufs).toBeCloseTo(-23, 1);
+    expect(result.peak).toBeCloseTo(0.1, 3);
+  });
+
+  it('одинаковый сигнал в двух каналах громче на 3 LU', () => {
+    const samples = sine(5, 0.1);
+
+    const result = measure([samples, samples]);
+
+    expect(result.integratedLufs).toBeCloseTo(-20, 1);
+  });
+
+  it('тихая часть ниже относительного порога не снижает громкость', () => {
+    const samples = new Float32Array([...sine(5, 0.1), ...sine(5, 0.01)]);
+
+    const result = measure([samples]);
+
+    // Without gating the mean would be about -26 LUFS; blocks on the boundary pass the gate
+    expect(result.integratedLufs).toBeCloseTo(-23, 0);
+  });
+
+  it('тишина и сигнал ниже абсолютного порога (-70 LUFS) - null', () => {
+    expect(measure([new Float32Array(SAMPLE_RATE * 2)]).integratedLufs).toBeNull();
+
+    // About -83 LUFS
+    const quiet = measure([sine(2, 0.0001)]);
+    expect(quiet.integratedLufs).toBeNull();
+    expect(quiet.peak).toBeCloseTo(0.0001, 6);
+  });
+});
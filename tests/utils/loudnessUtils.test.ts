@@ -0,0 +1,41 @@
+import {
+  calculateNormalizationGainDb,
+  dbToGain,
+  getNormalizationGainDb,
+} from '../../src/shared/utils/loudnessUtils';
+
+describe('loudnessUtils', () => {
+  it('calculates gain towards target loudness limited by track peak', () => {
+    const quietTrack = { integratedLufs: -20, peak: 0.25, source: 'analysis' as const };
+    const peakyTrack = { integratedLufs: -20, peak: 0.9, source: 'replaygain' as const };
+
+    expect(calculateNormalizationGainDb(quietTrack, -14)).toBeCloseTo(6);
+    // Boost is limited so that the peak stays below 0 dBFS
+    expect(calculateNormalizationGainDb(peakyTrack, -14)).toBeCloseTo(-20 * Math.log10(0.9));
+    expect(calculateNormalizationGainDb({ ...quietTrack, integratedLufs: -8 }, -14)).toBeCloseTo(
+      -6,
+    );
+  });
+
+  it('keeps unknown tracks unchanged and clamps extreme gain', () => {
+    const unknown = { integratedLufs: null, peak: null, source: 'unavailable' as const };
+    const silent = { integratedLufs: -60, peak: null, source: 'replaygain' as const };
+
+    expect(calculateNormalizationGainDb(unknown, -14)).toBe(0);
+    expect(calculateNormalizationGainDb(null, -14)).toBe(0);
+    expect(calculateNormalizationGainDb(silent, -14)).toBe(12);
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(-20)).toBeCloseTo(0.1);
+  });
+
+  it('returns zero gain when normalization is disabled', () => {
+    const track = { integratedLufs: -20, peak: 0.25, source: 'analysis' as const };
+
+    expect(
+      getNormalizationGainDb(track, { loudnessNormalization: false, targetLoudness: -14 }),
+    ).toBe(0);
+    expect(
+      getNormalizationGainDb(track, { loudnessNormalization: true, targetLoudness: -16 }),
+    ).toBeCloseTo(4);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { MixWriter, type PcmSink } from '../../electron/export/mixRender';
+
+jest.mock('electron', () => ({
+  app: { getPath: () => '' },
+}));
+
+const SAMPLE_RATE = 44100;
+const LEVEL = 1000;
+
+/**
+ * Stereo 16-bit frames with the same value in both channels
+ */
+const frames = (count: number, value: number) => {
+  const buffer = Buffer.alloc(count * 4);
+  for (let frame = 0; frame < count; frame++) {
+    buffer.writeInt16LE(value, frame * 4);
+    buffer.writeInt16LE(value, frame * 4 + 2);
+  }
+  return buffer;
+};
+
+/**
+ * Sink collecting left channel samples of the mix
+ */
+function createSink() {
+  const samples: number[] = [];
+  const sink: PcmSink = {
+    write: async (chunk) => {
+      for (let offset = 0; offset < chunk.length; offset += 4) {
+        samples.push(chunk.readInt16LE(offset));
+      }
+    },
+    close: async () => {},
+    abort: async () => {},
+  };
+  return { sink, samples };
+}
+
+const fadeOut = (frame: number, length: number) =>
+  Math.round(LEVEL * Math.cos((frame / length) * (Math.PI / 2)));
+
+describe('MixWriter', () => {
+  it('кроссфейд: хвост затухает, следующий трек нарастает', async () => {
+    const { sink, samples } = createSink();
+    const writer = new MixWriter(sink, () => {});
+
+    expect(writer.beginTrack(0, 40)).toBe(0);
+    await writer.write(frames(100, LEVEL));
+    writer.endTrack();
+    expect(writer.beginTrack(40, 0)).toBe(60 / SAMPLE_RATE);
+    await writer.write(frames(60, 0));
+    writer.endTrack();
+    await writer.finish();
+
+    expect(samples).toHaveLength(120);
+    expect(samples.slice(0, 60).every((value) => value === LEVEL)).toBe(true);
+    expect(samples[80]).toBe(fadeOut(20, 40));
+    expect(samples.slice(100)).toEqual(new Array(20).fill(0));
+  });
+
+  it('трек короче кроссфейда: хвост предыдущего дозатухает и не теряется', async () => {
+    const { sink, samples } = createSink();
+    const writer = new MixWriter(sink, () => {});
+
+    writer.beginTrack(0, 40);
+    await writer.write(frames(100, LEVEL));
+    writer.endTrack();
+    writer.beginTrack(40, 0);
+    await writer.write(frames(10, 0));
+    writer.endTrack();
+    await writer.writeSilence(20 / SAMPLE_RATE);
+    await writer.finish();
+
+    // Tail of the first track, then the pause
+    expect(samples).toHaveLength(120);
+    expect(samples[65]).toBe(fadeOut(5, 40));
+    expect(samples[90]).toBe(fadeOut(30, 40));
+    expect(samples.slice(100)).toEqual(new Array(20).fill(0));
+  });
+
+  it('пауза между треками без кроссфейда', async () => {
+    const { sink, samples } = createSink();
+    const writer = new MixWriter(sink, () => {});
+
+    writer.beginTrack(0, 40);
+    await writer.write(frames(100, LEVEL));
+    writer.endTrack();
+    await writer.writeSilence(20 / SAMPLE_RATE);
+    expect(writer.beginTrack(0, 0)).toBe(120 / SAMPLE_RATE);
+    await writer.write(frames(10, 500));
+    writer.endTrack();
+    await writer.finish();
+
+    expect(samples).toEqual([
+      ...new Array(100).fill(LEVEL),
+      ...new Array(20).fill(0),
+      ...new Array(10).fill(500),
+    ]);
+  });
+
+  it('трек, который не удалось декодировать, не затрагивает хвост предыдущего', async () => {
+    const { sink, samples } = createSink();
+    const writer = new MixWriter(sink, () => {});
+
+    writer.beginTrack(0, 40);
+    await writer.write(frames(100, LEVEL));
+    writer.endTrack();
+    // Decoder failed before producing any audio
+    writer.beginTrack(40, 40);
+    writer.endTrack();
+    expect(writer.beginTrack(40, 0)).toBe(60 / SAMPLE_RATE);
+    await writer.write(frames(60, 0));
+    writer.endTrack();
+    await writer.finish();
+
+    expect(samples).toHaveLength(120);
+    expect(samples[60]).toBe(LEVEL);
+    expect(samples[80]).toBe(fadeOut(20, 40));
+  });
+
+  it('трек, оборвавшийся при декодировании, остаётся в миксе', async () => {
+    const { sink, samples } = createSink();
+    const writer = new MixWriter(sink, () => {});
+
+    writer.beginTrack(0, 0);
+    expect(writer.hasTrackAudio).toBe(false);
+    await writer.write(frames(30, 500));
+    // Decoder failed after the first chunk
+    writer.endTrack();
+    expect(writer.hasTrackAudio).toBe(true);
+    expect(writer.beginTrack(0, 0)).toBe(30 / SAMPLE_RATE);
+    expect(writer.hasTrackAudio).toBe(false);
+    await writer.write(frames(10, LEVEL));
+    writer.endTrack();
+    await writer.finish();
+
+    expect(samples).toEqual([...new Array(30).fill(500), ...new Array(10).fill(LEVEL)]);
+  });
+});
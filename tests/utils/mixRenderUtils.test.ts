@@ -0,0 +1,94 @@
+import type { Track } from '../../src/core/types/track';
+import { buildMixSegments, type MixTrackSettings } from '../../src/shared/utils/mixRenderUtils';
+
+const createTrack = (id: string, duration?: number): Track => ({
+  id,
+  path: `D:/Music/${id}.mp3`,
+  name: `${id}.mp3`,
+  duration,
+});
+
+const baseSettings: MixTrackSettings = {
+  actionAfterTrack: 'next',
+  pauseBetweenTracks: 2,
+  crossfadeDuration: 5,
+  cuePoints: { startOffset: 0, endOffset: 0, fadeIn: 0, fadeOut: 0 },
+  playback: { rate: 1, preservePitch: true },
+};
+
+const build = (
+  tracks: Track[],
+  settings: Record<string, Partial<MixTrackSettings>> = {},
+  disabled: string[] = [],
+) =>
+  buildMixSegments(
+    tracks,
+    (track) => ({ ...baseSettings, ...settings[track.id] }),
+    (trackId) => disabled.includes(trackId),
+  );
+
+describe('mixRenderUtils', () => {
+  describe('buildMixSegments', () => {
+    it('пропускает отключённые треки', () => {
+      const segments = build(
+        [createTrack('a', 100), createTrack('b', 100), createTrack('c', 100)],
+        {},
+        ['b'],
+      );
+      expect(segments.map((segment) => segment.title)).toEqual(['a.mp3', 'c.mp3']);
+    });
+
+    it('переносит точки входа/выхода и фейды трека', () => {
+      const [segment] = build([createTrack('a', 100)], {
+        a: { cuePoints: { startOffset: 5, endOffset: 10, fadeIn: 2, fadeOut: 3 } },
+      });
+      expect(segment).toMatchObject({ start: 5, end: 90, fadeIn: 2, fadeOut: 3 });
+    });
+
+    it('без длительности трек рендерится до конца файла', () => {
+      const [segment] = build([createTrack('a')], {
+        a: { cuePoints: { startOffset: 5, endOffset: 10, fadeIn: 0, fadeOut: 0 } },
+      });
+      expect(segment.start).toBe(5);
+      expect(segment.end).toBeNull();
+    });
+
+    it('пауза после трека становится тишиной, кроме последнего трека', () => {
+      const segments = build([createTrack('a', 100), createTrack('b', 100)], {
+        a: { actionAfterTrack: 'pauseAndNext', pauseBetweenTracks: 4 },
+        b: { actionAfterTrack: 'pauseAndNext', pauseBetweenTracks: 4 },
+      });
+      expect(segments.map((segment) => segment.gapAfter)).toEqual([4, 0]);
+    });
+
+    it('остановка после трека в файле заменяется паузой', () => {
+      const [segment] = build([createTrack('a', 100), createTrack('b', 100)], {
+        a: { actionAfterTrack: 'pause', pauseBetweenTracks: 3 },
+      });
+      expect(segment.gapAfter).toBe(3);
+      expect(segment.crossfadeAfter).toBe(0);
+    });
+
+    it('кроссфейд ограничен длительностью следующего трека с учётом темпа', () => {
+      const segments = build([createTrack('a', 100), createTrack('b', 4.4)], {
+        a: { actionAfterTrack: 'crossfade', crossfadeDuration: 8 },
+        b: { playback: { rate: 1.1, preservePitch: true } },
+      });
+      expect(segments[0].crossfadeAfter).toBeCloseTo(4);
+      expect(segments[0].gapAfter).toBe(0);
+      expect(segments[1].rate).toBe(1.1);
+    });
+
+    it('после последнего включённого трека нет перехода', () => {
+      const segments = build(
+        [createTrack('a', 100), createTrack('b', 100)],
+        {
+          a: { actionAfterTrack: 'crossfade' },
+        },
+        ['b'],
+      );
+      expect(segments).toHaveLength(1);
+      expect(segments[0].crossfadeAfter).toBe(0);
+    });
+  });
+});
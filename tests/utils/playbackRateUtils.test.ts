@@ -0,0 +1,29 @@
+import {
+  formatTempoAdjustment,
+  getPlaybackDuration,
+  resolveTrackPlayback,
+} from '../../src/shared/utils/playbackRateUtils';
+
+describe('playbackRateUtils', () => {
+  it('resolves playback rate and pitch preservation from track settings', () => {
+    expect(resolveTrackPlayback(undefined)).toEqual({ rate: 1, preservePitch: true });
+    expect(resolveTrackPlayback({ tempo: 8, preservePitch: false })).toEqual({
+      rate: 1.08,
+      preservePitch: false,
+    });
+    // Изменение темпа ограничено диапазоном ±16%
+    expect(resolveTrackPlayback({ tempo: -40 }).rate).toBeCloseTo(0.84);
+    expect(resolveTrackPlayback({ tempo: Number.NaN }).rate).toBe(1);
+  });
+
+  it('scales duration by playback rate', () => {
+    expect(getPlaybackDuration(216, { rate: 1.08, preservePitch: true })).toBeCloseTo(200);
+    expect(getPlaybackDuration(180, { rate: 1, preservePitch: true })).toBe(180);
+  });
+
+  it('formats tempo adjustment with sign', () => {
+    expect(formatTempoAdjustment(8)).toBe('+8%');
+    expect(formatTempoAdjustment(-2.54)).toBe('-2.5%');
+    expect(formatTempoAdjustment(0)).toBe('0%');
+  });
+});
@@ -0,0 +1,92 @@
+import { PLAYER_FILE_VERSION, PlayerFileData, PlayerGroup } from '../../src/core/types/player';
+import type { Track } from '../../src/core/types/track';
+import { deserializePlayerFile, serializePlayerFile } from '../../src/shared/utils/playerFileUtils';
+
+const createTrack = (id: string, duration = 180): Track => ({
+  id,
+  path: `D:/Music/${id}.mp3`,
+  name: id,
+  duration,
+});
+
+const DEFAULT_SETTINGS: PlayerFileData['settings'] = {
+  defaultPauseBetweenTracks: 5,
+  defaultActionAfterTrack: 'pauseAndNext',
+  plannedEndTime: null,
+};
+
+describe('playerFileUtils', () => {
+  it('serializes tracks in playback order and groups by track ids', () => {
+    const nested: PlayerGroup = { id: 'g2', name: 'Nested', items: [createTrack('t3')] };
+    const group: PlayerGroup = { id: 'g1', name: 'Main', items: [createTrack('t2'), nested] };
+
+    const data = serializePlayerFile({
+      name: 'Party',
+      items: [createTrack('t1'), group, createTrack('t4')],
+      trackSettings: new Map([['t1', { actionAfterTrack: 'pause' }]]),
+      groupSettings: new Map([['g1', { pauseBetweenTracks: 10 }]]),
+      settings: DEFAULT_SETTINGS,
+      rules: [],
+    });
+
+    expect(data.version).toBe(PLAYER_FILE_VERSION);
+    expect(data.tracks.map((track) => track.id)).toEqual(['t1', 't2', 't3', 't4']);
+    expect(data.tracks[0].settings).toEqual({ actionAfterTrack: 'pause' });
+    expect(data.tracks[1].settings).toBeUndefined();
+    expect(data.groups).toEqual([
+      {
+        id: 'g1',
+        name: 'Main',
+        items: ['t2', { id: 'g2', name: 'Nested', items: ['t3'] }],
+        settings: { pauseBetweenTracks: 10 },
+      },
+    ]);
+    expect(data.settings).toEqual(DEFAULT_SETTINGS);
+    expect(data.rules).toBeUndefined();
+  });
+
+  it('restores the same structure after round trip', () => {
+    const group: PlayerGroup = {
+      id: 'g1',
+      name: 'Main',
+      items: [createTrack('t2'), createTrack('t3')],
+    };
+    const items = [createTrack('t1'), group, createTrack('t4')];
+
+    const snapshot = deserializePlayerFile(
+      serializePlayerFile({
+        name: 'Party',
+        items,
+        trackSettings: new Map([['t4', { pauseBetweenTracks: 3 }]]),
+        groupSettings: new Map([['g1', { actionAfterTrack: 'next' }]]),
+        settings: DEFAULT_SETTINGS,
+        rules: [{ id: 'r1', type: 'duplicatePaths', enabled: true }],
+      }),
+    );
+
+    expect(snapshot.name).toBe('Party');
+    expect(snapshot.items).toEqual(items);
+    expect(snapshot.trackSettings.get('t4')).toEqual({ pauseBetweenTracks: 3 });
+    expect(snapshot.groupSettings.get('g1')).toEqual({ actionAfterTrack: 'next' });
+    expect(snapshot.settings).toEqual(DEFAULT_SETTINGS);
+    expect(snapshot.rules).toEqual([{ id: 'r1', type: 'duplicatePaths', enabled: true }]);
+  });
+
+  it('drops groups without tracks and skips missing track ids', () => {
+    const snapshot = deserializePlayerFile({
+      version: PLAYER_FILE_VERSION,
+      tracks: [createTrack('t1'), createTrack('t2')],
+      groups: [
+        { id: 'empty', name: 'Empty', items: ['missing', { id: 'inner', name: null, items: [] }] },
+        { id: 'g1', name: null, items: ['t2', 'missing'], settings: { pauseBetweenTracks: 2 } },
+      ],
+      settings: DEFAULT_SETTINGS,
+    });
+
+    expect(snapshot.items).toHaveLength(2);
+    expect(snapshot.items[0]).toEqual(createTrack('t1'));
+    expect(snapshot.items[1]).toMatchObject({ id: 'g1', items: [createTrack('t2')] });
+    expect(snapshot.groupSettings.has('empty')).toBe(false);
+    expect(snapshot.groupSettings.get('g1')).toEqual({ pauseBetweenTracks: 2 });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import { importPlaylistFile } from '../../electron/playlist/playlistImport';
+
+describe('playlistImport', () => {
+  let dir: string;
+
+  const writeFile = (name: string, content: string | Buffer) => {
+    const filePath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cherry-playlist-'));
+    writeFile('music/a.mp3', '');
+    writeFile('music/b c.mp3', '');
+    writeFile('music/трек.mp3', '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('M3U', () => {
+    it('BOM удаляется, длительность берётся из #EXTINF, имя из #PLAYLIST', async () => {
+      const filePath = writeFile(
+        'list.m3u8',
+        '\uFEFF#EXTM3U\r\n#PLAYLIST:Вечер\r\n#EXTINF:125,Artist - A\r\nmusic/a.mp3\r\nmusic/b c.mp3\r\n',
+      );
+
+      const result = await importPlaylistFile(filePath, 'm3u');
+
+      expect(result.name).toBe('Вечер');
+      expect(result.tracks).toEqual([
+        { path: path.join(dir, 'music/a.mp3'), name: 'a.mp3', duration: 125 },
+        { path: path.join(dir, 'music/b c.mp3'), name: 'b c.mp3', duration: undefined },
+      ]);
+      expect(result.unresolved).toEqual([]);
+    });
+
+    it('относительные, абсолютные пути и file:// URL; потоки и отсутствующие файлы не найдены', async () => {
+      const absolute = path.join(dir, 'music/b c.mp3');
+      const filePath = writeFile(
+        'lists/list.m3u',
+        [
+          '../music/a.mp3',
+          absolute,
+          pathToFileURL(path.join(dir, 'music/трек.mp3')).href,
+          'http://radio.example/stream',
+          'missing.mp3',
+        ].join('\n'),
+      );
+
+      const result = await importPlaylistFile(filePath, 'm3u');
+
+      expect(result.name).toBe('list');
+      expect(result.tracks.map((track) => track.name)).toEqual(['a.mp3', 'b c.mp3', 'трек.mp3']);
+      expect(result.unresolved).toEqual(['http://radio.example/stream', 'missing.mp3']);
+    });
+
+    it('.m3u не в UTF-8 читается в кодировке cp1251', async () => {
+      // "music/трек.mp3" in windows-1251
+      const content = Buffer.concat([
+        Buffer.from('#EXTM3U\r\nmusic/'),
+        Buffer.from([0xf2, 0xf0, 0xe5, 0xea]),
+        Buffer.from('.mp3\r\n'),
+      ]);
+      const filePath = writeFile('legacy.m3u', content);
+
+      const result = await importPlaylistFile(filePath, 'm3u');
+
+      expect(result.tracks.map((track) => track.name)).toEqual(['трек.mp3']);
+      expect(result.unresolved).toEqual([]);
+    });
+  });
+
+  describe('PLS', () => {
+    it('записи упорядочены по номеру, NumberOfEntries и длительность -1 не мешают', async () => {
+      const filePath = writeFile(
+        'list.pls',
+        [
+          '[playlist]',
+          'NumberOfEntries=3',
+          'File2=music/b c.mp3',
+          'Length2=-1',
+          'File1=music/a.mp3',
+          'Title1=A',
+          'Length1=61',
+          'File3=music/трек.mp3',
+          'Version=2',
+        ].join('\n'),
+      );
+
+      const result = await importPlaylistFile(filePath, 'pls');
+
+      expect(result.tracks.map((track) => [track.name, track.duration])).toEqual([
+        ['a.mp3', 61],
+        ['b c.mp3', undefined],
+        ['трек.mp3', undefined],
+      ]);
+    });
+  });
+
+  describe('XSPF', () => {
+    it('location декодируется из URI, длительность в миллисекундах, название до trackList', async () => {
+      const fileUrl = pathToFileURL(path.join(dir, 'music/трек.mp3')).href;
+      const filePath = writeFile(
+        'list.xspf',
+        `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>Rock &amp; Roll</title>
+  <trackList>
+    <track><title>B</title><location>music/b%20c.mp3</location><duration>90500</duration></track>
+    <track><location>${fileUrl}</location></track>
+  </trackList>
+</playlist>`,
+      );
+
+      const result = await importPlaylistFile(filePath, 'xspf');
+
+      expect(result.name).toBe('Rock & Roll');
+      expect(result.tracks).toEqual([
+        { path: path.join(dir, 'music/b c.mp3'), name: 'b c.mp3', duration: 90.5 },
+        { path: path.join(dir, 'music/трек.mp3'), name: 'трек.mp3', duration: undefined },
+      ]);
+    });
+  });
+});
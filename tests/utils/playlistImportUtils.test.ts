@@ -0,0 +1,14 @@
+import { getPlaylistImportWarning } from '../../src/shared/utils/playlistImportUtils';
+
+describe('playlistImportUtils', () => {
+  it('lists a few unresolved entries and counts the rest', () => {
+    expect(getPlaylistImportWarning({})).toBeNull();
+    expect(getPlaylistImportWarning({ unresolved: [] })).toBeNull();
+    expect(getPlaylistImportWarning({ unresolved: ['a.mp3', 'http://radio'] })).toBe(
+      'Не найдено файлов: 2 (a.mp3, http://radio)',
+    );
+    expect(getPlaylistImportWarning({ unresolved: ['1', '2', '3', '4', '5'] })).toBe(
+      'Не найдено файлов: 5 (1, 2, 3 и ещё 2)',
+    );
+  });
+});
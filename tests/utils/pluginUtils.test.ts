@@ -0,0 +1,47 @@
+import type { PluginInfo } from '../../src/core/types/plugins';
+import {
+  getPluginExportStrategies,
+  getPluginTrackActions,
+  getPluginWorkspaceId,
+  parsePluginWorkspaceId,
+} from '../../src/shared/utils/pluginUtils';
+
+const createPlugin = (id: string, loaded: boolean): PluginInfo => ({
+  id,
+  name: id,
+  version: '1.0.0',
+  source: 'app',
+  directory: `/plugins/${id}`,
+  apiVersion: 1,
+  enabled: loaded,
+  loaded,
+  contributions: {
+    exportStrategies: [{ id: `plugin:${id}/txt`, label: 'TXT' }],
+    workspaceModules: [{ id: 'status', name: 'Status' }],
+    trackActions: [{ id: 'sum', label: 'Sum' }],
+  },
+});
+
+describe('pluginUtils', () => {
+  it('builds and parses plugin workspace ids', () => {
+    const workspaceId = getPluginWorkspaceId('example-plugin', 'status');
+
+    expect(parsePluginWorkspaceId(workspaceId)).toEqual({
+      pluginId: 'example-plugin',
+      moduleId: 'status',
+    });
+    expect(parsePluginWorkspaceId('default-playlist-workspace')).toBeNull();
+    expect(parsePluginWorkspaceId('plugin:example-plugin')).toBeNull();
+  });
+
+  it('collects contributions of loaded plugins only', () => {
+    const plugins = [createPlugin('a', true), createPlugin('b', false)];
+
+    expect(getPluginExportStrategies(plugins)).toEqual([
+      { id: 'plugin:a/txt', label: 'TXT', pluginName: 'a' },
+    ]);
+    expect(getPluginTrackActions(plugins)).toEqual([
+      { pluginId: 'a', actionId: 'sum', label: 'Sum' },
+    ]);
+  });
+});
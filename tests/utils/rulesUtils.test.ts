@@ -0,0 +1,116 @@
+import type { PlaylistRule } from '../../src/core/types/rules';
+import type { Track } from '../../src/core/types/track';
+import {
+  evaluateRules,
+  getArtistFromTrackName,
+  normalizeRules,
+} from '../../src/shared/utils/rulesUtils';
+
+const createTrack = (id: string, name: string, duration = 180, path?: string): Track => ({
+  id,
+  path: path ?? `D:/Music/${name}`,
+  name,
+  duration,
+});
+
+const violatedIds = (result: Map<string, unknown[]>) => Array.from(result.keys());
+
+describe('rulesUtils', () => {
+  it('extracts artist from "Artist - Title" track names', () => {
+    expect(getArtistFromTrackName('Moby - Porcelain.mp3')).toBe('Moby');
+    expect(getArtistFromTrackName('Porcelain.mp3')).toBeNull();
+  });
+
+  it('flags the same artist within the minimum distance', () => {
+    const tracks = [
+      createTrack('t1', 'Moby - A.mp3'),
+      createTrack('t2', 'Air - B.mp3'),
+      createTrack('t3', 'moby - C.mp3'),
+      createTrack('t4', 'Beck - D.mp3'),
+      createTrack('t5', 'Air - E.mp3'),
+    ];
+    const rules: PlaylistRule[] = [
+      { id: 'r1', type: 'sameArtistDistance', enabled: true, minDistance: 2 },
+    ];
+
+    const result = evaluateRules(tracks, rules);
+    expect(violatedIds(result)).toEqual(['t3']);
+    expect(result.get('t3')?.[0]).toMatchObject({ ruleId: 'r1', ruleType: 'sameArtistDistance' });
+  });
+
+  it('flags long tracks beyond the allowed run and duplicate paths', () => {
+    const tracks = [
+      createTrack('t1', 'A.mp3', 500),
+      createTrack('t2', 'B.mp3', 500),
+      createTrack('t3', 'C.mp3', 500),
+      createTrack('t4', 'D.mp3', 100),
+      createTrack('t5', 'A copy', 500, 'd:\\music\\A.mp3'),
+    ];
+    const rules: PlaylistRule[] = [
+      { id: 'r1', type: 'longTracksInRow', enabled: true, minDuration: 420, maxInRow: 2 },
+      { id: 'r2', type: 'duplicatePaths', enabled: true },
+    ];
+
+    const result = evaluateRules(tracks, rules);
+    expect(violatedIds(result)).toEqual(['t3', 't5']);
+    expect(result.get('t5')?.[0].ruleType).toBe('duplicatePaths');
+  });
+
+  it('uses planned end time when total duration limit is not set', () => {
+    const tracks = [createTrack('t1', 'A.mp3', 600), createTrack('t2', 'B.mp3', 600)];
+    const rules: PlaylistRule[] = [
+      { id: 'r1', type: 'totalDuration', enabled: true, maxDuration: null },
+    ];
+
+    expect(evaluateRules(tracks, rules).size).toBe(0);
+
+    const result = evaluateRules(tracks, rules, { plannedEndTime: 900_000, now: 0 });
+    expect(violatedIds(result)).toEqual(['t2']);
+
+    const disabled = evaluateRules(tracks, [{ ...rules[0], enabled: false }], {
+      plannedEndTime: 0,
+      now: 0,
+    });
+    expect(disabled.size).toBe(0);
+  });
+
+  it('checks planned end time by track end offsets when they are given', () => {
+    const tracks = [createTrack('t1', 'A.mp3', 600), createTrack('t2', 'B.mp3', 600)];
+    const rules: PlaylistRule[] = [
+      { id: 'r1', type: 'totalDuration', enabled: true, maxDuration: null },
+    ];
+    // t1 уже проиграна, t2 заканчивается через 500 с (кроссфейд и проигранная часть учтены)
+    const ends: Record<string, number | null> = { t1: null, t2: 500 };
+
+    const result = evaluateRules(tracks, rules, {
+      getTrackEnd: (track) => ends[track.id],
+      plannedEndTime: 600_000,
+      now: 0,
+    });
+    expect(result.size).toBe(0);
+
+    // Время идёт: при том же списке трек оказывается после планового окончания
+    const later = evaluateRules(tracks, rules, {
+      getTrackEnd: (track) => ends[track.id],
+      plannedEndTime: 600_000,
+      now: 200_000,
+    });
+    expect(violatedIds(later)).toEqual(['t2']);
+  });
+
+  it('normalizes serialized rules and drops invalid entries', () => {
+    const rules = normalizeRules([
+      { id: 'r1', type: 'sameArtistDistance', minDistance: 3 },
+      { id: 'r2', type: 'longTracksInRow', minDuration: -1, maxInRow: 2 },
+      { id: 'r3', type: 'unknown' },
+      { id: 'r4', type: 'totalDuration', enabled: false, maxDuration: 'x' },
+      null,
+    ]);
+
+    expect(rules).toEqual([
+      { id: 'r1', type: 'sameArtistDistance', enabled: true, minDistance: 3 },
+      { id: 'r4', type: 'totalDuration', enabled: false, maxDuration: null },
+    ]);
+    expect(normalizeRules(undefined)).toEqual([]);
+  });
+});
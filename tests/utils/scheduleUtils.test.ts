@@ -0,0 +1,89 @@
+import type { Track } from '../../src/core/types/track';
+import {
+  calculateAccumulatedDuration,
+  calculateScheduleMarkers,
+  getScheduledTrackStart,
+  type DividerCalculationContext,
+} from '../../src/workspaces/player/dividerUtils';
+import {
+  formatScheduleDrift,
+  parseScheduledTime,
+  resolveScheduledTimestamp,
+} from '../../src/workspaces/player/scheduleUtils';
+
+const createTrack = (id: string, duration: number): Track => ({
+  id,
+  path: `D:/Music/${id}.mp3`,
+  name: `${id}.mp3`,
+  duration,
+});
+
+const createContext = (
+  tracks: Track[],
+  scheduled: Record<string, number>,
+): DividerCalculationContext => ({
+  tracks,
+  activeTrackId: null,
+  currentTrackPosition: undefined,
+  mode: 'session',
+  hourDividerInterval: 3600,
+  isTrackDisabled: () => false,
+  isTrackPlayed: () => false,
+  calculateTrackDurationWithPause: (track) => track.duration || 0,
+  getScheduledBlockStart: (track) =>
+    scheduled[track.id] !== undefined
+      ? { groupId: `group-${track.id}`, scheduledTime: scheduled[track.id] }
+      : null,
+});
+
+describe('scheduleUtils', () => {
+  it('parses clock time and resolves the nearest occurrence', () => {
+    expect(parseScheduledTime('20:00')).toEqual({ hours: 20, minutes: 0 });
+    expect(parseScheduledTime('25:00')).toBeNull();
+    expect(parseScheduledTime('')).toBeNull();
+
+    const now = new Date(2024, 5, 1, 19, 30).getTime();
+    expect(resolveScheduledTimestamp('20:00', now)).toBe(new Date(2024, 5, 1, 20, 0).getTime());
+    // Мероприятие переходит через полночь: 01:00 вечером - это следующие сутки
+    expect(resolveScheduledTimestamp('01:00', now)).toBe(new Date(2024, 5, 2, 1, 0).getTime());
+  });
+
+  it('formats drift against the schedule', () => {
+    expect(formatScheduleDrift(5 * 60000)).toBe('+5 мин');
+    expect(formatScheduleDrift(-3 * 60000)).toBe('−3 мин');
+    expect(formatScheduleDrift(10000)).toBe('вовремя');
+  });
+
+  it('delays an early block until its scheduled time, but not before the previous track ends', () => {
+    const context = createContext([], { block: 10000 });
+    const block = createTrack('block', 60);
+    expect(getScheduledTrackStart(block, 4000, 0, context)).toBe(10000);
+    // Кроссфейд в ожидающий блок не выполняется
+    expect(getScheduledTrackStart(block, 9000, 5, context)).toBe(14000);
+    // Блок опаздывает - начинается сразу
+    expect(getScheduledTrackStart(block, 12000, 0, context)).toBe(12000);
+  });
+
+  it('includes waiting in accumulated duration and reports projected start of blocks', () => {
+    const now = Date.now();
+    const tracks = [createTrack('a', 100), createTrack('block', 200), createTrack('late', 50)];
+    const context = createContext(tracks, {
+      block: now + 160 * 1000,
+      late: now + 300 * 1000,
+    });
+
+    // a (100) → ожидание 60 → block (200) → late (50)
+    expect(calculateAccumulatedDuration(tracks, 0, 2, context, now)).toBe(410);
+    // Без времени начала ожидание не учитывается
+    expect(calculateAccumulatedDuration(tracks, 0, 2, context)).toBe(350);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const markers = calculateScheduleMarkers(context);
+    jest.restoreAllMocks();
+    expect(markers.get('group-block')).toEqual({
+      scheduledTime: now + 160 * 1000,
+      projectedTime: now + 100 * 1000,
+    });
+    expect(markers.get('group-late')?.projectedTime).toBe(now + 360 * 1000);
+  });
+});
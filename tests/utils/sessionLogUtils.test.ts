@@ -0,0 +1,102 @@
+import type { SessionLogEntry } from '../../src/shared/stores/playerSessionLogStore';
+import {
+  buildSessionLogRows,
+  formatSessionLogCsv,
+  formatSessionLogTime,
+} from '../../src/shared/utils/sessionLogUtils';
+
+const session = new Date(2024, 5, 1, 19, 0).getTime();
+const at = (minutes: number) => session + minutes * 60000;
+
+const start = (trackId: string, minutes: number): SessionLogEntry => ({
+  type: 'trackStart',
+  time: at(minutes),
+  sessionStartTime: session,
+  trackId,
+  trackName: `Artist ${trackId} - Song ${trackId}`,
+  trackPath: `D:/Music/${trackId}.mp3`,
+  deviceId: 'speakers',
+});
+
+const end = (
+  trackId: string,
+  minutes: number,
+  reason: SessionLogEntry['reason'],
+): SessionLogEntry => ({
+  type: 'trackEnd',
+  time: at(minutes),
+  sessionStartTime: session,
+  trackId,
+  reason,
+});
+
+describe('sessionLogUtils', () => {
+  it('builds one row per playback with status, seeks and disabled tracks', () => {
+    const rows = buildSessionLogRows([
+      { type: 'sessionStart', time: session, sessionStartTime: session },
+      start('a', 0),
+      { type: 'seek', time: at(1), sessionStartTime: session, trackId: 'a', from: 60, to: 120 },
+      end('a', 3, 'ended'),
+      {
+        type: 'trackDisabled',
+        time: at(3),
+        sessionStartTime: session,
+        trackId: 'b',
+        trackName: 'b.mp3',
+        trackPath: 'D:/Music/b.mp3',
+      },
+      start('c', 3),
+      end('c', 4, 'skipped'),
+      start('d', 4),
+      { type: 'sessionEnd', time: at(5), sessionStartTime: session },
+    ]);
+
+    expect(rows.map((row) => [row.trackId, row.status])).toEqual([
+      ['a', 'played'],
+      ['b', 'disabled'],
+      ['c', 'skipped'],
+      ['d', 'stopped'],
+    ]);
+    expect(rows[0]).toMatchObject({
+      artist: 'Artist a',
+      startedAt: at(0),
+      endedAt: at(3),
+      deviceId: 'speakers',
+      seeks: [{ time: at(1), from: 60, to: 120 }],
+    });
+    expect(rows[1].startedAt).toBeNull();
+    expect(rows[3].endedAt).toBe(at(5));
+  });
+
+  it('marks playbacks without recorded end as unfinished', () => {
+    // Приложение закрылось во время трека "a", после перезапуска начался "b"
+    const rows = buildSessionLogRows([start('a', 0), start('b', 10)]);
+    expect(rows.map((row) => [row.trackId, row.status, row.endedAt])).toEqual([
+      ['a', 'unfinished', null],
+      ['b', 'unfinished', null],
+    ]);
+  });
+
+  it('formats CSV with local times, device labels and escaped values', () => {
+    const rows = buildSessionLogRows([start('a', 0), end('a', 3, 'ended')]);
+    rows[0].trackName = 'Artist; "Live"';
+
+    const [header, line] = formatSessionLogCsv(rows, { speakers: 'Колонки' }).split('\r\n');
+    expect(header.split(';')).toHaveLength(10);
+    expect(line).toBe(
+      [
+        '2024-06-01 19:00:00',
+        '2024-06-01 19:00:00',
+        '2024-06-01 19:03:00',
+        '180',
+        'Сыграно',
+        'Artist a',
+        '"Artist; ""Live"""',
+        'D:/Music/a.mp3',
+        'Колонки',
+        '',
+      ].join(';'),
+    );
+    expect(formatSessionLogTime(null)).toBe('');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+import { SilenceDetector } from '../../electron/analysis/silenceDetector';
+
+const SAMPLE_RATE = 44100;
+const THRESHOLD_DB = -60;
+// Odd chunk size: blocks (10 ms = 441 frames) span chunk boundaries
+const CHUNK_FRAMES = 1000;
+
+const silence = (seconds: number) => new Array<number>(Math.round(seconds * SAMPLE_RATE)).fill(0);
+
+const tone = (seconds: number, amplitude: number) =>
+  Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, frame) => amplitude * Math.sin((2 * Math.PI * 440 * frame) / SAMPLE_RATE),
+  );
+
+/**
+ * Detects silence in a stereo signal; the right channel carries the given samples
+ */
+function detect(samples: number[]) {
+  const left = new Float32Array(samples.length);
+  const right = Float32Array.from(samples);
+  const detector = new SilenceDetector(SAMPLE_RATE, 2, THRESHOLD_DB);
+  for (let offset = 0; offset < samples.length; offset += CHUNK_FRAMES) {
+    detector.push([
+      left.subarray(offset, offset + CHUNK_FRAMES),
+      right.subarray(offset, offset + CHUNK_FRAMES),
+    ]);
+  }
+  return detector.getResult();
+}
+
+describe('SilenceDetector', () => {
+  it('тишина в начале и в конце измеряется с точностью до блока', () => {
+    const result = detect([...silence(1.5), ...tone(2, 0.5), ...silence(0.75)]);
+
+    expect(result.isSilent).toBe(false);
+    expect(result.duration).toBeCloseTo(4.25, 5);
+    expect(result.leadingSilence).toBeCloseTo(1.5, 2);
+    expect(result.trailingSilence).toBeCloseTo(0.75, 2);
+  });
+
+  it('сигнал ниже порога считается тишиной', () => {
+    // About -66 dB RMS
+    const result = detect([...tone(1, 0.5), ...tone(1, 0.0007), ...silence(0.5)]);
+
+    expect(result.leadingSilence).toBe(0);
+    expect(result.trailingSilence).toBeCloseTo(1.5, 2);
+  });
+
+  it('полная тишина: весь трек - ведущая тишина', () => {
+    const result = detect(silence(2));
+
+    expect(result).toEqual({
+      leadingSilence: 2,
+      trailingSilence: 0,
+      duration: 2,
+      isSilent: true,
+    });
+  });
+});
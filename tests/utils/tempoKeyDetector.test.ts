@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import { TempoKeyDetector } from '../../electron/analysis/tempoKeyDetector';
+
+const SAMPLE_RATE = 44100;
+const CHUNK_FRAMES = 8192;
+
+/**
+ * Click track: short decaying 1 kHz bursts on every beat
+ */
+function clickTrack(bpm: number, seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const beatFrames = (60 / bpm) * SAMPLE_RATE;
+  const clickFrames = Math.round(0.02 * SAMPLE_RATE);
+  for (let beat = 0; beat * beatFrames < samples.length; beat++) {
+    const start = Math.round(beat * beatFrames);
+    for (let i = 0; i < clickFrames && start + i < samples.length; i++) {
+      const decay = Math.exp(-i / (clickFrames / 4));
+      samples[start + i] = 0.8 * decay * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+const midiToFrequency = (pitch: number) => 440 * Math.pow(2, (pitch - 69) / 12);
+
+/**
+ * Sustained chord of equal-level sines
+ */
+function chord(pitches: number[], seconds: number): Float32Array {
+  const frequencies = pitches.map(midiToFrequency);
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, frame) => {
+    const time = frame / SAMPLE_RATE;
+    return frequencies.reduce(
+      (sum, frequency) => sum + (0.25 * Math.sin(2 * Math.PI * frequency * time)) / pitches.length,
+      0,
+    );
+  });
+}
+
+function estimate(samples: Float32Array) {
+  const detector = new TempoKeyDetector(SAMPLE_RATE, 1);
+  for (let offset = 0; offset < samples.length; offset += CHUNK_FRAMES) {
+    detector.push([samples.subarray(offset, offset + CHUNK_FRAMES)]);
+  }
+  return detector.getResult();
+}
+
+describe('TempoKeyDetector', () => {
+  it('клик-трек 120 BPM', () => {
+    const { bpm } = estimate(clickTrack(120, 20));
+
+    expect(bpm).not.toBeNull();
+    expect(Math.abs((bpm ?? 0) - 120)).toBeLessThanOrEqual(1);
+  });
+
+  it('сигнал короче 10 секунд - темп не определяется', () => {
+    expect(estimate(clickTrack(120, 5)).bpm).toBeNull();
+  });
+
+  it('трезвучие до мажор (C4 E4 G4) - тональность C', () => {
+    expect(estimate(chord([60, 64, 67], 5)).key).toBe('C');
+  });
+
+  it('трезвучие ля минор (A3 C4 E4) - тональность Am', () => {
+    expect(estimate(chord([57, 60, 64], 5)).key).toBe('Am');
+  });
+
+  it('тишина - ни темпа, ни тональности', () => {
+    expect(estimate(new Float32Array(SAMPLE_RATE * 12))).toEqual({ bpm: null, key: null });
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  formatMusicalKey,
+  formatTempo,
+  getCamelotKey,
+  getMusicalKeyOrder,
+  parseMusicalKey,
+} from '../../src/shared/utils/tempoKeyUtils';
+
+describe('tempoKeyUtils', () => {
+  it('parses note names, flats and Camelot codes', () => {
+    expect(parseMusicalKey('Am')).toEqual({ tonic: 9, isMinor: true });
+    expect(parseMusicalKey('Bbm')).toEqual({ tonic: 10, isMinor: true });
+    expect(parseMusicalKey('F# major')).toEqual({ tonic: 6, isMinor: false });
+    expect(parseMusicalKey('8A')).toEqual({ tonic: 9, isMinor: true });
+    expect(parseMusicalKey('1B')).toEqual({ tonic: 11, isMinor: false });
+    expect(parseMusicalKey('unknown')).toBeNull();
+    expect(parseMusicalKey(undefined)).toBeNull();
+  });
+
+  it('maps keys to the Camelot wheel', () => {
+    expect(getCamelotKey('C')).toBe('8B');
+    expect(getCamelotKey('Am')).toBe('8A');
+    expect(getCamelotKey('E')).toBe('12B');
+    expect(getCamelotKey('Abm')).toBe('1A');
+    expect(getMusicalKeyOrder('1A')).toBeLessThan(getMusicalKeyOrder('1B')!);
+    expect(getMusicalKeyOrder('1B')).toBeLessThan(getMusicalKeyOrder('2A')!);
+  });
+
+  it('formats key and tempo for list columns', () => {
+    expect(formatMusicalKey('Bbm')).toBe('A#m');
+    expect(formatMusicalKey('11B')).toBe('A');
+    expect(formatMusicalKey(' custom ')).toBe('custom');
+    expect(formatTempo(128)).toBe('128');
+    expect(formatTempo(127.46)).toBe('127.5');
+    expect(formatTempo(undefined)).toBe('');
+  });
+});
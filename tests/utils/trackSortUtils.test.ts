@@ -0,0 +1,29 @@
+import { Track } from '../../src/core/types/track';
+import { sortTracks } from '../../src/shared/utils/trackSortUtils';
+
+const tracks: Track[] = [
+  { id: '1', path: '/a.mp3', name: 'Beta', duration: 200, bpm: 128, key: 'Am' },
+  { id: '2', path: '/b.mp3', name: 'alpha', duration: 180, key: 'C' },
+  { id: '3', path: '/c.mp3', name: 'Gamma', bpm: 122, key: 'Abm' },
+  { id: '4', path: '/d.mp3', name: 'Delta', duration: 240, bpm: 174 },
+];
+
+const ids = (sorted: Track[]) => sorted.map((track) => track.id);
+
+describe('trackSortUtils', () => {
+  it('sorts by tempo and keeps tracks without value last in both directions', () => {
+    expect(ids(sortTracks(tracks, 'bpm', 'asc'))).toEqual(['3', '1', '4', '2']);
+    expect(ids(sortTracks(tracks, 'bpm', 'desc'))).toEqual(['4', '1', '3', '2']);
+    expect(ids(sortTracks(tracks, 'duration', 'asc'))).toEqual(['2', '1', '4', '3']);
+  });
+
+  it('sorts keys along the Camelot wheel', () => {
+    // Abm = 1A, Am = 8A, C = 8B
+    expect(ids(sortTracks(tracks, 'key', 'asc'))).toEqual(['3', '1', '2', '4']);
+  });
+
+  it('sorts names case-insensitively without mutating input', () => {
+    expect(ids(sortTracks(tracks, 'name', 'asc'))).toEqual(['2', '1', '4', '3']);
+    expect(ids(tracks)).toEqual(['1', '2', '3', '4']);
+  });
+});
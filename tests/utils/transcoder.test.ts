@@ -0,0 +1,238 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+type TranscoderModule = typeof import('../../electron/export/transcoder');
+type EncoderSettingsModule = typeof import('../../electron/export/encoderSettings');
+
+const mockUserDataDir = { path: '' };
+const mockSpawn = jest.fn();
+const mockExecFile = jest.fn();
+
+jest.mock('electron', () => ({
+  app: { getPath: () => mockUserDataDir.path },
+}));
+
+// Encoder runs are simulated: tests must not depend on FFmpeg being installed
+jest.mock('child_process', () => ({
+  spawn: (...args: unknown[]) => mockSpawn(...args),
+  execFile: (
+    file: string,
+    args: string[],
+    options: unknown,
+    callback: (error: Error | null, result?: { stdout: string; stderr: string }) => void,
+  ) => {
+    Promise.resolve(mockExecFile(file, args))
+      .then((stdout: string) => callback(null, { stdout, stderr: '' }))
+      .catch((error: Error) => callback(error));
+  },
+}));
+
+const ENCODERS_LIST = [
+  'Encoders:',
+  ' ------',
+  ' A....D aac                  AAC (Advanced Audio Coding)',
+  ' A....D libmp3lame           libmp3lame MP3 (MPEG audio layer 3)',
+  ' A....D pcm_s16le            PCM signed 16-bit little-endian',
+].join('\n');
+
+/**
+ * Fake encoder process: exits with the code once stdio listeners are attached
+ */
+function createProcess(code: number, stderr = '') {
+  const child = Object.assign(new EventEmitter(), { stderr: new EventEmitter() });
+  setImmediate(() => {
+    if (stderr) {
+      child.stderr.emit('data', Buffer.from(stderr));
+    }
+    child.emit('close', code);
+  });
+  return child;
+}
+
+describe('transcoder', () => {
+  let dir: string;
+  let transcoder: TranscoderModule;
+  let encoderSettings: EncoderSettingsModule;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cherry-transcoder-'));
+    mockUserDataDir.path = dir;
+    mockSpawn.mockReset();
+    mockExecFile.mockReset();
+
+    jest.resetModules();
+    transcoder = await import('../../electron/export/transcoder');
+    encoderSettings = await import('../../electron/export/encoderSettings');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('аргументы FFmpeg', () => {
+    it('битрейт передается только для сжатия с потерями', async () => {
+      const mp3 = await transcoder.getTranscodeSettings({
+        transcodeFormat: 'mp3',
+        transcodeBitrate: '192',
+      });
+      const flac = await transcoder.getTranscodeSettings({
+        transcodeFormat: 'flac',
+        transcodeBitrate: '192',
+      });
+
+      expect(transcoder.getEncoderArgs(mp3!)).toEqual(['-c:a', 'libmp3lame', '-b:a', '192k']);
+      expect(transcoder.getEncoderArgs(flac!)).toEqual(['-c:a', 'flac']);
+    });
+
+    it('без формата файлы копируются, неизвестный битрейт заменяется максимальным', async () => {
+      expect(await transcoder.getTranscodeSettings({ transcodeFormat: '' })).toBeNull();
+      expect(
+        await transcoder.getTranscodeSettings({ transcodeFormat: 'ogg', transcodeBitrate: '1' }),
+      ).toEqual({ format: 'ogg', bitrate: '320', encoderPath: 'ffmpeg' });
+    });
+
+    it('путь к FFmpeg из опций экспорта игнорируется', async () => {
+      const settings = await transcoder.getTranscodeSettings({
+        transcodeFormat: 'mp3',
+        encoderPath: '/tmp/evil',
+      });
+      expect(settings?.encoderPath).toBe('ffmpeg');
+    });
+
+    it('формат файла микса определяется расширением', async () => {
+      expect((await transcoder.getTranscodeSettingsForFile('/out/mix.M4A', {}))?.format).toBe(
+        'm4a',
+      );
+      expect(await transcoder.getTranscodeSettingsForFile('/out/mix.txt', {})).toBeNull();
+    });
+
+    it('имя файла и необходимость конвертации зависят от целевого расширения', async () => {
+      const settings = (await transcoder.getTranscodeSettings({ transcodeFormat: 'mp3' }))!;
+      expect(transcoder.getTranscodedFileName('01 - track.flac', settings)).toBe('01 - track.mp3');
+      expect(transcoder.needsTranscoding('/music/a.MP3', settings)).toBe(false);
+      expect(transcoder.needsTranscoding('/music/a.wav', settings)).toBe(true);
+    });
+
+    it('transcodeFile копирует теги и обложку MP3', async () => {
+      mockSpawn.mockImplementation(() => createProcess(0));
+      const settings = (await transcoder.getTranscodeSettings({
+        transcodeFormat: 'mp3',
+        transcodeBitrate: '256',
+      }))!;
+
+      await transcoder.transcodeFile(
+        '/in/a.flac',
+        '/out/a.mp3',
+        settings,
+        new AbortController().signal,
+      );
+
+      const [binary, args] = mockSpawn.mock.calls[0] as [string, string[]];
+      expect(binary).toBe('ffmpeg');
+      expect(args.slice(args.indexOf('-i'), args.indexOf('-i') + 2)).toEqual(['-i', '/in/a.flac']);
+      expect(args).toEqual(
+        expect.arrayContaining(['-map_metadata', '0', '-id3v2_version', '3', '-b:a', '256k']),
+      );
+      expect(args[args.length - 1]).toBe('/out/a.mp3');
+    });
+
+    it('ошибка кодирования - последняя строка stderr', async () => {
+      mockSpawn.mockImplementation(() => createProcess(1, 'Input #0\nInvalid data found\n'));
+      const settings = (await transcoder.getTranscodeSettings({ transcodeFormat: 'mp3' }))!;
+
+      await expect(
+        transcoder.transcodeFile('/in/a.wav', '/out/a.mp3', settings, new AbortController().signal),
+      ).rejects.toThrow('Invalid data found');
+    });
+  });
+
+  describe('проверка кодировщика', () => {
+    it('отсутствующий FFmpeg - понятная ошибка, повторная проверка запускает его снова', async () => {
+      mockExecFile.mockRejectedValue(
+        Object.assign(new Error('spawn ffmpeg ENOENT'), { code: 'ENOENT' }),
+      );
+
+      await expect(transcoder.ensureCodec('ffmpeg', 'libmp3lame')).rejects.toThrow(
+        'Encoder not found: ffmpeg',
+      );
+      await expect(transcoder.ensureCodec('ffmpeg', 'libmp3lame')).rejects.toThrow(
+        'Encoder not found',
+      );
+      expect(mockExecFile).toHaveBeenCalledTimes(2);
+    });
+
+    it('список кодеков запрашивается один раз', async () => {
+      mockExecFile.mockResolvedValue(ENCODERS_LIST);
+
+      await transcoder.ensureCodec('ffmpeg', 'libmp3lame');
+      await transcoder.ensureCodec('ffmpeg', 'aac');
+      await expect(transcoder.ensureCodec('ffmpeg', 'libvorbis')).rejects.toThrow(
+        'does not support encoder libvorbis',
+      );
+      expect(mockExecFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('путь к FFmpeg в настройках', () => {
+    it('несуществующий файл не сохраняется', async () => {
+      await expect(encoderSettings.setEncoderPath(path.join(dir, 'missing.exe'))).rejects.toThrow(
+        'Encoder not found',
+      );
+      expect(await encoderSettings.getEncoderPath()).toBe('ffmpeg');
+      expect(mockExecFile).not.toHaveBeenCalled();
+    });
+
+    it('файл, который не является FFmpeg, не сохраняется', async () => {
+      const binary = path.join(dir, 'tool.exe');
+      fs.writeFileSync(binary, '');
+      mockExecFile.mockResolvedValue('tool 1.0');
+
+      await expect(encoderSettings.setEncoderPath(binary)).rejects.toThrow('Not an FFmpeg binary');
+      expect(mockExecFile).toHaveBeenCalledWith(binary, ['-version']);
+      expect(await encoderSettings.getSavedEncoderPath()).toBeNull();
+    });
+
+    it('проверенный путь сохраняется между запусками и используется для конвертации', async () => {
+      const binary = path.join(dir, 'ffmpeg.exe');
+      fs.writeFileSync(binary, '');
+      mockExecFile.mockResolvedValue('ffmpeg version 6.1 Copyright (c) 2000-2023');
+
+      await encoderSettings.setEncoderPath(binary);
+
+      jest.resetModules();
+      const reloaded: TranscoderModule = await import('../../electron/export/transcoder');
+      const settings = await reloaded.getTranscodeSettings({ transcodeFormat: 'flac' });
+      expect(settings?.encoderPath).toBe(binary);
+    });
+  });
+
+  describe('runWithConcurrency', () => {
+    it('обрабатывает все элементы, не превышая лимит одновременных задач', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const processed: number[] = [];
+
+      await transcoder.runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, item % 3));
+        processed.push(item);
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+      expect(processed.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('не запускает лишних обработчиков для короткого списка', async () => {
+      const worker = jest.fn().mockResolvedValue(undefined);
+      await transcoder.runWithConcurrency(['a'], 4, worker);
+      expect(worker).toHaveBeenCalledTimes(1);
+    });
+  });
+});
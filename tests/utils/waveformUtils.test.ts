@@ -0,0 +1,23 @@
+import { getWaveformFraction, resampleWaveformPeaks } from '../../src/shared/utils/waveformUtils';
+
+describe('waveformUtils', () => {
+  it('keeps the maximum of each range when reducing peaks', () => {
+    const peaks = [0.1, 0.9, 0.2, 0.3, 0.5, 0.4, 0, 0.05];
+
+    expect(resampleWaveformPeaks(peaks, 4)).toEqual([0.9, 0.3, 0.5, 0.05]);
+    expect(resampleWaveformPeaks(peaks, 1)).toEqual([0.9]);
+    expect(resampleWaveformPeaks([], 10)).toEqual([]);
+  });
+
+  it('repeats peaks when there are more bars than peaks', () => {
+    expect(resampleWaveformPeaks([0.2, 0.8], 4)).toEqual([0.2, 0.2, 0.8, 0.8]);
+    expect(resampleWaveformPeaks([0.5], 2.7)).toEqual([0.5, 0.5]);
+  });
+
+  it('converts click offset to clamped fraction', () => {
+    expect(getWaveformFraction(50, 200)).toBe(0.25);
+    expect(getWaveformFraction(-10, 200)).toBe(0);
+    expect(getWaveformFraction(250, 200)).toBe(1);
+    expect(getWaveformFraction(10, 0)).toBe(0);
+  });
+});